@@ -12,13 +12,17 @@ import NptReportsBulk from "@/pages/npt-reports-bulk";
 import FileUpload from "@/pages/file-upload";
 import Approvals from "@/pages/approvals";
 import PendingApprovals from "@/pages/pending-approvals";
+import DelegationHistory from "@/pages/delegation-history";
+import ApproveLink from "@/pages/approve-link";
 import NptReportDetail from "@/pages/npt-report-detail";
 import Settings from "@/pages/settings";
 import Reports from "@/pages/reports";
 import MonthlyReports from "@/pages/monthly-reports";
 import MonthlyTimeline from "@/pages/monthly-timeline";
+import BillingReconciliation from "@/pages/billing-reconciliation";
 import TimeDemo from "@/pages/time-demo";
 import WorkflowsAdmin from "@/pages/admin/workflows";
+import JobsAdmin from "@/pages/admin/jobs";
 import NotFound from "@/pages/not-found";
 import { useEffect } from "react";
 
@@ -27,6 +31,8 @@ function Router() {
 
   return (
     <Switch>
+      {/* Emailed approval links work without signing in */}
+      <Route path="/approve/:token" component={ApproveLink} />
       {isLoading || !isAuthenticated ? (
         <>
           <Route path="/" component={Landing} />
@@ -41,11 +47,14 @@ function Router() {
           <Route path="/file-upload" component={FileUpload} />
           <Route path="/approvals" component={Approvals} />
           <Route path="/pending-approvals" component={PendingApprovals} />
+          <Route path="/delegation-history" component={DelegationHistory} />
           <Route path="/reports" component={Reports} />
           <Route path="/monthly-reports" component={MonthlyReports} />
           <Route path="/monthly-reports/:id/timeline" component={MonthlyTimeline} />
+          <Route path="/monthly-reports/:id/reconciliation" component={BillingReconciliation} />
           <Route path="/settings" component={Settings} />
           <Route path="/admin/workflows" component={WorkflowsAdmin} />
+          <Route path="/admin/jobs" component={JobsAdmin} />
           <Route path="/time-demo" component={TimeDemo} />
         </>
       )}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Edit, Trash2, Columns } from "lucide-react";
+import type { BillingColumnProfile } from "@shared/schema";
+import { BILLING_COLUMN_FIELDS, type BillingColumnMap } from "@shared/billingTypes";
+
+type ProfileDraft = {
+  name: string;
+  client: string;
+  sheetName: string;
+  headerRow: string;
+  columnMap: BillingColumnMap;
+};
+
+const emptyDraft: ProfileDraft = { name: "", client: "", sheetName: "", headerRow: "", columnMap: {} };
+
+type Props = {
+  profiles: BillingColumnProfile[];
+};
+
+export default function ColumnProfilesManager({ profiles }: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<ProfileDraft>(emptyDraft);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const columnMap = Object.fromEntries(
+        Object.entries(draft.columnMap).filter(([, header]) => header && header.trim() !== "")
+      );
+      const payload = {
+        name: draft.name.trim(),
+        client: draft.client.trim() || null,
+        sheetName: draft.sheetName.trim() || null,
+        headerRow: draft.headerRow ? parseInt(draft.headerRow) : null,
+        columnMap,
+      };
+      return editingId
+        ? apiRequest(`/api/billing-column-profiles/${editingId}`, { method: "PUT", data: payload })
+        : apiRequest("/api/billing-column-profiles", { method: "POST", data: payload });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/billing-column-profiles"] });
+      setDialogOpen(false);
+      toast({ title: "Success", description: "Column profile saved" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save column profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest(`/api/billing-column-profiles/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/billing-column-profiles"] });
+      toast({ title: "Success", description: "Column profile deleted" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete column profile", variant: "destructive" });
+    },
+  });
+
+  const openEditor = (profile?: BillingColumnProfile) => {
+    setEditingId(profile?.id ?? null);
+    setDraft(profile ? {
+      name: profile.name,
+      client: profile.client || "",
+      sheetName: profile.sheetName || "",
+      headerRow: profile.headerRow ? String(profile.headerRow) : "",
+      columnMap: (profile.columnMap as BillingColumnMap) || {},
+    } : emptyDraft);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Columns className="h-5 w-5" />
+          Column Mapping Profiles
+        </CardTitle>
+        <Button size="sm" onClick={() => openEditor()} data-testid="button-create-column-profile">
+          <Plus className="h-4 w-4 mr-2" />
+          New Profile
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {profiles.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">
+            No profiles yet. Without a profile, columns are matched by common header names.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {profiles.map((profile) => {
+              const columnMap = (profile.columnMap as BillingColumnMap) || {};
+              return (
+                <div key={profile.id} className="flex items-center justify-between p-3 border rounded">
+                  <div>
+                    <div className="font-medium">
+                      {profile.name}
+                      {profile.client && <Badge variant="outline" className="ml-2">{profile.client}</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {BILLING_COLUMN_FIELDS.filter(({ field }) => columnMap[field])
+                        .map(({ field, label }) => `${label} ← "${columnMap[field]}"`)
+                        .join(" · ") || "Default header names"}
+                      {profile.sheetName && ` · Sheet "${profile.sheetName}"`}
+                      {profile.headerRow && ` · Header row ${profile.headerRow}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openEditor(profile)} data-testid={`button-edit-profile-${profile.id}`}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(profile.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-profile-${profile.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Column Profile" : "New Column Profile"}</DialogTitle>
+            <DialogDescription>
+              Enter the header text this client's sheet uses for each field. Leave a field blank to use the default header names.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="profile-name">Profile Name</Label>
+                <Input
+                  id="profile-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g., PDO monthly billing"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-client">Client</Label>
+                <Input
+                  id="profile-client"
+                  value={draft.client}
+                  onChange={(e) => setDraft({ ...draft, client: e.target.value })}
+                  placeholder="e.g., PDO"
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-sheet">Sheet Name</Label>
+                <Input
+                  id="profile-sheet"
+                  value={draft.sheetName}
+                  onChange={(e) => setDraft({ ...draft, sheetName: e.target.value })}
+                  placeholder="First sheet"
+                />
+              </div>
+              <div>
+                <Label htmlFor="profile-header-row">Header Row</Label>
+                <Input
+                  id="profile-header-row"
+                  type="number"
+                  min={1}
+                  value={draft.headerRow}
+                  onChange={(e) => setDraft({ ...draft, headerRow: e.target.value })}
+                  placeholder="Auto-detect"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {BILLING_COLUMN_FIELDS.map(({ field, label }) => (
+                <div key={field}>
+                  <Label htmlFor={`profile-column-${field}`}>{label} column</Label>
+                  <Input
+                    id={`profile-column-${field}`}
+                    value={draft.columnMap[field] || ""}
+                    onChange={(e) => setDraft({ ...draft, columnMap: { ...draft.columnMap, [field]: e.target.value } })}
+                    placeholder={`Header text for ${label.toLowerCase()}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                Save Profile
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
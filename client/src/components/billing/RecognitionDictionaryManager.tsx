@@ -0,0 +1,416 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Edit, Trash2, BookOpen, Download } from "lucide-react";
+import type { RecognitionKeyword, System, Equipment } from "@shared/schema";
+import type { RecognitionCategory } from "@shared/billingTypes";
+
+const CATEGORY_LABELS: Record<RecognitionCategory, string> = {
+  rate_type: "Rate type",
+  system: "System",
+  equipment: "Equipment",
+  failure: "Failure",
+};
+
+const RATE_TYPES = [
+  { rateType: "Repair Rate", nbtType: "Abroad" },
+  { rateType: "Reduce Repair Rate", nbtType: "Abroad" },
+  { rateType: "Zero Rate", nbtType: "Abroad" },
+  { rateType: "Operation Rate", nbtType: "Contractual" },
+];
+
+type EntryDraft = {
+  category: RecognitionCategory;
+  keyword: string;
+  rateType: string;
+  systemId: string;
+  equipmentId: string;
+  label: string;
+  priority: string;
+};
+
+const emptyDraft: EntryDraft = {
+  category: "equipment",
+  keyword: "",
+  rateType: "",
+  systemId: "",
+  equipmentId: "",
+  label: "",
+  priority: "0",
+};
+
+type Props = {
+  systems: System[];
+  equipment: Equipment[];
+};
+
+export default function RecognitionDictionaryManager({ systems, equipment }: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [categoryFilter, setCategoryFilter] = useState<RecognitionCategory | "all">("all");
+  const [search, setSearch] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<EntryDraft>(emptyDraft);
+
+  const { data: entries = [] } = useQuery<RecognitionKeyword[]>({
+    queryKey: ["/api/recognition-keywords"],
+  });
+
+  const systemName = (id: number | null) => systems.find(system => system.id === id)?.name;
+  const equipmentName = (id: number | null) => equipment.find(item => item.id === id)?.name;
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/recognition-keywords"] });
+  const showError = (fallback: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const rate = RATE_TYPES.find(option => option.rateType === draft.rateType);
+      const payload = {
+        category: draft.category,
+        keyword: draft.keyword,
+        rateType: draft.category === "rate_type" ? draft.rateType || null : null,
+        nbtType: draft.category === "rate_type" ? rate?.nbtType ?? null : null,
+        systemId: draft.category === "system" && draft.systemId ? parseInt(draft.systemId) : null,
+        equipmentId: draft.category === "equipment" && draft.equipmentId ? parseInt(draft.equipmentId) : null,
+        label: draft.label.trim() || null,
+        priority: parseInt(draft.priority) || 0,
+      };
+      return editingId
+        ? apiRequest(`/api/recognition-keywords/${editingId}`, { method: "PUT", data: payload })
+        : apiRequest("/api/recognition-keywords", { method: "POST", data: payload });
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      toast({ title: "Success", description: "Keyword saved" });
+    },
+    onError: showError("Failed to save keyword"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) =>
+      apiRequest(`/api/recognition-keywords/${id}`, { method: "PUT", data: { isActive } }),
+    onSuccess: invalidate,
+    onError: showError("Failed to update keyword"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest(`/api/recognition-keywords/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Keyword deleted" });
+    },
+    onError: showError("Failed to delete keyword"),
+  });
+
+  const seedMutation = useMutation({
+    mutationFn: async () => apiRequest("/api/admin/seed-recognition-dictionary", { method: "POST" }),
+    onSuccess: (result: { inserted: number; linked: number }) => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: `Added ${result.inserted} built-in keywords (${result.linked} linked to systems or equipment)`,
+      });
+    },
+    onError: showError("Failed to load built-in keywords"),
+  });
+
+  const openEditor = (entry?: RecognitionKeyword) => {
+    setEditingId(entry?.id ?? null);
+    setDraft(entry ? {
+      category: entry.category as RecognitionCategory,
+      keyword: entry.keyword,
+      rateType: entry.rateType || "",
+      systemId: entry.systemId ? String(entry.systemId) : "",
+      equipmentId: entry.equipmentId ? String(entry.equipmentId) : "",
+      label: entry.label || "",
+      priority: String(entry.priority ?? 0),
+    } : emptyDraft);
+    setDialogOpen(true);
+  };
+
+  const resolvesTo = (entry: RecognitionKeyword) => {
+    switch (entry.category) {
+      case "rate_type":
+        return `${entry.rateType} (${entry.nbtType})`;
+      case "system":
+        return systemName(entry.systemId) || entry.label;
+      case "equipment": {
+        const linked = equipment.find(item => item.id === entry.equipmentId);
+        const name = linked?.name || entry.label;
+        const system = systemName(linked?.systemId ?? null);
+        return system ? `${name} · ${system}` : name;
+      }
+      default:
+        return entry.label || entry.keyword;
+    }
+  };
+
+  const isLinked = (entry: RecognitionKeyword) =>
+    entry.category === "system" ? !!systemName(entry.systemId) :
+    entry.category === "equipment" ? !!equipmentName(entry.equipmentId) :
+    true;
+
+  const visible = entries.filter(entry =>
+    (categoryFilter === "all" || entry.category === categoryFilter) &&
+    (!search || entry.keyword.includes(search.toLowerCase()) || (resolvesTo(entry) || "").toLowerCase().includes(search.toLowerCase()))
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Billing Recognition Dictionary
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => seedMutation.mutate()}
+            disabled={seedMutation.isPending}
+            data-testid="button-seed-recognition"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Load Built-in Keywords
+          </Button>
+          <Button size="sm" onClick={() => openEditor()} data-testid="button-create-recognition-keyword">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Keyword
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500">
+          Billing sheet and PDF imports look for these words to set the rate type, system, equipment and failure of each row.
+          {entries.length === 0 && " The dictionary is empty, so the built-in keywords are used until you load or add your own."}
+        </p>
+
+        <div className="flex gap-2">
+          <Select value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as RecognitionCategory | "all")}>
+            <SelectTrigger className="w-44" data-testid="select-recognition-category-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search keywords"
+            className="max-w-xs"
+            data-testid="input-recognition-search"
+          />
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Keyword</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Recognised As</TableHead>
+              <TableHead>Priority</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead className="w-24"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="font-mono text-sm">{entry.keyword}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">{CATEGORY_LABELS[entry.category as RecognitionCategory] || entry.category}</Badge>
+                </TableCell>
+                <TableCell>
+                  {resolvesTo(entry)}
+                  {!isLinked(entry) && <Badge variant="secondary" className="ml-2">Not linked</Badge>}
+                </TableCell>
+                <TableCell>{entry.priority ?? 0}</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={entry.isActive !== false}
+                    onCheckedChange={(isActive) => toggleMutation.mutate({ id: entry.id, isActive })}
+                    data-testid={`switch-recognition-active-${entry.id}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openEditor(entry)} data-testid={`button-edit-recognition-${entry.id}`}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(entry.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-recognition-${entry.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {visible.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500 py-4">
+                  No keywords found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Keyword" : "Add Keyword"}</DialogTitle>
+            <DialogDescription>
+              Keywords match whole words in the billing description, ignoring case.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Category</Label>
+                <Select
+                  value={draft.category}
+                  onValueChange={(value) => setDraft({ ...draft, category: value as RecognitionCategory })}
+                >
+                  <SelectTrigger data-testid="select-recognition-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="recognition-keyword">Keyword</Label>
+                <Input
+                  id="recognition-keyword"
+                  value={draft.keyword}
+                  onChange={(e) => setDraft({ ...draft, keyword: e.target.value })}
+                  placeholder="e.g., swab change"
+                  required
+                />
+              </div>
+            </div>
+
+            {draft.category === "rate_type" && (
+              <div>
+                <Label>Rate Type</Label>
+                <Select value={draft.rateType} onValueChange={(rateType) => setDraft({ ...draft, rateType })}>
+                  <SelectTrigger data-testid="select-recognition-rate-type">
+                    <SelectValue placeholder="Select rate type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RATE_TYPES.map(({ rateType, nbtType }) => (
+                      <SelectItem key={rateType} value={rateType}>{rateType} ({nbtType})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {draft.category === "system" && (
+              <div>
+                <Label>System</Label>
+                <Select value={draft.systemId} onValueChange={(systemId) => setDraft({ ...draft, systemId })}>
+                  <SelectTrigger data-testid="select-recognition-system">
+                    <SelectValue placeholder="Select system" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {systems.map((system) => (
+                      <SelectItem key={system.id} value={String(system.id)}>{system.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {draft.category === "equipment" && (
+              <div>
+                <Label>Equipment</Label>
+                <Select value={draft.equipmentId} onValueChange={(equipmentId) => setDraft({ ...draft, equipmentId })}>
+                  <SelectTrigger data-testid="select-recognition-equipment">
+                    <SelectValue placeholder="Select equipment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {equipment.map((item) => (
+                      <SelectItem key={item.id} value={String(item.id)}>
+                        {item.name}{systemName(item.systemId) ? ` · ${systemName(item.systemId)}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="recognition-label">
+                  {draft.category === "failure" ? "Failure Wording" : "Label"}
+                </Label>
+                <Input
+                  id="recognition-label"
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  placeholder={draft.category === "failure" ? "Defaults to the keyword" : "Used when nothing is linked"}
+                />
+              </div>
+              <div>
+                <Label htmlFor="recognition-priority">Priority</Label>
+                <Input
+                  id="recognition-priority"
+                  type="number"
+                  value={draft.priority}
+                  onChange={(e) => setDraft({ ...draft, priority: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                Save Keyword
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Sparkles } from "lucide-react";
+import type { SuggestionAcceptanceReport, SuggestionField } from "@shared/billingTypes";
+
+const FIELD_LABELS: Record<SuggestionField, string> = {
+  system: "System",
+  parentEquipment: "Equipment",
+  partEquipment: "Part",
+  rootCause: "Root Cause",
+  correctiveAction: "Corrective Action",
+  futureAction: "Future Action",
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export default function SuggestionAcceptanceCard() {
+  const { data: report } = useQuery<SuggestionAcceptanceReport>({
+    queryKey: ['/api/billing-suggestions/acceptance'],
+  });
+
+  if (!report) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          Suggestion Acceptance
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {report.totalReports === 0 ? (
+          <p className="text-gray-500 text-center py-4">
+            No NPT reports have been created from billing rows yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold" data-testid="text-acceptance-overall">{percent(report.overall.acceptanceRate)}</div>
+                <div className="text-xs text-gray-500">
+                  {report.overall.accepted}/{report.overall.suggested} values kept across {report.totalReports} reports
+                </div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{percent(report.bySource.history.acceptanceRate)}</div>
+                <div className="text-xs text-gray-500">
+                  From similar approved reports ({report.bySource.history.reports})
+                </div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{percent(report.bySource.rules.acceptanceRate)}</div>
+                <div className="text-xs text-gray-500">
+                  From keyword rules ({report.bySource.rules.reports})
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {report.byField.map(({ field, suggested, accepted, acceptanceRate }) => (
+                <div key={field} className="flex items-center gap-3 text-sm">
+                  <span className="w-36">{FIELD_LABELS[field]}</span>
+                  <Progress value={acceptanceRate * 100} className="flex-1" />
+                  <span className="w-24 text-right text-gray-500">{accepted}/{suggested}</span>
+                </div>
+              ))}
+            </div>
+
+            {report.recentCorrections.length > 0 && (
+              <div>
+                <div className="text-sm font-medium mb-2">Recent corrections</div>
+                <div className="space-y-1">
+                  {report.recentCorrections.map((correction, index) => (
+                    <div key={`${correction.reportId}-${correction.field}-${index}`} className="text-xs border rounded p-2">
+                      <div className="text-gray-500 truncate" title={correction.description}>
+                        #{correction.reportId} · {correction.description}
+                      </div>
+                      <div>
+                        <Badge variant="outline" className="mr-2">{FIELD_LABELS[correction.field]}</Badge>
+                        <span className="line-through text-gray-400">{correction.suggested || '-'}</span>
+                        {' → '}
+                        <span className="text-green-700">{correction.final || '-'}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CalendarX, CheckCircle, Plus } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface MissingEntry {
+  rigId: number;
+  rigNumber: number | null;
+  date: string; // YYYY-MM-DD
+}
+
+// "2025-03-04" as a local date, so the day shown is the day meant
+const displayDate = (date: string) => format(new Date(`${date}T00:00:00`), "EEE dd MMM yyyy");
+
+// Recent rig days with nothing entered: add the NPT report or confirm there was none
+export default function MissingEntries() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<{ items: MissingEntry[] }>({
+    queryKey: ["/api/missing-entries"],
+  });
+  const items = data?.items || [];
+
+  const zeroNptMutation = useMutation({
+    mutationFn: async (entry: MissingEntry) =>
+      apiRequest(`/api/rigs/${entry.rigId}/days/${entry.date}/zero-npt`, { method: "POST" }),
+    onSuccess: (_, entry) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/missing-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/monthly-reports"] });
+      toast({ title: "Zero NPT confirmed", description: `Rig ${entry.rigNumber ?? entry.rigId}, ${displayDate(entry.date)}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (items.length === 0) return null;
+
+  return (
+    <Card data-testid="card-missing-entries">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarX className="h-5 w-5 mr-2 text-orange-500" />
+          Days Without an Entry
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {items.map(entry => (
+            <li
+              key={`${entry.rigId}-${entry.date}`}
+              className="flex items-center justify-between py-2"
+              data-testid={`row-missing-entry-${entry.rigId}-${entry.date}`}
+            >
+              <span className="text-sm">
+                <span className="font-medium">Rig {entry.rigNumber ?? entry.rigId}</span>
+                <span className="text-muted-foreground"> · {displayDate(entry.date)}</span>
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setLocation("/npt-reports")}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add NPT
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={zeroNptMutation.isPending}
+                  onClick={() => zeroNptMutation.mutate(entry)}
+                  data-testid={`button-zero-npt-${entry.rigId}-${entry.date}`}
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Zero NPT
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
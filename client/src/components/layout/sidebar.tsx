@@ -55,6 +55,12 @@ export default function Sidebar() {
       label: "Workflow Approvals",
       visible: ['tool_pusher', 'ds', 'ose', 'pme', 'admin', 'supervisor'].includes(user?.role || ''),
     },
+    {
+      href: "/delegation-history",
+      icon: "fas fa-user-friends",
+      label: "Delegation History",
+      visible: ['tool_pusher', 'ds', 'ose', 'pme', 'admin', 'supervisor'].includes(user?.role || ''),
+    },
     {
       href: "/settings",
       icon: "fas fa-cog",
@@ -66,6 +72,12 @@ export default function Sidebar() {
       label: "Workflows",
       visible: user?.role === 'admin',
     },
+    {
+      href: "/admin/jobs",
+      icon: "fas fa-stopwatch",
+      label: "Background Jobs",
+      visible: user?.role === 'admin',
+    },
   ];
 
   const handleNavigation = (href: string) => {
@@ -0,0 +1,117 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { BillingRowDuplicateCheck, DuplicateResolution } from "@shared/billingTypes";
+
+type Props = {
+  open: boolean;
+  checks: BillingRowDuplicateCheck[];
+  resolutions: Record<number, DuplicateResolution>;
+  onResolutionChange: (rowIndex: number, resolution: DuplicateResolution) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+};
+
+export default function DuplicateResolutionDialog({
+  open,
+  checks,
+  resolutions,
+  onResolutionChange,
+  onConfirm,
+  onCancel,
+  isSubmitting = false,
+}: Props) {
+  const duplicates = checks.filter(check => check.status !== "new");
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicate NPT Reports</DialogTitle>
+          <DialogDescription>
+            {duplicates.length} of {checks.length} row(s) match NPT reports that already exist for the same rig and day,
+            or repeat an earlier row of this upload. Choose what to do with each one before the reports are created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="border border-gray-300 p-2 text-left text-xs">Row</th>
+                <th className="border border-gray-300 p-2 text-left text-xs">Match</th>
+                <th className="border border-gray-300 p-2 text-left text-xs">Existing Report</th>
+                <th className="border border-gray-300 p-2 text-left text-xs">Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {duplicates.map((check) => {
+                const match = check.matches[0];
+                return (
+                  <tr key={check.rowIndex}>
+                    <td className="border border-gray-300 p-2 font-medium">{check.rowIndex + 1}</td>
+                    <td className="border border-gray-300 p-2">
+                      <Badge variant={check.status === "exact_duplicate" ? "destructive" : "secondary"}>
+                        {check.status === "exact_duplicate" ? "Exact duplicate" : "Probable duplicate"}
+                      </Badge>
+                    </td>
+                    <td className="border border-gray-300 p-2">
+                      {match && (
+                        <>
+                          <div className="font-medium">
+                            #{match.reportId} · {match.date} · {match.hours}h
+                            {match.status && <span className="text-gray-500"> · {match.status}</span>}
+                          </div>
+                          <div className="text-xs text-gray-500 max-w-md truncate" title={match.description}>
+                            {match.description || "No description"}
+                          </div>
+                          {check.matches.length > 1 && (
+                            <div className="text-xs text-gray-400">+{check.matches.length - 1} more match(es)</div>
+                          )}
+                        </>
+                      )}
+                      {check.duplicateOfRow !== undefined && (
+                        <div className="text-xs text-gray-500">Repeats row {check.duplicateOfRow + 1} of this upload</div>
+                      )}
+                    </td>
+                    <td className="border border-gray-300 p-2 w-44">
+                      <Select
+                        value={resolutions[check.rowIndex] || ""}
+                        onValueChange={(value) => onResolutionChange(check.rowIndex, value as DuplicateResolution)}
+                      >
+                        <SelectTrigger className="h-8 text-xs" data-testid={`select-resolution-${check.rowIndex}`}>
+                          <SelectValue placeholder="Choose action" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="skip">Skip row</SelectItem>
+                          <SelectItem value="overwrite" disabled={!match}>Overwrite existing</SelectItem>
+                          <SelectItem value="keep_both">Keep both</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={onConfirm}
+            disabled={isSubmitting || duplicates.some(check => !resolutions[check.rowIndex])}
+            data-testid="button-confirm-resolutions"
+          >
+            Continue
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
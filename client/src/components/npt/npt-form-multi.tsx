@@ -8,16 +8,19 @@ import { Form, FormControl, FormField, FormItem, FormMessage } from "@/component
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Info, Trash2, Copy, Plus, Undo, Redo, HelpCircle, ChevronDown } from "lucide-react";
+import { Info, Trash2, Copy, Plus, Undo, Redo, HelpCircle, ChevronDown, Filter } from "lucide-react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { enabledFields, cleanupByType, needsN2, needsInvestigationReport, isContractual, isAbraj } from "@shared/nptRules";
-import type { BillingSheetRow } from "@shared/billingTypes";
+import { LOW_CONFIDENCE_THRESHOLD } from "@shared/billingTypes";
+import type { BillingSheetRow, BillingRowDuplicateCheck, DuplicateResolution, ConfidenceField, FieldConfidenceMap, NptSuggestion } from "@shared/billingTypes";
+import { NPT_STATUS } from "@shared/status";
 import { nanoid } from "nanoid";
 import DateCellInput from "@/components/npt/DateCellInput";
 import QuarterHoursInput from "@/components/npt/QuarterHoursInput";
+import DuplicateResolutionDialog from "@/components/npt/DuplicateResolutionDialog";
 
 type NptRow = {
   id: string;
@@ -40,6 +43,27 @@ type NptRow = {
   wellName: string;
   notificationNumber: string;
   investigationWellName: string;
+  // Carried from the billing sheet for duplicate detection; not editable in the grid
+  rateType?: string;
+  ticketNumber?: string;
+  // Extraction confidence from the billing import, used to highlight cells worth checking
+  confidence?: number;
+  fieldConfidence?: FieldConfidenceMap;
+  // Values the importer prefilled; sent back so the server can record what the reviewer changed
+  suggestion?: NptSuggestion;
+};
+
+// Grid columns and the extracted field their value came from
+const CONFIDENCE_FIELDS: Partial<Record<keyof NptRow, ConfidenceField>> = {
+  rigNumber: 'rigNumber',
+  date: 'date',
+  hours: 'hours',
+  nptType: 'rateType',
+  system: 'system',
+  equipment: 'equipment',
+  partEquipment: 'failure',
+  contractualProcess: 'description',
+  immediateCause: 'description',
 };
 
 const nptRowSchema = z.object({
@@ -63,6 +87,9 @@ const nptRowSchema = z.object({
   wellName: z.string().optional(),
   notificationNumber: z.string().optional(),
   investigationWellName: z.string().optional(),
+  rateType: z.string().optional(),
+  ticketNumber: z.string().optional(),
+  suggestion: z.custom<NptSuggestion>().optional(),
 }).superRefine((data, ctx) => {
   const hours = parseFloat(data.hours);
   const nptType = data.nptType;
@@ -176,6 +203,15 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [showShortcuts, setShowShortcuts] = useState(false);
 
+  // Duplicate check results awaiting a per-row skip/overwrite/keep-both choice
+  const [duplicateChecks, setDuplicateChecks] = useState<BillingRowDuplicateCheck[] | null>(null);
+  const [resolutions, setResolutions] = useState<Record<number, DuplicateResolution>>({});
+  const [pendingData, setPendingData] = useState<FormData | null>(null);
+
+  // Low-confidence review: cells below the threshold are highlighted, and the grid can hide the rest
+  const [confidenceThreshold, setConfidenceThreshold] = useState(Math.round(LOW_CONFIDENCE_THRESHOLD * 100));
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+
   // Fetch reference data
   const { data: systems = [] } = useQuery<any[]>({
     queryKey: ['/api/systems'],
@@ -198,23 +234,28 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
     id: nanoid(),
     rigNumber: row.rigNumber || '',
     date: row.date ? new Date(row.date).toISOString().split('T')[0] : '',
-    year: row.year || '',
+    year: row.year?.toString() || '',
     month: row.month || '',
     hours: row.hours?.toString() || '',
     nptType: row.nbtType || '',
-    system: row.extractedSystem || row.system || '',
-    equipment: row.extractedEquipment || '',
-    partEquipment: row.extractedFailure || '',
+    system: row.suggestion?.fields.system || row.extractedSystem || row.system || '',
+    equipment: row.suggestion?.fields.parentEquipment || row.extractedEquipment || '',
+    partEquipment: row.suggestion?.fields.partEquipment || row.extractedFailure || '',
     contractualProcess: row.nbtType === 'Contractual' ? row.description || '' : '',
     immediateCause: row.nbtType === 'Abraj' ? row.description || '' : '',
-    rootCause: '',
-    correctiveAction: '',
-    futureAction: '',
+    rootCause: row.suggestion?.fields.rootCause || '',
+    correctiveAction: row.suggestion?.fields.correctiveAction || '',
+    futureAction: row.suggestion?.fields.futureAction || '',
     department: '',
     actionParty: '',
     wellName: '',
     notificationNumber: '',
     investigationWellName: '',
+    rateType: row.rateType || '',
+    ticketNumber: row.ticketNumber || '',
+    confidence: row.confidence,
+    fieldConfidence: row.fieldConfidence,
+    suggestion: row.suggestion,
   })) || [makeEmptyRow()];
 
   const [rows, setRows] = useState<NptRow[]>(initialRows);
@@ -231,6 +272,31 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
     form.setValue('rows', rows);
   }, [rows, form]);
 
+  const cellConfidence = (row: NptRow, field: keyof NptRow) => {
+    const key = CONFIDENCE_FIELDS[field];
+    return key ? row.fieldConfidence?.[key] : undefined;
+  };
+
+  const isLowConfidence = (score: number | undefined) =>
+    score !== undefined && score * 100 < confidenceThreshold;
+
+  const isLowConfidenceRow = (row: NptRow) =>
+    isLowConfidence(row.confidence) ||
+    Object.values(row.fieldConfidence || {}).some(field => isLowConfidence(field.score));
+
+  const confidenceClass = (row: NptRow, field: keyof NptRow) =>
+    isLowConfidence(cellConfidence(row, field)?.score) ? 'bg-amber-50 ring-1 ring-inset ring-amber-400' : '';
+
+  const confidenceTitle = (row: NptRow, field: keyof NptRow) => {
+    const confidence = cellConfidence(row, field);
+    if (!confidence) return undefined;
+    const evidence = confidence.evidence.map(item => item.detail).join('\n');
+    return `Confidence ${Math.round(confidence.score * 100)}%${evidence ? `\n${evidence}` : ''}`;
+  };
+
+  const hasConfidence = rows.some(row => row.fieldConfidence);
+  const lowConfidenceCount = rows.filter(isLowConfidenceRow).length;
+
   // Row management functions
   const toggleRowSelect = (id: string, checked: boolean) => {
     setSelected(prev => {
@@ -447,45 +513,51 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
     return () => window.removeEventListener("keydown", onKey);
   }, [rows, selected, history, historyIndex]);
 
-  const createReportsMutation = useMutation({
-    mutationFn: async (data: FormData) => {
-      // Convert rows to billing sheet row format for API
-      const billingRows = data.rows.map(row => ({
-        rigNumber: row.rigNumber,
+  // Convert rows to billing sheet row format for API
+  const toBillingRows = (data: FormData, submitForReview: boolean) =>
+    data.rows.map(row => ({
+      rigNumber: row.rigNumber,
+      date: row.date,
+      year: row.year,
+      month: row.month,
+      hours: row.hours ? parseFloat(row.hours.toString()) : 0,
+      nbtType: row.nptType,
+      description: row.contractualProcess || row.immediateCause || '',
+      rateType: row.rateType || undefined,
+      ticketNumber: row.ticketNumber || undefined,
+      suggestion: row.suggestion,
+      nptReportData: {
+        rigId: row.rigNumber,
         date: row.date,
         year: row.year,
         month: row.month,
         hours: row.hours ? parseFloat(row.hours.toString()) : 0,
-        nbtType: row.nptType,
-        description: row.contractualProcess || row.immediateCause || '',
-        nptReportData: {
-          rigId: row.rigNumber,
-          date: row.date,
-          year: row.year,
-          month: row.month,
-          hours: row.hours ? parseFloat(row.hours.toString()) : 0,
-          nptType: row.nptType,
-          system: row.system || null,
-          parentEquipment: row.equipment || null,
-          partEquipment: row.partEquipment || null,
-          contractualProcess: row.contractualProcess || null,
-          immediateCause: row.immediateCause || null,
-          rootCause: row.rootCause || null,
-          correctiveAction: row.correctiveAction || null,
-          futureAction: row.futureAction || null,
-          department: row.department || null,
-          actionParty: row.actionParty || null,
-          wellName: row.wellName || null,
-          notificationNumber: row.notificationNumber || null,
-          investigationWellName: row.investigationWellName || null,
-          status: isSubmittingForReview ? 'Pending' : 'Draft',
-        }
-      }));
+        nptType: row.nptType,
+        system: row.system || null,
+        parentEquipment: row.equipment || null,
+        partEquipment: row.partEquipment || null,
+        contractualProcess: row.contractualProcess || null,
+        immediateCause: row.immediateCause || null,
+        rootCause: row.rootCause || null,
+        correctiveAction: row.correctiveAction || null,
+        futureAction: row.futureAction || null,
+        department: row.department || null,
+        actionParty: row.actionParty || null,
+        wellName: row.wellName || null,
+        notificationNumber: row.notificationNumber || null,
+        investigationWellName: row.investigationWellName || null,
+        status: submitForReview ? NPT_STATUS.PENDING_REVIEW : NPT_STATUS.DRAFT,
+      }
+    }));
+
+  const createReportsMutation = useMutation({
+    mutationFn: async ({ data, resolutions }: { data: FormData; resolutions?: Record<number, DuplicateResolution> }) => {
+      const billingRows = toBillingRows(data, isSubmittingForReview);
 
       const mode = isSubmittingForReview ? 'review' : 'draft';
       const response = await apiRequest(`/api/npt-reports/from-billing?mode=${mode}`, {
         method: 'POST',
-        body: JSON.stringify({ rows: billingRows }),
+        body: JSON.stringify({ rows: billingRows, resolutions }),
         headers: {
           'Content-Type': 'application/json'
         }
@@ -493,6 +565,8 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
       return response;
     },
     onSuccess: (data) => {
+      setDuplicateChecks(null);
+      setPendingData(null);
       toast({
         title: "Success",
         description: data.message || "NPT reports created successfully",
@@ -553,7 +627,37 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
     }
     
     setIsSubmittingForReview(submitForReview);
-    createReportsMutation.mutate(data);
+    checkDuplicatesAndSubmit(data, submitForReview);
+  };
+
+  // Ask the server which rows already exist as NPT reports; only prompt when some do
+  const checkDuplicatesAndSubmit = async (data: FormData, submitForReview: boolean) => {
+    try {
+      const preview = await apiRequest('/api/npt-reports/from-billing/preview', {
+        method: 'POST',
+        data: { rows: toBillingRows(data, submitForReview) },
+      });
+      const checks: BillingRowDuplicateCheck[] = preview.rows || [];
+
+      if (checks.some(check => check.status !== 'new')) {
+        const defaults: Record<number, DuplicateResolution> = {};
+        checks.forEach(check => {
+          if (check.status === 'exact_duplicate') defaults[check.rowIndex] = 'skip';
+        });
+        setResolutions(defaults);
+        setPendingData(data);
+        setDuplicateChecks(checks);
+        return;
+      }
+
+      createReportsMutation.mutate({ data });
+    } catch (error) {
+      toast({
+        title: "Duplicate Check Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -662,6 +766,28 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
               </div>
               
               <div className="flex items-center gap-3">
+                {hasConfidence && (
+                  <label className="flex items-center gap-2 text-xs text-gray-600" title="Show only rows with a field below the confidence threshold">
+                    <input
+                      type="checkbox"
+                      checked={lowConfidenceOnly}
+                      onChange={(e) => setLowConfidenceOnly(e.target.checked)}
+                      data-testid="checkbox-low-confidence-only"
+                    />
+                    <Filter className="h-3 w-3" />
+                    Below
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={confidenceThreshold}
+                      onChange={(e) => setConfidenceThreshold(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+                      className="h-7 w-16 text-xs"
+                      data-testid="input-confidence-threshold"
+                    />
+                    % confidence ({lowConfidenceCount})
+                  </label>
+                )}
                 {selected.size > 0 && (
                   <span className="text-xs text-gray-600">
                     {selected.size} row{selected.size > 1 ? 's' : ''} selected
@@ -779,6 +905,8 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                 </thead>
                 <tbody>
                   {rows.map((row, index) => {
+                    if (lowConfidenceOnly && !isLowConfidenceRow(row)) return null;
+
                     // Calculate enabled fields for this row based on NPT type
                     const enabledFieldsState = enabledFields(row.nptType);
                     
@@ -795,7 +923,7 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                           />
                         </td>
                         {/* Rig Number (A) */}
-                        <td className="p-1 border-r border-gray-200">
+                        <td className={`p-1 border-r border-gray-200 ${confidenceClass(row, 'rigNumber')}`} title={confidenceTitle(row, 'rigNumber')}>
                           <FormField
                             control={form.control}
                             name={`rows.${index}.rigNumber`}
@@ -840,7 +968,7 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                         </td>
 
                         {/* Date (D) */}
-                        <td className="p-1 border-r border-gray-200">
+                        <td className={`p-1 border-r border-gray-200 ${confidenceClass(row, 'date')}`} title={confidenceTitle(row, 'date')}>
                           <DateCellInput
                             value={row.date}
                             onCommit={(iso) => {
@@ -854,7 +982,7 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                         </td>
 
                         {/* Hours (E) */}
-                        <td className="p-1 border-r border-gray-200">
+                        <td className={`p-1 border-r border-gray-200 ${confidenceClass(row, 'hours')}`} title={confidenceTitle(row, 'hours')}>
                           <QuarterHoursInput
                             value={parseFloat(row.hours) || 0}
                             onCommit={(value) => {
@@ -868,7 +996,7 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                         </td>
 
                         {/* NPT Type (F) */}
-                        <td className="p-1 border-r border-gray-200">
+                        <td className={`p-1 border-r border-gray-200 ${confidenceClass(row, 'nptType')}`} title={confidenceTitle(row, 'nptType')}>
                           <Select
                             value={row.nptType}
                             onValueChange={(value) => updateRowField(index, 'nptType', value)}
@@ -884,7 +1012,7 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                         </td>
 
                         {/* System (G) */}
-                        <td className="p-1 border-r border-gray-200">
+                        <td className={`p-1 border-r border-gray-200 ${confidenceClass(row, 'system')}`} title={confidenceTitle(row, 'system')}>
                           <FormField
                             control={form.control}
                             name={`rows.${index}.system`}
@@ -914,7 +1042,7 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                         </td>
 
                         {/* Equipment (H) */}
-                        <td className="p-1 border-r border-gray-200">
+                        <td className={`p-1 border-r border-gray-200 ${confidenceClass(row, 'equipment')}`} title={confidenceTitle(row, 'equipment')}>
                           <FormField
                             control={form.control}
                             name={`rows.${index}.equipment`}
@@ -947,7 +1075,7 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                         </td>
 
                         {/* Part (I) */}
-                        <td className="p-1 border-r border-gray-200">
+                        <td className={`p-1 border-r border-gray-200 ${confidenceClass(row, 'partEquipment')}`} title={confidenceTitle(row, 'partEquipment')}>
                           <FormField
                             control={form.control}
                             name={`rows.${index}.partEquipment`}
@@ -966,7 +1094,7 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                         </td>
 
                         {/* Contractual Process (J) */}
-                        <td className="p-1 border-r border-gray-200">
+                        <td className={`p-1 border-r border-gray-200 ${confidenceClass(row, 'contractualProcess')}`} title={confidenceTitle(row, 'contractualProcess')}>
                           <FormField
                             control={form.control}
                             name={`rows.${index}.contractualProcess`}
@@ -1018,7 +1146,7 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
                         </td>
 
                         {/* Failure Description (L) - Immediate Cause */}
-                        <td className="p-1 border-r border-gray-200">
+                        <td className={`p-1 border-r border-gray-200 ${confidenceClass(row, 'immediateCause')}`} title={confidenceTitle(row, 'immediateCause')}>
                           <FormField
                             control={form.control}
                             name={`rows.${index}.immediateCause`}
@@ -1238,6 +1366,21 @@ export default function NptFormMulti({ billingData }: NptFormMultiProps) {
             </div>
           </form>
         </Form>
+
+        <DuplicateResolutionDialog
+          open={duplicateChecks !== null}
+          checks={duplicateChecks || []}
+          resolutions={resolutions}
+          onResolutionChange={(rowIndex, resolution) =>
+            setResolutions(prev => ({ ...prev, [rowIndex]: resolution }))
+          }
+          onConfirm={() => pendingData && createReportsMutation.mutate({ data: pendingData, resolutions })}
+          onCancel={() => {
+            setDuplicateChecks(null);
+            setPendingData(null);
+          }}
+          isSubmitting={createReportsMutation.isPending}
+        />
       </CardContent>
     </Card>
   );
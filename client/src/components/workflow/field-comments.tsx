@@ -0,0 +1,127 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { NPT_REVIEW_FIELDS, type NptChangeRequestDiff, type NptReviewField } from "@shared/status";
+
+export type FieldComments = Partial<Record<NptReviewField, string>>;
+
+const REVIEW_FIELDS = Object.keys(NPT_REVIEW_FIELDS) as NptReviewField[];
+
+// Comments an approver pins to individual report fields when requesting changes
+export function FieldCommentsEditor({ value, onChange }: { value: FieldComments; onChange: (value: FieldComments) => void }) {
+  const fields = Object.keys(value) as NptReviewField[];
+  const unused = REVIEW_FIELDS.filter(field => !(field in value));
+
+  const rename = (from: NptReviewField, to: NptReviewField) => {
+    const { [from]: comment, ...rest } = value;
+    onChange({ ...rest, [to]: comment ?? "" });
+  };
+
+  const remove = (field: NptReviewField) => {
+    const { [field]: _, ...rest } = value;
+    onChange(rest);
+  };
+
+  return (
+    <div className="space-y-2" data-testid="field-comments-editor">
+      <div className="flex items-center justify-between">
+        <Label>Field Comments</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={unused.length === 0}
+          onClick={() => onChange({ ...value, [unused[0]]: "" })}
+          data-testid="button-add-field-comment"
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Comment on a field
+        </Button>
+      </div>
+      {fields.map(field => (
+        <div key={field} className="flex items-center gap-2">
+          <Select value={field} onValueChange={(next: NptReviewField) => rename(field, next)}>
+            <SelectTrigger className="w-44" data-testid={`select-comment-field-${field}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[field, ...unused].map(option => (
+                <SelectItem key={option} value={option}>{NPT_REVIEW_FIELDS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={value[field] ?? ""}
+            onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+            placeholder="What needs to change..."
+            data-testid={`input-field-comment-${field}`}
+          />
+          <Button type="button" variant="ghost" size="sm" onClick={() => remove(field)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).toLocaleDateString();
+  return String(value);
+};
+
+/**
+ * The latest change request on a report with each field the approver commented on or the
+ * author changed since: the value that was reviewed next to the value now.
+ */
+export function ChangeRequestPanel({ reportId }: { reportId: number }) {
+  const { data: diff } = useQuery<NptChangeRequestDiff | null>({
+    queryKey: [`/api/npt-reports/${reportId}/change-request`],
+  });
+
+  if (!diff) return null;
+
+  return (
+    <div className="p-3 bg-amber-50 rounded-md space-y-2" data-testid="panel-change-request">
+      <div className="flex items-center justify-between">
+        <Label className="text-amber-800">
+          {diff.resubmitted ? "Changes since the last review" : "Changes requested"}
+        </Label>
+        <span className="text-xs text-muted-foreground">
+          {diff.requestedByName || diff.requestedBy}
+          {diff.requestedAt && `, ${new Date(diff.requestedAt).toLocaleDateString()}`}
+        </span>
+      </div>
+      {diff.comment && <p className="text-sm">{diff.comment}</p>}
+      {diff.fields.length > 0 && (
+        <div className="space-y-2">
+          {diff.fields.map(change => (
+            <div key={change.field} className="text-sm border-t pt-2" data-testid={`change-${change.field}`}>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{change.label}</span>
+                <Badge variant={change.changed ? "default" : "outline"} className="text-xs">
+                  {change.changed ? "Changed" : "Not changed"}
+                </Badge>
+              </div>
+              {change.comment && <p className="text-muted-foreground italic">"{change.comment}"</p>}
+              {change.changed ? (
+                <p>
+                  <span className="line-through text-red-700">{formatValue(change.reviewed)}</span>
+                  {" → "}
+                  <span className="text-green-700">{formatValue(change.current)}</span>
+                </p>
+              ) : (
+                <p className="text-muted-foreground">{formatValue(change.current)}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
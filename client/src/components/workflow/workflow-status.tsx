@@ -10,6 +10,8 @@ import { apiRequest } from "@/lib/queryClient";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { CheckCircle, XCircle, Clock, Play, Edit } from "lucide-react";
 import type { NptReport, User } from "@shared/schema";
+import { NPT_STATUS, normalizeNptStatus } from "@shared/status";
+import { ChangeRequestPanel, FieldCommentsEditor, type FieldComments } from "./field-comments";
 
 interface WorkflowStatusProps {
   report: NptReport;
@@ -20,17 +22,19 @@ interface WorkflowStatusProps {
 export function WorkflowStatus({ report, currentUser, onRefresh }: WorkflowStatusProps) {
   const [actionDialog, setActionDialog] = useState<{ open: boolean; action: string }>({ open: false, action: '' });
   const [comments, setComments] = useState('');
+  const [fieldComments, setFieldComments] = useState<FieldComments>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const { data: approvalHistory = [] } = useQuery<any[]>({
     queryKey: [`/api/npt-reports/${report.id}/workflow-history`],
-    enabled: !!report.workflowStatus && report.workflowStatus !== 'draft',
   });
 
+  const status = normalizeNptStatus(report.status);
+
   const initiateWorkflowMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest(`/api/npt-reports/${report.id}/initiate-workflow`, 'POST');
+      await apiRequest(`/api/npt-reports/${report.id}/initiate-workflow`, { method: 'POST' });
     },
     onSuccess: () => {
       toast({
@@ -38,6 +42,7 @@ export function WorkflowStatus({ report, currentUser, onRefresh }: WorkflowStatu
         description: "Workflow initiated successfully",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/npt-reports'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/npt-reports/${report.id}/workflow-history`] });
       onRefresh?.();
     },
     onError: (error) => {
@@ -50,18 +55,20 @@ export function WorkflowStatus({ report, currentUser, onRefresh }: WorkflowStatu
   });
 
   const workflowActionMutation = useMutation({
-    mutationFn: async ({ action, comments }: { action: string; comments?: string }) => {
-      await apiRequest(`/api/npt-reports/${report.id}/workflow-action`, 'POST', { action, comments });
+    mutationFn: async ({ action, comments, fieldComments }: { action: string; comments?: string; fieldComments?: FieldComments }) => {
+      return await apiRequest(`/api/npt-reports/${report.id}/workflow-action`, { method: 'POST', data: { action, comments, fieldComments } });
     },
-    onSuccess: (_, { action }) => {
+    onSuccess: (result: any) => {
       toast({
         title: "Success",
-        description: `Report ${action}ed successfully`,
+        description: result?.message || "Action recorded",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/npt-reports'] });
       queryClient.invalidateQueries({ queryKey: [`/api/npt-reports/${report.id}/workflow-history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/npt-reports/${report.id}/change-request`] });
       setActionDialog({ open: false, action: '' });
       setComments('');
+      setFieldComments({});
       onRefresh?.();
     },
     onError: (error) => {
@@ -73,48 +80,56 @@ export function WorkflowStatus({ report, currentUser, onRefresh }: WorkflowStatu
     },
   });
 
-  const getStatusBadge = (status: string | null) => {
+  const getStatusBadge = () => {
     switch (status) {
-      case 'pending_approval':
-        return <Badge variant="outline" className="bg-yellow-50"><Clock className="mr-1 h-3 w-3" />Pending Approval</Badge>;
-      case 'approved':
+      case NPT_STATUS.PENDING_REVIEW:
+        return <Badge variant="outline" className="bg-yellow-50"><Clock className="mr-1 h-3 w-3" />Pending Review</Badge>;
+      case NPT_STATUS.APPROVED:
         return <Badge variant="outline" className="bg-green-50"><CheckCircle className="mr-1 h-3 w-3" />Approved</Badge>;
-      case 'rejected':
+      case NPT_STATUS.REJECTED:
         return <Badge variant="outline" className="bg-red-50"><XCircle className="mr-1 h-3 w-3" />Rejected</Badge>;
-      case 'completed':
-        return <Badge variant="default" className="bg-blue-600"><CheckCircle className="mr-1 h-3 w-3" />Completed</Badge>;
       default:
         return <Badge variant="secondary">Draft</Badge>;
     }
   };
 
   const canInitiateWorkflow = () => {
-    return currentUser.role === 'tool_pusher' && (!report.workflowStatus || report.workflowStatus === 'draft');
+    return ['tool_pusher', 'admin'].includes(currentUser.role || '') && status === NPT_STATUS.DRAFT;
   };
 
+  const pendingApprovers = report.currentApproverUserIds ?? (report.currentApproverUserId ? [report.currentApproverUserId] : []);
+
   const canPerformAction = () => {
-    if (!report.currentApprover || !currentUser.role) return false;
-    return report.currentApprover === currentUser.role && report.workflowStatus === 'pending_approval';
+    if (status !== NPT_STATUS.PENDING_REVIEW) return false;
+    return pendingApprovers.includes(currentUser.id) || currentUser.role === 'admin';
   };
 
+  // Rejecting needs a reason; requesting changes needs a comment, overall or on a field
+  const hasFieldComments = Object.values(fieldComments).some(comment => comment?.trim());
+  const canConfirm = actionDialog.action === 'reject' ? !!comments.trim() : !!comments.trim() || hasFieldComments;
+
   const handleAction = (action: string) => {
-    if (action === 'reject') {
-      setActionDialog({ open: true, action });
-    } else {
+    if (action === 'approve') {
       workflowActionMutation.mutate({ action, comments: '' });
+    } else {
+      setActionDialog({ open: true, action });
     }
   };
 
-  const handleConfirmReject = () => {
-    if (!comments.trim()) {
+  const handleConfirmAction = () => {
+    if (!canConfirm) {
       toast({
         title: "Error",
-        description: "Please provide a reason for rejection",
+        description: actionDialog.action === 'reject' ? "Please provide a reason for rejection" : "Please describe the changes needed",
         variant: "destructive",
       });
       return;
     }
-    workflowActionMutation.mutate({ action: 'reject', comments });
+    workflowActionMutation.mutate({
+      action: actionDialog.action,
+      comments,
+      fieldComments: actionDialog.action === 'request_changes' ? fieldComments : undefined
+    });
   };
 
   return (
@@ -127,17 +142,28 @@ export function WorkflowStatus({ report, currentUser, onRefresh }: WorkflowStatu
         <div className="flex items-center justify-between">
           <div>
             <Label>Current Status</Label>
-            <div className="mt-1">{getStatusBadge(report.workflowStatus)}</div>
+            <div className="mt-1">{getStatusBadge()}</div>
           </div>
-          {report.currentApprover && (
+          {status === NPT_STATUS.PENDING_REVIEW && report.currentStepOrder && (
             <div>
-              <Label>Awaiting Approval From</Label>
-              <div className="mt-1 font-medium">{report.currentApprover.replace('_', ' ').toUpperCase()}</div>
+              <Label>Awaiting Approval</Label>
+              <div className="mt-1 font-medium">
+                Step {report.currentStepOrder}
+                {pendingApprovers.length > 1 && ` (${pendingApprovers.length} approvers)`}
+                {pendingApprovers.includes(currentUser.id) ? ' (you)' : ''}
+              </div>
             </div>
           )}
         </div>
 
+        {report.workflowReason && (
+          <div data-testid="text-workflow-reason">
+            <Label>Approval Workflow</Label>
+            <p className="mt-1 text-sm text-muted-foreground">{report.workflowReason}</p>
+          </div>
+        )}
 
+        {status !== NPT_STATUS.APPROVED && <ChangeRequestPanel reportId={report.id} />}
 
         {report.rejectionReason && (
           <div className="p-3 bg-red-50 rounded-md">
@@ -180,13 +206,13 @@ export function WorkflowStatus({ report, currentUser, onRefresh }: WorkflowStatu
                 Reject
               </Button>
               <Button
-                onClick={() => handleAction('edit')}
+                onClick={() => handleAction('request_changes')}
                 disabled={workflowActionMutation.isPending}
                 variant="outline"
                 data-testid="button-edit"
               >
                 <Edit className="mr-2 h-4 w-4" />
-                Request Edit
+                Request Changes
               </Button>
             </>
           )}
@@ -199,20 +225,23 @@ export function WorkflowStatus({ report, currentUser, onRefresh }: WorkflowStatu
               {approvalHistory.map((approval: any, index: number) => (
                 <div key={index} className="p-2 bg-gray-50 rounded-md text-sm">
                   <div className="flex justify-between">
-                    <span className="font-medium">{approval.approverRole?.replace('_', ' ').toUpperCase()}</span>
+                    <span className="font-medium">
+                      {approval.approverName || approval.approverEmail || 'Unknown'}
+                      {approval.approverRole && ` (${approval.approverRole.replace('_', ' ').toUpperCase()})`}
+                    </span>
                     <span className="text-muted-foreground">
                       {new Date(approval.createdAt).toLocaleDateString()}
                     </span>
                   </div>
                   <div className="mt-1">
                     <Badge
-                      variant={approval.action === 'approve' ? 'default' : approval.action === 'reject' ? 'destructive' : 'secondary'}
+                      variant={approval.action === 'APPROVE' ? 'default' : approval.action === 'REJECT' ? 'destructive' : 'secondary'}
                       className="text-xs"
                     >
-                      {approval.action.toUpperCase()}
+                      {approval.action.replace('_', ' ')}
                     </Badge>
-                    {approval.comments && (
-                      <p className="mt-1 text-muted-foreground">{approval.comments}</p>
+                    {approval.comment && (
+                      <p className="mt-1 text-muted-foreground">{approval.comment}</p>
                     )}
                   </div>
                 </div>
@@ -225,24 +254,29 @@ export function WorkflowStatus({ report, currentUser, onRefresh }: WorkflowStatu
       <Dialog open={actionDialog.open} onOpenChange={(open) => setActionDialog({ ...actionDialog, open })}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Reject Report</DialogTitle>
+            <DialogTitle>{actionDialog.action === 'reject' ? 'Reject Report' : 'Request Changes'}</DialogTitle>
             <DialogDescription>
-              Please provide a reason for rejecting this report.
+              {actionDialog.action === 'reject'
+                ? 'Please provide a reason for rejecting this report.'
+                : 'The report goes back to its author as a draft. Comment overall, on specific fields, or both.'}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div>
-              <Label htmlFor="rejection-reason">Rejection Reason</Label>
+              <Label htmlFor="rejection-reason">{actionDialog.action === 'reject' ? 'Rejection Reason' : 'Changes Needed'}</Label>
               <Textarea
                 id="rejection-reason"
                 value={comments}
                 onChange={(e) => setComments(e.target.value)}
-                placeholder="Enter the reason for rejection..."
+                placeholder={actionDialog.action === 'reject' ? "Enter the reason for rejection..." : "Describe what needs to change..."}
                 className="mt-2"
                 rows={4}
                 data-testid="input-rejection-reason"
               />
             </div>
+            {actionDialog.action === 'request_changes' && (
+              <FieldCommentsEditor value={fieldComments} onChange={setFieldComments} />
+            )}
           </div>
           <DialogFooter>
             <Button
@@ -253,12 +287,12 @@ export function WorkflowStatus({ report, currentUser, onRefresh }: WorkflowStatu
               Cancel
             </Button>
             <Button
-              variant="destructive"
-              onClick={handleConfirmReject}
-              disabled={!comments.trim() || workflowActionMutation.isPending}
+              variant={actionDialog.action === 'reject' ? 'destructive' : 'default'}
+              onClick={handleConfirmAction}
+              disabled={!canConfirm || workflowActionMutation.isPending}
               data-testid="button-confirm-reject"
             >
-              Confirm Rejection
+              {actionDialog.action === 'reject' ? 'Confirm Rejection' : 'Send Back'}
             </Button>
           </DialogFooter>
         </DialogContent>
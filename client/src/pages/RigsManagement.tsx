@@ -6,14 +6,17 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Switch } from "@/components/ui/switch";
-import { Upload, Plus, Edit2, Trash2, Check, X, FileSpreadsheet } from "lucide-react";
+import { Upload, Plus, Edit2, Trash2, Check, X, FileSpreadsheet, Tags } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import type { RigAlias } from "@shared/schema";
 
 interface Rig {
   id: number;
   rigNumber: number;
+  rigName: string | null;
   section: string;
   client: string | null;
   location: string | null;
@@ -35,12 +38,20 @@ export default function RigsManagement() {
   });
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [aliasRig, setAliasRig] = useState<Rig | null>(null);
+  const [newAlias, setNewAlias] = useState("");
 
   // Fetch rigs
   const { data: rigs = [], isLoading } = useQuery<Rig[]>({
     queryKey: ['/api/rigs'],
   });
 
+  // Fetch aliases for all rigs
+  const { data: aliases = [] } = useQuery<RigAlias[]>({
+    queryKey: ['/api/rig-aliases'],
+  });
+  const aliasesFor = (rigId: number) => aliases.filter(alias => alias.rigId === rigId);
+
   // Create/Update rig mutation
   const upsertMutation = useMutation({
     mutationFn: async (rigData: Partial<Rig> | Partial<Rig>[]) => {
@@ -98,6 +109,47 @@ export default function RigsManagement() {
     }
   });
 
+  // Add alias mutation
+  const addAliasMutation = useMutation({
+    mutationFn: async ({ rigId, alias }: { rigId: number; alias: string }) => {
+      return apiRequest(`/api/rigs/${rigId}/aliases`, {
+        method: 'POST',
+        body: JSON.stringify({ alias }),
+        headers: { 'Content-Type': 'application/json' }
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rig-aliases'] });
+      setNewAlias("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add alias",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Delete alias mutation
+  const deleteAliasMutation = useMutation({
+    mutationFn: async (aliasId: number) => {
+      return apiRequest(`/api/rig-aliases/${aliasId}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rig-aliases'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete alias",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Import rigs mutation
   const importMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -177,6 +229,13 @@ export default function RigsManagement() {
     setEditedRig({});
   };
 
+  // Add alias to the rig whose aliases are open
+  const handleAddAlias = () => {
+    if (aliasRig && newAlias.trim()) {
+      addAliasMutation.mutate({ rigId: aliasRig.id, alias: newAlias.trim() });
+    }
+  };
+
   // Add new rig
   const handleAddRig = () => {
     if (newRig.rigNumber && newRig.rigNumber > 0) {
@@ -332,6 +391,7 @@ export default function RigsManagement() {
                   <TableHead>Section</TableHead>
                   <TableHead>Client</TableHead>
                   <TableHead>Location</TableHead>
+                  <TableHead>Aliases</TableHead>
                   <TableHead className="text-center">Status</TableHead>
                   <TableHead className="text-center">Actions</TableHead>
                 </TableRow>
@@ -339,13 +399,13 @@ export default function RigsManagement() {
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8">
+                    <TableCell colSpan={7} className="text-center py-8">
                       Loading rigs...
                     </TableCell>
                   </TableRow>
                 ) : rigs.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                       No rigs found. Add a rig or import from Excel to get started.
                     </TableCell>
                   </TableRow>
@@ -397,6 +457,13 @@ export default function RigsManagement() {
                           rig.location || '-'
                         )}
                       </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {aliasesFor(rig.id).map(alias => (
+                            <Badge key={alias.id} variant="secondary">{alias.alias}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
                       <TableCell className="text-center">
                         {editingId === rig.id ? (
                           <Switch
@@ -441,6 +508,14 @@ export default function RigsManagement() {
                             >
                               <Edit2 className="h-4 w-4" />
                             </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setAliasRig(rig)}
+                              title="Aliases"
+                            >
+                              <Tags className="h-4 w-4" />
+                            </Button>
                             <Button
                               size="sm"
                               variant="ghost"
@@ -464,6 +539,50 @@ export default function RigsManagement() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Aliases Dialog */}
+      <Dialog open={!!aliasRig} onOpenChange={(open) => { if (!open) { setAliasRig(null); setNewAlias(""); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Aliases for Rig {aliasRig?.rigNumber}</DialogTitle>
+            <DialogDescription>
+              Names this rig goes by in billing sheets, tickets and imports, e.g. "Hoist 1", "RABA_12" or "Raba East 12".
+              Case and punctuation are ignored.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 mt-2">
+            <div className="flex flex-wrap gap-2">
+              {aliasRig && aliasesFor(aliasRig.id).length === 0 && (
+                <span className="text-sm text-muted-foreground">No aliases yet</span>
+              )}
+              {aliasRig && aliasesFor(aliasRig.id).map(alias => (
+                <Badge key={alias.id} variant="secondary" className="flex items-center gap-1">
+                  {alias.alias}
+                  <button
+                    type="button"
+                    onClick={() => deleteAliasMutation.mutate(alias.id)}
+                    disabled={deleteAliasMutation.isPending}
+                    className="hover:text-red-600"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={newAlias}
+                onChange={(e) => setNewAlias(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddAlias()}
+                placeholder="Add an alias"
+              />
+              <Button onClick={handleAddAlias} disabled={!newAlias.trim() || addAliasMutation.isPending}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
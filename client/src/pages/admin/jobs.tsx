@@ -0,0 +1,142 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Play, RefreshCw } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface JobStatus {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  running: boolean;
+  lockedBy: string | null;
+  nextRunAt: string | null;
+  lastStartedAt: string | null;
+  lastFinishedAt: string | null;
+  lastStatus: string | null;
+  lastError: string | null;
+  lastResult: Record<string, unknown> | null;
+  runCount: number | null;
+}
+
+const when = (value: string | null) =>
+  value ? `${format(new Date(value), "dd MMM yyyy HH:mm")} (${formatDistanceToNow(new Date(value), { addSuffix: true })})` : "-";
+
+// "overSlaAlerts: 2, escalated: 1"
+const describeResult = (result: Record<string, unknown> | null) =>
+  result ? Object.entries(result).map(([key, value]) => `${key}: ${value}`).join(", ") : "-";
+
+function JobOutcome({ job }: { job: JobStatus }) {
+  if (job.running) {
+    return <Badge variant="secondary">Running{job.lockedBy ? ` on ${job.lockedBy}` : ""}</Badge>;
+  }
+  if (!job.lastStatus) {
+    return <Badge variant="outline">Never run</Badge>;
+  }
+  return job.lastStatus === "success"
+    ? <Badge variant="default">Succeeded</Badge>
+    : <Badge variant="destructive">Failed</Badge>;
+}
+
+// Scheduled lifecycle checks: when each last ran, what it did, and a way to run it now
+export default function JobsAdmin() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: jobs = [], isLoading, refetch, isFetching } = useQuery<JobStatus[]>({
+    queryKey: ["/api/admin/jobs"],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (name: string) => apiRequest(`/api/admin/jobs/${name}/run`, { method: "POST" }),
+    onSuccess: (job: JobStatus) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      toast({
+        title: job.lastStatus === "success" ? "Job finished" : "Job failed",
+        description: job.lastStatus === "success" ? describeResult(job.lastResult) : job.lastError || undefined,
+        variant: job.lastStatus === "success" ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Background Jobs</h1>
+          <p className="text-muted-foreground">Alert and escalation checks the server runs on a schedule</p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-jobs">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Jobs</CardTitle>
+          <CardDescription>Each job runs in one server process at a time; times are this browser's local time</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Every</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Next Run</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map(job => (
+                  <TableRow key={job.name} data-testid={`row-job-${job.name}`}>
+                    <TableCell>
+                      <div className="font-medium">{job.name}</div>
+                      <div className="text-xs text-muted-foreground">{job.description}</div>
+                    </TableCell>
+                    <TableCell>{job.intervalMinutes} min</TableCell>
+                    <TableCell>
+                      <div>{when(job.lastFinishedAt ?? job.lastStartedAt)}</div>
+                      <div className="text-xs text-muted-foreground">{job.runCount ?? 0} run(s) so far</div>
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <JobOutcome job={job} />
+                      <div className="text-xs text-muted-foreground mt-1 break-words">
+                        {job.lastStatus === "failed" ? job.lastError : describeResult(job.lastResult)}
+                      </div>
+                    </TableCell>
+                    <TableCell>{when(job.nextRunAt)}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={job.running || runMutation.isPending}
+                        onClick={() => runMutation.mutate(job.name)}
+                        data-testid={`button-run-job-${job.name}`}
+                      >
+                        <Play className="h-4 w-4 mr-1" />
+                        Run Now
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -13,15 +13,36 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, Edit, Trash2, UserCog, ArrowRight, Settings } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, Edit, Trash2, UserCog, ArrowRight, Settings, UserPlus, History, ShieldCheck, CheckCircle, FlaskConical } from "lucide-react";
+import { ESCALATION_MODES, ESCALATION_MODE_LABELS, ROLE_LABELS, STEP_GROUP_MODES, STEP_GROUP_MODE_LABELS, type EscalationMode, type RoleKey, type StepGroupMode, type WorkflowConditions, type WorkflowIssue, type WorkflowSimulation } from "@shared/workflow";
+import { NPT_TYPES, DEPARTMENTS } from "@shared/nptRules";
 
-interface WorkflowDefinition {
+interface WorkflowDefinition extends WorkflowConditions {
   id: number;
   name: string;
   rigId?: number;
   isActive: boolean;
   createdAt: string;
   steps?: WorkflowStep[];
+  groups?: WorkflowStepGroup[];
+  versions?: { id: number; version: number; publishedAt: string }[]; // Latest only
+}
+
+interface WorkflowVersion {
+  id: number;
+  version: number;
+  publishedAt: string;
+  publisher?: { firstName?: string; lastName?: string; email?: string } | null;
+}
+
+interface OutdatedReport {
+  id: number;
+  date: string;
+  hours: string;
+  nptType: string;
+  currentStepOrder: number | null;
+  version: number | null;
 }
 
 interface WorkflowStep {
@@ -33,6 +54,464 @@ interface WorkflowStep {
   isRequired: boolean;
 }
 
+// SLA of a step: remind after reminderHours, escalate after escalationHours
+interface StepGroupSla {
+  reminderHours?: number | null;
+  escalationHours?: number | null;
+  escalationRoleKey?: string | null;
+  escalationUserId?: string | null;
+  escalationMode?: EscalationMode | null;
+}
+
+interface WorkflowStepGroup extends StepGroupSla {
+  stepOrder: number;
+  mode: StepGroupMode;
+  requiredApprovals?: number | null;
+}
+
+// One step in the editor: its approvers review in parallel and `mode` decides how many must approve
+interface EditorStepGroup extends StepGroupSla {
+  mode: StepGroupMode;
+  requiredApprovals: number;
+  approvers: WorkflowStep[];
+}
+
+const toEditorGroups = (workflow: WorkflowDefinition): EditorStepGroup[] => {
+  const steps = workflow.steps || [];
+  const stepOrders = Array.from(new Set(steps.map(step => step.stepOrder))).sort((a, b) => a - b);
+  return stepOrders.map(stepOrder => {
+    const group = workflow.groups?.find(g => g.stepOrder === stepOrder);
+    return {
+      mode: group?.mode || "all",
+      requiredApprovals: group?.requiredApprovals || 1,
+      reminderHours: group?.reminderHours ?? null,
+      escalationHours: group?.escalationHours ?? null,
+      escalationRoleKey: group?.escalationRoleKey ?? null,
+      escalationUserId: group?.escalationUserId ?? null,
+      escalationMode: group?.escalationMode ?? null,
+      approvers: steps.filter(step => step.stepOrder === stepOrder),
+    };
+  });
+};
+
+const describeGroup = (group: { mode: StepGroupMode; requiredApprovals?: number | null }, size: number) => {
+  if (size < 2) return "";
+  if (group.mode === "any") return ` (any 1 of ${size})`;
+  if (group.mode === "quorum") return ` (${group.requiredApprovals || 1} of ${size})`;
+  return ` (all ${size})`;
+};
+
+// Short labels for the conditions a workflow is selected on
+const describeConditions = (workflow: WorkflowDefinition): string[] => [
+  workflow.nptType && `NPT: ${workflow.nptType}`,
+  workflow.department && `Dept: ${workflow.department}`,
+  workflow.system && `System: ${workflow.system}`,
+  workflow.rigSection && `Section: ${workflow.rigSection}`,
+  workflow.minHours != null && `≥ ${Number(workflow.minHours)}h`,
+  workflow.maxHours != null && `≤ ${Number(workflow.maxHours)}h`,
+].filter(Boolean) as string[];
+
+// Select fields use "any" for "no condition"
+const ANY = "any";
+const conditionsFromForm = (formData: FormData) => {
+  const value = (key: string) => {
+    const raw = (formData.get(key) as string | null) || "";
+    return raw === ANY ? "" : raw;
+  };
+  return {
+    nptType: value("nptType"),
+    department: value("department"),
+    system: value("system"),
+    rigSection: value("rigSection"),
+    minHours: value("minHours"),
+    maxHours: value("maxHours"),
+  };
+};
+
+function WorkflowConditionFields({ workflow }: { workflow?: WorkflowDefinition | null }) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label>NPT Type</Label>
+        <Select name="nptType" defaultValue={workflow?.nptType || ANY}>
+          <SelectTrigger data-testid="select-condition-npt-type"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            {Object.values(NPT_TYPES).map(type => (
+              <SelectItem key={type} value={type}>{type}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label>Department</Label>
+        <Select name="department" defaultValue={workflow?.department || ANY}>
+          <SelectTrigger data-testid="select-condition-department"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            {Object.values(DEPARTMENTS).map(department => (
+              <SelectItem key={department} value={department}>{department}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label>Rig Section</Label>
+        <Select name="rigSection" defaultValue={workflow?.rigSection || ANY}>
+          <SelectTrigger data-testid="select-condition-rig-section"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            <SelectItem value="drilling">Drilling</SelectItem>
+            <SelectItem value="hoist">Hoist</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor="system">System</Label>
+        <Input id="system" name="system" defaultValue={workflow?.system || ""} placeholder="Any" />
+      </div>
+      <div>
+        <Label htmlFor="minHours">Minimum Hours</Label>
+        <Input id="minHours" name="minHours" type="number" step="0.25" min="0" defaultValue={workflow?.minHours ?? ""} placeholder="e.g., 6" />
+      </div>
+      <div>
+        <Label htmlFor="maxHours">Maximum Hours</Label>
+        <Input id="maxHours" name="maxHours" type="number" step="0.25" min="0" defaultValue={workflow?.maxHours ?? ""} placeholder="Any" />
+      </div>
+      <p className="col-span-2 text-xs text-muted-foreground">
+        Reports use the matching workflow with the most conditions set; a workflow with none is the default.
+      </p>
+    </div>
+  );
+}
+
+// Published versions of a workflow, and the pending reports still on older ones
+function WorkflowVersionsDialog({ workflow, onClose }: { workflow: WorkflowDefinition | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<number[]>([]);
+  const [mode, setMode] = useState<"keep" | "restart">("keep");
+
+  const { data: versionsData } = useQuery<{ items: WorkflowVersion[] }>({
+    queryKey: [`/api/workflows/${workflow?.id}/versions`],
+    enabled: !!workflow,
+  });
+  const { data: outdatedData } = useQuery<{ latestVersion: number; items: OutdatedReport[] }>({
+    queryKey: [`/api/workflows/${workflow?.id}/outdated-reports`],
+    enabled: !!workflow,
+  });
+
+  useEffect(() => setSelected([]), [workflow?.id]);
+
+  const versions = versionsData?.items || [];
+  const outdated = outdatedData?.items || [];
+
+  const migrateMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest(`/api/workflows/${workflow!.id}/migrate`, { method: "POST", data: { reportIds: selected, mode } }),
+    onSuccess: (result: { migrated: number; results: { reportId: number; success: boolean; error?: string }[] }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/workflows/${workflow!.id}/outdated-reports`] });
+      setSelected([]);
+      const failures = result.results.filter(item => !item.success);
+      toast({
+        title: failures.length === 0 ? "Success" : "Some reports were not migrated",
+        description: [
+          `${result.migrated} report(s) moved to version ${outdatedData?.latestVersion}`,
+          ...failures.map(item => `#${item.reportId}: ${item.error}`),
+        ].join(". "),
+        variant: failures.length === 0 ? "default" : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to migrate reports", variant: "destructive" });
+    }
+  });
+
+  const toggle = (reportId: number, checked: boolean) =>
+    setSelected(current => checked ? [...current, reportId] : current.filter(id => id !== reportId));
+
+  return (
+    <Dialog open={!!workflow} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Versions of "{workflow?.name}"</DialogTitle>
+          <DialogDescription>
+            Saving steps publishes a new version. Reports stay on the version they were submitted into until migrated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {versions.map(version => (
+              <Badge key={version.id} variant={version.version === outdatedData?.latestVersion ? "default" : "outline"}>
+                v{version.version} · {new Date(version.publishedAt).toLocaleDateString()}
+                {version.publisher && ` · ${version.publisher.firstName || version.publisher.email}`}
+              </Badge>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pending reports on older versions</Label>
+            {outdated.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every pending report is on the latest version.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8">
+                      <Checkbox
+                        checked={selected.length === outdated.length}
+                        onCheckedChange={(checked) => setSelected(checked ? outdated.map(report => report.id) : [])}
+                        data-testid="checkbox-select-all-outdated"
+                      />
+                    </TableHead>
+                    <TableHead>Report</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Current Step</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {outdated.map(report => (
+                    <TableRow key={report.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(report.id)}
+                          onCheckedChange={(checked) => toggle(report.id, checked === true)}
+                          data-testid={`checkbox-outdated-${report.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>#{report.id} ({report.nptType})</TableCell>
+                      <TableCell>{new Date(report.date).toLocaleDateString()}</TableCell>
+                      <TableCell>{Number(report.hours)}</TableCell>
+                      <TableCell>{report.version ? `v${report.version}` : "Unversioned"}</TableCell>
+                      <TableCell>{report.currentStepOrder ?? "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {outdated.length > 0 && (
+            <div className="flex items-end justify-between gap-4">
+              <div className="w-64">
+                <Label>Migration</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as "keep" | "restart")}>
+                  <SelectTrigger data-testid="select-migration-mode"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="keep">Continue at the current step</SelectItem>
+                    <SelectItem value="restart">Restart approval from step 1</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() => migrateMutation.mutate()}
+                disabled={selected.length === 0 || migrateMutation.isPending}
+                data-testid="button-migrate-reports"
+              >
+                Move {selected.length} to v{outdatedData?.latestVersion}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function IssueList({ issues }: { issues: WorkflowIssue[] }) {
+  if (issues.length === 0) {
+    return (
+      <p className="flex items-center text-sm text-green-700" data-testid="text-no-issues">
+        <CheckCircle className="h-4 w-4 mr-1" />
+        No problems found
+      </p>
+    );
+  }
+  return (
+    <ul className="space-y-1" data-testid="list-workflow-issues">
+      {issues.map((issue, index) => (
+        <li key={index} className="flex items-start gap-2 text-sm">
+          <Badge variant={issue.level === "error" ? "destructive" : "secondary"} className="text-xs shrink-0">
+            {issue.level === "error" ? "Error" : "Warning"}
+          </Badge>
+          <span>{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Static checks of a workflow plus its steps resolved today on every rig it applies to
+function WorkflowValidationDialog({ workflow, onClose }: { workflow: WorkflowDefinition | null; onClose: () => void }) {
+  const { data, isLoading } = useQuery<{ rigsChecked: number; issues: WorkflowIssue[] }>({
+    queryKey: [`/api/workflows/${workflow?.id}/validate`],
+    enabled: !!workflow,
+  });
+
+  return (
+    <Dialog open={!!workflow} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Validate "{workflow?.name}"</DialogTitle>
+          <DialogDescription>
+            {data ? `Resolved against ${data.rigsChecked} rig(s) with today's role assignments and delegations.` : "Checking..."}
+          </DialogDescription>
+        </DialogHeader>
+        {!isLoading && data && <IssueList issues={data.issues} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Walk a sample report through workflow selection and approver resolution without submitting anything
+function WorkflowSimulator({ rigId, userName }: { rigId: number; userName: (userId: string | null) => string }) {
+  const { toast } = useToast();
+  const [sample, setSample] = useState({
+    date: new Date().toISOString().slice(0, 10),
+    hours: "1",
+    nptType: ANY,
+    department: ANY,
+    system: "",
+  });
+  const [result, setResult] = useState<WorkflowSimulation | null>(null);
+
+  useEffect(() => setResult(null), [rigId]);
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => apiRequest("/api/workflows/simulate", {
+      method: "POST",
+      data: {
+        rigId,
+        date: sample.date,
+        hours: sample.hours,
+        nptType: sample.nptType === ANY ? "" : sample.nptType,
+        department: sample.department === ANY ? "" : sample.department,
+        system: sample.system,
+      },
+    }),
+    onSuccess: (simulation: WorkflowSimulation) => setResult(simulation),
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to simulate workflow", variant: "destructive" });
+    }
+  });
+
+  const set = (key: keyof typeof sample) => (value: string) => setSample(current => ({ ...current, [key]: value }));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Sample Report</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="simulate-date">Date</Label>
+              <Input id="simulate-date" type="date" value={sample.date} onChange={(e) => set("date")(e.target.value)} data-testid="input-simulate-date" />
+            </div>
+            <div>
+              <Label htmlFor="simulate-hours">Hours</Label>
+              <Input id="simulate-hours" type="number" step="0.25" min="0" value={sample.hours} onChange={(e) => set("hours")(e.target.value)} data-testid="input-simulate-hours" />
+            </div>
+            <div>
+              <Label htmlFor="simulate-system">System</Label>
+              <Input id="simulate-system" value={sample.system} onChange={(e) => set("system")(e.target.value)} placeholder="None" data-testid="input-simulate-system" />
+            </div>
+            <div>
+              <Label>NPT Type</Label>
+              <Select value={sample.nptType} onValueChange={set("nptType")}>
+                <SelectTrigger data-testid="select-simulate-npt-type"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>None</SelectItem>
+                  {Object.values(NPT_TYPES).map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Department</Label>
+              <Select value={sample.department} onValueChange={set("department")}>
+                <SelectTrigger data-testid="select-simulate-department"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>None</SelectItem>
+                  {Object.values(DEPARTMENTS).map(department => (
+                    <SelectItem key={department} value={department}>{department}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <Button
+                className="w-full"
+                onClick={() => simulateMutation.mutate()}
+                disabled={simulateMutation.isPending}
+                data-testid="button-run-simulation"
+              >
+                <FlaskConical className="h-4 w-4 mr-2" />
+                Simulate
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card data-testid="card-simulation-result">
+          <CardHeader>
+            <CardTitle className="text-base">{result.workflowName || "Default approval chain"}</CardTitle>
+            <p className="text-sm text-muted-foreground">{result.reason}</p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Approver</TableHead>
+                  <TableHead>Assigned</TableHead>
+                  <TableHead>Acts</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.steps.flatMap(step => step.approvers.map((approver, index) => (
+                  <TableRow key={`${step.stepOrder}-${index}`}>
+                    <TableCell>
+                      {index === 0 && (
+                        <>
+                          {step.stepOrder}
+                          {step.approvers.length > 1 && (
+                            <span className="text-xs text-muted-foreground"> ({step.approvalsNeeded} of {step.approvers.length})</span>
+                          )}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {approver.approverType === "role"
+                        ? ROLE_LABELS[approver.roleKey as RoleKey] || approver.roleKey || "No role"
+                        : userName(approver.userId ?? null)}
+                      {!approver.isRequired && <span className="text-xs text-muted-foreground"> (optional)</span>}
+                    </TableCell>
+                    <TableCell>{approver.nominalUserId ? userName(approver.nominalUserId) : <span className="text-red-600">Nobody</span>}</TableCell>
+                    <TableCell>
+                      {approver.delegationChain.length > 1
+                        ? approver.delegationChain.map(userName).join(" → ")
+                        : approver.effectiveUserId ? userName(approver.effectiveUserId) : "-"}
+                    </TableCell>
+                  </TableRow>
+                )))}
+              </TableBody>
+            </Table>
+            <IssueList issues={result.issues} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
 interface RoleAssignment {
   id: number;
   rigId: number;
@@ -67,7 +546,10 @@ export default function WorkflowsAdmin() {
   const [roleDialogOpen, setRoleDialogOpen] = useState(false);
   const [delegationDialogOpen, setDelegationDialogOpen] = useState(false);
   const [editingWorkflow, setEditingWorkflow] = useState<WorkflowDefinition | null>(null);
-  const [workflowSteps, setWorkflowSteps] = useState<WorkflowStep[]>([]);
+  const [conditionsWorkflow, setConditionsWorkflow] = useState<WorkflowDefinition | null>(null);
+  const [versionsWorkflow, setVersionsWorkflow] = useState<WorkflowDefinition | null>(null);
+  const [validatingWorkflow, setValidatingWorkflow] = useState<WorkflowDefinition | null>(null);
+  const [workflowGroups, setWorkflowGroups] = useState<EditorStepGroup[]>([]);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -107,31 +589,49 @@ export default function WorkflowsAdmin() {
   const roleKeys = roleAssignmentsData?.roleKeys || [];
   const roleLabels = roleAssignmentsData?.roleLabels || {};
 
+  const userName = (userId: string | null) => {
+    const user = users.find((u: any) => u.id === userId);
+    return user ? `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email : userId || "-";
+  };
+
   // Mutations
   const createWorkflowMutation = useMutation({
-    mutationFn: async (data: { name: string; rigId?: number }) => 
-      apiRequest("/api/workflows", { method: "POST", body: data }),
+    mutationFn: async (data: { name: string; rigId?: number } & Record<string, any>) => 
+      apiRequest("/api/workflows", { method: "POST", data }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
       setWorkflowDialogOpen(false);
       toast({ title: "Success", description: "Workflow created successfully" });
     },
-    onError: (error) => {
-      toast({ title: "Error", description: "Failed to create workflow", variant: "destructive" });
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to create workflow", variant: "destructive" });
     }
   });
 
-  const updateWorkflowStepsMutation = useMutation({
-    mutationFn: async ({ workflowId, steps }: { workflowId: number; steps: WorkflowStep[] }) =>
-      apiRequest(`/api/workflows/${workflowId}/steps/bulk`, { method: "POST", body: { steps } }),
+  const updateConditionsMutation = useMutation({
+    mutationFn: async ({ workflowId, conditions }: { workflowId: number; conditions: Record<string, string> }) =>
+      apiRequest(`/api/workflows/${workflowId}`, { method: "PATCH", data: conditions }),
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+      setConditionsWorkflow(null);
+      toast({ title: "Success", description: "Workflow conditions updated" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update workflow conditions", variant: "destructive" });
+    }
+  });
+
+  const updateWorkflowStepsMutation = useMutation({
+    mutationFn: async ({ workflowId, steps, groups }: { workflowId: number; steps: WorkflowStep[]; groups: WorkflowStepGroup[] }) =>
+      apiRequest(`/api/workflows/${workflowId}/steps/bulk`, { method: "POST", data: { steps, groups } }),
+    onSuccess: (result: { version: number }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
       setEditingWorkflow(null);
-      setWorkflowSteps([]);
-      toast({ title: "Success", description: "Workflow steps updated successfully" });
+      setWorkflowGroups([]);
+      toast({ title: "Success", description: `Workflow steps published as version ${result.version}` });
     },
-    onError: (error) => {
-      toast({ title: "Error", description: "Failed to update workflow steps", variant: "destructive" });
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update workflow steps", variant: "destructive" });
     }
   });
 
@@ -150,14 +650,14 @@ export default function WorkflowsAdmin() {
 
   const createDelegationMutation = useMutation({
     mutationFn: async (data: any) =>
-      apiRequest("/api/delegations", { method: "POST", body: data }),
+      apiRequest("/api/delegations", { method: "POST", data }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/delegations"] });
       setDelegationDialogOpen(false);
       toast({ title: "Success", description: "Delegation created successfully" });
     },
-    onError: (error) => {
-      toast({ title: "Error", description: "Failed to create delegation", variant: "destructive" });
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to create delegation", variant: "destructive" });
     }
   });
 
@@ -173,41 +673,75 @@ export default function WorkflowsAdmin() {
     }
   });
 
+  const newApprover = (): WorkflowStep => ({
+    stepOrder: 0,
+    approverType: "role",
+    isRequired: true
+  });
+
   const addWorkflowStep = () => {
-    setWorkflowSteps(prev => [...prev, {
-      stepOrder: prev.length + 1,
-      approverType: "role",
-      isRequired: true
-    }]);
+    setWorkflowGroups(prev => [...prev, { mode: "all", requiredApprovals: 1, approvers: [newApprover()] }]);
   };
 
   const removeWorkflowStep = (index: number) => {
-    setWorkflowSteps(prev => prev.filter((_, i) => i !== index));
+    setWorkflowGroups(prev => prev.filter((_, i) => i !== index));
   };
 
-  const updateWorkflowStep = (index: number, updates: Partial<WorkflowStep>) => {
-    setWorkflowSteps(prev => prev.map((step, i) => 
-      i === index ? { ...step, ...updates } : step
+  const updateStepGroup = (index: number, updates: Partial<EditorStepGroup>) => {
+    setWorkflowGroups(prev => prev.map((group, i) =>
+      i === index ? { ...group, ...updates } : group
     ));
   };
 
+  const addApprover = (groupIndex: number) => {
+    updateStepGroup(groupIndex, { approvers: [...workflowGroups[groupIndex].approvers, newApprover()] });
+  };
+
+  const removeApprover = (groupIndex: number, approverIndex: number) => {
+    const approvers = workflowGroups[groupIndex].approvers.filter((_, i) => i !== approverIndex);
+    if (approvers.length === 0) {
+      removeWorkflowStep(groupIndex);
+    } else {
+      updateStepGroup(groupIndex, { approvers });
+    }
+  };
+
+  const updateWorkflowStep = (groupIndex: number, approverIndex: number, updates: Partial<WorkflowStep>) => {
+    updateStepGroup(groupIndex, {
+      approvers: workflowGroups[groupIndex].approvers.map((step, i) =>
+        i === approverIndex ? { ...step, ...updates } : step
+      )
+    });
+  };
+
   const saveWorkflowSteps = () => {
     if (!editingWorkflow) return;
-    
-    const validatedSteps = workflowSteps.map((step, index) => ({
-      ...step,
-      stepOrder: index + 1
+
+    // Each group becomes one stepOrder; its approvers share it
+    const validatedSteps = workflowGroups.flatMap((group, index) =>
+      group.approvers.map(step => ({ ...step, stepOrder: index + 1 }))
+    );
+    const groups = workflowGroups.map((group, index) => ({
+      stepOrder: index + 1,
+      mode: group.approvers.length > 1 ? group.mode : "all" as StepGroupMode,
+      requiredApprovals: group.mode === "quorum" ? Math.min(group.requiredApprovals, group.approvers.length) : null,
+      reminderHours: group.reminderHours || null,
+      escalationHours: group.escalationHours || null,
+      escalationRoleKey: group.escalationRoleKey || null,
+      escalationUserId: group.escalationUserId || null,
+      escalationMode: group.escalationMode || null
     }));
 
     updateWorkflowStepsMutation.mutate({
       workflowId: editingWorkflow.id,
-      steps: validatedSteps
+      steps: validatedSteps,
+      groups
     });
   };
 
   useEffect(() => {
     if (editingWorkflow && editingWorkflow.steps) {
-      setWorkflowSteps(editingWorkflow.steps);
+      setWorkflowGroups(toEditorGroups(editingWorkflow));
     }
   }, [editingWorkflow]);
 
@@ -233,10 +767,11 @@ export default function WorkflowsAdmin() {
 
       {selectedRig && (
         <Tabs defaultValue="workflows" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="workflows">Workflows</TabsTrigger>
             <TabsTrigger value="roles">Role Assignments</TabsTrigger>
             <TabsTrigger value="delegations">Delegations</TabsTrigger>
+            <TabsTrigger value="simulate">Simulate</TabsTrigger>
           </TabsList>
 
           <TabsContent value="workflows" className="space-y-4">
@@ -261,7 +796,8 @@ export default function WorkflowsAdmin() {
                     const formData = new FormData(e.target as HTMLFormElement);
                     createWorkflowMutation.mutate({
                       name: formData.get("name") as string,
-                      rigId: selectedRig || undefined
+                      rigId: selectedRig || undefined,
+                      ...conditionsFromForm(formData)
                     });
                   }}>
                     <div className="space-y-4">
@@ -269,6 +805,7 @@ export default function WorkflowsAdmin() {
                         <Label htmlFor="name">Workflow Name</Label>
                         <Input id="name" name="name" placeholder="e.g., Standard NPT Approval" required />
                       </div>
+                      <WorkflowConditionFields />
                       <div className="flex justify-end space-x-2">
                         <Button type="button" variant="outline" onClick={() => setWorkflowDialogOpen(false)}>
                           Cancel
@@ -292,12 +829,39 @@ export default function WorkflowsAdmin() {
                       <Badge variant={workflow.isActive ? "default" : "secondary"}>
                         {workflow.isActive ? "Active" : "Inactive"}
                       </Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setVersionsWorkflow(workflow)}
+                        data-testid={`button-workflow-versions-${workflow.id}`}
+                      >
+                        <History className="h-4 w-4 mr-1" />
+                        {workflow.versions?.[0] ? `v${workflow.versions[0].version}` : "Versions"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setValidatingWorkflow(workflow)}
+                        data-testid={`button-validate-workflow-${workflow.id}`}
+                      >
+                        <ShieldCheck className="h-4 w-4 mr-1" />
+                        Validate
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setConditionsWorkflow(workflow)}
+                        data-testid={`button-edit-conditions-${workflow.id}`}
+                      >
+                        <Edit className="h-4 w-4 mr-1" />
+                        Conditions
+                      </Button>
                       <Button 
                         variant="outline" 
                         size="sm"
                         onClick={() => {
                           setEditingWorkflow(workflow);
-                          setWorkflowSteps(workflow.steps || []);
+                          setWorkflowGroups(toEditorGroups(workflow));
                         }}
                         data-testid={`button-edit-workflow-${workflow.id}`}
                       >
@@ -306,14 +870,24 @@ export default function WorkflowsAdmin() {
                       </Button>
                     </div>
                   </CardHeader>
-                  <CardContent>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-wrap gap-1">
+                      {describeConditions(workflow).length === 0 ? (
+                        <Badge variant="secondary">{workflow.rigId ? "Default for this rig" : "Global default"}</Badge>
+                      ) : describeConditions(workflow).map(condition => (
+                        <Badge key={condition} variant="secondary">{condition}</Badge>
+                      ))}
+                    </div>
                     <div className="flex items-center space-x-2">
-                      {(workflow.steps || []).map((step, index) => (
+                      {toEditorGroups(workflow).map((group, index, groups) => (
                         <div key={index} className="flex items-center">
                           <Badge variant="outline">
-                            Step {step.stepOrder}: {step.approverType === "role" ? roleLabels[step.roleKey || ""] || step.roleKey : "User"}
+                            Step {index + 1}: {group.approvers.map(step =>
+                              step.approverType === "role" ? roleLabels[step.roleKey || ""] || step.roleKey : "User"
+                            ).join(" + ")}
+                            {describeGroup(group, group.approvers.length)}
                           </Badge>
-                          {index < (workflow.steps || []).length - 1 && (
+                          {index < groups.length - 1 && (
                             <ArrowRight className="h-4 w-4 mx-2 text-muted-foreground" />
                           )}
                         </div>
@@ -324,6 +898,40 @@ export default function WorkflowsAdmin() {
               ))}
             </div>
 
+            <WorkflowVersionsDialog workflow={versionsWorkflow} onClose={() => setVersionsWorkflow(null)} />
+            <WorkflowValidationDialog workflow={validatingWorkflow} onClose={() => setValidatingWorkflow(null)} />
+
+            {/* Workflow Conditions Dialog */}
+            <Dialog open={!!conditionsWorkflow} onOpenChange={(open) => !open && setConditionsWorkflow(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Workflow Conditions</DialogTitle>
+                  <DialogDescription>
+                    Choose which NPT reports "{conditionsWorkflow?.name}" applies to
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={(e) => {
+                  e.preventDefault();
+                  updateConditionsMutation.mutate({
+                    workflowId: conditionsWorkflow!.id,
+                    conditions: conditionsFromForm(new FormData(e.target as HTMLFormElement))
+                  });
+                }}>
+                  <div className="space-y-4">
+                    <WorkflowConditionFields workflow={conditionsWorkflow} />
+                    <div className="flex justify-end space-x-2">
+                      <Button type="button" variant="outline" onClick={() => setConditionsWorkflow(null)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={updateConditionsMutation.isPending} data-testid="button-save-conditions">
+                        Save Conditions
+                      </Button>
+                    </div>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+
             {/* Workflow Steps Editor Dialog */}
             <Dialog open={!!editingWorkflow} onOpenChange={() => setEditingWorkflow(null)}>
               <DialogContent className="max-w-4xl">
@@ -343,76 +951,189 @@ export default function WorkflowsAdmin() {
                   </div>
                   
                   <div className="space-y-3">
-                    {workflowSteps.map((step, index) => (
-                      <div key={index} className="flex items-center space-x-4 p-4 border rounded-lg">
-                        <div className="flex-shrink-0 w-16">
-                          <Label>Step {index + 1}</Label>
+                    {workflowGroups.map((group, groupIndex) => (
+                      <div key={groupIndex} className="p-4 border rounded-lg space-y-3" data-testid={`step-group-${groupIndex + 1}`}>
+                        <div className="flex items-center space-x-4">
+                          <div className="flex-shrink-0 w-16">
+                            <Label>Step {groupIndex + 1}</Label>
+                          </div>
+                          {group.approvers.length > 1 ? (
+                            <>
+                              <Select
+                                value={group.mode}
+                                onValueChange={(value: StepGroupMode) => updateStepGroup(groupIndex, { mode: value })}
+                              >
+                                <SelectTrigger className="w-48" data-testid={`select-group-mode-${groupIndex + 1}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {STEP_GROUP_MODES.map(mode => (
+                                    <SelectItem key={mode} value={mode}>{STEP_GROUP_MODE_LABELS[mode]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {group.mode === "quorum" && (
+                                <div className="flex items-center space-x-2">
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    max={group.approvers.length}
+                                    value={group.requiredApprovals}
+                                    onChange={(e) => updateStepGroup(groupIndex, { requiredApprovals: Number(e.target.value) || 1 })}
+                                    className="w-20"
+                                    data-testid={`input-required-approvals-${groupIndex + 1}`}
+                                  />
+                                  <Label>of {group.approvers.length}</Label>
+                                </div>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Single approver</span>
+                          )}
+                          <div className="flex-1" />
+                          <Button variant="outline" size="sm" onClick={() => addApprover(groupIndex)} data-testid={`button-add-approver-${groupIndex + 1}`}>
+                            <UserPlus className="h-4 w-4 mr-1" />
+                            Parallel Approver
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => removeWorkflowStep(groupIndex)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
                         </div>
-                        <div className="flex-1">
-                          <Select 
-                            value={step.approverType} 
-                            onValueChange={(value: "role" | "user") => 
-                              updateWorkflowStep(index, { approverType: value, roleKey: undefined, userId: undefined })
-                            }
+                        {group.approvers.map((step, approverIndex) => (
+                          <div key={approverIndex} className="flex items-center space-x-4 pl-20">
+                            <div className="flex-1">
+                              <Select 
+                                value={step.approverType} 
+                                onValueChange={(value: "role" | "user") => 
+                                  updateWorkflowStep(groupIndex, approverIndex, { approverType: value, roleKey: undefined, userId: undefined })
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="role">Role-based</SelectItem>
+                                  <SelectItem value="user">Specific User</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div className="flex-1">
+                              {step.approverType === "role" ? (
+                                <Select 
+                                  value={step.roleKey || ""} 
+                                  onValueChange={(value) => updateWorkflowStep(groupIndex, approverIndex, { roleKey: value })}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select role" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {roleKeys.map((roleKey: string) => (
+                                      <SelectItem key={roleKey} value={roleKey}>
+                                        {roleLabels[roleKey] || roleKey}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <Select 
+                                  value={step.userId || ""} 
+                                  onValueChange={(value) => updateWorkflowStep(groupIndex, approverIndex, { userId: value })}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select user" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {users.map((user: any) => (
+                                      <SelectItem key={user.id} value={user.id}>
+                                        {user.firstName} {user.lastName} ({user.email})
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Switch 
+                                checked={step.isRequired}
+                                onCheckedChange={(checked) => updateWorkflowStep(groupIndex, approverIndex, { isRequired: checked })}
+                              />
+                              <Label>Required</Label>
+                            </div>
+                            {group.approvers.length > 1 && (
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                onClick={() => removeApprover(groupIndex, approverIndex)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                        <div className="flex items-center space-x-2 pl-20 text-sm" data-testid={`step-sla-${groupIndex + 1}`}>
+                          <Label className="whitespace-nowrap">Remind after</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={group.reminderHours ?? ""}
+                            onChange={(e) => updateStepGroup(groupIndex, { reminderHours: e.target.value ? Number(e.target.value) : null })}
+                            placeholder="SLA rule"
+                            className="w-24"
+                            data-testid={`input-reminder-hours-${groupIndex + 1}`}
+                          />
+                          <Label className="whitespace-nowrap">h, escalate after</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={group.escalationHours ?? ""}
+                            onChange={(e) => updateStepGroup(groupIndex, { escalationHours: e.target.value ? Number(e.target.value) : null })}
+                            placeholder="SLA rule"
+                            className="w-24"
+                            data-testid={`input-escalation-hours-${groupIndex + 1}`}
+                          />
+                          <Label>h to</Label>
+                          <Select
+                            value={group.escalationUserId ? `user:${group.escalationUserId}` : group.escalationRoleKey ? `role:${group.escalationRoleKey}` : ""}
+                            onValueChange={(value) => {
+                              const [type, id] = [value.slice(0, value.indexOf(":")), value.slice(value.indexOf(":") + 1)];
+                              updateStepGroup(groupIndex, {
+                                escalationRoleKey: type === "role" ? id : null,
+                                escalationUserId: type === "user" ? id : null
+                              });
+                            }}
+                            disabled={!group.escalationHours}
+                          >
+                            <SelectTrigger className="w-48" data-testid={`select-escalation-target-${groupIndex + 1}`}>
+                              <SelectValue placeholder="Escalate to" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {roleKeys.map((roleKey: string) => (
+                                <SelectItem key={roleKey} value={`role:${roleKey}`}>{roleLabels[roleKey] || roleKey}</SelectItem>
+                              ))}
+                              {users.map((user: any) => (
+                                <SelectItem key={user.id} value={`user:${user.id}`}>{user.firstName} {user.lastName}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={group.escalationMode || "add"}
+                            onValueChange={(value: EscalationMode) => updateStepGroup(groupIndex, { escalationMode: value })}
+                            disabled={!group.escalationHours}
                           >
-                            <SelectTrigger>
+                            <SelectTrigger className="w-40" data-testid={`select-escalation-mode-${groupIndex + 1}`}>
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="role">Role-based</SelectItem>
-                              <SelectItem value="user">Specific User</SelectItem>
+                              {ESCALATION_MODES.map(mode => (
+                                <SelectItem key={mode} value={mode}>{ESCALATION_MODE_LABELS[mode]}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
-                        <div className="flex-1">
-                          {step.approverType === "role" ? (
-                            <Select 
-                              value={step.roleKey || ""} 
-                              onValueChange={(value) => updateWorkflowStep(index, { roleKey: value })}
-                            >
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select role" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {roleKeys.map((roleKey: string) => (
-                                  <SelectItem key={roleKey} value={roleKey}>
-                                    {roleLabels[roleKey] || roleKey}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          ) : (
-                            <Select 
-                              value={step.userId || ""} 
-                              onValueChange={(value) => updateWorkflowStep(index, { userId: value })}
-                            >
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select user" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {users.map((user: any) => (
-                                  <SelectItem key={user.id} value={user.id}>
-                                    {user.firstName} {user.lastName} ({user.email})
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          )}
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <Switch 
-                            checked={step.isRequired}
-                            onCheckedChange={(checked) => updateWorkflowStep(index, { isRequired: checked })}
-                          />
-                          <Label>Required</Label>
-                        </div>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={() => removeWorkflowStep(index)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
                       </div>
                     ))}
                   </div>
@@ -718,6 +1439,16 @@ export default function WorkflowsAdmin() {
               </TableBody>
             </Table>
           </TabsContent>
+
+          <TabsContent value="simulate" className="space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">Simulate Approval</h2>
+              <p className="text-sm text-muted-foreground">
+                See which workflow a report on this rig would use and who would approve each step on the chosen date.
+              </p>
+            </div>
+            <WorkflowSimulator rigId={selectedRig} userName={userName} />
+          </TabsContent>
         </Tabs>
       )}
 
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, XCircle, MessageSquare, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { FieldCommentsEditor, type FieldComments } from "@/components/workflow/field-comments";
+
+interface ApprovalLinkSummary {
+  stepOrder: number;
+  expiresAt: string;
+  approverName: string;
+  report: {
+    id: number;
+    date: string;
+    hours: string;
+    nptType: string;
+    rigNumber: number | null;
+    department: string | null;
+    system: string | null;
+    parentEquipment: string | null;
+    partEquipment: string | null;
+    immediateCause: string | null;
+    rootCause: string | null;
+    correctiveAction: string | null;
+    wellName: string | null;
+    submittedBy: string;
+  };
+}
+
+type Decision = "approve" | "reject" | "request-changes";
+
+// The link is the credential here, so these calls go out without a session and show the server's reason on failure
+async function linkRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error || `Request failed (${res.status})`);
+  }
+  return body;
+}
+
+const DONE_MESSAGES: Record<Decision, string> = {
+  approve: "Approved. The report moves on to the next step.",
+  reject: "Rejected. The submitter has been sent your reason.",
+  "request-changes": "Sent back for changes. The submitter will see your comments.",
+};
+
+// Emailed one-click approval: a report summary and the three decisions, for approvers away from the app
+export default function ApproveLink() {
+  const { token } = useParams<{ token: string }>();
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [comment, setComment] = useState("");
+  const [fieldComments, setFieldComments] = useState<FieldComments>({});
+  const [done, setDone] = useState<Decision | null>(null);
+
+  const url = `/api/approval-links/${encodeURIComponent(token)}`;
+  const { data, error, isLoading } = useQuery<ApprovalLinkSummary, Error>({
+    queryKey: [url],
+    queryFn: () => linkRequest<ApprovalLinkSummary>(url),
+    retry: false,
+  });
+
+  const decideMutation = useMutation<unknown, Error, Decision>({
+    mutationFn: (action) => linkRequest(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        action,
+        comment: comment.trim() || undefined,
+        fieldComments: action === "request-changes" ? fieldComments : undefined,
+      }),
+    }),
+    onSuccess: (_, action) => setDone(action),
+  });
+
+  const needsComment = decision === "reject"
+    || (decision === "request-changes" && Object.values(fieldComments).every(value => !value?.trim()));
+
+  const report = data?.report;
+  const rows: [string, string | null | undefined][] = report ? [
+    ["Rig", report.rigNumber ? `Rig ${report.rigNumber}` : null],
+    ["Date", format(new Date(report.date), "dd MMM yyyy")],
+    ["Hours", `${Number(report.hours)}h`],
+    ["NPT Type", report.nptType],
+    ["Well", report.wellName],
+    ["Department", report.department],
+    ["System", report.system],
+    ["Equipment", [report.parentEquipment, report.partEquipment].filter(Boolean).join(" / ")],
+    ["Immediate Cause", report.immediateCause],
+    ["Root Cause", report.rootCause],
+    ["Corrective Action", report.correctiveAction],
+    ["Submitted By", report.submittedBy],
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-start justify-center p-4">
+      <Card className="w-full max-w-xl mt-8">
+        {isLoading && (
+          <CardContent className="pt-6 text-muted-foreground">Checking link...</CardContent>
+        )}
+
+        {error && (
+          <CardContent className="pt-6 space-y-2" data-testid="approval-link-error">
+            <p className="flex items-center font-medium text-red-700">
+              <AlertTriangle className="h-5 w-5 mr-2" />
+              {error.message}
+            </p>
+            <p className="text-sm text-muted-foreground">You can still review the report by signing in to the app.</p>
+          </CardContent>
+        )}
+
+        {done && (
+          <CardContent className="pt-6" data-testid="approval-link-done">
+            <p className="flex items-center font-medium text-green-700">
+              <CheckCircle className="h-5 w-5 mr-2" />
+              {DONE_MESSAGES[done]}
+            </p>
+          </CardContent>
+        )}
+
+        {data && report && !done && (
+          <>
+            <CardHeader>
+              <CardTitle>NPT Report #{report.id}</CardTitle>
+              <CardDescription>
+                Approval step {data.stepOrder}{data.approverName && ` for ${data.approverName}`}. This link works once and
+                expires {format(new Date(data.expiresAt), "dd MMM yyyy HH:mm")}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
+                {rows.filter(([, value]) => value).map(([label, value]) => (
+                  <div key={label} className="contents">
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="col-span-2">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              {decision && decision !== "approve" && (
+                <div className="space-y-3">
+                  <div>
+                    <Label htmlFor="link-comment">
+                      {decision === "reject" ? "Rejection Reason" : "What needs to change"}
+                    </Label>
+                    <Textarea
+                      id="link-comment"
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      data-testid="textarea-link-comment"
+                    />
+                  </div>
+                  {decision === "request-changes" && (
+                    <FieldCommentsEditor value={fieldComments} onChange={setFieldComments} />
+                  )}
+                </div>
+              )}
+
+              {decideMutation.error && (
+                <p className="text-sm text-red-700" data-testid="text-link-decision-error">{decideMutation.error.message}</p>
+              )}
+
+              <div className="flex flex-wrap justify-end gap-2">
+                {decision && decision !== "approve" ? (
+                  <>
+                    <Button variant="outline" onClick={() => setDecision(null)}>Back</Button>
+                    <Button
+                      variant={decision === "reject" ? "destructive" : "default"}
+                      disabled={decideMutation.isPending || (needsComment && !comment.trim())}
+                      onClick={() => decideMutation.mutate(decision)}
+                      data-testid="button-link-confirm"
+                    >
+                      {decision === "reject" ? "Reject Report" : "Request Changes"}
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button variant="outline" onClick={() => setDecision("request-changes")} data-testid="button-link-request-changes">
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      Request Changes
+                    </Button>
+                    <Button variant="outline" onClick={() => setDecision("reject")} data-testid="button-link-reject">
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                    <Button
+                      onClick={() => decideMutation.mutate("approve")}
+                      disabled={decideMutation.isPending}
+                      data-testid="button-link-approve"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
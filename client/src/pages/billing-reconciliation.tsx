@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useParams, Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, CheckCircle, AlertTriangle, MessageSquare, Trash2 } from "lucide-react";
+import type { MonthlyReport } from "@shared/schema";
+import type { BillingReconciliation, ReconciliationDay } from "@shared/billingTypes";
+
+const formatHours = (hours: number) => hours.toFixed(2);
+
+const varianceClass = (variance: number) =>
+  Math.abs(variance) < 0.01 ? 'text-green-700' : variance > 0 ? 'text-amber-700' : 'text-red-700';
+
+export default function BillingReconciliationPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [explainingDay, setExplainingDay] = useState<ReconciliationDay | null>(null);
+  const [explanation, setExplanation] = useState('');
+
+  const { data: report, isLoading: reportLoading } = useQuery<MonthlyReport>({
+    queryKey: [`/api/monthly-reports/${id}`],
+    enabled: !!id,
+  });
+
+  const reconciliationUrl = report
+    ? `/api/billing-reconciliation?rigId=${report.rigId}&month=${report.month}`
+    : '';
+  const { data: reconciliation, isLoading } = useQuery<BillingReconciliation>({
+    queryKey: [reconciliationUrl],
+    enabled: !!report,
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: (day: ReconciliationDay) =>
+      apiRequest('/api/billing-reconciliation/notes', {
+        method: 'POST',
+        data: { rigId: report!.rigId, month: report!.month, date: day.date, explanation },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [reconciliationUrl] });
+      toast({ title: "Success", description: "Variance explained" });
+      setExplainingDay(null);
+      setExplanation('');
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save explanation", variant: "destructive" });
+    },
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: (noteId: number) => apiRequest(`/api/billing-reconciliation/notes/${noteId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [reconciliationUrl] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to remove explanation", variant: "destructive" });
+    },
+  });
+
+  if (reportLoading || isLoading) {
+    return (
+      <div className="container mx-auto py-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!report || !reconciliation) {
+    return (
+      <div className="container mx-auto py-6">
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-muted-foreground">Monthly report not found</p>
+            <Link href="/monthly-reports">
+              <Button className="mt-4">Back to Reports</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const blocking = reconciliation.billingRowCount > 0 && reconciliation.unexplainedDays > 0;
+
+  return (
+    <div className="container mx-auto py-6 space-y-6" data-testid="billing-reconciliation-page">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/monthly-reports">
+            <Button variant="outline" size="sm" data-testid="button-back">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Reports
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">Billing Reconciliation - Rig {reconciliation.rigNumber}, {reconciliation.month}</h1>
+            <p className="text-muted-foreground">
+              Repair, reduce-repair and zero-rate hours billed against Abraj NPT reports
+            </p>
+          </div>
+        </div>
+        {reconciliation.billingRowCount === 0 ? (
+          <Badge variant="secondary">No billing sheet uploaded</Badge>
+        ) : blocking ? (
+          <Badge variant="destructive" data-testid="badge-reconciliation-status">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            {reconciliation.unexplainedDays} unexplained day(s) - approval blocked
+          </Badge>
+        ) : (
+          <Badge className="bg-green-600" data-testid="badge-reconciliation-status">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            Reconciled
+          </Badge>
+        )}
+      </div>
+
+      {/* Totals per rate type */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Totals by Rate Type</CardTitle>
+          <CardDescription>
+            {reconciliation.billingRowCount} billing rows, {reconciliation.nptReportCount} NPT reports.
+            Variance is NPT hours minus billed hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="p-2">Rate Type</th>
+                <th className="p-2 text-right">Billed</th>
+                <th className="p-2 text-right">NPT</th>
+                <th className="p-2 text-right">Variance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reconciliation.totals.map(total => (
+                <tr key={total.rateType} className="border-b">
+                  <td className="p-2">{total.rateType}</td>
+                  <td className="p-2 text-right">{formatHours(total.billingHours)}</td>
+                  <td className="p-2 text-right">{formatHours(total.nptHours)}</td>
+                  <td className={`p-2 text-right font-medium ${varianceClass(total.variance)}`}>{formatHours(total.variance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {/* Day by day */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Daily Variance</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {reconciliation.days.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No billed NPT hours or NPT reports this month</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-2">Date</th>
+                  <th className="p-2">By Rate Type</th>
+                  <th className="p-2 text-right">Billed</th>
+                  <th className="p-2 text-right">NPT</th>
+                  <th className="p-2 text-right">Variance</th>
+                  <th className="p-2">Explanation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reconciliation.days.map(day => (
+                  <tr
+                    key={day.date}
+                    className={`border-b align-top ${!day.explained ? 'bg-red-50' : ''}`}
+                    data-testid={`row-reconciliation-${day.date}`}
+                  >
+                    <td className="p-2 whitespace-nowrap">{day.date}</td>
+                    <td className="p-2 text-xs text-gray-600">
+                      {day.byRateType.map(item => (
+                        <div key={item.rateType}>
+                          {item.rateType}: {formatHours(item.billingHours)} billed / {formatHours(item.nptHours)} NPT
+                        </div>
+                      ))}
+                    </td>
+                    <td className="p-2 text-right">{formatHours(day.billingHours)}</td>
+                    <td className="p-2 text-right">{formatHours(day.nptHours)}</td>
+                    <td className={`p-2 text-right font-medium ${varianceClass(day.variance)}`}>{formatHours(day.variance)}</td>
+                    <td className="p-2">
+                      {day.notes.map(note => (
+                        <div key={note.id} className="flex items-start gap-1 text-xs">
+                          <MessageSquare className="h-3 w-3 mt-0.5 text-gray-400" />
+                          <span className="flex-1">{note.explanation}</span>
+                          {(note.createdBy === user?.id || user?.role === 'admin') && (
+                            <button
+                              type="button"
+                              onClick={() => deleteNoteMutation.mutate(note.id)}
+                              className="text-gray-400 hover:text-red-600"
+                              data-testid={`button-delete-note-${note.id}`}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                      {Math.abs(day.variance) >= 0.01 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => setExplainingDay(day)}
+                          data-testid={`button-explain-${day.date}`}
+                        >
+                          Explain
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Unmatched rows on each side */}
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Billing Rows Without an NPT Report</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reconciliation.unmatchedBilling.length === 0 ? (
+              <p className="text-muted-foreground text-sm">Every billed NPT row has a report</p>
+            ) : (
+              <div className="space-y-2">
+                {reconciliation.unmatchedBilling.map(row => (
+                  <div key={`${row.uploadId}-${row.rowIndex}`} className="text-sm border rounded p-2">
+                    <div className="flex justify-between">
+                      <span className="font-medium">{row.date} · {formatHours(row.hours)}h</span>
+                      <Badge variant="outline">{row.rateType}</Badge>
+                    </div>
+                    <div className="text-xs text-gray-600">{row.description || '-'}</div>
+                    <div className="text-xs text-gray-400">{row.fileName}, row {row.rowIndex + 1}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>NPT Reports Without a Billing Row</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reconciliation.unmatchedReports.length === 0 ? (
+              <p className="text-muted-foreground text-sm">Every NPT report is on the billing sheet</p>
+            ) : (
+              <div className="space-y-2">
+                {reconciliation.unmatchedReports.map(item => (
+                  <Link key={item.reportId} href={`/npt-reports/${item.reportId}`}>
+                    <div className="text-sm border rounded p-2 cursor-pointer hover:bg-gray-50">
+                      <div className="flex justify-between">
+                        <span className="font-medium">#{item.reportId} · {item.date} · {formatHours(item.hours)}h</span>
+                        <Badge variant="secondary">{item.status || '-'}</Badge>
+                      </div>
+                      <div className="text-xs text-gray-600">{item.description || '-'}</div>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!explainingDay} onOpenChange={(open) => !open && setExplainingDay(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Explain Variance - {explainingDay?.date}</DialogTitle>
+            <DialogDescription>
+              {explainingDay && `NPT reports show ${formatHours(explainingDay.nptHours)}h against ${formatHours(explainingDay.billingHours)}h billed.`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={explanation}
+            onChange={(e) => setExplanation(e.target.value)}
+            placeholder="e.g., Client credited 2h on the next ticket"
+            data-testid="textarea-explanation"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExplainingDay(null)}>Cancel</Button>
+            <Button
+              onClick={() => explainingDay && addNoteMutation.mutate(explainingDay)}
+              disabled={!explanation.trim() || addNoteMutation.isPending}
+              data-testid="button-save-explanation"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
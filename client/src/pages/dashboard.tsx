@@ -5,6 +5,7 @@ import Navigation from "@/components/layout/navigation";
 import Sidebar from "@/components/layout/sidebar";
 import StatusCards from "@/components/dashboard/status-cards";
 import RecentReports from "@/components/dashboard/recent-reports";
+import MissingEntries from "@/components/dashboard/missing-entries";
 
 export default function Dashboard() {
   const { toast } = useToast();
@@ -43,6 +44,7 @@ export default function Dashboard() {
             </div>
 
             <StatusCards />
+            <MissingEntries />
             <RecentReports />
           </div>
         </div>
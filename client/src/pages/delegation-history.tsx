@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { format } from "date-fns";
+
+interface DelegatedApproval {
+  id: number;
+  reportId: number;
+  stepOrder: number;
+  action: string;
+  approverRole: string | null;
+  comment: string | null;
+  createdAt: string;
+  approverUserId: string;
+  approverName: string | null;
+  approverLastName: string | null;
+  approverEmail: string | null;
+  delegatedFromUserId: string;
+  delegatedFromName: string | null;
+  delegatedFromLastName: string | null;
+  delegatedFromEmail: string | null;
+  reportDate: string;
+  reportHours: string;
+  rigNumber: number | null;
+}
+
+const EVERYONE = "all";
+
+const fullName = (first: string | null, last: string | null, email: string | null, fallback: string) =>
+  [first, last].filter(Boolean).join(" ") || email || fallback;
+
+const actionVariant = (action: string) => {
+  if (action === "APPROVE") return "default" as const;
+  if (action === "REJECT") return "destructive" as const;
+  return "secondary" as const;
+};
+
+// Approval actions taken on someone else's behalf, through a delegation or an escalation
+export default function DelegationHistory() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [userFilter, setUserFilter] = useState(EVERYONE);
+
+  const { data: usersData } = useQuery<{ items: { id: string; firstName?: string; lastName?: string; email?: string }[] }>({
+    queryKey: ["/api/users"],
+    enabled: isAdmin,
+  });
+
+  const historyUrl = userFilter === EVERYONE
+    ? "/api/delegations/history"
+    : `/api/delegations/history?userId=${encodeURIComponent(userFilter)}`;
+  const { data: historyData, isLoading } = useQuery<{ items: DelegatedApproval[] }>({
+    queryKey: [historyUrl],
+  });
+
+  const items = historyData?.items || [];
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Delegation History</h1>
+          <p className="text-muted-foreground">
+            {isAdmin ? "Who approved on whose behalf" : "Approvals you gave for others, and others gave for you"}
+          </p>
+        </div>
+        {isAdmin && (
+          <div className="w-64">
+            <Label>User</Label>
+            <Select value={userFilter} onValueChange={setUserFilter}>
+              <SelectTrigger data-testid="select-history-user"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                {(usersData?.items || []).map(u => (
+                  <SelectItem key={u.id} value={u.id}>{fullName(u.firstName ?? null, u.lastName ?? null, u.email ?? null, u.id)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>On-behalf Actions</CardTitle>
+          <CardDescription>The latest {items.length} action(s), newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading...</p>
+          ) : items.length === 0 ? (
+            <p className="text-muted-foreground" data-testid="text-no-delegated-approvals">
+              No one has acted on someone else's behalf yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Report</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Acted By</TableHead>
+                  <TableHead>On Behalf Of</TableHead>
+                  <TableHead>Comment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={item.id} data-testid={`row-delegated-approval-${item.id}`}>
+                    <TableCell>{format(new Date(item.createdAt), "dd MMM yyyy HH:mm")}</TableCell>
+                    <TableCell>
+                      <Link href={`/npt-reports/${item.reportId}`} className="text-primary hover:underline">
+                        #{item.reportId}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        {item.rigNumber ? `Rig ${item.rigNumber}, ` : ""}
+                        {format(new Date(item.reportDate), "dd MMM yyyy")}, {Number(item.reportHours)}h, step {item.stepOrder}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={actionVariant(item.action)}>{item.action.replace(/_/g, " ")}</Badge>
+                    </TableCell>
+                    <TableCell>{fullName(item.approverName, item.approverLastName, item.approverEmail, item.approverUserId)}</TableCell>
+                    <TableCell>{fullName(item.delegatedFromName, item.delegatedFromLastName, item.delegatedFromEmail, item.delegatedFromUserId)}</TableCell>
+                    <TableCell className="max-w-xs truncate">{item.comment || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -13,25 +13,29 @@ import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { Upload, FileText, CheckCircle, XCircle, AlertCircle, Download, Plus } from "lucide-react";
-import type { BillingUploadResult, BillingSheetRow } from "@shared/billingTypes";
-
-interface UploadedFile {
-  id: string;
-  fileName: string;
-  uploadDate: string;
-  status: string;
-  result?: BillingUploadResult;
-}
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ColumnProfilesManager from "@/components/billing/ColumnProfilesManager";
+import SuggestionAcceptanceCard from "@/components/billing/SuggestionAcceptanceCard";
+import { Upload, FileText, CheckCircle, XCircle, AlertCircle, Download, Plus, FolderOpen } from "lucide-react";
+import type { BillingUploadResult, BillingSheetRow, BillingUploadSummary, WorkbookSheetPreview } from "@shared/billingTypes";
+import type { BillingColumnProfile } from "@shared/schema";
 
 export default function FileUpload() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
   const [location, setLocation] = useLocation();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [currentResult, setCurrentResult] = useState<BillingUploadResult | null>(null);
+  // Consolidated sheets cover several rigs; 'all' shows every row
+  const [rigFilter, setRigFilter] = useState("all");
+
+  // Excel workbook options: chosen sheet, 1-based header row and column profile
+  const [workbookSheets, setWorkbookSheets] = useState<WorkbookSheetPreview[]>([]);
+  const [sheetName, setSheetName] = useState("");
+  const [headerRow, setHeaderRow] = useState("");
+  const [profileId, setProfileId] = useState("auto");
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -48,15 +52,87 @@ export default function FileUpload() {
   }, [isAuthenticated, isLoading, toast]);
 
   // Fetch upload history
-  const { data: uploadHistory = [] } = useQuery<UploadedFile[]>({
+  const { data: uploadHistory = [] } = useQuery<BillingUploadSummary[]>({
     queryKey: ['/api/billing-uploads'],
   });
 
+  const { data: columnProfiles = [] } = useQuery<BillingColumnProfile[]>({
+    queryKey: ['/api/billing-column-profiles'],
+  });
+
+  useEffect(() => {
+    setRigFilter("all");
+  }, [currentResult]);
+
+  const visibleRows = currentResult
+    ? currentResult.extractedData.filter(row => rigFilter === "all" || (row.rigNumber || "Unknown") === rigFilter)
+    : [];
+
+  const isWorkbook = (file: File | null) => !!file && /\.(xlsx|xls)$/i.test(file.name);
+  const selectedSheet = workbookSheets.find(sheet => sheet.name === sheetName);
+
+  // Read sheet names and a preview of an Excel file before processing it
+  const inspectMutation = useMutation({
+    mutationFn: async (file: File): Promise<{ sheets: WorkbookSheetPreview[] }> => {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/billing-upload/inspect', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    onSuccess: ({ sheets }) => {
+      setWorkbookSheets(sheets);
+      const first = sheets[0];
+      setSheetName(first?.name || "");
+      setHeaderRow(first?.detectedHeaderRow ? String(first.detectedHeaderRow) : "");
+    },
+    onError: (error) => {
+      setWorkbookSheets([]);
+      toast({
+        title: "Could Not Read Workbook",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reopen a stored upload for re-review or conversion into NPT reports
+  const reopenMutation = useMutation({
+    mutationFn: async (uploadId: number): Promise<BillingUploadResult> =>
+      apiRequest(`/api/billing-uploads/${uploadId}`),
+    onSuccess: (result) => {
+      setCurrentResult(result);
+      setSelectedFile(null);
+      toast({
+        title: "Upload Reopened",
+        description: `Loaded ${result.extractedData.length} rows from ${result.fileName}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Open Upload",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
   // File upload mutation
   const uploadMutation = useMutation({
     mutationFn: async (file: File): Promise<BillingUploadResult> => {
       const formData = new FormData();
       formData.append('file', file);
+      if (isWorkbook(file)) {
+        if (sheetName) formData.append('sheetName', sheetName);
+        if (headerRow) formData.append('headerRow', headerRow);
+        if (profileId !== 'auto') formData.append('profileId', profileId);
+      }
       
       return new Promise((resolve, reject) => {
         const xhr = new XMLHttpRequest();
@@ -89,6 +165,7 @@ export default function FileUpload() {
       setCurrentResult(result);
       setUploadProgress(0);
       setSelectedFile(null);
+      setWorkbookSheets([]);
       queryClient.invalidateQueries({ queryKey: ['/api/billing-uploads'] });
       
       toast({
@@ -109,8 +186,7 @@ export default function FileUpload() {
   // Create NPT reports from processed data
   const createReportsMutation = useMutation({
     mutationFn: async (rows: BillingSheetRow[]) => {
-      const response = await apiRequest('POST', '/api/npt-reports/from-billing', { rows });
-      return response.json();
+      return apiRequest('/api/npt-reports/from-billing', { method: 'POST', data: { rows } });
     },
     onSuccess: (data) => {
       toast({
@@ -152,6 +228,10 @@ export default function FileUpload() {
 
       setSelectedFile(file);
       setCurrentResult(null);
+      setWorkbookSheets([]);
+      if (isWorkbook(file)) {
+        inspectMutation.mutate(file);
+      }
     }
   };
 
@@ -162,10 +242,10 @@ export default function FileUpload() {
   };
 
   const handleCreateReports = () => {
-    if (currentResult?.extractedData && currentResult.extractedData.length > 0) {
+    if (visibleRows.length > 0) {
       try {
         // Store data in session storage and navigate to bulk NPT form
-        sessionStorage.setItem('allBillingData', JSON.stringify(currentResult.extractedData));
+        sessionStorage.setItem('allBillingData', JSON.stringify(visibleRows));
         setLocation('/npt-reports-bulk');
       } catch (error) {
         console.error('Error navigating to bulk reports:', error);
@@ -270,6 +350,85 @@ export default function FileUpload() {
                   </Alert>
                 )}
 
+                {isWorkbook(selectedFile) && workbookSheets.length > 0 && (
+                  <div className="space-y-3 p-3 border rounded-lg">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <Label>Sheet</Label>
+                        <Select
+                          value={sheetName}
+                          onValueChange={(value) => {
+                            setSheetName(value);
+                            const sheet = workbookSheets.find(s => s.name === value);
+                            setHeaderRow(sheet?.detectedHeaderRow ? String(sheet.detectedHeaderRow) : "");
+                          }}
+                        >
+                          <SelectTrigger data-testid="select-sheet">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {workbookSheets.map((sheet) => (
+                              <SelectItem key={sheet.name} value={sheet.name}>
+                                {sheet.name} ({sheet.rowCount} rows)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="header-row">Header Row</Label>
+                        <Input
+                          id="header-row"
+                          type="number"
+                          min={1}
+                          value={headerRow}
+                          onChange={(e) => setHeaderRow(e.target.value)}
+                          placeholder="Auto-detect"
+                          data-testid="input-header-row"
+                        />
+                      </div>
+                      <div>
+                        <Label>Column Profile</Label>
+                        <Select value={profileId} onValueChange={setProfileId}>
+                          <SelectTrigger data-testid="select-column-profile">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Auto-detect columns</SelectItem>
+                            {columnProfiles.filter(profile => profile.isActive).map((profile) => (
+                              <SelectItem key={profile.id} value={String(profile.id)}>
+                                {profile.name}{profile.client ? ` (${profile.client})` : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    {selectedSheet && selectedSheet.preview.length > 0 && (
+                      <div className="overflow-x-auto max-h-64">
+                        <table className="w-full border-collapse text-xs">
+                          <tbody>
+                            {selectedSheet.preview.map((cells, rowIndex) => (
+                              <tr
+                                key={rowIndex}
+                                className={rowIndex + 1 === parseInt(headerRow) ? 'bg-blue-100 font-semibold' : ''}
+                              >
+                                <td className="border border-gray-200 px-2 py-1 text-gray-400">{rowIndex + 1}</td>
+                                {cells.map((cell, cellIndex) => (
+                                  <td key={cellIndex} className="border border-gray-200 px-2 py-1 max-w-[12rem] truncate">
+                                    {cell}
+                                  </td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {uploadMutation.isPending && (
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
@@ -349,6 +508,49 @@ export default function FileUpload() {
                     </div>
                   )}
 
+                  {/* Rigs found in the file */}
+                  {currentResult.rigGroups && currentResult.rigGroups.length > 1 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">Rigs in this file:</span>
+                      <Button
+                        variant={rigFilter === "all" ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setRigFilter("all")}
+                        data-testid="button-rig-filter-all"
+                      >
+                        All ({currentResult.extractedData.length})
+                      </Button>
+                      {currentResult.rigGroups.map(group => (
+                        <Button
+                          key={group.rigNumber}
+                          variant={rigFilter === group.rigNumber ? "default" : "outline"}
+                          size="sm"
+                          className={group.status !== 'active' ? 'border-amber-400' : ''}
+                          onClick={() => setRigFilter(group.rigNumber)}
+                          title={group.status === 'active' ? `${group.totalHours}h` : `${group.totalHours}h · rig ${group.status}`}
+                          data-testid={`button-rig-filter-${group.rigNumber}`}
+                        >
+                          {group.status !== 'active' && <AlertCircle className="h-3 w-3 mr-1 text-amber-600" />}
+                          {group.rigName || `Rig ${group.rigNumber}`} ({group.rowCount})
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+
+                  {currentResult.warnings && currentResult.warnings.length > 0 && (
+                    <Alert>
+                      <AlertCircle className="h-4 w-4 text-amber-600" />
+                      <AlertDescription>
+                        <div className="font-semibold">Warnings:</div>
+                        <ul className="list-disc list-inside mt-1">
+                          {currentResult.warnings.map((warning, index) => (
+                            <li key={index} className="text-sm">{warning}</li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {currentResult.errors.length > 0 && (
                     <Alert variant="destructive">
                       <AlertCircle className="h-4 w-4" />
@@ -371,7 +573,9 @@ export default function FileUpload() {
                       <div className="flex items-center justify-between">
                         <h4 className="font-semibold">Intelligent Extraction Results</h4>
                         <p className="text-sm text-gray-500">
-                          {currentResult.extractedData.length} total rows extracted
+                          {rigFilter === "all"
+                            ? `${currentResult.extractedData.length} total rows extracted`
+                            : `${visibleRows.length} of ${currentResult.extractedData.length} rows (Rig ${rigFilter})`}
                         </p>
                       </div>
                       
@@ -392,11 +596,11 @@ export default function FileUpload() {
                             </tr>
                           </thead>
                           <tbody>
-                            {currentResult.extractedData.map((row, index) => (
-                              <tr key={index} className="hover:bg-gray-50">
+                            {visibleRows.map((row, index) => (
+                              <tr key={index} className={row.flags?.length ? "bg-amber-50 hover:bg-amber-100" : "hover:bg-gray-50"}>
                                 <td className="border border-gray-300 p-2 font-medium">{row.rigNumber}</td>
                                 <td className="border border-gray-300 p-2 text-sm">
-                                  {new Date(row.date).toLocaleDateString()}
+                                  {row.date ? new Date(row.date).toLocaleDateString() : '-'}
                                 </td>
                                 <td className="border border-gray-300 p-2 text-sm">{row.hours}</td>
                                 <td className="border border-gray-300 p-2">
@@ -409,13 +613,22 @@ export default function FileUpload() {
                                     {row.rateType}
                                   </Badge>
                                 </td>
-                                <td className="border border-gray-300 p-2 text-sm text-blue-600 font-medium">
+                                <td
+                                  className="border border-gray-300 p-2 text-sm text-blue-600 font-medium"
+                                  title={row.recognitionMatches?.map(match => `${match.value} ← "${match.keyword}"`).join('\n')}
+                                >
                                   {row.extractedSystem || '-'}
                                 </td>
                                 <td className="border border-gray-300 p-2 text-sm">
                                   {row.extractedEquipment || '-'}
                                 </td>
-                                <td className="border border-gray-300 p-2">
+                                <td
+                                  className="border border-gray-300 p-2"
+                                  title={Object.entries(row.fieldConfidence || {})
+                                    .map(([field, { score, evidence }]) => `${field}: ${Math.round(score * 100)}% (${evidence.map(item => item.detail).join('; ')})`)
+                                    .join('\n') || undefined}
+                                  data-testid={`confidence-row-${index}`}
+                                >
                                   <div className="flex items-center gap-1">
                                     <div 
                                       className={`h-2 w-6 rounded ${
@@ -426,13 +639,23 @@ export default function FileUpload() {
                                     <span className="text-xs">
                                       {Math.round((row.confidence || 0) * 100)}%
                                     </span>
+                                    {row.flags?.length ? (
+                                      <span title={row.flags.join('\n')} data-testid={`flag-row-${index}`}>
+                                        <AlertCircle className="h-3 w-3 text-amber-600" />
+                                      </span>
+                                    ) : null}
                                   </div>
+                                  {row.source && (
+                                    <div className="text-[10px] text-gray-400" title={row.source.text}>
+                                      p.{row.source.page} l.{row.source.line}{row.source.lineEnd ? `-${row.source.lineEnd}` : ''}
+                                    </div>
+                                  )}
                                 </td>
                                 <td className="border border-gray-300 p-2 max-w-xs truncate text-sm" title={row.description}>
                                   {row.description}
                                 </td>
                                 <td className="border border-gray-300 p-2 text-sm font-medium">
-                                  {row.wellName || 'BRN-96'}
+                                  {row.wellName || '-'}
                                 </td>
                               </tr>
                             ))}
@@ -449,8 +672,8 @@ export default function FileUpload() {
                               // Export to CSV functionality
                               const csvContent = [
                                 ['Date', 'Rig', 'Year', 'Month', 'Hours', 'NBT Type', 'Rate Type', 'System', 'Equipment', 'Confidence %', 'Description', 'Well Name'],
-                                ...currentResult.extractedData.map(row => [
-                                  new Date(row.date).toLocaleDateString(),
+                                ...visibleRows.map(row => [
+                                  row.date ? new Date(row.date).toLocaleDateString() : '',
                                   row.rigNumber,
                                   row.year,
                                   row.month,
@@ -460,8 +683,8 @@ export default function FileUpload() {
                                   row.extractedSystem || '',
                                   row.extractedEquipment || '',
                                   Math.round((row.confidence || 0) * 100),
-                                  row.description.replace(/,/g, ';'), // Replace commas to avoid CSV issues
-                                  row.wellName || 'BRN-96'
+                                  (row.description || '').replace(/,/g, ';'), // Replace commas to avoid CSV issues
+                                  row.wellName || ''
                                 ])
                               ].map(row => row.join(',')).join('\n');
                               
@@ -477,7 +700,7 @@ export default function FileUpload() {
                               
                               toast({
                                 title: "Export Successful",
-                                description: `Exported ${currentResult.extractedData.length} rows to CSV`,
+                                description: `Exported ${visibleRows.length} rows to CSV`,
                               });
                             } catch (error) {
                               console.error('CSV export error:', error);
@@ -501,7 +724,7 @@ export default function FileUpload() {
                           data-testid="button-create-reports"
                         >
                           {createReportsMutation.isPending ? "Creating Reports..." : 
-                           `Create ${currentResult.extractedData.length} NPT Reports`}
+                           `Create ${visibleRows.length} NPT Reports`}
                         </Button>
                       </div>
                     </div>
@@ -510,6 +733,12 @@ export default function FileUpload() {
               </Card>
             )}
 
+            {/* Column mapping profiles (admin) */}
+            {user?.role === 'admin' && <ColumnProfilesManager profiles={columnProfiles} />}
+
+            {/* How often prefilled NPT values were kept by reviewers */}
+            <SuggestionAcceptanceCard />
+
             {/* Upload History */}
             <Card>
               <CardHeader>
@@ -527,7 +756,8 @@ export default function FileUpload() {
                           <div>
                             <div className="font-medium">{upload.fileName}</div>
                             <div className="text-sm text-gray-500">
-                              {new Date(upload.uploadDate).toLocaleDateString()}
+                              {upload.createdAt ? new Date(upload.createdAt).toLocaleString() : '-'}
+                              {upload.rigNumber && ` · Rig ${upload.rigNumber}`}
                             </div>
                           </div>
                         </div>
@@ -535,11 +765,19 @@ export default function FileUpload() {
                           <Badge variant={upload.status === 'Completed' ? 'default' : 'secondary'}>
                             {upload.status}
                           </Badge>
-                          {upload.result && (
-                            <span className="text-sm text-gray-500">
-                              {upload.result.processedRows}/{upload.result.totalRows} rows
-                            </span>
-                          )}
+                          <span className="text-sm text-gray-500">
+                            {upload.processedRows}/{upload.totalRows} rows
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => reopenMutation.mutate(upload.id)}
+                            disabled={reopenMutation.isPending || upload.processedRows === 0}
+                            data-testid={`button-reopen-upload-${upload.id}`}
+                          >
+                            <FolderOpen className="h-4 w-4 mr-1" />
+                            Open
+                          </Button>
                         </div>
                       </div>
                     ))}
@@ -13,7 +13,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { Calendar, Clock, CheckCircle, XCircle, AlertTriangle, Plus, Eye, FileText, TrendingUp } from "lucide-react";
+import { Calendar, Clock, CheckCircle, XCircle, AlertTriangle, Plus, Eye, FileText, TrendingUp, Scale, Lock, Unlock } from "lucide-react";
 
 interface MonthlyReport {
   id: number;
@@ -61,7 +61,7 @@ export default function MonthlyReports() {
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
   const [selectedMonth, setSelectedMonth] = useState<string>('');
   const [actionDialogOpen, setActionDialogOpen] = useState(false);
-  const [actionType, setActionType] = useState<'submit' | 'approve' | 'reject' | 'resubmit'>('submit');
+  const [actionType, setActionType] = useState<'submit' | 'approve' | 'reject' | 'resubmit' | 'reopen'>('submit');
   const [selectedReport, setSelectedReport] = useState<MonthlyReport | null>(null);
   const [comments, setComments] = useState('');
   const [rejectionReason, setRejectionReason] = useState('');
@@ -137,6 +137,19 @@ export default function MonthlyReports() {
     }
   });
 
+  const reopenMutation = useMutation({
+    mutationFn: ({ reportId, reason }: { reportId: number; reason: string }) =>
+      apiRequest(`/api/monthly-reports/${reportId}/reopen`, { method: 'POST', data: { reason } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/monthly-reports'] });
+      toast({ title: "Month reopened", description: "NPT reports can be corrected; the report must be submitted and approved again" });
+      setActionDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'Draft': return <FileText className="h-4 w-4" />;
@@ -187,6 +200,13 @@ export default function MonthlyReports() {
       case 'resubmit':
         resubmitMutation.mutate({ reportId: selectedReport.id, comments });
         break;
+      case 'reopen':
+        if (!rejectionReason.trim()) {
+          toast({ title: "Error", description: "A reason for reopening is required", variant: "destructive" });
+          return;
+        }
+        reopenMutation.mutate({ reportId: selectedReport.id, reason: rejectionReason });
+        break;
     }
   };
 
@@ -203,6 +223,8 @@ export default function MonthlyReports() {
         return isApprover && ['Submitted', 'In_Review'].includes(report.status);
       case 'resubmit':
         return isOwner && report.status === 'Rejected';
+      case 'reopen':
+        return user?.role?.toLowerCase() === 'admin' && report.status === 'Approved';
       default:
         return false;
     }
@@ -361,6 +383,12 @@ export default function MonthlyReports() {
                         {getStatusIcon(report.status)}
                         {report.status}
                       </Badge>
+                      {report.status === 'Approved' && (
+                        <Badge variant="outline" className="flex items-center gap-1" data-testid={`badge-locked-${report.id}`}>
+                          <Lock className="h-3 w-3" />
+                          Closed
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground">
                       Rig {rigs.find(r => r.id === report.rigId)?.rigNumber} • 
@@ -380,6 +408,12 @@ export default function MonthlyReports() {
                         Timeline
                       </Button>
                     </Link>
+                    <Link href={`/monthly-reports/${report.id}/reconciliation`}>
+                      <Button variant="outline" size="sm" data-testid={`button-view-reconciliation-${report.id}`}>
+                        <Scale className="h-4 w-4 mr-1" />
+                        Reconcile
+                      </Button>
+                    </Link>
                     
                     {canPerformAction(report, 'submit') && (
                       <Button
@@ -424,6 +458,18 @@ export default function MonthlyReports() {
                         Resubmit
                       </Button>
                     )}
+
+                    {canPerformAction(report, 'reopen') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleAction(report, 'reopen')}
+                        data-testid={`button-reopen-${report.id}`}
+                      >
+                        <Unlock className="h-4 w-4 mr-1" />
+                        Reopen
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -446,18 +492,21 @@ export default function MonthlyReports() {
               {actionType === 'approve' && 'Approve Report'}
               {actionType === 'reject' && 'Reject Report'}
               {actionType === 'resubmit' && 'Resubmit Report'}
+              {actionType === 'reopen' && 'Reopen Month'}
             </DialogTitle>
             <DialogDescription>
-              {selectedReport && `${actionType === 'reject' ? 'Reject' : 'Confirm action for'} monthly report for ${selectedReport.month}`}
+              {selectedReport && (actionType === 'reopen'
+                ? `Unlock ${selectedReport.month} so its NPT reports can be changed. The monthly report goes back to Draft and must be submitted and approved again.`
+                : `${actionType === 'reject' ? 'Reject' : 'Confirm action for'} monthly report for ${selectedReport.month}`)}
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4">
-            {actionType === 'reject' ? (
+            {actionType === 'reject' || actionType === 'reopen' ? (
               <div>
-                <label className="text-sm font-medium">Rejection Reason *</label>
+                <label className="text-sm font-medium">{actionType === 'reopen' ? 'Reason for Reopening *' : 'Rejection Reason *'}</label>
                 <Textarea
-                  placeholder="Please provide a reason for rejection..."
+                  placeholder={actionType === 'reopen' ? "What needs correcting in this month..." : "Please provide a reason for rejection..."}
                   value={rejectionReason}
                   onChange={(e) => setRejectionReason(e.target.value)}
                   data-testid="textarea-rejection-reason"
@@ -487,7 +536,8 @@ export default function MonthlyReports() {
                 approveMutation.isPending ||
                 rejectMutation.isPending ||
                 resubmitMutation.isPending ||
-                (actionType === 'reject' && !rejectionReason.trim())
+                reopenMutation.isPending ||
+                ((actionType === 'reject' || actionType === 'reopen') && !rejectionReason.trim())
               }
               data-testid="button-confirm-action"
             >
@@ -495,6 +545,7 @@ export default function MonthlyReports() {
               {actionType === 'approve' && 'Approve'}
               {actionType === 'reject' && 'Reject'}
               {actionType === 'resubmit' && 'Resubmit'}
+              {actionType === 'reopen' && 'Reopen'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -38,6 +38,7 @@ interface DaySlice {
   nptType?: string;
   notes?: string;
   nptReportIds?: string;
+  zeroNptConfirmedAt?: string | null;
   lastUpdated: string;
   updatedBy?: string;
 }
@@ -292,6 +293,9 @@ export default function MonthlyTimeline() {
                         {slice.nptType}
                       </div>
                     )}
+                    {slice?.zeroNptConfirmedAt && (
+                      <div className="text-xs text-muted-foreground">Zero NPT</div>
+                    )}
                   </div>
                 </div>
               );
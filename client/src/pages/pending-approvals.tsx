@@ -8,10 +8,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { CheckCircle, XCircle, MessageSquare, Clock, User, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
+import { ChangeRequestPanel, FieldCommentsEditor, type FieldComments } from "@/components/workflow/field-comments";
 
 interface PendingApproval {
   id: number;
@@ -19,6 +21,7 @@ interface PendingApproval {
   hours: string;
   nptType: string;
   status: string;
+  editedAt: string;
   currentStepOrder: number;
   rigName: string;
   submittedBy: string;
@@ -46,11 +49,29 @@ interface ApprovalAction {
 
 type ActionType = 'approve' | 'reject' | 'request-changes';
 
+interface BulkResult {
+  reportId: number;
+  success: boolean;
+  status?: string;
+  error?: string;
+}
+
+const ACTION_LABELS: Record<ActionType, string> = {
+  approve: 'Approve',
+  reject: 'Reject',
+  'request-changes': 'Request Changes',
+};
+
 export default function PendingApprovals() {
   const [selectedReport, setSelectedReport] = useState<PendingApproval | null>(null);
   const [actionType, setActionType] = useState<ActionType>('approve');
   const [comment, setComment] = useState('');
+  const [fieldComments, setFieldComments] = useState<FieldComments>({});
   const [actionModalOpen, setActionModalOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [bulkAction, setBulkAction] = useState<ActionType | null>(null);
+  const [bulkComment, setBulkComment] = useState('');
+  const [bulkResults, setBulkResults] = useState<BulkResult[] | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -66,10 +87,10 @@ export default function PendingApprovals() {
 
   // Action mutation
   const actionMutation = useMutation({
-    mutationFn: async ({ reportId, action, comment }: { reportId: number; action: ActionType; comment: string }) => {
+    mutationFn: async ({ reportId, action, comment, fieldComments }: { reportId: number; action: ActionType; comment: string; fieldComments?: FieldComments }) => {
       return apiRequest(`/api/approvals/${reportId}/${action}`, {
         method: 'POST',
-        body: JSON.stringify({ comment }),
+        body: JSON.stringify({ comment, fieldComments }),
         headers: { 'Content-Type': 'application/json' }
       });
     },
@@ -78,21 +99,52 @@ export default function PendingApprovals() {
       queryClient.invalidateQueries({ queryKey: ['/api/my-approvals/history'] });
       setActionModalOpen(false);
       setComment('');
+      setFieldComments({});
       setSelectedReport(null);
       toast({
         title: "Success",
         description: `Report ${actionType === 'approve' ? 'approved' : actionType === 'reject' ? 'rejected' : 'returned for changes'} successfully`
       });
     },
-    onError: () => {
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to process approval action",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // One decision for every selected report; the server answers per report
+  const bulkMutation = useMutation({
+    mutationFn: async ({ action, comment, items }: { action: ActionType; comment: string; items: PendingApproval[] }) =>
+      apiRequest('/api/approvals/bulk', {
+        method: 'POST',
+        data: { action, comment, items: items.map(item => ({ reportId: item.id, editedAt: item.editedAt })) }
+      }),
+    onSuccess: (result: { succeeded: number; failed: number; results: BulkResult[] }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/my-approvals/pending'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/my-approvals/history'] });
+      setBulkAction(null);
+      setBulkComment('');
+      setSelectedIds(ids => ids.filter(id => result.results.some(r => r.reportId === id && !r.success)));
+      setBulkResults(result.results);
+    },
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to process approval action",
+        description: error.message || "Failed to process bulk action",
         variant: "destructive"
       });
     }
   });
 
+  const pendingItems = pendingData?.items || [];
+  const selectedItems = pendingItems.filter(item => selectedIds.includes(item.id));
+
+  const toggleSelected = (reportId: number, checked: boolean) =>
+    setSelectedIds(ids => checked ? [...ids, reportId] : ids.filter(id => id !== reportId));
+
   const handleAction = (report: PendingApproval, action: ActionType) => {
     setSelectedReport(report);
     setActionType(action);
@@ -105,7 +157,8 @@ export default function PendingApprovals() {
     actionMutation.mutate({
       reportId: selectedReport.id,
       action: actionType,
-      comment
+      comment,
+      fieldComments: actionType === 'request-changes' ? fieldComments : undefined
     });
   };
 
@@ -151,7 +204,29 @@ export default function PendingApprovals() {
           </TabsTrigger>
         </TabsList>
 
-        <TabsContent value="pending">
+        <TabsContent value="pending" className="space-y-4">
+          {selectedItems.length > 0 && (
+            <div className="flex items-center justify-between rounded-md border bg-muted/50 p-3" data-testid="bar-bulk-actions">
+              <span className="text-sm font-medium">{selectedItems.length} selected</span>
+              <div className="flex gap-2">
+                <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => setBulkAction('approve')} data-testid="button-bulk-approve">
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setBulkAction('request-changes')} data-testid="button-bulk-changes">
+                  <MessageSquare className="h-4 w-4 mr-1" />
+                  Request Changes
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => setBulkAction('reject')} data-testid="button-bulk-reject">
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+          )}
           <Card>
             <CardHeader>
               <CardTitle>Reports Waiting for Your Approval</CardTitle>
@@ -172,6 +247,13 @@ export default function PendingApprovals() {
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-8">
+                        <Checkbox
+                          checked={pendingItems.length > 0 && selectedItems.length === pendingItems.length}
+                          onCheckedChange={(checked) => setSelectedIds(checked ? pendingItems.map(item => item.id) : [])}
+                          data-testid="checkbox-select-all"
+                        />
+                      </TableHead>
                       <TableHead>Date</TableHead>
                       <TableHead>Rig</TableHead>
                       <TableHead>NPT Type</TableHead>
@@ -185,6 +267,13 @@ export default function PendingApprovals() {
                   <TableBody>
                     {pendingData?.items?.map((item: PendingApproval) => (
                       <TableRow key={item.id} data-testid={`row-approval-${item.id}`}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(item.id)}
+                            onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+                            data-testid={`checkbox-approval-${item.id}`}
+                          />
+                        </TableCell>
                         <TableCell className="font-medium">
                           {format(new Date(item.date), 'MMM dd, yyyy')}
                         </TableCell>
@@ -310,6 +399,72 @@ export default function PendingApprovals() {
         </TabsContent>
       </Tabs>
 
+      {/* Bulk Action Modal */}
+      <Dialog open={bulkAction !== null} onOpenChange={(open) => !open && setBulkAction(null)}>
+        <DialogContent data-testid="dialog-bulk-action">
+          <DialogHeader>
+            <DialogTitle>{bulkAction && ACTION_LABELS[bulkAction]}: {selectedItems.length} reports</DialogTitle>
+            <DialogDescription>
+              Each report is checked again before it is changed. Reports that changed since this list
+              loaded, or that you can no longer act on, are left as they are and listed afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="bulk-comment">
+              Comment for all reports {bulkAction === 'approve' ? '(Optional)' : '(Required)'}
+            </Label>
+            <Textarea
+              id="bulk-comment"
+              value={bulkComment}
+              onChange={(e) => setBulkComment(e.target.value)}
+              placeholder={bulkAction === 'reject' ? 'Reason for rejection...' : bulkAction === 'request-changes' ? 'Describe what changes are needed...' : 'Optional approval comment...'}
+              data-testid="textarea-bulk-comment"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBulkAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => bulkAction && bulkMutation.mutate({ action: bulkAction, comment: bulkComment, items: selectedItems })}
+              disabled={bulkMutation.isPending || (bulkAction !== 'approve' && !bulkComment.trim())}
+              data-testid="button-submit-bulk"
+            >
+              {bulkMutation.isPending ? 'Processing...' : `${bulkAction && ACTION_LABELS[bulkAction]} ${selectedItems.length}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Results Modal */}
+      <Dialog open={bulkResults !== null} onOpenChange={(open) => !open && setBulkResults(null)}>
+        <DialogContent data-testid="dialog-bulk-results">
+          <DialogHeader>
+            <DialogTitle>Bulk Action Results</DialogTitle>
+            <DialogDescription>
+              {bulkResults?.filter(result => result.success).length} succeeded, {bulkResults?.filter(result => !result.success).length} failed.
+              Failed reports stay selected.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-80 overflow-y-auto space-y-1">
+            {bulkResults?.map(result => (
+              <div key={result.reportId} className="flex items-start gap-2 text-sm" data-testid={`bulk-result-${result.reportId}`}>
+                {result.success
+                  ? <CheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+                  : <AlertTriangle className="h-4 w-4 mt-0.5 text-red-600" />}
+                <span className="font-medium">#{result.reportId}</span>
+                <span className={result.success ? 'text-muted-foreground' : 'text-red-700'}>
+                  {result.success ? result.status : result.error}
+                </span>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setBulkResults(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Action Modal */}
       <Dialog open={actionModalOpen} onOpenChange={setActionModalOpen}>
         <DialogContent data-testid="dialog-approval-action">
@@ -330,9 +485,10 @@ export default function PendingApprovals() {
           </DialogHeader>
           
           <div className="space-y-4">
+            {selectedReport && <ChangeRequestPanel reportId={selectedReport.id} />}
             <div>
               <Label htmlFor="comment">
-                Comment {actionType === 'request-changes' ? '(Required)' : '(Optional)'}
+                Comment {actionType === 'request-changes' ? '(Required unless you comment on fields)' : '(Optional)'}
               </Label>
               <Textarea
                 id="comment"
@@ -346,6 +502,9 @@ export default function PendingApprovals() {
                 data-testid="textarea-comment"
               />
             </div>
+            {actionType === 'request-changes' && (
+              <FieldCommentsEditor value={fieldComments} onChange={setFieldComments} />
+            )}
           </div>
 
           <DialogFooter>
@@ -354,7 +513,7 @@ export default function PendingApprovals() {
             </Button>
             <Button
               onClick={submitAction}
-              disabled={actionMutation.isPending || (actionType === 'request-changes' && !comment.trim())}
+              disabled={actionMutation.isPending || (actionType === 'request-changes' && !comment.trim() && !Object.values(fieldComments).some(text => text?.trim()))}
               className={
                 actionType === 'approve' ? 'bg-green-600 hover:bg-green-700' :
                 actionType === 'reject' ? 'bg-red-600 hover:bg-red-700' :
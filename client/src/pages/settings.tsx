@@ -13,12 +13,13 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Settings, Plus, Trash2, Users, Database, Cog, UserPlus, Edit, Shield, Upload, X, Check, Palette, Bell, FileText, Download, Key } from "lucide-react";
+import { Settings, Plus, Trash2, Users, Database, Cog, UserPlus, Edit, Shield, Upload, X, Check, Palette, Bell, FileText, Download, Key, BookOpen } from "lucide-react";
 import type { System, Equipment, Department, ActionParty, Rig, User } from "@shared/schema";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import RecognitionDictionaryManager from "@/components/billing/RecognitionDictionaryManager";
 
 export default function SettingsPage() {
   const { toast } = useToast();
@@ -480,7 +481,7 @@ export default function SettingsPage() {
             </div>
 
             <Tabs defaultValue="users" className="space-y-4">
-              <TabsList className="grid w-full grid-cols-7">
+              <TabsList className="grid w-full grid-cols-8">
                 <TabsTrigger value="users" className="flex items-center gap-2">
                   <Users className="h-4 w-4" />
                   Users
@@ -499,6 +500,10 @@ export default function SettingsPage() {
                 </TabsTrigger>
                 <TabsTrigger value="action-parties">Action Parties</TabsTrigger>
                 <TabsTrigger value="rigs">Rigs</TabsTrigger>
+                <TabsTrigger value="recognition" className="flex items-center gap-2">
+                  <BookOpen className="h-4 w-4" />
+                  Recognition
+                </TabsTrigger>
                 <TabsTrigger value="customization" className="flex items-center gap-2">
                   <Palette className="h-4 w-4" />
                   Customize
@@ -1568,6 +1573,10 @@ export default function SettingsPage() {
                 </Card>
               </TabsContent>
               
+              <TabsContent value="recognition">
+                <RecognitionDictionaryManager systems={systems} equipment={equipment} />
+              </TabsContent>
+
               <TabsContent value="customization">
                 <div className="space-y-6">
                   {/* Custom Roles */}
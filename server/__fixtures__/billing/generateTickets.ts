@@ -0,0 +1,122 @@
+import { writeFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Writes the sample rate tickets used by server/pdfProcessor.test.ts. They copy the layout of
+ * the contractor's billing sheet (landscape page, header cells wrapped over several lines,
+ * right-aligned hours) with made-up wells, rigs and ticket numbers, so no customer data is
+ * committed. Run with `npx tsx server/__fixtures__/billing/generateTickets.ts`.
+ */
+
+// Positions are in pdf2json page units (1/16 pt) from the top left, as the extractor sees them
+type TextRun = [x: number, y: number, text: string];
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const UNIT = 16;
+
+function escapePdfText(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function pageContent(runs: TextRun[]): string {
+  return runs
+    .map(([x, y, text]) => `BT /F1 7 Tf 1 0 0 1 ${(x * UNIT).toFixed(2)} ${(PAGE_HEIGHT - y * UNIT).toFixed(2)} Tm (${escapePdfText(text)}) Tj ET`)
+    .join("\n");
+}
+
+// A minimal PDF: one Helvetica font shared by every page, one content stream per page
+function buildPdf(pages: TextRun[][]): Buffer {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+  pages.forEach((runs, index) => {
+    const content = pageContent(runs);
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf);
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+const HEADER_LINES = [7.01, 7.49, 7.96, 8.43];
+const COLUMNS: { x: number; header: string[] }[] = [
+  { x: 1.69, header: ["DATE"] },
+  { x: 4.44, header: ["OBM", "OPERATIN", "G RATE"] },
+  { x: 6.5, header: ["OBM", "REDUCED", "RATE"] },
+  { x: 8.56, header: ["OPERATIN", "G RATE"] },
+  { x: 10.63, header: ["REDUCED", "RATE"] },
+  { x: 12.69, header: ["REPAIR", "RATE"] },
+  { x: 14.75, header: ["RIG", "MOVE-", "STATISTIC", "AL"] },
+  { x: 16.81, header: ["SPECIAL", "RATE"] },
+  { x: 18.88, header: ["TOTAL", "HOURS"] },
+  { x: 20.94, header: ["DESCRIPTION"] },
+];
+
+function metadataRuns(ticketNumber?: string): TextRun[] {
+  return [
+    [31.35, 0.96, "Customer Name:"], [35.56, 0.96, "Sample Operator"],
+    [3.33, 2.08, "Well:"], [4.75, 2.08, "TST-01"],
+    [3.21, 3.02, "Field:"], [4.75, 3.02, "TESTFIELD"],
+    ...(ticketNumber ? [[31.74, 3.77, "Ticket Number:"], [35.56, 3.77, ticketNumber]] as TextRun[] : []),
+    [43.17, 3.77, "Job Start:"], [45.5, 3.77, "6/1/25 12:00 AM"],
+    [43.34, 4.71, "Job End:"], [45.5, 4.71, "6/7/25 12:00 AM"],
+  ];
+}
+
+function headerRuns(): TextRun[] {
+  return COLUMNS.flatMap(column => column.header.map((word, line): TextRun => [column.x, HEADER_LINES[line], word]));
+}
+
+// One day: hours right-aligned under the eight hours columns, then the description
+function dayRuns(y: number, date: string, hours: number[], description: string): TextRun[] {
+  const values = hours.map((value, index): TextRun => {
+    const text = value.toFixed(2);
+    return [COLUMNS[index + 1].x + (text.length > 4 ? 1.0 : 1.2), y, text];
+  });
+  return [[COLUMNS[0].x, y, date], ...values, [COLUMNS[9].x, y, description]];
+}
+
+//                       OBM op, OBM red, op, reduced, repair, rig move, special, total
+const standardTicket = buildPdf([
+  [
+    ...metadataRuns("DR10420250607000001"),
+    ...headerRuns(),
+    ...dayRuns(8.89, "01-06-2025", [0, 0, 24, 0, 0, 0, 0, 24], "Drilling 8.5in hole section"),
+    ...dayRuns(9.33, "02-06-2025", [0, 0, 20.5, 0, 3.5, 0, 0, 24], "Top drive IBOP actuator failed, changed out"),
+    [COLUMNS[9].x, 9.77, "and pressure tested before resuming drilling"],
+    ...dayRuns(10.2, "03-06-2025", [18, 0, 18, 6, 0, 0, 0, 24], "Waiting on cement"),
+    ...dayRuns(10.64, "04-06-2025", [0, 0, 20, 0, 0, 0, 2, 23], "BOP test"),
+  ],
+  [
+    ...dayRuns(1.69, "05-06-2025", [0, 0, 0, 0, 0, 24, 0, 24], "Rig move to TST-02"),
+  ],
+]);
+
+// No header row and no ticket number: hours can only be read by position
+const noHeaderTicket = buildPdf([
+  [
+    ...metadataRuns(),
+    [1.69, 8.89, "06-06-2025 0.00 0.00 20.00 4.00 0.00 0.00 24.00 Mud pump liner washout"],
+    [1.69, 9.33, "31-06-2025 0.00 0.00 22.00 0.00 2.00 0.00 24.00 Waiting on weather"],
+  ],
+]);
+
+const directory = import.meta.dirname;
+writeFileSync(join(directory, "ticket-standard.pdf"), standardTicket);
+writeFileSync(join(directory, "ticket-no-header.pdf"), noHeaderTicket);
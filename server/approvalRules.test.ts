@@ -0,0 +1,107 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { NPT_ACTIONS, NPT_STATUS, NPT_TRANSITIONS, nextNptStatus, normalizeNptStatus, type NptAction, type NptStatus } from "@shared/status";
+import { matchWorkflowConditions, type WorkflowSubject } from "@shared/workflow";
+import type { StepGroup } from "./lib/approvals";
+
+// db.ts refuses to load without a URL; approvalsNeeded runs no query
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { approvalsNeeded } = await import("./lib/approvals");
+
+test("moves a report only along the allowed transitions", () => {
+  assert.equal(nextNptStatus(NPT_STATUS.DRAFT, NPT_ACTIONS.SUBMIT), NPT_STATUS.PENDING_REVIEW);
+  assert.equal(nextNptStatus(NPT_STATUS.PENDING_REVIEW, NPT_ACTIONS.APPROVE), NPT_STATUS.APPROVED);
+  assert.equal(nextNptStatus(NPT_STATUS.PENDING_REVIEW, NPT_ACTIONS.REJECT), NPT_STATUS.REJECTED);
+  assert.equal(nextNptStatus(NPT_STATUS.PENDING_REVIEW, NPT_ACTIONS.REQUEST_CHANGES), NPT_STATUS.DRAFT);
+});
+
+test("refuses every other action", () => {
+  const allowed: [NptStatus, NptAction][] = [
+    [NPT_STATUS.DRAFT, NPT_ACTIONS.SUBMIT],
+    [NPT_STATUS.PENDING_REVIEW, NPT_ACTIONS.APPROVE],
+    [NPT_STATUS.PENDING_REVIEW, NPT_ACTIONS.REJECT],
+    [NPT_STATUS.PENDING_REVIEW, NPT_ACTIONS.REQUEST_CHANGES],
+  ];
+  for (const status of Object.values(NPT_STATUS)) {
+    for (const action of Object.values(NPT_ACTIONS)) {
+      if (allowed.some(([s, a]) => s === status && a === action)) continue;
+      assert.equal(nextNptStatus(status, action), undefined, `${action} from ${status}`);
+    }
+  }
+  // Approved and rejected reports are final
+  assert.deepEqual(NPT_TRANSITIONS[NPT_STATUS.APPROVED], {});
+  assert.deepEqual(NPT_TRANSITIONS[NPT_STATUS.REJECTED], {});
+});
+
+test("reads the spellings older approval code wrote", () => {
+  const spellings: [string | null | undefined, NptStatus][] = [
+    ["PENDING_REVIEW", NPT_STATUS.PENDING_REVIEW],
+    ["Pending", NPT_STATUS.PENDING_REVIEW],
+    ["pending approval", NPT_STATUS.PENDING_REVIEW],
+    ["Submitted", NPT_STATUS.PENDING_REVIEW],
+    ["approved", NPT_STATUS.APPROVED],
+    ["REJECTED", NPT_STATUS.REJECTED],
+    ["draft", NPT_STATUS.DRAFT],
+    [null, NPT_STATUS.DRAFT],
+    ["", NPT_STATUS.DRAFT],
+    ["Something else", NPT_STATUS.DRAFT],
+  ];
+  for (const [status, expected] of spellings) {
+    assert.equal(normalizeNptStatus(status), expected, String(status));
+  }
+  assert.equal(nextNptStatus("PENDING_REVIEW", NPT_ACTIONS.APPROVE), NPT_STATUS.APPROVED);
+  assert.equal(nextNptStatus("approved", NPT_ACTIONS.REJECT), undefined);
+});
+
+const report: WorkflowSubject = { rigId: 7, nptType: "Abroad", department: "M.Maintenance", system: "Mud Pumps", rigSection: "North", hours: "8.5" };
+
+test("matches a workflow with no conditions to any report, with no reasons", () => {
+  assert.deepEqual(matchWorkflowConditions({}, report), []);
+});
+
+test("gives one reason per condition met, so more specific workflows rank higher", () => {
+  const general = matchWorkflowConditions({ nptType: "abroad" }, report);
+  const specific = matchWorkflowConditions({ rigId: 7, nptType: "Abroad", system: "mud pumps", rigSection: "north" }, report);
+
+  assert.deepEqual(general, ["NPT type abroad"]);
+  assert.deepEqual(specific, ["rig-specific", "NPT type Abroad", "system mud pumps", "north rig"]);
+  assert.ok(specific!.length > general!.length);
+});
+
+test("fails the whole match when any one condition fails", () => {
+  assert.equal(matchWorkflowConditions({ rigId: 8 }, report), null);
+  assert.equal(matchWorkflowConditions({ nptType: "Abroad", department: "Drilling" }, report), null);
+  assert.equal(matchWorkflowConditions({ system: "BOP" }, { ...report, system: null }), null);
+});
+
+test("matches hours within an inclusive range", () => {
+  assert.deepEqual(matchWorkflowConditions({ minHours: "6", maxHours: 8.5 }, report), ["8.5h ≥ 6h", "8.5h ≤ 8.5h"]);
+  assert.equal(matchWorkflowConditions({ minHours: 9 }, report), null);
+  assert.equal(matchWorkflowConditions({ maxHours: "8" }, report), null);
+  // Unset bounds, as the form sends them, apply no limit
+  assert.deepEqual(matchWorkflowConditions({ minHours: "", maxHours: null }, report), []);
+});
+
+const group = (mode: StepGroup["mode"], requiredApprovals: number | null = null): StepGroup => ({
+  stepOrder: 1,
+  mode,
+  requiredApprovals,
+  sla: null,
+  steps: [],
+});
+
+test("needs every approver of an 'all' group and one of an 'any' group", () => {
+  assert.equal(approvalsNeeded(group("all"), 3), 3);
+  assert.equal(approvalsNeeded(group("any"), 3), 1);
+});
+
+test("needs the quorum, capped at the approvers there are", () => {
+  assert.equal(approvalsNeeded(group("quorum", 2), 3), 2);
+  assert.equal(approvalsNeeded(group("quorum", 5), 3), 3);
+  assert.equal(approvalsNeeded(group("quorum"), 3), 1);
+});
+
+test("still needs one approval when nobody resolves for the group", () => {
+  assert.equal(approvalsNeeded(group("all"), 0), 1);
+  assert.equal(approvalsNeeded(group("quorum", 2), 0), 1);
+});
@@ -1,86 +1,37 @@
-import type { BillingSheetRow, BillingUploadResult } from "@shared/billingTypes";
+import type {
+  BillingSheetRow,
+  BillingUploadResult,
+  BillingColumnField,
+  BillingColumnMap,
+  WorkbookParseOptions,
+  WorkbookSheetPreview,
+  RecognitionMatch,
+  FieldConfidence,
+  FieldConfidenceMap,
+} from "@shared/billingTypes";
+import { DEFAULT_RECOGNITION_ENTRIES, RecognitionDictionary, loadRecognitionDictionary } from "./services/recognitionDictionary";
+import { describeRecognition, fieldScore, overallConfidence } from "./services/billingConfidence";
+import { UNKNOWN_RIG, parseRigCell, parseRigReference } from "./services/rigResolver";
 
 export class BillingProcessor {
   
-  // Enhanced keywords for intelligent rate type detection
-  private readonly rateTypeKeywords = {
-    repairRate: [
-      'repair rate', 'repair_rate', 'repair', 'rpr rate', 'rpr_rate',
-      'maintenance rate', 'maint rate', 'breakdown rate'
-    ],
-    reduceRate: [
-      'reduce repair rate', 'reduced rate', 'reduce_rate', 'reduced', 'reduced_rate',
-      'partial rate', 'reduced repair', 'rdcd rate', 'rdcd_rate', 'standby rate'
-    ],
-    zeroRate: [
-      'zero rate', 'zero_rate', 'zero', '0 rate', 'no charge', 'non-billable',
-      'npt rate', 'idle rate', 'waiting rate', 'breakdown'
-    ],
-    operationRate: [
-      'operation rate', 'operation_rate', 'operation', 'drilling rate', 'drilling_rate',
-      'productive rate', 'normal rate', 'standard rate', 'full rate', 'working rate'
-    ]
+  // Rate type, equipment and failure keywords; reloaded from the database for each file
+  private dictionary = new RecognitionDictionary(DEFAULT_RECOGNITION_ENTRIES);
+
+  // Header names recognised when no column profile maps a field
+  private readonly defaultColumnAliases: Record<BillingColumnField, string[]> = {
+    date: ['date', 'day', 'billing date', 'operation date'],
+    hours: ['hours', 'hrs', 'duration', 'total hours', 'npt hours'],
+    rateType: ['rate type', 'rate', 'rate code', 'billing rate'],
+    description: ['description', 'remarks', 'details', 'operation', 'activity', 'comments'],
+    rigNumber: ['rig', 'rig number', 'rig no', 'rig #', 'unit'],
+    ticketNumber: ['ticket', 'ticket number', 'ticket no', 'ticket #', 'reference']
   };
 
-  // Comprehensive equipment/system keywords for extraction
-  private readonly systemEquipmentMap = {
-    'Mud Pumps': [
-      'mud pump', 'pump', 'triplex pump', 'duplex pump', 'slush pump', 'circulation pump',
-      'pump liner', 'pump piston', 'pump valve', 'suction valve', 'discharge valve'
-    ],
-    'BOP': [
-      'bop', 'blowout preventer', 'ram preventer', 'annular preventer', 'blind ram',
-      'pipe ram', 'shear ram', 'accumulator', 'choke line', 'kill line'
-    ],
-    'Hoisting': [
-      'mast', 'derrick', 'crown block', 'traveling block', 'hook', 'swivel',
-      'kelly', 'rotary table', 'drawworks', 'deadline anchor', 'fast line'
-    ],
-    'Power System': [
-      'engine', 'generator', 'power system', 'diesel engine', 'electric motor',
-      'scr house', 'distribution panel', 'transformer', 'electrical system'
-    ],
-    'Rotary': [
-      'rotary table', 'kelly', 'kelly bushing', 'rotary drive', 'top drive',
-      'rotary hose', 'rotary slip', 'master bushing'
-    ],
-    'Circulation': [
-      'circulation system', 'standpipe', 'mud manifold', 'choke manifold',
-      'mud tank', 'trip tank', 'degasser', 'desander', 'desilter', 'shale shaker'
-    ],
-    'Safety': [
-      'safety system', 'gas detector', 'fire system', 'diverter', 'emergency shutdown',
-      'h2s detector', 'escape capsule', 'lifeboat'
-    ],
-    'Wellhead': [
-      'wellhead', 'casing head', 'tubing head', 'christmas tree', 'surface safety valve',
-      'wing valve', 'master valve'
-    ],
-    'ESP': [
-      'esp', 'electric submersible pump', 'downhole pump', 'esp motor', 'esp cable',
-      'esp controller', 'variable speed drive'
-    ]
-  };
-
-  // Failure/cause keywords for intelligent extraction
-  private readonly failureKeywords = [
-    'failure', 'failed', 'break', 'broken', 'malfunction', 'issue', 'problem',
-    'fault', 'error', 'damage', 'damaged', 'leak', 'stuck', 'seized', 'worn',
-    'cracked', 'torn', 'ruptured', 'blocked', 'clogged', 'overheated', 'tripped'
-  ];
-
-  // Rig name patterns for enhanced recognition
-  private readonly rigPatterns = [
-    /(?:RABA[_-]?)(\d+)/i,
-    /(?:Raba\s+East\s+)(\d+)/i,
-    /(?:Raba\s+West\s+)(\d+)/i,
-    /(?:Rig\s+)(\d+)/i,
-    /(?:Unit\s+)(\d+)/i,
-    /(?:Platform\s+)(\d+)/i
-  ];
-
   // Process uploaded billing sheet content with intelligent recognition
   async processBillingSheet(fileName: string, content: string): Promise<BillingUploadResult> {
+    this.dictionary = await loadRecognitionDictionary();
+
     const result: BillingUploadResult = {
       fileName,
       totalRows: 0,
@@ -127,6 +78,172 @@ export class BillingProcessor {
     return result;
   }
 
+  // List the sheets of an Excel workbook with a short preview so the user can pick sheet and header row
+  async inspectWorkbook(buffer: Buffer): Promise<WorkbookSheetPreview[]> {
+    const XLSX = (await import("xlsx")).default;
+    const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+
+    return workbook.SheetNames.map(name => {
+      const grid = this.sheetToGrid(XLSX, workbook.Sheets[name]);
+      const headerIndex = this.detectHeaderRow(grid);
+      return {
+        name,
+        rowCount: grid.length,
+        detectedHeaderRow: headerIndex === -1 ? null : headerIndex + 1,
+        preview: grid.slice(0, 15).map(row => row.map(cell => this.cellToText(cell)))
+      };
+    });
+  }
+
+  // Process an .xlsx/.xls billing workbook, mapping columns by header instead of position
+  async processWorkbook(fileName: string, buffer: Buffer, options: WorkbookParseOptions = {}): Promise<BillingUploadResult> {
+    this.dictionary = await loadRecognitionDictionary();
+
+    const result: BillingUploadResult = {
+      fileName,
+      totalRows: 0,
+      processedRows: 0,
+      errors: [],
+      extractedData: [],
+      recognitionSummary: {
+        repairRateRows: 0,
+        reducedRateRows: 0,
+        zeroRateRows: 0,
+        contractualRows: 0,
+        abroadRows: 0
+      }
+    };
+
+    try {
+      const XLSX = (await import("xlsx")).default;
+      const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+      const sheetName = options.sheetName || workbook.SheetNames[0];
+      const worksheet = workbook.Sheets[sheetName];
+      if (!worksheet) {
+        result.errors.push(`Sheet "${sheetName}" not found in workbook`);
+        return result;
+      }
+
+      const grid = this.sheetToGrid(XLSX, worksheet);
+      const headerIndex = options.headerRow ? options.headerRow - 1 : this.detectHeaderRow(grid);
+      const headerCells = headerIndex >= 0 && grid[headerIndex] ? grid[headerIndex].map(cell => this.cellToText(cell)) : [];
+      const columns = this.resolveColumns(headerCells, options.columnMap);
+      const bodyRows = grid.slice(headerIndex + 1);
+      const isBlank = (row: unknown[]) => !row.some(cell => this.cellToText(cell) !== '');
+      result.totalRows = bodyRows.filter(row => !isBlank(row)).length;
+
+      const sheetText = grid.slice(0, Math.max(headerIndex, 0) + 1).map(row => row.map(c => this.cellToText(c)).join(' ')).join('\n');
+      const sheetRigNumber = this.extractRigNumber(fileName, `${sheetName}\n${sheetText}`);
+      const hasMappedColumns = columns.date !== undefined && columns.hours !== undefined;
+      if (!hasMappedColumns) {
+        result.errors.push('Date and Hours columns could not be matched to the header row; falling back to positional parsing');
+      }
+
+      bodyRows.forEach((row, i) => {
+        if (isBlank(row)) return;
+        const sheetRowNumber = headerIndex + 2 + i;
+        try {
+          const rowData = hasMappedColumns
+            ? this.parseMappedRow(row, columns, headerCells, sheetRigNumber)
+            : this.parseRow(row.map(cell => this.cellToText(cell).replace(/,/g, ' ')).join(','), sheetRigNumber);
+          if (rowData) {
+            result.extractedData.push(rowData);
+            result.processedRows++;
+            this.updateRecognitionSummary(result.recognitionSummary, rowData);
+          }
+        } catch (error) {
+          result.errors.push(`Row ${sheetRowNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      });
+    } catch (error) {
+      result.errors.push(`Workbook processing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return result;
+  }
+
+  private sheetToGrid(XLSX: typeof import("xlsx"), worksheet: import("xlsx").WorkSheet): unknown[][] {
+    return XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '', blankrows: true, raw: true });
+  }
+
+  private cellToText(cell: unknown): string {
+    if (cell instanceof Date) return cell.toISOString().split('T')[0];
+    if (cell === null || cell === undefined) return '';
+    return String(cell).trim();
+  }
+
+  // First row (within the top 20) that names both a date and an hours column
+  private detectHeaderRow(grid: unknown[][]): number {
+    for (let i = 0; i < Math.min(grid.length, 20); i++) {
+      const columns = this.resolveColumns(grid[i].map(cell => this.cellToText(cell)));
+      if (columns.date !== undefined && columns.hours !== undefined) return i;
+    }
+    return -1;
+  }
+
+  // Profile mappings win; unmapped fields fall back to the default header aliases
+  private resolveColumns(headerCells: string[], columnMap?: BillingColumnMap): Partial<Record<BillingColumnField, number>> {
+    const normalized = headerCells.map(cell => cell.toLowerCase().replace(/\s+/g, ' ').trim());
+    const columns: Partial<Record<BillingColumnField, number>> = {};
+
+    for (const field of Object.keys(this.defaultColumnAliases) as BillingColumnField[]) {
+      const mapped = columnMap?.[field]?.toLowerCase().replace(/\s+/g, ' ').trim();
+      const candidates = mapped ? [mapped] : this.defaultColumnAliases[field];
+      const index = normalized.findIndex(header => header !== '' && candidates.includes(header));
+      if (index !== -1) columns[field] = index;
+    }
+
+    return columns;
+  }
+
+  private parseMappedRow(
+    row: unknown[],
+    columns: Partial<Record<BillingColumnField, number>>,
+    headerCells: string[],
+    sheetRigNumber: string
+  ): BillingSheetRow | null {
+    const cell = (field: BillingColumnField) => columns[field] !== undefined ? row[columns[field] as number] : undefined;
+    const fromColumn = (field: BillingColumnField, score: number) =>
+      fieldScore(score, { kind: 'column', detail: `"${headerCells[columns[field] as number]}" column` });
+
+    const rawDate = cell('date');
+    const date = rawDate instanceof Date ? rawDate : this.parseDate(this.cellToText(rawDate));
+    if (!date) throw new Error(`Invalid date format: ${this.cellToText(rawDate)}`);
+
+    const rawHours = cell('hours');
+    const hours = typeof rawHours === 'number' ? rawHours : parseFloat(this.cellToText(rawHours));
+    if (!Number.isFinite(hours) || hours <= 0) return null; // Skip rows with no hours
+    if (hours > 24) throw new Error(`Hours out of range: ${hours}`);
+
+    const rateText = this.cellToText(cell('rateType'));
+    const description = this.cellToText(cell('description'));
+    const rowCells = row.map(c => this.cellToText(c));
+    // The rig cell is kept as written so a registered alias can resolve it when the rows are grouped
+    const rigCellText = this.cellToText(cell('rigNumber')).trim();
+    // Consolidated sheets name the rig on each row even without a rig column
+    const rowRig = rigCellText ? undefined : this.findRowRig(rowCells.filter((_, index) => index !== columns.description));
+    const rigNumber = rigCellText || rowRig?.rigNumber || sheetRigNumber;
+
+    return this.buildRow({
+      rigNumber,
+      date,
+      hours,
+      description,
+      rateText: rateText || rowCells.join(' '),
+      rateSource: rateText ? 'the rate type column' : 'the row text',
+      cells: rateText ? [rateText] : rowCells,
+      ticketNumber: this.cellToText(cell('ticketNumber')) || undefined,
+      evidence: {
+        rigNumber: rigCellText ? fromColumn('rigNumber', parseRigCell(rigCellText) ? 0.95 : 0.6) : rowRig?.evidence ?? this.sheetRigEvidence(sheetRigNumber),
+        date: fromColumn('date', 0.95),
+        hours: fromColumn('hours', 0.95),
+        description: description
+          ? fromColumn('description', 0.9)
+          : fieldScore(0.2, { kind: 'missing', detail: 'Description column is empty' }),
+      }
+    });
+  }
+
   private updateRecognitionSummary(summary: BillingUploadResult['recognitionSummary'], rowData: BillingSheetRow): void {
     // Count by rate type
     switch (rowData.rateType) {
@@ -155,33 +272,23 @@ export class BillingProcessor {
     }
   }
 
+  // File-wide rig: the file name first, then the sheet name or header text
   private extractRigNumber(fileName: string, content: string): string {
-    // Enhanced rig number extraction using multiple patterns
-    for (const pattern of this.rigPatterns) {
-      const fileNameMatch = fileName.match(pattern);
-      if (fileNameMatch) {
-        return fileNameMatch[1];
-      }
-    }
-
-    // Extract from content header with enhanced patterns
-    const contentPatterns = [
-      /rig\s*(?:number|#|no)?\s*:?\s*(\d+)/i,
-      /unit\s*(?:number|#|no)?\s*:?\s*(\d+)/i,
-      /platform\s*(?:number|#|no)?\s*:?\s*(\d+)/i
-    ];
+    return parseRigReference(fileName) ?? parseRigReference(content) ?? UNKNOWN_RIG;
+  }
 
-    for (const pattern of contentPatterns) {
-      const contentMatch = content.match(pattern);
-      if (contentMatch) {
-        return contentMatch[1];
+  // A rig named in one of the row's cells, e.g. "Raba East 12" or "Hoist 1"
+  private findRowRig(cells: string[]): { rigNumber: string; evidence: FieldConfidence } | undefined {
+    for (const cell of cells) {
+      const rigNumber = parseRigReference(cell);
+      if (rigNumber) {
+        return { rigNumber, evidence: fieldScore(0.85, { kind: 'inferred', detail: `"${cell}" in the row names rig ${rigNumber}` }) };
       }
     }
-
-    return 'Unknown';
+    return undefined;
   }
 
-  private parseRow(rowText: string, rigNumber: string): BillingSheetRow | null {
+  private parseRow(rowText: string, sheetRigNumber: string): BillingSheetRow | null {
     const cells = rowText.split(',').map(cell => cell.trim().replace(/['"]/g, ''));
     
     if (cells.length < 4) return null; // Need at least date, hours, rate info, description
@@ -195,21 +302,69 @@ export class BillingProcessor {
     const hours = this.findHoursCell(cells);
     if (hours <= 0) return null; // Skip rows with no hours
 
-    // Intelligent rate type detection with column analysis
-    const { rateType, nbtType, confidence: rateConfidence } = this.determineRateTypeAdvanced(rowText, cells);
-
     // Enhanced description extraction
     const description = this.findDescriptionCell(cells);
+    const rowRig = this.findRowRig(cells.filter(cell => cell !== description));
+    const rigNumber = rowRig?.rigNumber || sheetRigNumber;
+
+    // Without a header the fields are found by their shape, so they score lower than mapped columns
+    const cellNumber = (value: string) => cells.indexOf(value) + 1;
+    const hoursCell = cells.findIndex(cell => parseFloat(cell) === hours) + 1;
+    const evidence: FieldConfidenceMap = {
+      rigNumber: rowRig?.evidence ?? this.sheetRigEvidence(sheetRigNumber),
+      date: this.isDateFormat(dateStr)
+        ? fieldScore(0.7, { kind: 'position', detail: `Cell ${cellNumber(dateStr)} is the first date-like value` })
+        : fieldScore(0.4, { kind: 'position', detail: `No date-like cell; read cell ${cellNumber(dateStr)} as the date` }),
+      hours: fieldScore(0.6, { kind: 'position', detail: `Cell ${hoursCell} is the first number between 0 and 24` }),
+      description: description
+        ? fieldScore(0.5, { kind: 'position', detail: `Cell ${cellNumber(description)} is the longest text cell` })
+        : fieldScore(0.1, { kind: 'missing', detail: 'No text cell found for the description' }),
+    };
+
+    return this.buildRow({ rigNumber, date, hours, description, rateText: rowText, rateSource: 'the row text', cells, evidence });
+  }
+
+  private sheetRigEvidence(rigNumber: string): FieldConfidence {
+    if (!rigNumber || rigNumber === UNKNOWN_RIG) {
+      return fieldScore(0, { kind: 'missing', detail: 'Rig number not found in the file name, sheet or row' });
+    }
+    return fieldScore(0.7, { kind: 'inferred', detail: `Rig ${rigNumber} taken from the file name or sheet header` });
+  }
+
+  // Shared recognition for a located row, whichever way its cells were found
+  private buildRow(fields: {
+    rigNumber: string;
+    date: Date;
+    hours: number;
+    description: string;
+    rateText: string;
+    rateSource: string;
+    cells: string[];
+    ticketNumber?: string;
+    evidence: FieldConfidenceMap;
+  }): BillingSheetRow {
+    const { rigNumber, date, hours, description } = fields;
+
+    // Intelligent rate type detection with column analysis
+    const { rateType, nbtType, confidence: rateConfidence, match: rateMatch } = this.determineRateTypeAdvanced(fields.rateText, fields.cells);
 
     // Advanced equipment and failure extraction
     const equipmentData = this.extractEquipment(description);
-    const extractedFailure = this.extractFailure(description);
+    const { failure: extractedFailure, match: failureMatch } = this.extractFailure(description);
+    const recognitionMatches = [
+      ...(rateMatch ? [rateMatch] : []),
+      ...equipmentData.matches,
+      ...(failureMatch ? [failureMatch] : []),
+    ];
 
-    // Calculate comprehensive confidence score
-    let confidence = 0.4 + (rateConfidence * 0.2); // Base + rate detection confidence
-    if (equipmentData.equipment) confidence += 0.2;
-    if (equipmentData.system) confidence += 0.1;
-    if (extractedFailure) confidence += 0.1;
+    // Per-field confidence, each with the evidence behind it
+    const fieldConfidence: FieldConfidenceMap = {
+      ...fields.evidence,
+      rateType: rateMatch
+        ? fieldScore(0.5 + rateConfidence * 0.5, { kind: 'keyword', detail: `"${rateMatch.keyword}" in ${fields.rateSource}` })
+        : fieldScore(0.2, { kind: 'missing', detail: `No rate keyword in ${fields.rateSource}; left as Other` }),
+      ...describeRecognition(description, recognitionMatches, nbtType, equipmentData.contractualCategory),
+    };
 
     // Enhanced NPT report data extraction
     const nptReportData = this.createNptReportData({
@@ -233,11 +388,14 @@ export class BillingProcessor {
       nbtType,
       rateType,
       description,
+      ticketNumber: fields.ticketNumber,
       wellName: 'BRN-96', // Default well name for Excel files
       extractedEquipment: equipmentData.equipment,
       extractedSystem: equipmentData.system,
       extractedFailure,
-      confidence: Math.min(confidence, 1.0),
+      confidence: overallConfidence(fieldConfidence),
+      recognitionMatches,
+      fieldConfidence,
       nptReportData
     };
   }
@@ -314,42 +472,12 @@ export class BillingProcessor {
   private determineRateTypeAdvanced(rowText: string, cells: string[]): { 
     rateType: BillingSheetRow['rateType'], 
     nbtType: BillingSheetRow['nbtType'],
-    confidence: number 
+    confidence: number,
+    match?: RecognitionMatch
   } {
-    const lowerText = rowText.toLowerCase();
-    let maxConfidence = 0;
-    let bestMatch = { rateType: 'Other' as BillingSheetRow['rateType'], nbtType: 'Contractual' as BillingSheetRow['nbtType'] };
-
-    // Enhanced keyword matching with confidence scoring
-    const rateTypes = [
-      { keywords: this.rateTypeKeywords.repairRate, type: 'Repair Rate', nbt: 'Abroad' },
-      { keywords: this.rateTypeKeywords.reduceRate, type: 'Reduce Repair Rate', nbt: 'Abroad' },
-      { keywords: this.rateTypeKeywords.zeroRate, type: 'Zero Rate', nbt: 'Abroad' },
-      { keywords: this.rateTypeKeywords.operationRate, type: 'Operation Rate', nbt: 'Contractual' }
-    ];
-
-    for (const rateType of rateTypes) {
-      let confidence = 0;
-      let matches = 0;
-      
-      for (const keyword of rateType.keywords) {
-        if (lowerText.includes(keyword)) {
-          matches++;
-          confidence += keyword.length / lowerText.length; // Longer matches = higher confidence
-        }
-      }
-
-      if (matches > 0) {
-        confidence = Math.min(confidence * matches, 1.0);
-        if (confidence > maxConfidence) {
-          maxConfidence = confidence;
-          bestMatch = {
-            rateType: rateType.type as BillingSheetRow['rateType'],
-            nbtType: rateType.nbt as BillingSheetRow['nbtType']
-          };
-        }
-      }
-    }
+    // Dictionary keyword matching with confidence scoring
+    const matched = this.dictionary.matchRateType(rowText);
+    let maxConfidence = matched?.confidence ?? 0;
 
     // Additional pattern analysis for column-based detection
     const hasRateColumn = cells.some(cell => {
@@ -362,57 +490,31 @@ export class BillingProcessor {
     }
 
     return {
-      rateType: bestMatch.rateType,
-      nbtType: bestMatch.nbtType,
-      confidence: maxConfidence
+      rateType: matched?.rateType ?? 'Other',
+      nbtType: matched?.nbtType ?? 'Contractual',
+      confidence: maxConfidence,
+      match: matched?.match
     };
   }
 
-  private extractEquipment(description: string): { system?: string; equipment?: string } {
-    const lowerDesc = description.toLowerCase();
-    
+  private extractEquipment(description: string): { system?: string; equipment?: string; contractualCategory?: string; matches: RecognitionMatch[] } {
     // First check if it's a Contractual category
     const contractualCategory = this.matchContractualCategory(description);
     if (contractualCategory) {
-      return { system: contractualCategory };
+      return { system: contractualCategory, contractualCategory, matches: [] };
     }
     
-    // Search through system equipment map for best match
-    for (const [system, equipmentList] of Object.entries(this.systemEquipmentMap)) {
-      for (const equipment of equipmentList) {
-        if (lowerDesc.includes(equipment.toLowerCase())) {
-          return {
-            system,
-            equipment: equipment.charAt(0).toUpperCase() + equipment.slice(1)
-          };
-        }
-      }
-    }
-
-    return {};
+    return this.dictionary.matchEquipment(description);
   }
 
-  private extractFailure(description: string): string | undefined {
-    const failureKeywords = [
-      'failure', 'failed', 'break', 'broken', 'malfunction', 'issue', 
-      'problem', 'fault', 'error', 'damage', 'damaged', 'leak', 'stuck'
-    ];
-
-    const lowerDesc = description.toLowerCase();
-    
-    for (const keyword of failureKeywords) {
-      if (lowerDesc.includes(keyword)) {
-        // Extract sentence containing the failure keyword
-        const sentences = description.split(/[.!?]/);
-        for (const sentence of sentences) {
-          if (sentence.toLowerCase().includes(keyword)) {
-            return sentence.trim();
-          }
-        }
-      }
-    }
+  private extractFailure(description: string): { failure?: string; match?: RecognitionMatch } {
+    const { match } = this.dictionary.matchFailure(description);
+    if (!match) return {};
 
-    return undefined;
+    // Extract sentence containing the failure keyword
+    const sentences = description.split(/[.!?]/);
+    const sentence = sentences.find(sentence => sentence.toLowerCase().includes(match.keyword));
+    return { failure: sentence?.trim() || match.value, match };
   }
 
   // Create structured NPT report data from extracted billing information
@@ -455,7 +557,7 @@ export class BillingProcessor {
         immediateCause: data.failure || this.extractImmediateCause(data.description),
         rootCause: this.extractRootCause(data.description),
         correctiveAction: this.extractCorrectiveAction(data.description),
-        futureAction: this.generateFutureAction(data.system, data.equipment),
+        futureAction: null,
         actionParty: this.determineActionParty(data.system, data.equipment),
         notificationNumber: this.shouldRequireNotification(data.hours) ? 'Required' : '',
         investigationReport: data.hours >= 6.0 ? 'Required' : ''
@@ -485,27 +587,11 @@ export class BillingProcessor {
   }
 
   private mapDescriptionToSystem(description: string): string {
-    const lowerDesc = description.toLowerCase();
-    
-    for (const [system, keywords] of Object.entries(this.systemEquipmentMap)) {
-      if (keywords.some(keyword => lowerDesc.includes(keyword.toLowerCase()))) {
-        return system;
-      }
-    }
-    return 'Other';
+    return this.dictionary.matchEquipment(description).system || 'Other';
   }
 
   private extractMainEquipment(description: string): string {
-    const lowerDesc = description.toLowerCase();
-    
-    for (const [, equipmentList] of Object.entries(this.systemEquipmentMap)) {
-      for (const equipment of equipmentList) {
-        if (lowerDesc.includes(equipment.toLowerCase())) {
-          return equipment.charAt(0).toUpperCase() + equipment.slice(1);
-        }
-      }
-    }
-    return 'General Equipment';
+    return this.dictionary.matchEquipment(description).equipment || 'General Equipment';
   }
 
   private extractPartEquipment(description: string, mainEquipment?: string): string {
@@ -550,22 +636,23 @@ export class BillingProcessor {
     return description.split('.')[0] || description.substring(0, 100);
   }
 
-  private extractRootCause(description: string): string {
+  // Cause and action helpers return null when the description gives nothing to go on, so the
+  // field is left for the reviewer (or an approved report's suggestion) rather than stock text
+  private extractRootCause(description: string): string | null {
     const rootCauseKeywords = ['due to', 'caused by', 'because of', 'overheated', 'worn', 'old'];
     const lowerDesc = description.toLowerCase();
     
     for (const keyword of rootCauseKeywords) {
       const index = lowerDesc.indexOf(keyword);
       if (index !== -1) {
-        const cause = description.substring(index).split('.')[0];
-        return cause || 'Equipment wear and operational stress';
+        return description.substring(index).split('.')[0];
       }
     }
     
-    return 'Equipment wear and operational stress';
+    return null;
   }
 
-  private extractCorrectiveAction(description: string): string {
+  private extractCorrectiveAction(description: string): string | null {
     const actionKeywords = ['replace', 'repair', 'fix', 'change', 'service', 'maintenance'];
     const actionVerbs = ['replaced', 'repaired', 'fixed', 'changed', 'serviced'];
     
@@ -583,19 +670,7 @@ export class BillingProcessor {
       }
     }
     
-    return 'Emergency repair and replacement of damaged components';
-  }
-
-  private generateFutureAction(system?: string, equipment?: string): string {
-    const baseActions = {
-      'Mud Pumps': 'Implement preventive maintenance schedule for pump components',
-      'BOP': 'Increase frequency of BOP testing and maintenance',
-      'Power System': 'Enhance electrical system monitoring and preventive maintenance',
-      'Hoisting': 'Implement regular inspection schedule for hoisting equipment',
-      'Safety': 'Review safety system maintenance protocols'
-    };
-    
-    return baseActions[system as keyof typeof baseActions] || 'Implement enhanced preventive maintenance and monitoring procedures';
+    return null;
   }
 
   private determineActionParty(system?: string, equipment?: string): string {
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startScheduler } from "./lib/scheduler";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +68,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // SLA, stall and escalation checks run in the background from here on
+    startScheduler().catch(error => console.error("Failed to start the scheduler:", error));
   });
 })();
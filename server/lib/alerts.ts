@@ -0,0 +1,278 @@
+import { storage } from "../storage";
+import type { AlertRule, InsertNotification, MonthlyReport, Rig, User } from "@shared/schema";
+import { ROLE_KEYS, type RoleKey } from "@shared/workflow";
+import { mailConfigured, sendMail } from "./mailer";
+import { lifecycleService } from "../lifecycleService";
+
+/**
+ * The alert engine: evaluates each enabled alert_rules row against its threshold and notifies
+ * its recipients with its template. A code without a row falls back to DEFAULT_RULES, which
+ * reproduce the alerts sent before rules were configurable (PENDING_APPROVAL has none, so it
+ * only runs once configured). Every alert is deduplicated per subject, rule and recipient for
+ * ALERT_COOLDOWN_HOURS, since the checks run repeatedly while it holds.
+ */
+
+export const ALERT_CODES = ["PENDING_APPROVAL", "OVER_SLA", "MISSING_DAY", "STALLED"] as const;
+export type AlertCode = typeof ALERT_CODES[number];
+
+// The notifications.rule each code is sent as
+const NOTIFICATION_RULES: Record<AlertCode, string> = {
+  PENDING_APPROVAL: 'pending_approval',
+  OVER_SLA: 'over_sla',
+  MISSING_DAY: 'missing_entry',
+  STALLED: 'stalled',
+};
+
+type RuleSettings = Pick<AlertRule, 'description' | 'recipients' | 'emailTemplate'> & {
+  id: number | null;
+  code: AlertCode;
+  thresholdHours: number | null; // null: the monthly report's own slaDays
+};
+
+const DEFAULT_RULES: Partial<Record<AlertCode, RuleSettings>> = {
+  OVER_SLA: {
+    id: null,
+    code: 'OVER_SLA',
+    description: 'Monthly report overdue for approval',
+    thresholdHours: null,
+    recipients: ['creator', 'admin', 'supervisor'],
+    emailTemplate: 'Monthly NPT report for {{month}} is overdue for approval ({{days}} days)',
+  },
+  STALLED: {
+    id: null,
+    code: 'STALLED',
+    description: 'Monthly report with no progress',
+    thresholdHours: 24,
+    recipients: ['creator'],
+    emailTemplate: 'Monthly NPT report for {{month}} has been stalled for over {{threshold}} hours',
+  },
+  MISSING_DAY: {
+    id: null,
+    code: 'MISSING_DAY',
+    description: 'Rig day with no NPT entry',
+    thresholdHours: 0,
+    recipients: ['toolpusher'],
+    emailTemplate: 'Rig {{rig}} has no NPT entry for {{date}}. Add the NPT report, or confirm zero NPT for the day from the dashboard.',
+  },
+};
+
+const DEFAULT_TEMPLATES: Record<AlertCode, string> = {
+  PENDING_APPROVAL: 'Monthly NPT report for {{month}} (Rig {{rig}}) has been awaiting approval for {{hours}} hours',
+  OVER_SLA: DEFAULT_RULES.OVER_SLA!.emailTemplate!,
+  MISSING_DAY: DEFAULT_RULES.MISSING_DAY!.emailTemplate!,
+  STALLED: DEFAULT_RULES.STALLED!.emailTemplate!,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const ALERT_COOLDOWN_MS = (Number(process.env.ALERT_COOLDOWN_HOURS) || 24) * HOUR_MS;
+
+export const isAlertCode = (code: string): code is AlertCode => (ALERT_CODES as readonly string[]).includes(code);
+
+// Replace {{name}} placeholders; unknown names are left as written so a typo shows in the message
+export function renderAlertTemplate(template: string, vars: Record<string, string | number | null | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    vars[name] === undefined || vars[name] === null ? placeholder : String(vars[name])
+  );
+}
+
+// An alert to raise: who it is about, the template variables and how to recognise a repeat
+interface AlertSubject {
+  reportId: number | null;
+  rigId: number;
+  creator?: string;
+  dedupeKey?: string;
+  metadata?: Record<string, unknown>;
+  vars: Record<string, string | number | null | undefined>;
+}
+
+interface EngineContext {
+  now: Date;
+  users: User[];
+  rigs: Map<number, Rig>;
+}
+
+/**
+ * The users an alert goes to. Each recipients entry is a workflow role key (resolved through
+ * the rig's active role assignments), 'creator' (the monthly report's creator), a user ID, or
+ * failing those an application role such as 'admin'.
+ */
+async function resolveRecipients(rule: RuleSettings, subject: AlertSubject, context: EngineContext): Promise<string[]> {
+  const entries = Array.isArray(rule.recipients) ? rule.recipients.map(String) : [];
+  const recipients = new Set<string>();
+
+  for (const entry of entries) {
+    if ((ROLE_KEYS as readonly string[]).includes(entry)) {
+      const assignments = await storage.getRoleAssignments(subject.rigId);
+      assignments
+        .filter(assignment => assignment.isActive && assignment.roleKey === (entry as RoleKey))
+        .forEach(assignment => recipients.add(assignment.userId));
+    } else if (entry === 'creator') {
+      if (subject.creator) recipients.add(subject.creator);
+    } else if (context.users.some(user => user.id === entry)) {
+      recipients.add(entry);
+    } else {
+      context.users
+        .filter(user => user.role?.toLowerCase() === entry.toLowerCase())
+        .forEach(user => recipients.add(user.id));
+    }
+  }
+  return Array.from(recipients);
+}
+
+async function raise(rule: RuleSettings, subject: AlertSubject, context: EngineContext): Promise<number> {
+  const message = renderAlertTemplate(rule.emailTemplate || DEFAULT_TEMPLATES[rule.code], {
+    rule: rule.code,
+    description: rule.description,
+    threshold: rule.thresholdHours,
+    ...subject.vars,
+  });
+  const since = new Date(context.now.getTime() - ALERT_COOLDOWN_MS);
+  const notificationRule = NOTIFICATION_RULES[rule.code];
+
+  let sent = 0;
+  for (const recipient of await resolveRecipients(rule, subject, context)) {
+    if (await storage.hasRecentNotification(subject.reportId, notificationRule, recipient, since, subject.dedupeKey)) continue;
+
+    const notification: InsertNotification = {
+      reportId: subject.reportId,
+      rule: notificationRule,
+      recipient,
+      message,
+      channel: 'in_app',
+      metadata: { ...subject.metadata, alertRuleId: rule.id, code: rule.code, rigId: subject.rigId, dedupeKey: subject.dedupeKey },
+    };
+    await storage.createNotification(notification);
+    sent++;
+
+    const user = context.users.find(u => u.id === recipient);
+    if (mailConfigured() && user?.email) {
+      try {
+        await sendMail({ to: user.email, subject: `NPT alert: ${rule.description}`, text: message });
+      } catch (error) {
+        console.error(`Error emailing ${rule.code} alert to ${user.email}:`, error);
+      }
+    }
+  }
+  return sent;
+}
+
+const reportVars = (report: MonthlyReport, context: EngineContext, since: Date | null) => {
+  const waitingMs = since ? context.now.getTime() - since.getTime() : 0;
+  return {
+    reportId: report.id,
+    month: report.month,
+    rig: context.rigs.get(report.rigId)?.rigNumber,
+    status: report.status,
+    totalHours: Number(report.totalHours ?? 0),
+    hours: Math.floor(waitingMs / HOUR_MS),
+    days: Math.floor(waitingMs / DAY_MS),
+  };
+};
+
+// Submitted monthly reports still waiting on approval
+async function awaitingApproval() {
+  const [submitted, inReview] = await Promise.all([
+    storage.getMonthlyReports({ status: 'Submitted' }),
+    storage.getMonthlyReports({ status: 'In_Review' }),
+  ]);
+  return [...submitted, ...inReview].filter(report => report.submittedAt);
+}
+
+async function evaluateRule(rule: RuleSettings, context: EngineContext): Promise<number> {
+  const { now } = context;
+  let sent = 0;
+
+  switch (rule.code) {
+    case 'PENDING_APPROVAL':
+    case 'OVER_SLA': {
+      for (const report of await awaitingApproval()) {
+        const submittedAt = new Date(report.submittedAt!);
+        const thresholdHours = rule.thresholdHours ?? (report.slaDays || 7) * 24;
+        if (now.getTime() - submittedAt.getTime() < thresholdHours * HOUR_MS) continue;
+
+        sent += await raise(rule, {
+          reportId: report.id,
+          rigId: report.rigId,
+          creator: report.createdBy,
+          vars: { ...reportVars(report, context, submittedAt), threshold: thresholdHours },
+        }, context);
+      }
+      break;
+    }
+
+    case 'STALLED': {
+      const thresholdMs = (rule.thresholdHours ?? 24) * HOUR_MS;
+      for (const report of await awaitingApproval()) {
+        const latestEvent = await storage.getLatestStageEvent(report.id);
+        const lastActivity = latestEvent?.createdAt ? new Date(latestEvent.createdAt) : null;
+        if (!lastActivity || now.getTime() - lastActivity.getTime() < thresholdMs) continue;
+
+        sent += await raise(rule, {
+          reportId: report.id,
+          rigId: report.rigId,
+          creator: report.createdBy,
+          vars: reportVars(report, context, lastActivity),
+        }, context);
+      }
+      break;
+    }
+
+    case 'MISSING_DAY': {
+      // The latest UTC day that ended at least thresholdHours ago: the previous day by default
+      const thresholdMs = (rule.thresholdHours ?? 0) * HOUR_MS;
+      const cutoff = new Date(now.getTime() - thresholdMs);
+      const day = new Date(Date.UTC(cutoff.getUTCFullYear(), cutoff.getUTCMonth(), cutoff.getUTCDate()) - DAY_MS);
+      const date = day.toISOString().split('T')[0];
+
+      for (const rig of Array.from(context.rigs.values())) {
+        if ((await lifecycleService.getMissingDays(rig.id, [date])).length === 0) continue;
+
+        sent += await raise(rule, {
+          reportId: null,
+          rigId: rig.id,
+          dedupeKey: `missing:${rig.id}:${date}`,
+          metadata: { date },
+          vars: { rig: rig.rigNumber, date },
+        }, context);
+      }
+      break;
+    }
+  }
+  return sent;
+}
+
+/**
+ * Evaluate the enabled rules for `codes` (all of them by default) and return how many
+ * notifications each code sent. A rule that fails is logged and the others still run.
+ */
+export async function evaluateAlertRules(codes: readonly AlertCode[] = ALERT_CODES, now: Date = new Date()): Promise<Partial<Record<AlertCode, number>>> {
+  const configured = (await storage.getAlertRules()).filter(rule => isAlertCode(rule.code));
+  const rules: RuleSettings[] = [];
+  for (const code of codes) {
+    // Codes are unique, so a code has at most one row
+    const row = configured.find(rule => rule.code === code);
+    if (row) {
+      if (row.enabled !== false) rules.push({ ...row, code });
+    } else if (DEFAULT_RULES[code]) {
+      rules.push(DEFAULT_RULES[code]!);
+    }
+  }
+  if (rules.length === 0) return {};
+
+  const context: EngineContext = {
+    now,
+    users: await storage.getAllUsers(),
+    rigs: new Map((await storage.getRigs()).map(rig => [rig.id, rig])),
+  };
+
+  const sent: Partial<Record<AlertCode, number>> = {};
+  for (const rule of rules) {
+    try {
+      sent[rule.code] = await evaluateRule(rule, context);
+    } catch (error) {
+      console.error(`Error evaluating alert rule ${rule.code}${rule.id ? ` #${rule.id}` : ''}:`, error);
+    }
+  }
+  return sent;
+}
@@ -0,0 +1,146 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { db } from "../db";
+import { approvalTokens, nptReports, rigs, users } from "@shared/schema";
+import type { ApprovalToken, NptReport } from "@shared/schema";
+import { eq, and, isNull, inArray } from "drizzle-orm";
+import { mailConfigured, sendMail } from "./mailer";
+
+/**
+ * One-click approval links for approvers who read email but can't log in. A link is
+ * "<token id>.<secret>.<signature>": the secret is stored only as a hash, and the signature
+ * (HMAC with APPROVAL_LINK_SECRET, or SESSION_SECRET) covers the report, step, approver and
+ * expiry it was issued for. Links are only sent when SMTP is configured, are single-use, and
+ * are retired by the approval engine when the report leaves the step or is edited. Acting on
+ * one goes through recordTokenApproval in server/lib/approvals.ts.
+ */
+
+const LINK_TTL_HOURS = Number(process.env.APPROVAL_LINK_TTL_HOURS) || 72;
+
+const signingKey = () => process.env.APPROVAL_LINK_SECRET || process.env.SESSION_SECRET || null;
+
+const hashSecret = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+function sign(key: string, row: Pick<ApprovalToken, 'id' | 'reportId' | 'stepOrder' | 'approverUserId' | 'expiresAt'>, secret: string) {
+  return createHmac('sha256', key)
+    .update([row.id, secret, row.reportId, row.stepOrder, row.approverUserId, row.expiresAt.getTime()].join('.'))
+    .digest('base64url');
+}
+
+function appBaseUrl() {
+  if (process.env.APP_BASE_URL) return process.env.APP_BASE_URL.replace(/\/$/, '');
+  const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+  return domain ? `https://${domain}` : `http://localhost:${process.env.PORT || 5000}`;
+}
+
+// Retire every unused link for a report, e.g. because it moved to another step or was edited
+export async function invalidateApprovalTokens(reportId: number, at: Date = new Date()): Promise<void> {
+  await db.update(approvalTokens)
+    .set({ invalidatedAt: at })
+    .where(and(eq(approvalTokens.reportId, reportId), isNull(approvalTokens.usedAt), isNull(approvalTokens.invalidatedAt)));
+}
+
+/**
+ * Email a fresh link to each of `approverUserIds` for the report's current step. Sending is
+ * best effort: a mail failure is logged and the report stays in the in-app queue as usual.
+ */
+export async function emailApprovalLinks(report: NptReport, approverUserIds: string[]): Promise<number> {
+  const key = signingKey();
+  if (!key || !mailConfigured() || approverUserIds.length === 0 || report.currentStepOrder == null) return 0;
+
+  const recipients = await db.select().from(users).where(inArray(users.id, approverUserIds));
+  const rig = await db.query.rigs.findFirst({ where: eq(rigs.id, report.rigId) });
+  const date = new Date(report.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  let sent = 0;
+  for (const recipient of recipients) {
+    if (!recipient.email) continue;
+
+    const secret = randomBytes(32).toString('base64url');
+    const [row] = await db.insert(approvalTokens).values({
+      tokenHash: hashSecret(secret),
+      reportId: report.id,
+      stepOrder: report.currentStepOrder,
+      approverUserId: recipient.id,
+      expiresAt: new Date(Date.now() + LINK_TTL_HOURS * 60 * 60 * 1000),
+    }).returning();
+    const link = `${appBaseUrl()}/approve/${row.id}.${secret}.${sign(key, row, secret)}`;
+
+    try {
+      await sendMail({
+        to: recipient.email,
+        subject: `NPT report #${report.id} needs your approval (${rig ? `Rig ${rig.rigNumber}, ` : ''}${date})`,
+        text: [
+          recipient.firstName ? `Hello ${recipient.firstName},` : 'Hello,',
+          '',
+          `NPT report #${report.id} is waiting for you at approval step ${report.currentStepOrder}.`,
+          `${rig ? `Rig ${rig.rigNumber}, ` : ''}${date}: ${Number(report.hours)}h ${report.nptType}${report.system ? `, ${report.system}` : ''}`,
+          '',
+          `Review and approve, reject or request changes here (valid for ${LINK_TTL_HOURS} hours, one use):`,
+          link,
+          '',
+          'The link stops working once the report moves on or is edited.',
+        ].join('\n'),
+      });
+      sent++;
+    } catch (error) {
+      console.error(`Error emailing approval link for report #${report.id} to ${recipient.email}:`, error);
+    }
+  }
+  return sent;
+}
+
+export type TokenCheck =
+  | { valid: true; token: ApprovalToken; report: NptReport }
+  | { valid: false; reason: string; statusCode: number };
+
+/**
+ * Check a link without using it: the signature, then that it is unused, current and still
+ * for the step the report is at. Does not check the approver's assignment; the engine does.
+ */
+export async function checkApprovalToken(raw: string): Promise<TokenCheck> {
+  const key = signingKey();
+  const [id, secret, signature] = raw.split('.');
+  if (!key || !id || !secret || !signature || !/^\d+$/.test(id)) {
+    return { valid: false, reason: 'This approval link is not valid', statusCode: 404 };
+  }
+
+  const token = await db.query.approvalTokens.findFirst({ where: eq(approvalTokens.id, Number(id)) });
+  const expected = token ? Buffer.from(sign(key, token, secret)) : null;
+  const given = Buffer.from(signature);
+  if (!token || !expected || expected.length !== given.length || !timingSafeEqual(expected, given) || token.tokenHash !== hashSecret(secret)) {
+    return { valid: false, reason: 'This approval link is not valid', statusCode: 404 };
+  }
+
+  if (token.usedAt) {
+    return { valid: false, reason: 'This approval link has already been used', statusCode: 410 };
+  }
+  if (token.invalidatedAt) {
+    return { valid: false, reason: 'This approval link was replaced because the report moved on or was edited', statusCode: 410 };
+  }
+  if (token.expiresAt <= new Date()) {
+    return { valid: false, reason: 'This approval link has expired; open the report in the app instead', statusCode: 410 };
+  }
+
+  const report = await db.query.nptReports.findFirst({ where: eq(nptReports.id, token.reportId) });
+  if (!report || report.currentStepOrder !== token.stepOrder) {
+    return { valid: false, reason: 'This report is no longer at the step the link was sent for', statusCode: 410 };
+  }
+
+  return { valid: true, token, report };
+}
+
+// Mark a link used; false if another request used or retired it first
+export async function claimApprovalToken(tokenId: number, action: string): Promise<boolean> {
+  const claimed = await db.update(approvalTokens)
+    .set({ usedAt: new Date(), usedAction: action })
+    .where(and(eq(approvalTokens.id, tokenId), isNull(approvalTokens.usedAt), isNull(approvalTokens.invalidatedAt)))
+    .returning({ id: approvalTokens.id });
+  return claimed.length > 0;
+}
+
+// Give a claimed link back when the decision it carried was refused, so it can be retried
+export async function releaseApprovalToken(tokenId: number): Promise<void> {
+  await db.update(approvalTokens)
+    .set({ usedAt: null, usedAction: null })
+    .where(eq(approvalTokens.id, tokenId));
+}
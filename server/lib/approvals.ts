@@ -1,9 +1,19 @@
 import { db } from "../db";
-import { workflowDefinitions, workflowSteps, nptReports, nptApprovals, roleAssignments, delegations, users } from "@shared/schema";
-import { eq, and, isNull, gte, lte, desc } from "drizzle-orm";
-import { ROLE_KEYS } from "@shared/workflow";
+import { workflowDefinitions, workflowSteps, workflowStepGroups, workflowVersions, nptReports, nptApprovals, roleAssignments, delegations, users, rigs, slaRules, notifications } from "@shared/schema";
+import type { NptReport, WorkflowStepGroup, WorkflowVersion } from "@shared/schema";
+import { eq, and, or, isNull, gte, gt, lt, lte, max, desc, inArray, arrayContains, type SQL } from "drizzle-orm";
+import { ROLE_KEYS, matchWorkflowConditions, type EscalationMode, type StepGroupMode } from "@shared/workflow";
+import { checkApprovalToken, claimApprovalToken, emailApprovalLinks, invalidateApprovalTokens, releaseApprovalToken } from "./approvalLinks";
+import { lifecycleService } from "../lifecycleService";
+import { NPT_ACTIONS, NPT_REVIEW_FIELDS, NPT_STATUS, nextNptStatus, normalizeNptStatus, type NptAction, type NptChangeRequestDiff, type NptReviewField, type NptStatus } from "@shared/status";
 
-interface WorkflowStep {
+/**
+ * The NPT approval state machine. Every change to an NPT report's status goes through
+ * this module: it checks the move against NPT_TRANSITIONS, routes the report to the next
+ * workflow step group's approvers and writes one row per action to npt_approvals.
+ */
+
+export interface WorkflowStep {
   id: number;
   stepOrder: number;
   approverType: 'role' | 'user';
@@ -17,47 +27,129 @@ interface ActiveDelegation {
   delegatedFromUserId: string;
 }
 
+// How long a step may wait before its approvers are reminded, then escalated
+interface StepSla {
+  reminderHours: number | null;
+  escalationHours: number | null;
+  escalationRoleKey: string | null;
+  escalationUserId: string | null;
+  escalationMode: EscalationMode;
+}
+
+// Steps sharing a stepOrder, reviewed in parallel
+export interface StepGroup {
+  stepOrder: number;
+  mode: StepGroupMode;
+  requiredApprovals: number | null;
+  sla: StepSla | null;
+  steps: WorkflowStep[];
+}
+
+interface ResolvedApprover {
+  step: WorkflowStep;
+  nominalUserId: string;
+  effectiveUserId: string;
+}
+
+interface Route {
+  group: StepGroup;
+  approvers: ResolvedApprover[];
+}
+
+export interface ApprovalResult {
+  report: NptReport;
+  status: NptStatus;
+  stepOrder: number | null;
+  nextApproverUserId: string | null;
+}
+
+// A report picked from the pending queue, with the editedAt it was listed with
+export interface BulkApprovalItem {
+  reportId: number;
+  editedAt: string;
+}
+
+// What happened to one report of a bulk action
+export interface BulkApprovalResult {
+  reportId: number;
+  success: boolean;
+  status?: NptStatus;
+  nextApproverUserId?: string | null;
+  error?: string;
+}
+
+// Thrown for actions the state machine refuses; statusCode is the HTTP status to answer with
+export class ApprovalError extends Error {
+  constructor(message: string, readonly statusCode: number = 409) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+const ACTION_VERBS: Record<NptAction, string> = {
+  SUBMIT: 'submit',
+  APPROVE: 'approve',
+  REJECT: 'reject',
+  REQUEST_CHANGES: 'request changes on',
+};
+
+interface WorkflowSelection {
+  workflowId: number | null;
+  workflowVersionId: number | null;
+  groups: StepGroup[];
+  reason: string;
+}
+
+// How a migrated report re-enters the new version: at the step it had reached, or from the start
+export type MigrationMode = 'keep' | 'restart';
+
+// Anything that can run queries: the db itself or a transaction
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
 /**
- * Pick the appropriate workflow for a given rig
- * First looks for rig-specific workflow, falls back to global default
+ * Pick the workflow for a report: the active workflow whose conditions (rig, NPT type,
+ * department, system, rig section, hours range) all match and that sets the most of them.
+ * Ties go to the older workflow. A workflow without conditions is the global default.
  */
-export async function pickWorkflow(rigId: number): Promise<{ id: number; steps: WorkflowStep[] } | null> {
+export async function pickWorkflow(report: Pick<NptReport, 'rigId' | 'nptType' | 'department' | 'system' | 'hours'>): Promise<{ id: number; name: string; steps: WorkflowStep[]; groups: WorkflowStepGroup[]; reasons: string[] } | null> {
   try {
-    // First try rig-specific workflow
-    let workflow = await db.query.workflowDefinitions.findFirst({
+    const rig = await db.query.rigs.findFirst({
+      where: eq(rigs.id, report.rigId)
+    });
+
+    const candidates = await db.query.workflowDefinitions.findMany({
       where: and(
-        eq(workflowDefinitions.rigId, rigId),
+        or(eq(workflowDefinitions.rigId, report.rigId), isNull(workflowDefinitions.rigId)),
         eq(workflowDefinitions.isActive, true)
       ),
       with: {
         steps: {
           orderBy: [workflowSteps.stepOrder]
-        }
-      }
+        },
+        groups: true
+      },
+      orderBy: [workflowDefinitions.id]
     });
 
-    // Fallback to global workflow
-    if (!workflow) {
-      workflow = await db.query.workflowDefinitions.findFirst({
-        where: and(
-          isNull(workflowDefinitions.rigId),
-          eq(workflowDefinitions.isActive, true)
-        ),
-        with: {
-          steps: {
-            orderBy: [workflowSteps.stepOrder]
-          }
-        }
-      });
+    let best: { workflow: typeof candidates[number]; reasons: string[] } | null = null;
+    for (const workflow of candidates) {
+      if (workflow.steps.length === 0) continue;
+      const reasons = matchWorkflowConditions(workflow, { ...report, rigSection: rig?.section });
+      if (reasons && (!best || reasons.length > best.reasons.length)) {
+        best = { workflow, reasons };
+      }
     }
 
-    if (!workflow || !workflow.steps || workflow.steps.length === 0) {
+    if (!best) {
       return null;
     }
 
     return {
-      id: workflow.id,
-      steps: workflow.steps as WorkflowStep[]
+      id: best.workflow.id,
+      name: best.workflow.name,
+      steps: best.workflow.steps as WorkflowStep[],
+      groups: best.workflow.groups,
+      reasons: best.reasons
     };
   } catch (error) {
     console.error("Error picking workflow:", error);
@@ -83,23 +175,162 @@ export async function listSteps(workflowId: number): Promise<WorkflowStep[]> {
 }
 
 /**
- * Apply delegation rules to find the effective approver
+ * Gather steps into their groups, in order. A stepOrder with no group settings needs every
+ * one of its steps, so a workflow without groups behaves as a plain sequence.
+ */
+export function groupSteps(steps: WorkflowStep[], groups: WorkflowStepGroup[] = []): StepGroup[] {
+  const stepOrders = Array.from(new Set(steps.map(step => step.stepOrder))).sort((a, b) => a - b);
+
+  return stepOrders.map(stepOrder => {
+    const settings = groups.find(group => group.stepOrder === stepOrder);
+    const hasSla = settings && (settings.reminderHours != null || settings.escalationHours != null);
+    return {
+      stepOrder,
+      mode: (settings?.mode as StepGroupMode) ?? 'all',
+      requiredApprovals: settings?.requiredApprovals ?? null,
+      sla: hasSla ? {
+        reminderHours: settings.reminderHours ?? null,
+        escalationHours: settings.escalationHours ?? null,
+        escalationRoleKey: settings.escalationRoleKey ?? null,
+        escalationUserId: settings.escalationUserId ?? null,
+        escalationMode: (settings.escalationMode as EscalationMode) ?? 'add',
+      } : null,
+      steps: steps.filter(step => step.stepOrder === stepOrder),
+    };
+  });
+}
+
+// When no workflow matches, each role approves in turn
+export const DEFAULT_STEP_GROUPS = groupSteps(ROLE_KEYS.map((roleKey, index) => ({
+  id: 0,
+  stepOrder: index + 1,
+  approverType: 'role' as const,
+  roleKey,
+  isRequired: true,
+})));
+
+export const NO_WORKFLOW_REASON = 'No workflow matched; using the default role sequence';
+
+// "'Standard' v2 matched on department Maintenance (M/E)", recorded on the report
+export function selectionReason(name: string, reasons: string[]): string {
+  return reasons.length > 0 ? `${name} matched on ${reasons.join(', ')}` : `${name} is the global default`;
+}
+
+// Choose the workflow a report is submitted into, and say why
+async function selectWorkflow(report: NptReport): Promise<WorkflowSelection> {
+  const workflow = await pickWorkflow(report);
+  if (!workflow) {
+    return { workflowId: null, workflowVersionId: null, groups: DEFAULT_STEP_GROUPS, reason: NO_WORKFLOW_REASON };
+  }
+
+  const version = await latestWorkflowVersion(workflow.id);
+  return {
+    workflowId: workflow.id,
+    workflowVersionId: version.id,
+    groups: versionStepGroups(version),
+    reason: selectionReason(`"${workflow.name}" v${version.version}`, workflow.reasons),
+  };
+}
+
+/**
+ * Publish a workflow's current steps and groups as its next version. Run it in the same
+ * transaction that wrote them, so a version always matches what was saved.
+ */
+export async function publishWorkflowVersion(workflowId: number, publishedBy: string | null, executor: Executor = db): Promise<WorkflowVersion> {
+  const [steps, groups, [latest]] = await Promise.all([
+    executor.select().from(workflowSteps).where(eq(workflowSteps.workflowId, workflowId)).orderBy(workflowSteps.stepOrder, workflowSteps.id),
+    executor.select().from(workflowStepGroups).where(eq(workflowStepGroups.workflowId, workflowId)),
+    executor.select({ version: max(workflowVersions.version) }).from(workflowVersions).where(eq(workflowVersions.workflowId, workflowId)),
+  ]);
+
+  const [version] = await executor.insert(workflowVersions)
+    .values({
+      workflowId,
+      version: (latest?.version ?? 0) + 1,
+      steps,
+      groups,
+      publishedBy,
+    })
+    .returning();
+  return version;
+}
+
+// The newest published version; workflows set up before versioning get theirs on first use
+export async function latestWorkflowVersion(workflowId: number): Promise<WorkflowVersion> {
+  const latest = await db.query.workflowVersions.findFirst({
+    where: eq(workflowVersions.workflowId, workflowId),
+    orderBy: [desc(workflowVersions.version)]
+  });
+  return latest ?? publishWorkflowVersion(workflowId, null);
+}
+
+function versionStepGroups(version: WorkflowVersion): StepGroup[] {
+  const steps = version.steps as WorkflowStep[];
+  return steps.length > 0 ? groupSteps(steps, version.groups as WorkflowStepGroup[]) : DEFAULT_STEP_GROUPS;
+}
+
+/**
+ * Step groups of the workflow version a report was submitted into. Reports pinned to a
+ * workflow before versions existed read its live steps; reports submitted before workflows
+ * were recorded use whichever workflow matches them now.
+ */
+async function stepGroupsForReport(report: NptReport): Promise<StepGroup[]> {
+  if (report.workflowVersionId) {
+    const version = await db.query.workflowVersions.findFirst({
+      where: eq(workflowVersions.id, report.workflowVersionId)
+    });
+    if (version) return versionStepGroups(version);
+  }
+  if (!report.workflowId) return (await selectWorkflow(report)).groups;
+
+  const [steps, groups] = await Promise.all([
+    listSteps(report.workflowId),
+    db.query.workflowStepGroups.findMany({
+      where: eq(workflowStepGroups.workflowId, report.workflowId)
+    }),
+  ]);
+  return steps.length > 0 ? groupSteps(steps, groups) : DEFAULT_STEP_GROUPS;
+}
+
+/**
+ * Approvals a group needs before the report moves on: every resolved approver for 'all',
+ * one for 'any', and N for 'quorum' (capped at the approvers there are)
+ */
+export function approvalsNeeded(group: StepGroup, approverCount: number): number {
+  if (group.mode === 'any') return 1;
+  if (group.mode === 'quorum') return Math.max(1, Math.min(group.requiredApprovals ?? 1, approverCount));
+  return Math.max(1, approverCount);
+}
+
+// How many delegate-of-a-delegate hops are followed; DELEGATION_MAX_DEPTH overrides it
+export const MAX_DELEGATION_DEPTH = Number(process.env.DELEGATION_MAX_DEPTH) || 5;
+
+// Who an approval passed through on its way to the person who acts on it
+export interface DelegationChain {
+  effectiveUserId: string;
+  chain: string[]; // Nominal approver first, then each delegate in turn
+  cycle: boolean;
+  truncated: boolean;
+}
+
+/**
+ * The delegation a user has in effect at a moment, now by default, for a rig and role.
+ * Delegations without a rig or role cover every rig or role.
  */
-async function applyDelegation(rigId: number, nominalUserId: string, roleKey?: string): Promise<ActiveDelegation | null> {
+export async function applyDelegation(rigId: number, nominalUserId: string, roleKey?: string, now: Date = new Date()): Promise<ActiveDelegation | null> {
   try {
-    const now = new Date();
-    
+
     const delegation = await db.query.delegations.findFirst({
       where: and(
         eq(delegations.delegatorUserId, nominalUserId),
         eq(delegations.isActive, true),
         lte(delegations.startsAt, now),
         gte(delegations.endsAt, now),
-        // Rig constraint: delegation.rigId must be null (all rigs) or match the report's rig
-        delegations.rigId ? eq(delegations.rigId, rigId) : isNull(delegations.rigId),
-        // Role constraint: delegation.roleKey must be null (all roles) or match the step's role
-        roleKey && delegations.roleKey ? eq(delegations.roleKey, roleKey) : undefined
-      )
+        or(isNull(delegations.rigId), eq(delegations.rigId, rigId)),
+        // A step without a role (a named user) only follows delegations covering every role
+        roleKey ? or(isNull(delegations.roleKey), eq(delegations.roleKey, roleKey)) : isNull(delegations.roleKey)
+      ),
+      orderBy: [desc(delegations.startsAt)]
     });
 
     if (delegation) {
@@ -117,12 +348,37 @@ async function applyDelegation(rigId: number, nominalUserId: string, roleKey?: s
 }
 
 /**
- * Resolve a step to find the nominal and effective approver
+ * Follow delegations from the nominal approver: a delegate who is away themselves passes the
+ * approval on to their own delegate, up to MAX_DELEGATION_DEPTH hops. In a cycle (A → B → A)
+ * nobody is available, so the approval stays with the nominal approver.
+ */
+export async function resolveDelegationChain(rigId: number, nominalUserId: string, roleKey?: string, at: Date = new Date()): Promise<DelegationChain> {
+  const chain = [nominalUserId];
+
+  while (chain.length <= MAX_DELEGATION_DEPTH) {
+    const delegation = await applyDelegation(rigId, chain[chain.length - 1], roleKey, at);
+    if (!delegation) {
+      return { effectiveUserId: chain[chain.length - 1], chain, cycle: false, truncated: false };
+    }
+    if (chain.includes(delegation.delegateUserId)) {
+      console.warn(`Delegation cycle on rig ${rigId}: ${[...chain, delegation.delegateUserId].join(' -> ')}`);
+      return { effectiveUserId: nominalUserId, chain: [...chain, delegation.delegateUserId], cycle: true, truncated: false };
+    }
+    chain.push(delegation.delegateUserId);
+  }
+
+  const further = await applyDelegation(rigId, chain[chain.length - 1], roleKey, at);
+  return { effectiveUserId: chain[chain.length - 1], chain, cycle: false, truncated: !!further };
+}
+
+/**
+ * Resolve a step to find the nominal and effective approver, with delegations active at `at`
  */
-async function resolveApprover(step: WorkflowStep, rigId: number): Promise<{
+export async function resolveApprover(step: WorkflowStep, rigId: number, at: Date = new Date()): Promise<{
   nominalUserId: string | null;
   effectiveUserId: string | null;
   delegatedFrom: string | null;
+  delegation: DelegationChain | null;
 }> {
   let nominalUserId: string | null = null;
 
@@ -147,187 +403,799 @@ async function resolveApprover(step: WorkflowStep, rigId: number): Promise<{
     return {
       nominalUserId: null,
       effectiveUserId: null,
-      delegatedFrom: null
+      delegatedFrom: null,
+      delegation: null
     };
   }
 
   // Apply delegation
-  const delegation = await applyDelegation(rigId, nominalUserId, step.roleKey);
-  
+  const delegation = await resolveDelegationChain(rigId, nominalUserId, step.roleKey, at);
+
   return {
     nominalUserId,
-    effectiveUserId: delegation?.delegateUserId || nominalUserId,
-    delegatedFrom: delegation?.delegatedFromUserId || null
+    effectiveUserId: delegation.effectiveUserId,
+    delegatedFrom: delegation.effectiveUserId !== nominalUserId ? nominalUserId : null,
+    delegation
   };
 }
 
+// Everyone a group's steps resolve to, once each
+async function resolveGroup(group: StepGroup, rigId: number): Promise<ResolvedApprover[]> {
+  const approvers: ResolvedApprover[] = [];
+  for (const step of group.steps) {
+    const { nominalUserId, effectiveUserId } = await resolveApprover(step, rigId);
+    if (nominalUserId && effectiveUserId && !approvers.some(a => a.effectiveUserId === effectiveUserId)) {
+      approvers.push({ step, nominalUserId, effectiveUserId });
+    }
+  }
+  return approvers;
+}
+
 /**
- * Route report to first approver in workflow
- * Sets current_step_order, current_nominal_user_id, current_approver_user_id
+ * The first step group after `afterStepOrder` that needs approvers. Groups of optional steps
+ * nobody is assigned to are skipped; a group with a required step and nobody assigned is
+ * still returned, with no approvers, so the report waits there until someone is assigned or
+ * an admin acts.
  */
-export async function routeFirstApprover(reportId: number): Promise<boolean> {
-  try {
-    // Get report details
-    const report = await db.query.nptReports.findFirst({
-      where: eq(nptReports.id, reportId)
-    });
+async function findNextRoute(report: NptReport, groups: StepGroup[], afterStepOrder: number): Promise<Route | null> {
 
-    if (!report) {
-      console.error("Report not found:", reportId);
-      return false;
+  for (const group of groups.filter(g => g.stepOrder > afterStepOrder)) {
+    const approvers = await resolveGroup(group, report.rigId);
+    if (approvers.length > 0 || group.steps.some(step => step.isRequired)) {
+      return { group, approvers };
     }
+  }
 
-    // Get workflow
-    const workflow = await pickWorkflow(report.rigId);
-    if (!workflow || !workflow.steps.length) {
-      console.error("No workflow found for rig:", report.rigId);
-      return false;
-    }
+  return null;
+}
 
-    // Get first step
-    const firstStep = workflow.steps[0];
-    const { nominalUserId, effectiveUserId, delegatedFrom } = await resolveApprover(firstStep, report.rigId);
+// Report pointers for a route; the single-approver columns hold the first approver
+function routePointers(route: Route | null) {
+  return {
+    currentStepOrder: route?.group.stepOrder ?? null,
+    currentNominalUserId: route?.approvers[0]?.nominalUserId ?? null,
+    currentApproverUserId: route?.approvers[0]?.effectiveUserId ?? null,
+    currentApproverUserIds: route ? route.approvers.map(a => a.effectiveUserId) : null,
+    currentStepStartedAt: route ? new Date() : null,
+    escalatedToUserId: null,
+  };
+}
 
-    if (!effectiveUserId) {
-      console.error("Cannot resolve approver for first step");
-      return false;
-    }
+function pendingApprovers(report: NptReport): string[] {
+  return report.currentApproverUserIds ?? (report.currentApproverUserId ? [report.currentApproverUserId] : []);
+}
 
-    // Update report with routing pointers
-    await db.update(nptReports)
-      .set({
-        currentStepOrder: firstStep.stepOrder,
-        currentNominalUserId: nominalUserId,
-        currentApproverUserId: effectiveUserId,
-        status: 'PENDING_REVIEW'
-      })
-      .where(eq(nptReports.id, reportId));
-
-    return true;
-  } catch (error) {
-    console.error("Error routing first approver:", error);
-    return false;
+// Who has approved the report's current step since it was last submitted or migrated, once each
+async function approversAtCurrentStep(report: NptReport, executor: Executor = db): Promise<string[]> {
+  const [lastSubmit] = await executor
+    .select({ id: max(nptApprovals.id) })
+    .from(nptApprovals)
+    .where(and(eq(nptApprovals.reportId, report.id), inArray(nptApprovals.action, [NPT_ACTIONS.SUBMIT, 'MIGRATE'])));
+
+  const approvals = await executor
+    .select({ approverUserId: nptApprovals.approverUserId })
+    .from(nptApprovals)
+    .where(and(
+      eq(nptApprovals.reportId, report.id),
+      eq(nptApprovals.stepOrder, report.currentStepOrder ?? 0),
+      eq(nptApprovals.action, NPT_ACTIONS.APPROVE),
+      gt(nptApprovals.id, lastSubmit?.id ?? 0)
+    ));
+
+  return Array.from(new Set(approvals.map(approval => approval.approverUserId)));
+}
+
+async function loadReport(reportId: number): Promise<NptReport> {
+  const report = await db.query.nptReports.findFirst({
+    where: eq(nptReports.id, reportId)
+  });
+
+  if (!report) {
+    throw new ApprovalError('Report not found', 404);
+  }
+  return report;
+}
+
+// Load a report inside a transaction, holding its row lock until the transaction ends
+async function lockReport(executor: Executor, reportId: number): Promise<NptReport> {
+  const [report] = await executor.select().from(nptReports).where(eq(nptReports.id, reportId)).for('update');
+
+  if (!report) {
+    throw new ApprovalError('Report not found', 404);
+  }
+  return report;
+}
+
+// The status an action leads to, or an error naming the status that forbids it
+function transition(report: NptReport, action: NptAction): NptStatus {
+  const next = nextNptStatus(report.status, action);
+  if (!next) {
+    throw new ApprovalError(`Cannot ${ACTION_VERBS[action]} report #${report.id} while it is ${normalizeNptStatus(report.status)}`);
+  }
+  return next;
+}
+
+function assertCurrentApprover(report: NptReport, userId: string, override: boolean) {
+  if (!override && !pendingApprovers(report).includes(userId)) {
+    throw new ApprovalError('You are not the current approver for this report', 403);
   }
 }
 
 /**
- * Advance to next step in workflow
- * If no more steps, marks report as APPROVED
+ * Write the new state, but only if the report is still at the status, step and pending
+ * approvers the transition was checked against; a concurrent action in between makes this
+ * one fail instead of both landing.
  */
-export async function advanceToNextStep(reportId: number): Promise<boolean> {
-  try {
-    // Get current report state
-    const report = await db.query.nptReports.findFirst({
-      where: eq(nptReports.id, reportId)
-    });
+async function writeState(executor: Executor, report: NptReport, changes: Partial<typeof nptReports.$inferInsert>): Promise<NptReport> {
+  const [updated] = await executor.update(nptReports)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(and(
+      eq(nptReports.id, report.id),
+      report.status === null ? isNull(nptReports.status) : eq(nptReports.status, report.status),
+      report.currentStepOrder === null ? isNull(nptReports.currentStepOrder) : eq(nptReports.currentStepOrder, report.currentStepOrder),
+      report.currentApproverUserIds === null ? isNull(nptReports.currentApproverUserIds) : eq(nptReports.currentApproverUserIds, report.currentApproverUserIds)
+    ))
+    .returning();
 
-    if (!report || !report.currentStepOrder) {
-      console.error("Report or current step not found");
-      return false;
-    }
+  if (!updated) {
+    throw new ApprovalError(`Report #${report.id} was changed by someone else; reload it and try again`);
+  }
+  return updated;
+}
 
-    // Get workflow
-    const workflow = await pickWorkflow(report.rigId);
-    if (!workflow || !workflow.steps.length) {
-      console.error("No workflow found for rig:", report.rigId);
-      return false;
-    }
+// Follow-up to a saved state; runs once the state is committed, since it reads it back
+async function afterStateChange(report: NptReport, updated: NptReport): Promise<void> {
+  // Emailed links die with the step they were sent for; approvers new to the step get their own
+  const moved = updated.status !== report.status || updated.currentStepOrder !== report.currentStepOrder;
+  if (moved) {
+    await invalidateApprovalTokens(report.id);
+    // The day's slice in the monthly report follows its reports' progress
+    await lifecycleService.syncNptReportDay(updated.rigId, updated.date, updated.userId);
+  }
+  if (normalizeNptStatus(updated.status) === NPT_STATUS.PENDING_REVIEW) {
+    const notified = moved ? [] : pendingApprovers(report);
+    await emailApprovalLinks(updated, pendingApprovers(updated).filter(id => !notified.includes(id)));
+  }
+}
 
-    // Find next step
-    const currentStep = workflow.steps.find(s => s.stepOrder === report.currentStepOrder);
-    const nextStep = workflow.steps.find(s => s.stepOrder === report.currentStepOrder! + 1);
-
-    if (!nextStep) {
-      // No more steps - approve the report
-      await db.update(nptReports)
-        .set({
-          status: 'APPROVED',
-          currentStepOrder: null,
-          currentNominalUserId: null,
-          currentApproverUserId: null
-        })
-        .where(eq(nptReports.id, reportId));
-      
-      return true;
-    }
+async function saveState(report: NptReport, changes: Partial<typeof nptReports.$inferInsert>): Promise<NptReport> {
+  const updated = await writeState(db, report, changes);
+  await afterStateChange(report, updated);
+  return updated;
+}
+
+async function logAction(entry: typeof nptApprovals.$inferInsert, executor: Executor = db) {
+  await executor.insert(nptApprovals).values(entry);
+}
+
+/**
+ * Send a draft for review and route it to the first workflow step group's approvers
+ */
+export async function submitReport(reportId: number, userId: string, comment?: string): Promise<ApprovalResult> {
+  const report = await loadReport(reportId);
+  const status = transition(report, NPT_ACTIONS.SUBMIT);
+  await lifecycleService.assertPeriodOpen(report.rigId, report.date);
+  const selection = await selectWorkflow(report);
+  const route = await findNextRoute(report, selection.groups, 0);
+
+  const updated = await saveState(report, {
+    status,
+    rejectionReason: null,
+    workflowId: selection.workflowId,
+    workflowVersionId: selection.workflowVersionId,
+    workflowReason: selection.reason,
+    ...routePointers(route),
+  });
 
-    // Route to next step
-    const { nominalUserId, effectiveUserId, delegatedFrom } = await resolveApprover(nextStep, report.rigId);
+  await logAction({
+    reportId,
+    stepOrder: 0,
+    approverUserId: userId,
+    action: NPT_ACTIONS.SUBMIT,
+    fromStatus: normalizeNptStatus(report.status),
+    toStatus: status,
+    comment: comment || null,
+  });
 
-    if (!effectiveUserId) {
-      console.error("Cannot resolve approver for next step");
-      return false;
+  return { report: updated, status, stepOrder: updated.currentStepOrder, nextApproverUserId: updated.currentApproverUserId };
+}
+
+/**
+ * The changes one approval makes against the report's current step group. While the group
+ * still needs approvals the approver is just taken off its pending list; once it has enough
+ * the report moves to the next group, or finishes as Approved after the last one. Only the
+ * group's resolved approvers count, each once, read through `executor`, which must hold the
+ * report's row lock.
+ */
+async function advanceToNextStep(report: NptReport, approverUserId: string, executor: Executor, override: boolean): Promise<Partial<typeof nptReports.$inferInsert>> {
+  const groups = await stepGroupsForReport(report);
+  const group = groups.find(g => g.stepOrder === report.currentStepOrder);
+  // The approver a stalled step was escalated to, or an admin acting over the pending
+  // approvers, decides the step alone
+  const decidesAlone = approverUserId === report.escalatedToUserId || (override && !pendingApprovers(report).includes(approverUserId));
+  if (group && !decidesAlone) {
+    const approvers = await resolveGroup(group, report.rigId);
+    const approverIds = approvers.map(a => a.effectiveUserId);
+    const approved = new Set([...await approversAtCurrentStep(report, executor), approverUserId].filter(userId => approverIds.includes(userId)));
+    const remaining = pendingApprovers(report).filter(userId => userId !== approverUserId);
+
+    if (remaining.length > 0 && approved.size < approvalsNeeded(group, approvers.length)) {
+      const next = approvers.find(a => a.effectiveUserId === remaining[0]);
+      return {
+        currentNominalUserId: next?.nominalUserId ?? remaining[0],
+        currentApproverUserId: remaining[0],
+        currentApproverUserIds: remaining,
+      };
     }
+  }
 
-    await db.update(nptReports)
-      .set({
-        currentStepOrder: nextStep.stepOrder,
-        currentNominalUserId: nominalUserId,
-        currentApproverUserId: effectiveUserId
-      })
-      .where(eq(nptReports.id, reportId));
+  const route = await findNextRoute(report, groups, report.currentStepOrder ?? 0);
+  if (!route) {
+    return {
+      status: transition(report, NPT_ACTIONS.APPROVE),
+      ...routePointers(null),
+    };
+  }
 
-    return true;
-  } catch (error) {
-    console.error("Error advancing to next step:", error);
-    return false;
+  return routePointers(route);
+}
+
+// Field comments with blanks dropped; unknown field names are refused
+function cleanFieldComments(fieldComments: Record<string, unknown> | undefined): Partial<Record<NptReviewField, string>> {
+  const cleaned: Partial<Record<NptReviewField, string>> = {};
+  for (const [field, comment] of Object.entries(fieldComments ?? {})) {
+    if (!(field in NPT_REVIEW_FIELDS)) {
+      throw new ApprovalError(`Cannot comment on unknown field "${field}"`, 400);
+    }
+    if (typeof comment === 'string' && comment.trim()) {
+      cleaned[field as NptReviewField] = comment.trim();
+    }
   }
+  return cleaned;
 }
 
 /**
- * Record an approval action and advance workflow
+ * Record an approve, reject or request-changes decision and move the report on.
+ * Only the current approver may act unless `override` is set (admins acting for them); an
+ * override approval by someone not pending on the step decides the step outright.
+ * A change request may point at specific fields through `fieldComments` instead of, or as
+ * well as, an overall comment. `expectedEditedAt` refuses the action if the report's content
+ * has been edited since the approver loaded it (other approvers' decisions don't count); `verifyAssignment` refuses it if the approver no
+ * longer resolves for the step, e.g. because the delegation they act under has ended.
  */
 export async function recordApproval(
-  reportId: number, 
-  approverUserId: string, 
-  action: 'APPROVE' | 'REJECT' | 'REQUEST_CHANGES',
-  comment?: string
-): Promise<boolean> {
-  try {
-    // Get current report state
-    const report = await db.query.nptReports.findFirst({
-      where: eq(nptReports.id, reportId)
-    });
+  reportId: number,
+  approverUserId: string,
+  action: Exclude<NptAction, 'SUBMIT'>,
+  comment?: string,
+  options: {
+    override?: boolean;
+    fieldComments?: Record<string, unknown>;
+    expectedEditedAt?: string | Date | null;
+    verifyAssignment?: boolean;
+  } = {}
+): Promise<ApprovalResult> {
+  // Decisions on one report queue on its row lock, so each counts the approvals and sees the
+  // pending approvers left by the one before it, and its log row commits with its state
+  const { report, updated } = await db.transaction(async (tx) => {
+    const report = await lockReport(tx, reportId);
+    const status = transition(report, action);
+    assertCurrentApprover(report, approverUserId, options.override ?? false);
+    // A decision moves the day's hours in the monthly report, which an approved month no longer allows
+    await lifecycleService.assertPeriodOpen(report.rigId, report.date);
 
-    if (!report) {
-      console.error("Report not found");
-      return false;
+    if (options.expectedEditedAt && report.editedAt?.getTime() !== new Date(options.expectedEditedAt).getTime()) {
+      throw new ApprovalError(`Report #${report.id} has changed since it was listed; review it again`);
+    }
+
+    const fieldComments = action === NPT_ACTIONS.REQUEST_CHANGES ? cleanFieldComments(options.fieldComments) : {};
+    const hasFieldComments = Object.keys(fieldComments).length > 0;
+    if (action === NPT_ACTIONS.REJECT && !comment?.trim()) {
+      throw new ApprovalError('A rejection reason is required', 400);
+    }
+    if (action === NPT_ACTIONS.REQUEST_CHANGES && !comment?.trim() && !hasFieldComments) {
+      throw new ApprovalError('Say what needs to change, overall or on specific fields', 400);
     }
 
-    // Determine delegation context
-    const delegatedFrom = report.currentNominalUserId !== approverUserId ? report.currentNominalUserId : null;
+    const group = (await stepGroupsForReport(report)).find(g => g.stepOrder === report.currentStepOrder);
+    const approver = group ? (await resolveGroup(group, report.rigId)).find(a => a.effectiveUserId === approverUserId) : undefined;
 
-    // Record the approval
-    await db.insert(nptApprovals).values({
+    if (options.verifyAssignment && !options.override && !approver && approverUserId !== report.escalatedToUserId) {
+      throw new ApprovalError(`You are no longer an approver for step ${report.currentStepOrder} of report #${report.id}; your delegation or assignment has changed`, 403);
+    }
+
+    // Any one approver in a group can reject or send the report back
+    const changes = action === NPT_ACTIONS.APPROVE
+      ? await advanceToNextStep(report, approverUserId, tx, options.override ?? false)
+      : { status, rejectionReason: action === NPT_ACTIONS.REJECT ? comment : null, ...routePointers(null) };
+    const updated = await writeState(tx, report, changes);
+
+    await logAction({
       reportId,
-      stepOrder: report.currentStepOrder || 1,
+      stepOrder: report.currentStepOrder ?? 0,
       approverUserId,
-      delegatedFromUserId: delegatedFrom,
+      delegatedFromUserId: approver && approver.nominalUserId !== approverUserId ? approver.nominalUserId : null,
+      approverRole: approver?.step.roleKey ?? (group?.steps.length === 1 ? group.steps[0].roleKey : undefined) ?? null,
       action,
-      comment
+      fromStatus: normalizeNptStatus(report.status),
+      toStatus: normalizeNptStatus(updated.status),
+      comment: comment || null,
+      fieldComments: hasFieldComments ? fieldComments : null,
+    }, tx);
+
+    return { report, updated };
+  });
+
+  await afterStateChange(report, updated);
+
+  return {
+    report: updated,
+    status: normalizeNptStatus(updated.status),
+    stepOrder: updated.currentStepOrder,
+    nextApproverUserId: updated.currentApproverUserId,
+  };
+}
+
+/**
+ * Act on a report through an emailed approval link instead of a session. The link is
+ * claimed first so it can only be used once, then the decision goes through recordApproval
+ * as the approver the link was issued to; if the engine refuses it the link is given back.
+ */
+export async function recordTokenApproval(
+  rawToken: string,
+  action: Exclude<NptAction, 'SUBMIT'>,
+  comment?: string,
+  fieldComments?: Record<string, unknown>
+): Promise<ApprovalResult> {
+  const check = await checkApprovalToken(rawToken);
+  if (!check.valid) {
+    throw new ApprovalError(check.reason, check.statusCode);
+  }
+  if (!(await claimApprovalToken(check.token.id, action))) {
+    throw new ApprovalError('This approval link has already been used', 410);
+  }
+
+  try {
+    return await recordApproval(check.report.id, check.token.approverUserId, action, comment, {
+      fieldComments,
+      verifyAssignment: true,
     });
+  } catch (error) {
+    await releaseApprovalToken(check.token.id);
+    throw error;
+  }
+}
+
+/**
+ * Apply one decision with one comment to many reports. Each report is checked and recorded
+ * on its own, against the editedAt it was listed with and the approver's current assignment,
+ * so one stale or reassigned report fails alone. Every report gets a result; nothing is skipped.
+ */
+export async function recordBulkApprovals(
+  approverUserId: string,
+  action: Exclude<NptAction, 'SUBMIT'>,
+  items: BulkApprovalItem[],
+  comment?: string,
+  options: { override?: boolean } = {}
+): Promise<BulkApprovalResult[]> {
+  const results: BulkApprovalResult[] = [];
 
-    if (action === 'APPROVE') {
-      // Advance to next step
-      await advanceToNextStep(reportId);
-    } else if (action === 'REJECT') {
-      // Mark as rejected
-      await db.update(nptReports)
-        .set({
-          status: 'REJECTED',
-          currentStepOrder: null,
-          currentNominalUserId: null,
-          currentApproverUserId: null
-        })
-        .where(eq(nptReports.id, reportId));
+  for (const item of items) {
+    try {
+      const result = await recordApproval(item.reportId, approverUserId, action, comment, {
+        override: options.override,
+        expectedEditedAt: item.editedAt,
+        verifyAssignment: true,
+      });
+      results.push({ reportId: item.reportId, success: true, status: result.status, nextApproverUserId: result.nextApproverUserId });
+    } catch (error) {
+      if (!(error instanceof ApprovalError)) {
+        console.error(`Error recording bulk ${action} on report #${item.reportId}:`, error);
+      }
+      results.push({
+        reportId: item.reportId,
+        success: false,
+        error: error instanceof ApprovalError ? error.message : 'Unexpected error; check the report before trying again',
+      });
     }
-    // For REQUEST_CHANGES, leave routing pointers as-is
+  }
 
-    return true;
-  } catch (error) {
-    console.error("Error recording approval:", error);
+  return results;
+}
+
+/**
+ * Route a report that is already pending review but has no approver yet, e.g. one
+ * created before routing existed. Does not change its status.
+ */
+export async function routeFirstApprover(reportId: number): Promise<boolean> {
+  const report = await loadReport(reportId);
+  if (normalizeNptStatus(report.status) !== NPT_STATUS.PENDING_REVIEW) {
     return false;
   }
+
+  const selection = report.workflowId ? null : await selectWorkflow(report);
+  const groups = selection ? selection.groups : await stepGroupsForReport(report);
+  const route = await findNextRoute(report, groups, 0);
+  if (!route || route.approvers.length === 0) {
+    return false;
+  }
+
+  await saveState(report, {
+    ...routePointers(route),
+    ...(selection && { workflowId: selection.workflowId, workflowVersionId: selection.workflowVersionId, workflowReason: selection.reason }),
+  });
+  return true;
+}
+
+/**
+ * Pending reports of a workflow that run on an older version than its latest, or on no
+ * version at all because they were submitted before versioning
+ */
+export async function getReportsOnOlderVersions(workflowId: number) {
+  const latest = await latestWorkflowVersion(workflowId);
+
+  const reports = await db
+    .select({
+      id: nptReports.id,
+      rigId: nptReports.rigId,
+      date: nptReports.date,
+      hours: nptReports.hours,
+      nptType: nptReports.nptType,
+      currentStepOrder: nptReports.currentStepOrder,
+      workflowVersionId: nptReports.workflowVersionId,
+      version: workflowVersions.version,
+    })
+    .from(nptReports)
+    .leftJoin(workflowVersions, eq(workflowVersions.id, nptReports.workflowVersionId))
+    .where(and(
+      eq(nptReports.workflowId, workflowId),
+      eq(nptReports.status, NPT_STATUS.PENDING_REVIEW),
+      or(isNull(nptReports.workflowVersionId), lt(workflowVersions.version, latest.version))
+    ))
+    .orderBy(nptReports.date);
+
+  return { latestVersion: latest.version, reports };
+}
+
+/**
+ * The SLA a step runs under: its own settings, or else the active sla_rules. A
+ * pending_approval rule sets when to remind; an over_sla rule sets when to escalate, and the
+ * first of its recipients (a role key or a user ID) is who to escalate to.
+ */
+function stepSla(group: StepGroup, rules: (typeof slaRules.$inferSelect)[]): StepSla | null {
+  if (group.sla) return group.sla;
+
+  const reminder = rules.find(rule => rule.triggerCondition === 'pending_approval');
+  const escalation = rules.find(rule => rule.triggerCondition === 'over_sla');
+  if (!reminder && !escalation) return null;
+
+  const recipient = (escalation?.recipients as string[] | null)?.[0] ?? null;
+  const isRole = (ROLE_KEYS as readonly string[]).includes(recipient ?? '');
+  return {
+    reminderHours: reminder?.thresholdHours ?? null,
+    escalationHours: escalation?.thresholdHours ?? null,
+    escalationRoleKey: isRole ? recipient : null,
+    escalationUserId: isRole ? null : recipient,
+    escalationMode: 'add',
+  };
+}
+
+async function notifyApprovalUsers(userIds: string[], rule: string, message: string, report: NptReport) {
+  const recipients = Array.from(new Set(userIds));
+  if (recipients.length === 0) return;
+  await db.insert(notifications).values(recipients.map(recipient => ({
+    rule,
+    recipient,
+    message,
+    channel: 'in_app',
+    metadata: { nptReportId: report.id, stepOrder: report.currentStepOrder },
+  })));
+}
+
+// "NPT report #12 (7.5h on 3 Mar 2025, step 2)"
+function describeReport(report: NptReport): string {
+  const date = new Date(report.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+  return `NPT report #${report.id} (${Number(report.hours)}h on ${date}, step ${report.currentStepOrder})`;
+}
+
+/**
+ * Remind, then escalate, pending reports whose current step has waited past its SLA. Each
+ * step gets at most one reminder and one escalation, and the escalation comes only after the
+ * reminder has gone out (straight away when nobody was assigned to remind). Escalating adds the escalation approver to the step, or hands the
+ * step to them alone in 'reassign' mode; either way their approval completes the step.
+ * Both are written to the report's approval trail.
+ */
+export async function escalateStalledApprovals(now: Date = new Date()): Promise<{ reminded: number; escalated: number }> {
+  const rules = await db.select().from(slaRules).where(eq(slaRules.isActive, true));
+  const pending = await db.query.nptReports.findMany({
+    where: eq(nptReports.status, NPT_STATUS.PENDING_REVIEW)
+  });
+
+  let reminded = 0;
+  let escalated = 0;
+
+  for (const report of pending) {
+    if (!report.currentStepOrder) continue;
+    const group = (await stepGroupsForReport(report)).find(g => g.stepOrder === report.currentStepOrder);
+    const sla = group ? stepSla(group, rules) : null;
+    if (!sla || (sla.reminderHours == null && sla.escalationHours == null)) continue;
+
+    const startedAt = report.currentStepStartedAt ?? report.updatedAt ?? now;
+    const waitedHours = (now.getTime() - new Date(startedAt).getTime()) / (1000 * 60 * 60);
+    const sent = await db
+      .select({ action: nptApprovals.action })
+      .from(nptApprovals)
+      .where(and(
+        eq(nptApprovals.reportId, report.id),
+        eq(nptApprovals.stepOrder, report.currentStepOrder),
+        inArray(nptApprovals.action, ['REMIND', 'ESCALATE']),
+        gte(nptApprovals.createdAt, startedAt)
+      ));
+    const approvers = pendingApprovers(report);
+    const waited = `${Math.floor(waitedHours)}h`;
+
+    // A step nobody is assigned to has no one to remind, so it goes straight to escalation
+    if (approvers.length > 0 && !sent.some(row => row.action === 'REMIND')) {
+      if (waitedHours < (sla.reminderHours ?? sla.escalationHours!)) continue;
+
+      for (const approverUserId of approvers) {
+        await logAction({
+          reportId: report.id,
+          stepOrder: report.currentStepOrder,
+          approverUserId,
+          action: 'REMIND',
+          fromStatus: NPT_STATUS.PENDING_REVIEW,
+          toStatus: NPT_STATUS.PENDING_REVIEW,
+          comment: `Reminder sent after ${waited} without a decision`,
+        });
+      }
+      await notifyApprovalUsers(approvers, 'pending_approval', `${describeReport(report)} has waited ${waited} for your approval`, report);
+      reminded++;
+      continue;
+    }
+
+    if (sent.some(row => row.action === 'ESCALATE') || sla.escalationHours == null || waitedHours < sla.escalationHours) continue;
+
+    const target = await resolveApprover({
+      id: 0,
+      stepOrder: report.currentStepOrder,
+      approverType: sla.escalationUserId ? 'user' : 'role',
+      roleKey: sla.escalationRoleKey ?? undefined,
+      userId: sla.escalationUserId ?? undefined,
+      isRequired: true,
+    }, report.rigId);
+    if (!target.effectiveUserId) {
+      console.warn(`No escalation approver for report #${report.id} step ${report.currentStepOrder}`);
+      continue;
+    }
+
+    const reassign = sla.escalationMode === 'reassign';
+    const nextApprovers = reassign ? [target.effectiveUserId] : Array.from(new Set([...approvers, target.effectiveUserId]));
+    try {
+      await saveState(report, {
+        currentNominalUserId: reassign ? target.nominalUserId : report.currentNominalUserId,
+        currentApproverUserId: nextApprovers[0],
+        currentApproverUserIds: nextApprovers,
+        escalatedToUserId: target.effectiveUserId,
+      });
+    } catch (error) {
+      // Decided while this run was looking at it; the next run sees where it went
+      if (error instanceof ApprovalError) continue;
+      throw error;
+    }
+
+    await logAction({
+      reportId: report.id,
+      stepOrder: report.currentStepOrder,
+      approverUserId: target.effectiveUserId,
+      delegatedFromUserId: report.currentApproverUserId,
+      approverRole: sla.escalationRoleKey,
+      action: 'ESCALATE',
+      fromStatus: NPT_STATUS.PENDING_REVIEW,
+      toStatus: NPT_STATUS.PENDING_REVIEW,
+      comment: `No decision after ${waited}; ${reassign ? 'step reassigned to the escalation approver' : 'escalation approver added to the step'}`,
+    });
+    await notifyApprovalUsers([target.effectiveUserId], 'over_sla', `${describeReport(report)} was escalated to you after ${waited} without a decision`, report);
+    await notifyApprovalUsers(approvers, 'over_sla', `${describeReport(report)} was escalated after ${waited} without a decision`, report);
+    escalated++;
+  }
+
+  return { reminded, escalated };
+}
+
+/**
+ * Move a pending report onto the latest version of its workflow. 'keep' continues at the
+ * step order it had reached (or the next one the new version has); 'restart' routes it to
+ * the first step again. Approvals already given at the current step are not carried over.
+ */
+export async function migrateReportVersion(reportId: number, userId: string, mode: MigrationMode): Promise<ApprovalResult> {
+  const report = await loadReport(reportId);
+  if (normalizeNptStatus(report.status) !== NPT_STATUS.PENDING_REVIEW || !report.workflowId) {
+    throw new ApprovalError(`Report #${report.id} is not pending review on a workflow`);
+  }
+
+  const latest = await latestWorkflowVersion(report.workflowId);
+  if (report.workflowVersionId === latest.id) {
+    throw new ApprovalError(`Report #${report.id} is already on version ${latest.version}`);
+  }
+
+  const from = report.workflowVersionId ? await db.query.workflowVersions.findFirst({
+    where: eq(workflowVersions.id, report.workflowVersionId)
+  }) : undefined;
+
+  const afterStepOrder = mode === 'keep' ? (report.currentStepOrder ?? 1) - 1 : 0;
+  const route = await findNextRoute(report, versionStepGroups(latest), afterStepOrder);
+  if (!route) {
+    throw new ApprovalError(`Version ${latest.version} has no step from step ${report.currentStepOrder} on; restart approval instead`);
+  }
+
+  const updated = await saveState(report, {
+    workflowVersionId: latest.id,
+    ...routePointers(route),
+  });
+
+  const fromLabel = from ? `version ${from.version}` : 'unversioned steps';
+  await logAction({
+    reportId,
+    stepOrder: 0,
+    approverUserId: userId,
+    action: 'MIGRATE',
+    fromStatus: NPT_STATUS.PENDING_REVIEW,
+    toStatus: NPT_STATUS.PENDING_REVIEW,
+    comment: `Moved from ${fromLabel} to version ${latest.version}, ${mode === 'keep' ? `continuing at step ${route.group.stepOrder}` : 'restarting approval'}`,
+  });
+
+  return { report: updated, status: NPT_STATUS.PENDING_REVIEW, stepOrder: updated.currentStepOrder, nextApproverUserId: updated.currentApproverUserId };
+}
+
+/**
+ * Refuse a status change made by editing the report; status only moves through the actions above
+ */
+export function assertNoStatusEdit(report: NptReport, requestedStatus: unknown) {
+  if (requestedStatus === undefined || requestedStatus === null || requestedStatus === '') return;
+  if (normalizeNptStatus(String(requestedStatus)) !== normalizeNptStatus(report.status)) {
+    throw new ApprovalError('Status cannot be edited directly; use submit, approve, reject or request changes');
+  }
+}
+
+// The report's latest change request, if it has been sent back at least once
+async function latestChangeRequest(reportId: number) {
+  const [request] = await db
+    .select({
+      id: nptApprovals.id,
+      approverUserId: nptApprovals.approverUserId,
+      approverName: users.firstName,
+      comment: nptApprovals.comment,
+      fieldComments: nptApprovals.fieldComments,
+      createdAt: nptApprovals.createdAt,
+    })
+    .from(nptApprovals)
+    .leftJoin(users, eq(users.id, nptApprovals.approverUserId))
+    .where(and(eq(nptApprovals.reportId, reportId), eq(nptApprovals.action, NPT_ACTIONS.REQUEST_CHANGES)))
+    .orderBy(desc(nptApprovals.id))
+    .limit(1);
+  return request;
+}
+
+/**
+ * Log which fields an edit changed and what they held before. Drafts are logged only while
+ * they are being reworked after a change request, so the resubmission can be diffed.
+ */
+export async function recordEdit(before: NptReport, after: NptReport, userId: string): Promise<void> {
+  const previousValues: Record<string, unknown> = {};
+  for (const key of Object.keys(after) as (keyof NptReport)[]) {
+    if (key === 'updatedAt') continue;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      previousValues[key] = before[key];
+    }
+  }
+  if (Object.keys(previousValues).length === 0) return;
+
+  // An emailed link would approve what the approver never saw
+  await invalidateApprovalTokens(before.id);
+
+  if (normalizeNptStatus(before.status) === NPT_STATUS.DRAFT && !(await latestChangeRequest(before.id))) return;
+
+  await logAction({
+    reportId: before.id,
+    stepOrder: before.currentStepOrder ?? 0,
+    approverUserId: userId,
+    action: 'EDIT',
+    fromStatus: normalizeNptStatus(before.status),
+    toStatus: normalizeNptStatus(after.status),
+    editedFields: Object.keys(previousValues),
+    previousValues,
+  });
+}
+
+/**
+ * Compare a report with the version its last change request was made on, field by field.
+ * The reviewed value of a field is the previousValues entry of the first EDIT to touch it
+ * after the request; fields the approver commented on are listed even when left unchanged.
+ * Null when the report has never been sent back.
+ */
+export async function getChangeRequestDiff(reportId: number): Promise<NptChangeRequestDiff | null> {
+  const report = await loadReport(reportId);
+  const request = await latestChangeRequest(reportId);
+  if (!request) return null;
+
+  const edits = await db
+    .select({ previousValues: nptApprovals.previousValues })
+    .from(nptApprovals)
+    .where(and(eq(nptApprovals.reportId, reportId), eq(nptApprovals.action, 'EDIT'), gt(nptApprovals.id, request.id)))
+    .orderBy(nptApprovals.id);
+
+  const reviewed: Record<string, unknown> = {};
+  for (const edit of edits) {
+    for (const [field, value] of Object.entries((edit.previousValues as Record<string, unknown> | null) ?? {})) {
+      if (!(field in reviewed)) reviewed[field] = value;
+    }
+  }
+
+  const fieldComments = (request.fieldComments as Record<string, string> | null) ?? {};
+  const fields = (Object.keys(NPT_REVIEW_FIELDS) as NptReviewField[])
+    .filter(field => field in reviewed || field in fieldComments)
+    .map(field => {
+      const current = report[field];
+      const before = field in reviewed ? reviewed[field] : current;
+      return {
+        field,
+        label: NPT_REVIEW_FIELDS[field],
+        reviewed: before,
+        current,
+        changed: JSON.stringify(before) !== JSON.stringify(current),
+        comment: fieldComments[field] ?? null,
+      };
+    })
+    .filter(change => change.changed || change.comment);
+
+  return {
+    requestedAt: request.createdAt,
+    requestedBy: request.approverUserId,
+    requestedByName: request.approverName,
+    comment: request.comment,
+    resubmitted: normalizeNptStatus(report.status) !== NPT_STATUS.DRAFT,
+    fields,
+  };
+}
+
+/**
+ * Every action taken on a report, oldest first
+ */
+export async function getApprovalHistory(reportId: number) {
+  return await db
+    .select({
+      id: nptApprovals.id,
+      stepOrder: nptApprovals.stepOrder,
+      action: nptApprovals.action,
+      approverRole: nptApprovals.approverRole,
+      fromStatus: nptApprovals.fromStatus,
+      toStatus: nptApprovals.toStatus,
+      comment: nptApprovals.comment,
+      editedFields: nptApprovals.editedFields,
+      previousValues: nptApprovals.previousValues,
+      fieldComments: nptApprovals.fieldComments,
+      delegatedFromUserId: nptApprovals.delegatedFromUserId,
+      createdAt: nptApprovals.createdAt,
+      approverUserId: nptApprovals.approverUserId,
+      approverName: users.firstName,
+      approverEmail: users.email
+    })
+    .from(nptApprovals)
+    .leftJoin(users, eq(users.id, nptApprovals.approverUserId))
+    .where(eq(nptApprovals.reportId, reportId))
+    .orderBy(nptApprovals.createdAt, nptApprovals.id);
+}
+
+// Matches pending reports waiting on this user, alone or as one of a step group
+export function awaitingApprover(userId: string): SQL | undefined {
+  return and(
+    eq(nptReports.status, NPT_STATUS.PENDING_REVIEW),
+    or(
+      arrayContains(nptReports.currentApproverUserIds, [userId]),
+      and(isNull(nptReports.currentApproverUserIds), eq(nptReports.currentApproverUserId, userId))
+    )
+  );
 }
 
 /**
@@ -336,10 +1204,7 @@ export async function recordApproval(
 export async function getPendingApprovalsForUser(userId: string): Promise<any[]> {
   try {
     const reports = await db.query.nptReports.findMany({
-      where: and(
-        eq(nptReports.status, 'PENDING_REVIEW'),
-        eq(nptReports.currentApproverUserId, userId)
-      ),
+      where: awaitingApprover(userId),
       with: {
         rig: true
       }
@@ -350,4 +1215,4 @@ export async function getPendingApprovalsForUser(userId: string): Promise<any[]>
     console.error("Error getting pending approvals:", error);
     return [];
   }
-}
\ No newline at end of file
+}
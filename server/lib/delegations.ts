@@ -0,0 +1,224 @@
+import { db } from "../db";
+import { delegations, notifications, nptApprovals, nptReports, rigs, users } from "@shared/schema";
+import type { Delegation, User } from "@shared/schema";
+import { ROLE_LABELS, type RoleKey } from "@shared/workflow";
+import { eq, and, or, ne, gt, lte, gte, isNull, isNotNull, desc, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { ApprovalError, MAX_DELEGATION_DEPTH } from "./approvals";
+
+/**
+ * Delegations outside the approval engine itself: refusing ones that would overlap or form
+ * cycles, telling both users when one takes effect and ends, and the on-behalf-of history.
+ * Resolution lives with the engine in server/lib/approvals.ts (resolveDelegationChain).
+ */
+
+type DelegationInput = Pick<Delegation, 'delegatorUserId' | 'delegateUserId' | 'startsAt' | 'endsAt' | 'rigId' | 'roleKey'>;
+
+// Delegations that could apply to the same report at the same moment as `input`
+function overlapping(input: DelegationInput): SQL | undefined {
+  return and(
+    eq(delegations.isActive, true),
+    lte(delegations.startsAt, input.endsAt),
+    gte(delegations.endsAt, input.startsAt),
+    input.rigId == null ? undefined : or(isNull(delegations.rigId), eq(delegations.rigId, input.rigId)),
+    input.roleKey == null ? undefined : or(isNull(delegations.roleKey), eq(delegations.roleKey, input.roleKey))
+  );
+}
+
+// Longest run of delegations leading out of `from` (or into it, when `reverse`), ignoring any loops already stored
+function longestRun(edges: Delegation[], from: string, reverse: boolean, seen = new Set<string>()): number {
+  seen.add(from);
+  let longest = 0;
+  for (const edge of edges) {
+    const [tail, head] = reverse ? [edge.delegateUserId, edge.delegatorUserId] : [edge.delegatorUserId, edge.delegateUserId];
+    if (tail === from && !seen.has(head)) {
+      longest = Math.max(longest, 1 + longestRun(edges, head, reverse, new Set(seen)));
+    }
+  }
+  return longest;
+}
+
+/**
+ * Refuse a delegation that can't be resolved cleanly: to oneself, an empty or past window,
+ * a delegator who already delegates the same rig and role for part of the window, one that
+ * would close a cycle with existing delegations, or one that makes a chain longer than
+ * MAX_DELEGATION_DEPTH. `excludeId` skips the delegation being edited.
+ */
+export async function assertDelegationAllowed(input: DelegationInput, excludeId?: number): Promise<void> {
+  if (input.delegatorUserId === input.delegateUserId) {
+    throw new ApprovalError('A user cannot delegate to themselves', 400);
+  }
+  if (!(input.startsAt < input.endsAt)) {
+    throw new ApprovalError('A delegation must end after it starts', 400);
+  }
+  if (input.endsAt <= new Date()) {
+    throw new ApprovalError('A delegation must end in the future', 400);
+  }
+
+  const candidates = await db.select().from(delegations).where(and(
+    overlapping(input),
+    excludeId ? ne(delegations.id, excludeId) : undefined
+  ));
+
+  const clash = candidates.find(existing => existing.delegatorUserId === input.delegatorUserId);
+  if (clash) {
+    const delegate = await db.query.users.findFirst({ where: eq(users.id, clash.delegateUserId) });
+    throw new ApprovalError(
+      `This user already delegates to ${userName(delegate) ?? clash.delegateUserId} from ${formatDate(clash.startsAt)} to ${formatDate(clash.endsAt)}`
+    );
+  }
+
+  // The new delegation closes a cycle if its delegate already delegates back, directly or through others
+  const reachable = new Set([input.delegateUserId]);
+  for (let grew = true; grew;) {
+    grew = false;
+    for (const edge of candidates) {
+      if (reachable.has(edge.delegatorUserId) && !reachable.has(edge.delegateUserId)) {
+        reachable.add(edge.delegateUserId);
+        grew = true;
+      }
+    }
+  }
+  if (reachable.has(input.delegatorUserId)) {
+    throw new ApprovalError('This delegation would create a cycle: the delegate already delegates back to this user');
+  }
+
+  const depth = longestRun(candidates, input.delegatorUserId, true) + 1 + longestRun(candidates, input.delegateUserId, false);
+  if (depth > MAX_DELEGATION_DEPTH) {
+    throw new ApprovalError(`This delegation would make a chain of ${depth} delegations; at most ${MAX_DELEGATION_DEPTH} are followed`);
+  }
+}
+
+const userName = (user?: Pick<User, 'firstName' | 'lastName' | 'email'> | null) =>
+  user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email : null;
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// "all rigs", "Rig 12" or "the Tool Pusher role on Rig 12"
+async function describeScope(delegation: Delegation): Promise<string> {
+  const rig = delegation.rigId ? await db.query.rigs.findFirst({ where: eq(rigs.id, delegation.rigId) }) : null;
+  const where = rig ? `Rig ${rig.rigNumber}` : 'all rigs';
+  const role = delegation.roleKey ? ROLE_LABELS[delegation.roleKey as RoleKey] ?? delegation.roleKey : null;
+  return role ? `the ${role} role on ${where}` : where;
+}
+
+async function notifyBoth(delegation: Delegation, event: 'started' | 'ended') {
+  const [delegator, delegate] = await Promise.all([
+    db.query.users.findFirst({ where: eq(users.id, delegation.delegatorUserId) }),
+    db.query.users.findFirst({ where: eq(users.id, delegation.delegateUserId) }),
+  ]);
+  const delegatorName = userName(delegator) ?? delegation.delegatorUserId;
+  const delegateName = userName(delegate) ?? delegation.delegateUserId;
+  const scope = await describeScope(delegation);
+
+  const messages = event === 'started'
+    ? [
+        [delegation.delegatorUserId, `Your approvals for ${scope} now go to ${delegateName} until ${formatDate(delegation.endsAt)}`],
+        [delegation.delegateUserId, `You now approve on behalf of ${delegatorName} for ${scope} until ${formatDate(delegation.endsAt)}`],
+      ]
+    : [
+        [delegation.delegatorUserId, `Your delegation to ${delegateName} for ${scope} has ended; approvals come back to you`],
+        [delegation.delegateUserId, `You no longer approve on behalf of ${delegatorName} for ${scope}`],
+      ];
+
+  await db.insert(notifications).values(messages.map(([recipient, message]) => ({
+    rule: 'delegation',
+    recipient,
+    message,
+    channel: 'in_app',
+    metadata: { delegationId: delegation.id, event },
+  })));
+}
+
+/**
+ * Tell both users about delegations that have taken effect or run out since the last run.
+ * Each delegation is announced once each way; an end is only announced after its start was.
+ */
+export async function notifyDelegationChanges(now: Date = new Date()): Promise<{ started: number; ended: number }> {
+  const starting = await db.select().from(delegations).where(and(
+    eq(delegations.isActive, true),
+    isNull(delegations.startNotifiedAt),
+    lte(delegations.startsAt, now),
+    gt(delegations.endsAt, now)
+  ));
+  for (const delegation of starting) {
+    await notifyBoth(delegation, 'started');
+    await db.update(delegations).set({ startNotifiedAt: now }).where(eq(delegations.id, delegation.id));
+  }
+
+  const ending = await db.select().from(delegations).where(and(
+    isNotNull(delegations.startNotifiedAt),
+    isNull(delegations.endNotifiedAt),
+    or(lte(delegations.endsAt, now), eq(delegations.isActive, false))
+  ));
+  for (const delegation of ending) {
+    await notifyBoth(delegation, 'ended');
+    await db.update(delegations).set({ endNotifiedAt: now }).where(eq(delegations.id, delegation.id));
+  }
+
+  return { started: starting.length, ended: ending.length };
+}
+
+/**
+ * End a delegation early. One that has already taken effect is kept, inactive, for the
+ * record and both users are told; one that never started is simply removed.
+ */
+export async function cancelDelegation(delegationId: number): Promise<void> {
+  const delegation = await db.query.delegations.findFirst({ where: eq(delegations.id, delegationId) });
+  if (!delegation) {
+    throw new ApprovalError('Delegation not found', 404);
+  }
+
+  const now = new Date();
+  if (delegation.startsAt > now) {
+    await db.delete(delegations).where(eq(delegations.id, delegationId));
+    return;
+  }
+
+  await db.update(delegations)
+    .set({ isActive: false, endsAt: delegation.endsAt < now ? delegation.endsAt : now })
+    .where(eq(delegations.id, delegationId));
+  await notifyDelegationChanges(now);
+}
+
+const delegator = alias(users, 'delegator');
+
+/**
+ * Approval actions taken on someone else's behalf, newest first, optionally limited to those
+ * where `userId` acted or was acted for.
+ */
+export async function getDelegatedApprovals(userId?: string, limit = 200) {
+  return await db
+    .select({
+      id: nptApprovals.id,
+      reportId: nptApprovals.reportId,
+      stepOrder: nptApprovals.stepOrder,
+      action: nptApprovals.action,
+      approverRole: nptApprovals.approverRole,
+      comment: nptApprovals.comment,
+      createdAt: nptApprovals.createdAt,
+      approverUserId: nptApprovals.approverUserId,
+      approverName: users.firstName,
+      approverLastName: users.lastName,
+      approverEmail: users.email,
+      delegatedFromUserId: nptApprovals.delegatedFromUserId,
+      delegatedFromName: delegator.firstName,
+      delegatedFromLastName: delegator.lastName,
+      delegatedFromEmail: delegator.email,
+      reportDate: nptReports.date,
+      reportHours: nptReports.hours,
+      rigNumber: rigs.rigNumber,
+    })
+    .from(nptApprovals)
+    .innerJoin(nptReports, eq(nptReports.id, nptApprovals.reportId))
+    .leftJoin(rigs, eq(rigs.id, nptReports.rigId))
+    .leftJoin(users, eq(users.id, nptApprovals.approverUserId))
+    .leftJoin(delegator, eq(delegator.id, nptApprovals.delegatedFromUserId))
+    .where(and(
+      isNotNull(nptApprovals.delegatedFromUserId),
+      userId ? or(eq(nptApprovals.approverUserId, userId), eq(nptApprovals.delegatedFromUserId, userId)) : undefined
+    ))
+    .orderBy(desc(nptApprovals.createdAt), desc(nptApprovals.id))
+    .limit(limit);
+}
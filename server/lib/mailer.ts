@@ -0,0 +1,103 @@
+import net from "net";
+
+/**
+ * Outgoing email over plain SMTP, enough to talk to a local stand-in such as MailHog or
+ * Mailpit (SMTP_HOST / SMTP_PORT, 1025 by default). No TLS or authentication. Without
+ * SMTP_HOST only the recipient and subject are logged.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const SMTP_TIMEOUT_MS = 10_000;
+
+export const mailConfigured = () => !!process.env.SMTP_HOST;
+
+const mailFrom = () => process.env.MAIL_FROM || 'npt-approvals@localhost';
+
+// Header values must stay on one line
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+function formatMessage(message: MailMessage): string {
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    // Dot-stuffing: a line starting with "." would otherwise end the DATA section
+    .replace(/^\./gm, '..');
+
+  return [
+    `From: ${headerValue(mailFrom())}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${headerValue(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+// One SMTP conversation: each command waits for its reply and fails on an unexpected code
+function smtpSend(host: string, port: number, message: MailMessage): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+
+    let buffer = '';
+    let waiting: { expect: number; next: () => void } | null = null;
+
+    const fail = (error: Error) => {
+      socket.destroy();
+      reject(error);
+    };
+    const expect = (code: number, next: () => void) => {
+      waiting = { expect: code, next };
+    };
+    const send = (line: string, code: number, next: () => void) => {
+      expect(code, next);
+      socket.write(`${line}\r\n`);
+    };
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      // A reply is complete at a line whose code is followed by a space rather than "-"
+      const lines = buffer.split('\r\n');
+      const last = lines.slice(0, -1).reverse().find(line => /^\d{3} /.test(line));
+      if (!last || !waiting) return;
+      buffer = '';
+
+      const code = Number(last.slice(0, 3));
+      const { expect: expected, next } = waiting;
+      waiting = null;
+      if (code !== expected) {
+        return fail(new Error(`SMTP server replied "${last}" (expected ${expected})`));
+      }
+      next();
+    });
+    socket.on('timeout', () => fail(new Error(`SMTP server ${host}:${port} timed out`)));
+    socket.on('error', fail);
+
+    expect(220, () =>
+      send(`EHLO ${process.env.SMTP_HELO || 'localhost'}`, 250, () =>
+        send(`MAIL FROM:<${mailFrom()}>`, 250, () =>
+          send(`RCPT TO:<${message.to}>`, 250, () =>
+            send('DATA', 354, () =>
+              send(`${formatMessage(message)}\r\n.`, 250, () =>
+                send('QUIT', 221, () => {
+                  socket.end();
+                  resolve();
+                })))))));
+  });
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    console.log(`📧 Mail not sent (SMTP_HOST unset) to ${message.to}: ${message.subject}`);
+    return;
+  }
+  await smtpSend(host, Number(process.env.SMTP_PORT) || 1025, message);
+}
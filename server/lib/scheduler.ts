@@ -0,0 +1,168 @@
+import { hostname } from "os";
+import { db } from "../db";
+import { scheduledJobs } from "@shared/schema";
+import type { ScheduledJob } from "@shared/schema";
+import { eq, and, or, isNull, lte, sql } from "drizzle-orm";
+import { lifecycleService } from "../lifecycleService";
+
+/**
+ * In-process scheduler for the lifecycle checks. Each job keeps a scheduled_jobs row holding
+ * its next run time, so a restart picks the schedule up where it left off, and a lock lease:
+ * a run starts only after taking the lock with a conditional update, so when several server
+ * processes share the database a job still runs in one of them at a time. A lease left behind
+ * by a crashed process expires after LOCK_LEASE_MS. SCHEDULER_ENABLED=false turns it off.
+ */
+
+interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  run: () => Promise<Record<string, unknown>>;
+}
+
+const minutes = (value: string | undefined, fallback: number) => (Number(value) || fallback) * 60 * 1000;
+
+const JOBS: JobDefinition[] = [
+  {
+    name: 'sla_alerts',
+    description: 'PENDING_APPROVAL and OVER_SLA alert rules, NPT approval reminders and escalations, delegation notices',
+    intervalMs: minutes(process.env.SLA_ALERTS_INTERVAL_MINUTES, 15),
+    run: () => lifecycleService.checkSlaAlerts(),
+  },
+  {
+    name: 'stall_alerts',
+    description: 'STALLED alert rule: monthly reports with no progress',
+    intervalMs: minutes(process.env.STALL_ALERTS_INTERVAL_MINUTES, 60),
+    run: () => lifecycleService.checkStallAlerts(),
+  },
+  {
+    name: 'missing_entries',
+    description: 'MISSING_DAY alert rule: active rigs with no NPT entry or zero-NPT confirmation for the previous day',
+    intervalMs: minutes(process.env.MISSING_ENTRIES_INTERVAL_MINUTES, 24 * 60),
+    run: () => lifecycleService.checkMissingEntries(),
+  },
+];
+
+const TICK_MS = 30 * 1000;
+const LOCK_LEASE_MS = 10 * 60 * 1000;
+
+const instanceId = `${hostname()}:${process.pid}`;
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+// Take the job's lock if no live run holds it and, unless forced, the job is due
+async function claim(job: JobDefinition, now: Date, force: boolean): Promise<boolean> {
+  const claimed = await db.update(scheduledJobs)
+    .set({ lockedBy: instanceId, lockedUntil: new Date(now.getTime() + LOCK_LEASE_MS), lastStartedAt: now, updatedAt: now })
+    .where(and(
+      eq(scheduledJobs.name, job.name),
+      or(isNull(scheduledJobs.lockedUntil), lte(scheduledJobs.lockedUntil, now)),
+      force ? undefined : or(isNull(scheduledJobs.nextRunAt), lte(scheduledJobs.nextRunAt, now))
+    ))
+    .returning({ name: scheduledJobs.name });
+  return claimed.length > 0;
+}
+
+// Run a job if its lock can be taken; null when it isn't due or is running elsewhere
+async function runJob(job: JobDefinition, force = false): Promise<ScheduledJob | null> {
+  const startedAt = new Date();
+  if (!(await claim(job, startedAt, force))) return null;
+
+  let status = 'success';
+  let error: string | null = null;
+  let result: Record<string, unknown> | null = null;
+  try {
+    result = await job.run();
+  } catch (e) {
+    status = 'failed';
+    error = e instanceof Error ? e.message : String(e);
+    console.error(`Scheduled job ${job.name} failed:`, e);
+  }
+
+  const finishedAt = new Date();
+  const [row] = await db.update(scheduledJobs)
+    .set({
+      lockedBy: null,
+      lockedUntil: null,
+      nextRunAt: new Date(startedAt.getTime() + job.intervalMs),
+      lastFinishedAt: finishedAt,
+      lastStatus: status,
+      lastError: error,
+      lastResult: result,
+      runCount: sql`${scheduledJobs.runCount} + 1`,
+      updatedAt: finishedAt,
+    })
+    // A run that outlived its lease may have been taken over; leave that run's record alone
+    .where(and(eq(scheduledJobs.name, job.name), eq(scheduledJobs.lockedBy, instanceId)))
+    .returning();
+  return row ?? null;
+}
+
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    for (const job of JOBS) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error("Error running scheduled jobs:", error);
+  } finally {
+    ticking = false;
+  }
+}
+
+export async function startScheduler(): Promise<void> {
+  if (process.env.SCHEDULER_ENABLED === 'false' || timer) return;
+
+  await db.insert(scheduledJobs)
+    .values(JOBS.map(job => ({ name: job.name, nextRunAt: new Date() })))
+    .onConflictDoNothing();
+
+  timer = setInterval(tick, TICK_MS);
+  timer.unref();
+  void tick();
+  console.log(`⏱️ Scheduler started on ${instanceId}: ${JOBS.map(job => `${job.name} every ${job.intervalMs / 60000}m`).join(', ')}`);
+}
+
+export interface JobStatus extends ScheduledJob {
+  description: string;
+  intervalMinutes: number;
+  running: boolean;
+}
+
+// Every job with its last run, for the admin page
+export async function getJobStatuses(): Promise<JobStatus[]> {
+  const rows = await db.select().from(scheduledJobs);
+  const now = new Date();
+  return JOBS.map(job => {
+    const row = rows.find(r => r.name === job.name);
+    return {
+      name: job.name,
+      lockedBy: null,
+      lockedUntil: null,
+      nextRunAt: null,
+      lastStartedAt: null,
+      lastFinishedAt: null,
+      lastStatus: null,
+      lastError: null,
+      lastResult: null,
+      runCount: 0,
+      updatedAt: null,
+      ...row,
+      description: job.description,
+      intervalMinutes: job.intervalMs / 60000,
+      running: !!row?.lockedUntil && row.lockedUntil > now,
+    };
+  });
+}
+
+export const isScheduledJob = (name: string) => JOBS.some(job => job.name === name);
+
+// Run a job now, outside its schedule; null if a run is already in progress
+export async function runJobNow(name: string): Promise<ScheduledJob | null> {
+  const job = JOBS.find(j => j.name === name);
+  if (!job) return null;
+  await db.insert(scheduledJobs).values({ name: job.name }).onConflictDoNothing();
+  return await runJob(job, true);
+}
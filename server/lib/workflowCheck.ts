@@ -0,0 +1,224 @@
+import { db } from "../db";
+import { rigs, users, workflowDefinitions, workflowSteps } from "@shared/schema";
+import type { Rig } from "@shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import {
+  ROLE_KEYS,
+  ROLE_LABELS,
+  type RoleKey,
+  type SimulatedApprover,
+  type SimulatedStep,
+  type WorkflowIssue,
+  type WorkflowSimulation,
+} from "@shared/workflow";
+import {
+  ApprovalError,
+  DEFAULT_STEP_GROUPS,
+  MAX_DELEGATION_DEPTH,
+  NO_WORKFLOW_REASON,
+  approvalsNeeded,
+  groupSteps,
+  pickWorkflow,
+  resolveApprover,
+  selectionReason,
+  type StepGroup,
+  type WorkflowStep,
+} from "./approvals";
+
+/**
+ * Dry runs of approval workflows. Nothing here writes: steps are resolved the way
+ * server/lib/approvals.ts routes a report, and whatever would leave a report stuck is
+ * reported as an issue instead.
+ */
+
+// The fields of a sample report that workflow selection and routing look at
+export interface SimulationSample {
+  rigId: number;
+  date: Date;
+  hours: string | number;
+  nptType?: string | null;
+  department?: string | null;
+  system?: string | null;
+}
+
+const isRoleKey = (roleKey?: string | null): roleKey is RoleKey =>
+  (ROLE_KEYS as readonly string[]).includes(roleKey ?? '');
+
+const roleLabel = (roleKey?: string | null) => (isRoleKey(roleKey) ? ROLE_LABELS[roleKey] : `"${roleKey}"`);
+
+const rigLabel = (rig: Rig) => rig.rigName || `rig ${rig.rigNumber}`;
+
+// Problems visible in the step definitions themselves, whatever the rig
+async function checkDefinitions(groups: StepGroup[]): Promise<WorkflowIssue[]> {
+  const issues: WorkflowIssue[] = [];
+
+  const userIds = groups.flatMap(group => [
+    ...group.steps.map(step => step.userId),
+    group.sla?.escalationUserId,
+  ]).filter((id): id is string => !!id);
+  const knownUsers = new Set(userIds.length === 0 ? [] : (await db
+    .select({ id: users.id })
+    .from(users)
+    .where(inArray(users.id, userIds))).map(user => user.id));
+
+  for (const group of groups) {
+    const stepOrder = group.stepOrder;
+    for (const step of group.steps) {
+      if (step.approverType === 'role' && !isRoleKey(step.roleKey)) {
+        issues.push({
+          level: 'error',
+          stepOrder,
+          message: step.roleKey
+            ? `Step ${stepOrder} uses unknown role "${step.roleKey}"; known roles are ${ROLE_KEYS.join(', ')}`
+            : `Step ${stepOrder} has a role approver with no role`,
+        });
+      }
+      if (step.approverType === 'user' && (!step.userId || !knownUsers.has(step.userId))) {
+        issues.push({
+          level: 'error',
+          stepOrder,
+          message: step.userId ? `Step ${stepOrder} names unknown user "${step.userId}"` : `Step ${stepOrder} has a user approver with no user`,
+        });
+      }
+    }
+
+    if (group.mode === 'quorum' && (group.requiredApprovals ?? 1) > group.steps.length) {
+      issues.push({ level: 'error', stepOrder, message: `Step ${stepOrder} needs ${group.requiredApprovals} approvals but has ${group.steps.length} approvers` });
+    }
+
+    const sla = group.sla;
+    if (sla?.escalationHours != null) {
+      if (sla.escalationRoleKey && !isRoleKey(sla.escalationRoleKey)) {
+        issues.push({ level: 'error', stepOrder, message: `Step ${stepOrder} escalates to unknown role "${sla.escalationRoleKey}"` });
+      } else if (sla.escalationUserId && !knownUsers.has(sla.escalationUserId)) {
+        issues.push({ level: 'error', stepOrder, message: `Step ${stepOrder} escalates to unknown user "${sla.escalationUserId}"` });
+      } else if (!sla.escalationRoleKey && !sla.escalationUserId) {
+        issues.push({ level: 'error', stepOrder, message: `Step ${stepOrder} has an escalation time but no one to escalate to` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Resolve every step for one rig at one moment, noting who each approver slot reaches
+async function resolveSteps(groups: StepGroup[], rig: Rig, at: Date): Promise<SimulatedStep[]> {
+  const steps: SimulatedStep[] = [];
+
+  for (const group of groups) {
+    const issues: WorkflowIssue[] = [];
+    const approvers: SimulatedApprover[] = [];
+
+    for (const step of group.steps as WorkflowStep[]) {
+      const { nominalUserId, effectiveUserId, delegation } = await resolveApprover(step, rig.id, at);
+      const chain = delegation?.chain ?? [];
+
+      if (!nominalUserId) {
+        if (step.approverType === 'role' && isRoleKey(step.roleKey)) {
+          issues.push({
+            level: step.isRequired ? 'error' : 'warning',
+            stepOrder: group.stepOrder,
+            rigId: rig.id,
+            message: `No one is assigned the ${roleLabel(step.roleKey)} role on ${rigLabel(rig)}${step.isRequired ? '' : '; the optional approver is skipped'}`,
+          });
+        }
+      } else if (delegation?.cycle) {
+        issues.push({ level: 'error', stepOrder: group.stepOrder, rigId: rig.id, message: `Delegation loop on ${rigLabel(rig)}: ${chain.join(' → ')}; the approval stays with the assigned user` });
+      } else if (delegation?.truncated) {
+        issues.push({ level: 'warning', stepOrder: group.stepOrder, rigId: rig.id, message: `Delegation chain on ${rigLabel(rig)} is longer than ${MAX_DELEGATION_DEPTH} hops and stops at ${chain[chain.length - 1]}` });
+      }
+
+      approvers.push({
+        approverType: step.approverType,
+        roleKey: step.roleKey ?? null,
+        userId: step.userId ?? null,
+        isRequired: step.isRequired,
+        nominalUserId,
+        effectiveUserId,
+        delegationChain: chain,
+      });
+    }
+
+    const resolved = new Set(approvers.map(a => a.effectiveUserId).filter(Boolean)).size;
+    if (resolved === 0 && group.steps.some(step => step.isRequired)) {
+      issues.push({ level: 'error', stepOrder: group.stepOrder, rigId: rig.id, message: `Reports on ${rigLabel(rig)} would stall at step ${group.stepOrder}: no approver resolves` });
+    } else if (group.mode === 'quorum' && resolved > 0 && (group.requiredApprovals ?? 1) > resolved) {
+      issues.push({ level: 'warning', stepOrder: group.stepOrder, rigId: rig.id, message: `Step ${group.stepOrder} needs ${group.requiredApprovals} approvals but only ${resolved} approvers resolve on ${rigLabel(rig)}` });
+    }
+
+    steps.push({
+      stepOrder: group.stepOrder,
+      mode: group.mode,
+      approvalsNeeded: approvalsNeeded(group, resolved),
+      approvers,
+      issues,
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Walk the workflow a sample report would be submitted into on its rig and date: which
+ * workflow it selects, who each step resolves to through role assignments and the
+ * delegations active that day, and anything that would leave it stuck.
+ */
+export async function simulateApproval(sample: SimulationSample): Promise<WorkflowSimulation> {
+  const rig = await db.query.rigs.findFirst({ where: eq(rigs.id, sample.rigId) });
+  if (!rig) {
+    throw new ApprovalError('Rig not found', 404);
+  }
+
+  const workflow = await pickWorkflow({
+    rigId: rig.id,
+    nptType: sample.nptType ?? '',
+    department: sample.department ?? null,
+    system: sample.system ?? null,
+    hours: String(sample.hours),
+  });
+  const groups = workflow ? groupSteps(workflow.steps, workflow.groups) : DEFAULT_STEP_GROUPS;
+
+  const steps = await resolveSteps(groups, rig, sample.date);
+  return {
+    workflowId: workflow?.id ?? null,
+    workflowName: workflow?.name ?? null,
+    reason: workflow ? selectionReason(`"${workflow.name}"`, workflow.reasons) : NO_WORKFLOW_REASON,
+    steps,
+    issues: [...await checkDefinitions(groups), ...steps.flatMap(step => step.issues)],
+  };
+}
+
+/**
+ * Check a workflow's steps, then resolve them today on every rig it can be selected for:
+ * its own rig, or every active rig for a global workflow.
+ */
+export async function validateWorkflow(workflowId: number): Promise<{ workflowId: number; rigsChecked: number; issues: WorkflowIssue[] }> {
+  const workflow = await db.query.workflowDefinitions.findFirst({
+    where: eq(workflowDefinitions.id, workflowId),
+    with: {
+      steps: { orderBy: [workflowSteps.stepOrder] },
+      groups: true,
+    },
+  });
+  if (!workflow) {
+    throw new ApprovalError('Workflow not found', 404);
+  }
+
+  const groups = groupSteps(workflow.steps as WorkflowStep[], workflow.groups);
+  const issues = await checkDefinitions(groups);
+  if (groups.length === 0) {
+    issues.push({ level: 'warning', message: 'The workflow has no steps, so it is never selected' });
+  }
+
+  const rigsToCheck = workflow.rigId
+    ? await db.select().from(rigs).where(eq(rigs.id, workflow.rigId))
+    : await db.select().from(rigs).where(eq(rigs.isActive, true));
+
+  const now = new Date();
+  for (const rig of rigsToCheck) {
+    const steps = await resolveSteps(groups, rig, now);
+    issues.push(...steps.flatMap(step => step.issues));
+  }
+
+  return { workflowId, rigsChecked: rigsToCheck.length, issues };
+}
@@ -1,6 +1,12 @@
 import { storage } from "./storage";
+import { reconcileRigMonth } from "./services/billingReconciliation";
+import { ApprovalError, escalateStalledApprovals } from "./lib/approvals";
+import { notifyDelegationChanges } from "./lib/delegations";
+import { evaluateAlertRules } from "./lib/alerts";
+import { NPT_STATUS, normalizeNptStatus } from "@shared/status";
 import type { 
   MonthlyReport, 
+  NptReport,
   InsertMonthlyReport, 
   StageEvent,
   InsertStageEvent,
@@ -10,6 +16,37 @@ import type {
   InsertNotification
 } from "@shared/schema";
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Day slices are keyed by UTC midnight, as `PUT /api/monthly-reports/:id/days/:date` stores them
+const utcDay = (date: Date | string) => new Date(new Date(date).toISOString().split('T')[0] + 'T00:00:00.000Z');
+
+// nptReportIds was once stored as a JSON string
+const linkedReportIds = (slice: DaySlice): number[] => {
+  const ids = typeof slice.nptReportIds === 'string' ? JSON.parse(slice.nptReportIds) : slice.nptReportIds;
+  return Array.isArray(ids) ? ids.map(Number) : [];
+};
+
+/**
+ * Where a day stands, from the NPT reports on it: Draft while any still needs work, Submitted
+ * or In_Review (once a step has been passed) while any awaits approval, Approved when all are.
+ * Rejected reports don't count; a day with nothing else is No-Entry.
+ */
+function dayStatusFor(reports: NptReport[]): string {
+  const live = reports.filter(report => normalizeNptStatus(report.status) !== NPT_STATUS.REJECTED);
+  const statuses = live.map(report => normalizeNptStatus(report.status));
+
+  if (statuses.length === 0) return 'No-Entry';
+  if (statuses.includes(NPT_STATUS.DRAFT)) return 'Draft';
+  if (statuses.includes(NPT_STATUS.PENDING_REVIEW)) {
+    const progressed = statuses.includes(NPT_STATUS.APPROVED) || live.some(report =>
+      normalizeNptStatus(report.status) === NPT_STATUS.PENDING_REVIEW && (report.currentStepOrder ?? 1) > 1
+    );
+    return progressed ? 'In_Review' : 'Submitted';
+  }
+  return 'Approved';
+}
+
 export class LifecycleService {
   // Create or get existing monthly report
   async getOrCreateMonthlyReport(month: string, rigId: number, createdBy: string): Promise<MonthlyReport> {
@@ -74,6 +111,12 @@ export class LifecycleService {
       throw new Error('Only submitted or in-review reports can be approved');
     }
 
+    // Once a billing sheet is on file for the month, every day it disagrees with the NPT reports needs an explanation
+    const reconciliation = await reconcileRigMonth(report.rigId, report.month);
+    if (reconciliation.billingRowCount > 0 && reconciliation.unexplainedDays > 0) {
+      throw new Error(`Billing reconciliation has ${reconciliation.unexplainedDays} day(s) with unexplained variances`);
+    }
+
     const updatedReport = await storage.updateMonthlyReport(reportId, {
       status: 'Approved',
       approvedBy: userId,
@@ -147,8 +190,66 @@ export class LifecycleService {
     return updatedReport;
   }
 
+  /**
+   * Reopen a closed month. The reason is kept as a 'Reopened' stage event along with who had
+   * approved it, and the report goes back to Draft so it has to be submitted and approved again.
+   */
+  async reopenReport(reportId: number, userId: string, reason: string): Promise<MonthlyReport> {
+    const report = await storage.getMonthlyReport(reportId);
+    if (!report) {
+      throw new Error('Report not found');
+    }
+
+    if (report.status !== 'Approved') {
+      throw new Error('Only approved reports can be reopened');
+    }
+
+    const updatedReport = await storage.updateMonthlyReport(reportId, {
+      status: 'Draft',
+      approvedBy: null,
+      approvedAt: null,
+      submittedAt: null
+    });
+
+    await storage.createStageEvent({
+      reportId,
+      stage: 'Reopened',
+      byUser: userId,
+      comments: reason,
+      previousStage: report.status,
+      metadata: { approvedBy: report.approvedBy, approvedAt: report.approvedAt }
+    });
+
+    await this.createNotification({
+      reportId,
+      rule: 'report_reopened',
+      recipient: report.createdBy,
+      message: `Your monthly NPT report for ${report.month} was reopened and needs to be submitted again: ${reason}`,
+      channel: 'in_app'
+    });
+
+    return updatedReport;
+  }
+
+  // Month close: an approved monthly report locks its rig-month until an admin reopens it
+  async assertPeriodOpen(rigId: number, date: Date | string): Promise<void> {
+    const month = utcDay(date).toISOString().slice(0, 7);
+    const report = await storage.getMonthlyReportByMonthAndRig(month, rigId);
+    if (report?.status === 'Approved') {
+      throw new ApprovalError(`${month} is closed for this rig because its monthly report was approved; an admin must reopen it first`, 423);
+    }
+  }
+
+  private async assertReportOpen(reportId: number): Promise<void> {
+    const report = await storage.getMonthlyReport(reportId);
+    if (report?.status === 'Approved') {
+      throw new ApprovalError(`The monthly report for ${report.month} is approved and closed; an admin must reopen it first`, 423);
+    }
+  }
+
   // Day slice management
   async updateDaySlice(reportId: number, date: Date, data: Partial<DaySlice>, updatedBy: string): Promise<DaySlice> {
+    await this.assertReportOpen(reportId);
     const slice = await storage.upsertDaySlice(reportId, date, {
       ...data,
       updatedBy
@@ -163,8 +264,9 @@ export class LifecycleService {
   }
 
   async linkNptReportToDay(reportId: number, date: Date, nptReportIds: number[], updatedBy: string): Promise<DaySlice> {
+    await this.assertReportOpen(reportId);
     return await storage.upsertDaySlice(reportId, date, {
-      nptReportIds: JSON.stringify(nptReportIds),
+      nptReportIds,
       dayStatus: 'Draft',
       updatedBy
     });
@@ -200,19 +302,151 @@ export class LifecycleService {
     }
   }
 
-  private async recalculateMonthlyTotals(reportId: number): Promise<void> {
+  /**
+   * Rebuild one rig-day's slice from the NPT reports dated that day, creating the rig-month's
+   * monthly report if needed, then recompute the month's totals. Called whenever a report is
+   * created, edited, deleted or changes status, so the monthly figures follow nptReports;
+   * a closed (approved) month is left untouched. Failures are logged rather than thrown: the NPT report change itself has already happened.
+   */
+  async syncNptReportDay(rigId: number, date: Date | string, byUser: string): Promise<void> {
+    const day = utcDay(date);
+    const month = day.toISOString().slice(0, 7);
+
+    try {
+      const reports = await storage.getNptReportsForRigInRange(rigId, day, new Date(day.getTime() + DAY_MS - 1));
+
+      let monthlyReport = await storage.getMonthlyReportByMonthAndRig(month, rigId);
+      if (!monthlyReport) {
+        if (reports.length === 0) return;
+        monthlyReport = await this.getOrCreateMonthlyReport(month, rigId, byUser);
+      }
+      // An approved month keeps the figures it was approved with until an admin reopens it
+      if (monthlyReport.status === 'Approved') return;
+      const slice = await storage.getDaySlice(monthlyReport.id, day);
+      if (reports.length === 0 && !slice) return;
+
+      const counted = reports.filter(report => normalizeNptStatus(report.status) !== NPT_STATUS.REJECTED);
+      const types = Array.from(new Set(counted.map(report => report.nptType)));
+      const hours = counted.reduce((sum, report) => sum + parseFloat(report.hours || '0'), 0);
+      // A zero-NPT confirmation stands until NPT is actually reported for the day
+      const zeroConfirmed = counted.length === 0 && !!slice?.zeroNptConfirmedAt;
+
+      await storage.upsertDaySlice(monthlyReport.id, day, {
+        hours: hours.toString(),
+        nptType: types.length > 1 ? 'Mixed' : types[0] ?? null,
+        nptReportIds: reports.map(report => report.id),
+        dayStatus: zeroConfirmed ? 'Submitted' : dayStatusFor(reports),
+        zeroNptConfirmedBy: zeroConfirmed ? slice!.zeroNptConfirmedBy : null,
+        zeroNptConfirmedAt: zeroConfirmed ? slice!.zeroNptConfirmedAt : null,
+        updatedBy: byUser
+      });
+
+      await this.recalculateMonthlyTotals(monthlyReport.id);
+    } catch (error) {
+      console.error(`Error syncing rig ${rigId} day ${day.toISOString().split('T')[0]} into its monthly report:`, error);
+    }
+  }
+
+  /**
+   * Of the given UTC days (YYYY-MM-DD), those with no entry for the rig: no NPT report that
+   * wasn't rejected, and no day slice that was confirmed as zero NPT or filled in by hand.
+   */
+  async getMissingDays(rigId: number, days: string[]): Promise<string[]> {
+    if (days.length === 0) return [];
+
+    const sorted = [...days].sort();
+    const from = utcDay(sorted[0]);
+    const to = new Date(utcDay(sorted[sorted.length - 1]).getTime() + DAY_MS - 1);
+    const reported = new Set(
+      (await storage.getNptReportsForRigInRange(rigId, from, to))
+        .filter(report => normalizeNptStatus(report.status) !== NPT_STATUS.REJECTED)
+        .map(report => utcDay(report.date).toISOString().split('T')[0])
+    );
+
+    const monthlyReports = new Map<string, MonthlyReport | undefined>();
+    const missing: string[] = [];
+    for (const day of sorted) {
+      if (reported.has(day)) continue;
+
+      const month = day.slice(0, 7);
+      if (!monthlyReports.has(month)) {
+        monthlyReports.set(month, await storage.getMonthlyReportByMonthAndRig(month, rigId));
+      }
+      const monthlyReport = monthlyReports.get(month);
+      const slice = monthlyReport ? await storage.getDaySlice(monthlyReport.id, utcDay(day)) : undefined;
+      if (slice && (slice.zeroNptConfirmedAt || slice.dayStatus !== 'No-Entry')) continue;
+
+      missing.push(day);
+    }
+    return missing;
+  }
+
+  /**
+   * Record that a rig had no NPT on a day, which settles the day's missing-entry alert. Refused
+   * for a closed month, a day that hasn't ended, or a day that already has NPT reported.
+   */
+  async confirmZeroNpt(rigId: number, date: Date | string, userId: string): Promise<DaySlice> {
+    const day = utcDay(date);
+    if (day.getTime() + DAY_MS > Date.now()) {
+      throw new ApprovalError('Zero NPT can only be confirmed for a day that has ended', 400);
+    }
+    await this.assertPeriodOpen(rigId, day);
+
+    const reports = await storage.getNptReportsForRigInRange(rigId, day, new Date(day.getTime() + DAY_MS - 1));
+    if (reports.some(report => normalizeNptStatus(report.status) !== NPT_STATUS.REJECTED)) {
+      throw new ApprovalError('NPT has already been reported for this day');
+    }
+
+    const monthlyReport = await this.getOrCreateMonthlyReport(day.toISOString().slice(0, 7), rigId, userId);
+    const slice = await storage.upsertDaySlice(monthlyReport.id, day, {
+      hours: '0',
+      nptType: null,
+      nptReportIds: reports.map(report => report.id),
+      dayStatus: 'Submitted',
+      zeroNptConfirmedBy: userId,
+      zeroNptConfirmedAt: new Date(),
+      updatedBy: userId
+    });
+    await this.recalculateMonthlyTotals(monthlyReport.id);
+    return slice;
+  }
+
+  // Sync each rig-day the reports fall on once; byUser defaults to each report's author
+  async syncNptReports(reports: Pick<NptReport, 'rigId' | 'date' | 'userId'>[], byUser?: string): Promise<void> {
+    const days = new Map<string, Pick<NptReport, 'rigId' | 'date' | 'userId'>>();
+    for (const report of reports) {
+      days.set(`${report.rigId}:${utcDay(report.date).toISOString()}`, report);
+    }
+    for (const report of Array.from(days.values())) {
+      await this.syncNptReportDay(report.rigId, report.date, byUser ?? report.userId);
+    }
+  }
+
+  /**
+   * Recompute a monthly report's hours from its day slices. Slices linked to NPT reports count
+   * those reports by their own NPT type (so a day mixing types splits correctly, and rejected
+   * reports count for nothing); slices entered by hand count their own hours and type.
+   */
+  async recalculateMonthlyTotals(reportId: number): Promise<void> {
+    const monthlyReport = await storage.getMonthlyReport(reportId);
+    if (!monthlyReport) return;
+
     const daySlices = await storage.getDaySlices(reportId);
+    const monthStart = new Date(`${monthlyReport.month}-01T00:00:00.000Z`);
+    const monthEnd = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1) - 1);
+    const nptReports = new Map(
+      (await storage.getNptReportsForRigInRange(monthlyReport.rigId, monthStart, monthEnd)).map(report => [report.id, report])
+    );
     
     let totalHours = 0;
     let contractualHours = 0;
     let operationalHours = 0;
     let abrajHours = 0;
 
-    for (const slice of daySlices) {
-      const hours = parseFloat(slice.hours || '0');
+    const add = (hours: number, nptType?: string | null) => {
       totalHours += hours;
 
-      switch (slice.nptType?.toLowerCase()) {
+      switch (nptType?.toLowerCase()) {
         case 'contractual':
           contractualHours += hours;
           break;
@@ -223,6 +457,18 @@ export class LifecycleService {
           abrajHours += hours;
           break;
       }
+    };
+
+    for (const slice of daySlices) {
+      const linked = linkedReportIds(slice).map(id => nptReports.get(id)).filter((report): report is NptReport => !!report);
+      if (linked.length === 0) {
+        add(parseFloat(slice.hours || '0'), slice.nptType);
+        continue;
+      }
+      for (const report of linked) {
+        if (normalizeNptStatus(report.status) === NPT_STATUS.REJECTED) continue;
+        add(parseFloat(report.hours || '0'), report.nptType);
+      }
     }
 
     await storage.updateMonthlyReport(reportId, {
@@ -293,48 +539,28 @@ export class LifecycleService {
   }
 
   // Alert system
-  async checkSlaAlerts(): Promise<void> {
-    const pendingReports = await storage.getMonthlyReports({ status: 'Submitted' });
+  // Approval-time alerts (see server/lib/alerts.ts), NPT approval escalations and delegation notices
+  async checkSlaAlerts() {
     const now = new Date();
+    const alerts = await evaluateAlertRules(['PENDING_APPROVAL', 'OVER_SLA'], now);
 
-    for (const report of pendingReports) {
-      if (report.submittedAt) {
-        const daysSinceSubmission = (now.getTime() - new Date(report.submittedAt).getTime()) / (1000 * 60 * 60 * 24);
-        
-        if (daysSinceSubmission > (report.slaDays || 7)) {
-          // Create over-SLA notification
-          await this.createNotification({
-            reportId: report.id,
-            rule: 'over_sla',
-            recipient: report.createdBy,
-            message: `Monthly NPT report for ${report.month} is overdue for approval (${Math.floor(daysSinceSubmission)} days)`,
-            channel: 'in_app'
-          });
-
-          // Notify approvers too
-          await this.notifyApprovers(report.id, 'over_sla', `Monthly NPT report for ${report.month} is overdue for approval`);
-        }
-      }
-    }
+    // NPT reports waiting on an approval step past its SLA
+    const { reminded, escalated } = await escalateStalledApprovals(now);
+
+    // Delegations that took effect or ran out since the last check
+    const { started, ended } = await notifyDelegationChanges(now);
+
+    return { ...alerts, reminded, escalated, delegationsStarted: started, delegationsEnded: ended };
   }
 
-  async checkStallAlerts(): Promise<void> {
-    const activeReports = await storage.getMonthlyReports({ status: 'Submitted' });
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-
-    for (const report of activeReports) {
-      const latestEvent = await storage.getLatestStageEvent(report.id);
-      
-      if (latestEvent && new Date(latestEvent.createdAt) < twentyFourHoursAgo) {
-        await this.createNotification({
-          reportId: report.id,
-          rule: 'stalled',
-          recipient: report.createdBy,
-          message: `Monthly NPT report for ${report.month} has been stalled for over 24 hours`,
-          channel: 'in_app'
-        });
-      }
-    }
+  // Alerts for monthly reports that have stopped moving
+  async checkStallAlerts() {
+    return await evaluateAlertRules(['STALLED']);
+  }
+
+  // Daily: rigs with no entry for the previous day
+  async checkMissingEntries() {
+    return await evaluateAlertRules(['MISSING_DAY']);
   }
 }
 
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+// db.ts refuses to load without a URL; no query runs when a dictionary is passed in
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { processPDFBilling, parseBillingTable } = await import("./pdfProcessor");
+const { RecognitionDictionary, DEFAULT_RECOGNITION_ENTRIES } = await import("./services/recognitionDictionary");
+
+// Sample tickets written by __fixtures__/billing/generateTickets.ts
+const fixture = (name: string) => readFileSync(join(import.meta.dirname, "__fixtures__", "billing", name));
+const dictionary = new RecognitionDictionary(DEFAULT_RECOGNITION_ENTRIES);
+
+test("reads NPT rows from the ticket's rate columns", async () => {
+  const { rows, errors, metadata } = await processPDFBilling(fixture("ticket-standard.pdf"), dictionary);
+
+  assert.equal(metadata.rigNumber, "104");
+  assert.equal(metadata.well, "TST-01");
+  assert.deepEqual(
+    rows.map(row => [row.date?.toISOString().slice(0, 10), row.rateType, row.hours, row.nbtType]),
+    [
+      ["2025-06-02", "Repair Rate", 3.5, "Abroad"],
+      ["2025-06-03", "Reduced Rate", 6, "Contractual"],
+      ["2025-06-04", "Special Rate", 2, "Contractual"],
+      ["2025-06-05", "Rig Move Statistical", 24, "Contractual"],
+    ]
+  );
+  assert.ok(rows.every(row => row.rigNumber === "104" && row.ticketNumber === "DR10420250607000001"));
+  assert.deepEqual(errors, ["Page 1, line 14: Rate hours add up to 22 but the total column shows 23"]);
+});
+
+test("joins a wrapped description and records the lines it came from", async () => {
+  const { rows } = await processPDFBilling(fixture("ticket-standard.pdf"), dictionary);
+  const repair = rows.find(row => row.rateType === "Repair Rate")!;
+
+  assert.equal(repair.description, "Top drive IBOP actuator failed, changed out and pressure tested before resuming drilling");
+  assert.equal(repair.source?.page, 1);
+  assert.equal(repair.source?.line, 11);
+  assert.equal(repair.source?.lineEnd, 12);
+  assert.equal(repair.flags, undefined);
+});
+
+test("carries the header's columns over to the next page", async () => {
+  const { rows } = await processPDFBilling(fixture("ticket-standard.pdf"), dictionary);
+  const rigMove = rows.find(row => row.rateType === "Rig Move Statistical")!;
+
+  assert.deepEqual(rigMove.source && { page: rigMove.source.page, line: rigMove.source.line }, { page: 2, line: 1 });
+  assert.equal(rigMove.flags, undefined);
+});
+
+test("flags a row whose rate hours disagree with its total", async () => {
+  const { rows } = await processPDFBilling(fixture("ticket-standard.pdf"), dictionary);
+  const special = rows.find(row => row.rateType === "Special Rate")!;
+
+  assert.deepEqual(special.flags, ["Rate hours add up to 22 but the total column shows 23"]);
+  assert.equal(special.fieldConfidence?.hours?.score, 0.4);
+});
+
+test("falls back to column order without a header and flags every row read that way", async () => {
+  const { rows, errors, metadata } = await processPDFBilling(fixture("ticket-no-header.pdf"), dictionary);
+
+  assert.equal(metadata.rigNumber, undefined);
+  assert.equal(errors[0], "Rig number not found in ticket; set the rig on each row before creating reports");
+  assert.deepEqual(
+    rows.map(row => [row.rateType, row.hours, row.source?.line, row.flags]),
+    [
+      ["Reduce Repair Rate", 4, 6, ["Rate table header not found; hours were assigned by column order", "Rig number not found in ticket"]],
+      ["Reduced Rate", 2, 7, [
+        "Rate table header not found; hours were assigned by column order",
+        'Unreadable date "31-06-2025"',
+        "Rig number not found in ticket",
+      ]],
+    ]
+  );
+  assert.equal(rows[1].date, undefined);
+});
+
+test("flags OBM hours that exceed the hours billed", () => {
+  const text = "08-06-2025 6.00 0.00 2.00 0.00 2.00 0.00 4.00 Waiting on orders";
+  const [row] = parseBillingTable([{ page: 1, line: 1, items: [{ x: 1.69, text }], text }]);
+
+  assert.equal(row.obmOperatingRate, 6);
+  assert.equal(row.reducedRate, 2);
+  assert.equal(row.totalHours, 4);
+  assert.ok(row.flags.includes("OBM hours add up to 6, more than the 4 billed"));
+});
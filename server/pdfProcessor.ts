@@ -1,55 +1,84 @@
-import type { BillingSheetRow } from '@shared/billingTypes';
-import OpenAI from 'openai';
+import type { BillingRowSource, BillingSheetRow, ConfidenceField, FieldConfidenceMap } from '@shared/billingTypes';
 import PDFParser from 'pdf2json';
+import { loadRecognitionDictionary, type RecognitionDictionary } from './services/recognitionDictionary';
+import { describeRecognition, fieldScore, overallConfidence } from './services/billingConfidence';
 
-// PDF text extraction using pdf2json
-async function extractTextFromPDF(buffer: Buffer): Promise<string> {
-  return new Promise((resolve, reject) => {
+// A run of text on a PDF page, positioned in pdf2json page units
+export interface PdfTextItem {
+  x: number;
+  text: string;
+}
+
+// Text items that share a baseline, left to right
+export interface PdfTextLine {
+  page: number; // 1-based
+  line: number; // 1-based within the page
+  items: PdfTextItem[];
+  text: string;
+}
+
+// Items whose baselines are closer than this are on the same line
+const LINE_TOLERANCE = 0.25;
+
+function decodeText(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// PDF text extraction using pdf2json, keeping positions so the rate table columns can be rebuilt
+async function extractTextLines(buffer: Buffer): Promise<PdfTextLine[]> {
+  const pdfData = await new Promise<any>((resolve, reject) => {
     const pdfParser = new PDFParser();
-    
+
     pdfParser.on('pdfParser_dataError', (errData: any) => {
       console.error('PDF parsing error:', errData.parserError);
       reject(new Error('Failed to parse PDF'));
     });
-    
-    pdfParser.on('pdfParser_dataReady', (pdfData: any) => {
-      try {
-        // Extract text from all pages
-        let fullText = '';
-        
-        if (pdfData && pdfData.Pages) {
-          pdfData.Pages.forEach((page: any) => {
-            if (page.Texts) {
-              page.Texts.forEach((text: any) => {
-                if (text.R) {
-                  text.R.forEach((r: any) => {
-                    if (r.T) {
-                      // Decode URI component and replace spaces
-                      fullText += decodeURIComponent(r.T) + ' ';
-                    }
-                  });
-                }
-              });
-              fullText += '\n';
-            }
-          });
-        }
-        
-        resolve(fullText.trim());
-      } catch (error) {
-        console.error('Error processing PDF data:', error);
-        reject(new Error('Failed to extract text from PDF'));
-      }
-    });
-    
+
+    pdfParser.on('pdfParser_dataReady', (data: any) => resolve(data));
+
     // Parse the PDF buffer
     pdfParser.parseBuffer(buffer);
   });
-}
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+  const lines: PdfTextLine[] = [];
+
+  (pdfData?.Pages || []).forEach((page: any, pageIndex: number) => {
+    const texts = (page.Texts || [])
+      .map((text: any) => ({
+        x: Number(text.x) || 0,
+        y: Number(text.y) || 0,
+        text: (text.R || []).map((r: any) => decodeText(r.T || '')).join('').trim(),
+      }))
+      .filter((text: { text: string }) => text.text !== '')
+      .sort((a: { x: number; y: number }, b: { x: number; y: number }) => a.y - b.y || a.x - b.x);
+
+    const pageLines: { y: number; items: PdfTextItem[] }[] = [];
+    for (const text of texts) {
+      const current = pageLines[pageLines.length - 1];
+      if (current && Math.abs(text.y - current.y) <= LINE_TOLERANCE) {
+        current.items.push({ x: text.x, text: text.text });
+      } else {
+        pageLines.push({ y: text.y, items: [{ x: text.x, text: text.text }] });
+      }
+    }
+
+    pageLines.forEach((pageLine, index) => {
+      const items = pageLine.items.sort((a, b) => a.x - b.x);
+      lines.push({
+        page: pageIndex + 1,
+        line: index + 1,
+        items,
+        text: items.map(item => item.text).join(' '),
+      });
+    });
+  });
+
+  return lines;
+}
 
 // Contractual NBT categories
 const CONTRACTUAL_CATEGORIES = [
@@ -84,34 +113,98 @@ const CONTRACTUAL_CATEGORIES = [
   'Well Control'
 ];
 
-interface ParsedBillingRow {
+type RateColumn =
+  | 'obmOperatingRate'
+  | 'obmReducedRate'
+  | 'obmRepairRate'
+  | 'obmSpecialRate'
+  | 'operatingRate'
+  | 'repairRate'
+  | 'reduceRepairRate'
+  | 'reducedRate'
+  | 'zeroRate'
+  | 'rigMove'
+  | 'specialRate';
+
+type TableField = RateColumn | 'date' | 'totalHours' | 'description';
+// Fields read as hours
+type HoursField = RateColumn | 'totalHours';
+
+// One day of the ticket's daily rate table; rate columns hold hours billed at that rate
+export interface ParsedBillingRow {
   date: string;
   obmOperatingRate: number;
   obmReducedRate: number;
+  obmRepairRate?: number;
   obmSpecialRate?: number;
   operatingRate: number;
+  repairRate?: number;
   reduceRepairRate: number;
   reducedRate: number;
+  zeroRate?: number;
   rigMove?: number;
   specialRate: number;
-  totalHours: number;
+  totalHours?: number;
   description: string;
+  source: BillingRowSource;
+  flags: string[];
+  // The field each flag casts doubt on, for the per-field confidence
+  flaggedFields: Partial<Record<ConfidenceField, string>>;
+}
+
+interface TableColumn {
+  field: TableField;
+  label: string;
+  x: number;
 }
 
-export async function processPDFBilling(buffer: Buffer): Promise<{
+// Rate columns that become NPT rows; operating hours are productive time and are not reported,
+// and OBM columns repeat hours already in these
+const NPT_RATE_COLUMNS: { field: RateColumn; rateType: string; nbtType: 'Abroad' | 'Contractual' }[] = [
+  { field: 'repairRate', rateType: 'Repair Rate', nbtType: 'Abroad' },
+  { field: 'reduceRepairRate', rateType: 'Reduce Repair Rate', nbtType: 'Abroad' },
+  { field: 'zeroRate', rateType: 'Zero Rate', nbtType: 'Abroad' },
+  { field: 'reducedRate', rateType: 'Reduced Rate', nbtType: 'Contractual' },
+  { field: 'rigMove', rateType: 'Rig Move Statistical', nbtType: 'Contractual' },
+  { field: 'specialRate', rateType: 'Special Rate', nbtType: 'Contractual' },
+];
+
+const RATE_COLUMNS: RateColumn[] = [
+  'obmOperatingRate', 'obmReducedRate', 'obmRepairRate', 'obmSpecialRate', 'operatingRate', 'repairRate',
+  'reduceRepairRate', 'reducedRate', 'zeroRate', 'rigMove', 'specialRate',
+];
+
+// OBM columns repeat the hours of the day spent with oil-based mud in the hole; they are
+// part of the day's other rate columns, not added to them
+const OBM_RATE_COLUMNS: RateColumn[] = ['obmOperatingRate', 'obmReducedRate', 'obmRepairRate', 'obmSpecialRate'];
+
+// Header words stacked within this horizontal distance belong to the same column
+const COLUMN_TOLERANCE = 1.2;
+// Values are printed right-aligned inside their column, so they start at or after its header;
+// this allows for a value set slightly left of the header text
+const VALUE_TOLERANCE = 0.3;
+
+const DATE_PATTERN = /^(\d{1,2})[-/.](\d{1,2}|[A-Za-z]{3})[-/.](\d{4})$/;
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Extract the billing rows of a rate ticket PDF. Recognition uses the admin-edited dictionary
+ * unless one is passed in, as the fixture tests do to run without a database.
+ */
+export async function processPDFBilling(buffer: Buffer, dictionary?: RecognitionDictionary): Promise<{
   rows: BillingSheetRow[];
+  errors: string[];
   metadata: {
     well: string;
     field: string;
     rigNumber?: string;
+    ticketNumber?: string;
     jobStart?: string;
     jobEnd?: string;
   };
 }> {
-  // Since PDF files are binary, we need to use a proper parsing approach
-  // For now, we'll implement a mock response to demonstrate the functionality
-  // In production, you would use Anthropic's vision API or a PDF parsing service
-  
   // Check if this is actually a PDF by looking for PDF header
   const isPDF = buffer.length > 4 && 
     buffer[0] === 0x25 && // %
@@ -123,226 +216,53 @@ export async function processPDFBilling(buffer: Buffer): Promise<{
     throw new Error('Invalid PDF file');
   }
   
+  let lines: PdfTextLine[];
   try {
-    // Extract text from PDF for metadata
-    const extractedText = await extractTextFromPDF(buffer);
-    
-    // Extract metadata from the PDF text
-    const metadata = extractMetadata(extractedText);
-    
-    // Process PDF to extract billing data
-    const rows = await extractBillingDataFromPDF(buffer);
-    
-    // Ensure metadata has default values if not found
-    const finalMetadata = {
-      well: metadata.well || 'Unknown',
-      field: metadata.field || metadata.well || 'Unknown',
-      rigNumber: metadata.rigNumber || '203',
-      ticketNumber: metadata.ticketNumber || '',
-      jobStart: metadata.jobStart || '',
-      jobEnd: metadata.jobEnd || ''
-    };
-    
-    return { rows, metadata: finalMetadata };
+    lines = await extractTextLines(buffer);
   } catch (error) {
     console.error('Error processing PDF:', error);
     throw new Error('Failed to process PDF billing sheet');
   }
-}
 
-async function extractBillingDataFromPDF(buffer: Buffer): Promise<BillingSheetRow[]> {
-  try {
-    console.log('PDF processing initiated. Size:', buffer.length, 'bytes');
-    
-    // Extract text from PDF
-    const extractedText = await extractTextFromPDF(buffer);
-    
-    console.log('PDF text extraction completed. Text length:', extractedText.length);
-    
-    // Use OpenAI to intelligently parse the billing data
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert at extracting billing data from oil & gas drilling PDFs. 
-Extract EVERY billing row that has non-zero values in ANY of these columns:
-- BREAKDOWN RATE (may appear as "BREAKDO WN RATE" split across lines)
-- REDUCED RATE
-- Any other rate columns that indicate non-productive time
-
-CRITICAL INSTRUCTIONS:
-1. Look at the FIRST numeric column after DATE - this is BREAKDOWN RATE
-2. If this column has ANY non-zero value (0.50, 0.25, 4.00, 13.25, etc.), this is a BREAKDOWN RATE entry
-3. Extract ALL rows where BREAKDOWN RATE column > 0
-4. Pay special attention to dates: 17-05-2025, 23-05-2025, 30-05-2025 which have 0.50 BREAKDOWN RATE
-
-For each row, extract:
-- Date (in YYYY-MM-DD format)
-- Hours value from BREAKDOWN RATE column (if > 0, this is the rate type "BREAKDOWN RATE")
-- Hours value from REDUCED RATE column (if > 0, this is the rate type "REDUCED RATE")  
-- Total hours
-- Description of work performed
-
-NBT Type Classification:
-- BREAKDOWN RATE = "Abraj" NBT
-- REDUCED RATE = "Contractual" NBT
-- REPAIR RATE = "Abraj" NBT
-- ZERO RATE = "Abraj" NBT
-
-Look at EVERY row in the table. Some rows have multiple rate types - extract each non-zero rate as a separate entry.
-
-Return the data as a JSON object with a "rows" array. Format:
-{
-  "rows": [
-    {
-      "date": "YYYY-MM-DD",
-      "hours": number,
-      "rateType": "BREAKDOWN RATE" or "REDUCED RATE" etc,
-      "description": "string",
-      "nbtType": "Abraj" or "Contractual",
-      "system": "string (for Contractual)",
-      "ticketNumber": "string (if found)"
-    }
-  ]
-}`
-        },
-        {
-          role: 'user',
-          content: `Extract the billing data from this PDF text. Pay special attention to:
-1. BREAKDOWN RATE entries, especially those with 0.5 hours
-2. All dates in May 2025 (including 17-05-2025, 23-05-2025, 30-05-2025)
-3. Multiple entries on the same date
-4. Small hour values (0.5, 0.25, etc.)
-
-Make sure to extract EVERY row that shows non-productive time, even if they have small durations or appear multiple times.
-
-PDF text:
-${extractedText}`
-        }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.1
-    });
+  const metadata = extractMetadata(lines.map(line => line.text).join('\n'));
+  const parsedRows = parseBillingTable(lines);
+  const recognition = dictionary ?? await loadRecognitionDictionary();
+  const rows = parsedRows.flatMap(parsed => convertToBillingRows(parsed, metadata, recognition));
 
-    const parsedResponse = JSON.parse(response.choices[0].message.content || '{}');
-    const extractedRows = parsedResponse.rows || parsedResponse.data || [];
-    
-    // Log the extracted rows for debugging
-    console.log('OpenAI extracted rows:', JSON.stringify(extractedRows, null, 2));
-    
-    // Extract metadata from text
-    const metadata = extractMetadata(extractedText);
-    
-    // Convert extracted rows to BillingSheetRow format
-    const billingRows: BillingSheetRow[] = extractedRows.map((row: any) => {
-      const date = new Date(row.date);
-      const month = date.toLocaleString('en-US', { month: 'long' });
-      const year = date.getFullYear();
-      
-      // Determine system for Contractual NBT
-      let extractedSystem = row.system;
-      if (row.nbtType === 'Contractual' && !extractedSystem) {
-        // Try to match description against contractual categories
-        const lowerDesc = row.description.toLowerCase();
-        extractedSystem = CONTRACTUAL_CATEGORIES.find(cat => 
-          lowerDesc.includes(cat.toLowerCase())
-        ) || 'Service';
-      }
-      
-      return {
-        date,
-        rigNumber: metadata.rigNumber || row.ticketNumber?.match(/DR(\d{3})/)?.[1] || '203',
-        year,
-        month,
-        hours: parseFloat(row.hours) || 0,
-        nbtType: row.nbtType || 'Contractual',
-        rateType: row.rateType,
-        description: row.description,
-        wellName: metadata.well || 'BRN-96',
-        extractedSystem: row.nbtType === 'Contractual' ? extractedSystem : undefined,
-        extractedEquipment: undefined,
-        extractedFailure: undefined,
-        nptReportData: {
-          rigId: metadata.rigNumber || row.ticketNumber?.match(/DR(\d{3})/)?.[1] || '203',
-          date: row.date,
-          hours: parseFloat(row.hours) || 0,
-          nptType: row.nbtType || 'Contractual',
-          contractualProcess: row.nbtType === 'Contractual' ? row.description : undefined,
-          system: row.nbtType === 'Contractual' ? extractedSystem : undefined,
-          abrajMainCause: row.nbtType === 'Abraj' ? row.description : undefined,
-          wellName: metadata.well || 'BRN-96',
-          status: 'Draft'
-        }
-      };
-    });
-    
-    console.log(`Extracted ${billingRows.length} billing rows from PDF`);
-    
-    // Log detailed row information for debugging
-    console.log('\n=== Detailed Extraction Results ===');
-    billingRows.forEach((row, index) => {
-      console.log(`Row ${index + 1}:`, {
-        date: row.date.toLocaleDateString(),
-        hours: row.hours,
-        rateType: row.rateType,
-        nbtType: row.nbtType,
-        description: row.description.substring(0, 50) + '...'
-      });
-    });
-    
-    // Check for missing dates
-    const missingDates = ['2025-05-17', '2025-05-23', '2025-05-30'];
-    missingDates.forEach(date => {
-      const found = billingRows.find(row => {
-        const rowDate = row.date.toISOString().split('T')[0];
-        return rowDate === date && row.rateType === 'BREAKDOWN RATE';
-      });
-      if (!found) {
-        console.log(`⚠️  Missing BREAKDOWN RATE entry for ${date}`);
-      }
-    });
-    console.log('=================================\n');
-    
-    return billingRows;
-    
-  } catch (error) {
-    console.error('Error extracting PDF data:', error);
-    
-    // If extraction fails, return minimal sample data
-    return [{
-      date: new Date(),
-      rigNumber: '203',
-      year: new Date().getFullYear(),
-      month: new Date().toLocaleString('en-US', { month: 'long' }),
-      hours: 0,
-      nbtType: 'Contractual',
-      rateType: 'Other',
-      description: 'Failed to extract PDF data',
-      extractedSystem: 'Service',
-      extractedEquipment: undefined,
-      extractedFailure: undefined,
-      nptReportData: {
-        rigId: '203',
-        date: new Date().toISOString().split('T')[0],
-        hours: 0,
-        nptType: 'Contractual',
-        contractualProcess: 'Failed to extract PDF data',
-        system: 'Service',
-        wellName: 'Unknown',
-        status: 'Draft'
-      }
-    }];
+  const errors: string[] = [];
+  if (lines.length === 0) {
+    errors.push('No text found in PDF; scanned tickets must be entered manually');
+  } else if (parsedRows.length === 0) {
+    errors.push('No daily rate table found in PDF');
+  }
+  if (!metadata.rigNumber) {
+    errors.push('Rig number not found in ticket; set the rig on each row before creating reports');
   }
+  for (const parsed of parsedRows) {
+    for (const flag of parsed.flags) {
+      errors.push(`Page ${parsed.source.page}, line ${parsed.source.line}: ${flag}`);
+    }
+  }
+
+  return {
+    rows,
+    errors,
+    metadata: {
+      ...metadata,
+      well: metadata.well || 'Unknown',
+      field: metadata.field || metadata.well || 'Unknown',
+    },
+  };
 }
 
 function extractMetadata(text: string): {
-  well: string;
-  field: string;
+  well?: string;
+  field?: string;
   rigNumber?: string;
   jobStart?: string;
   jobEnd?: string;
   ticketNumber?: string;
+  rigSource?: string;
 } {
   const lines = text.split('\n');
   const metadata: any = {};
@@ -372,158 +292,337 @@ function extractMetadata(text: string): {
         const rigNumberMatch = ticketMatch[1].match(/DR(\d{3})/);
         if (rigNumberMatch) {
           metadata.rigNumber = rigNumberMatch[1];
+          metadata.rigSource = `ticket ${ticketMatch[1]}`;
         }
       }
     }
-  }
-  
-  // Fallback: Extract rig number from well name if not found in ticket
-  if (!metadata.rigNumber && metadata.well) {
-    const rigMatch = metadata.well.match(/\d+$/);
-    if (rigMatch) metadata.rigNumber = rigMatch[0];
+    if (!metadata.rigNumber) {
+      const rigMatch = line.match(/\bRig\s*(?:Number|No\.?|#)?\s*:\s*(\d{2,4})\b/i);
+      if (rigMatch) {
+        metadata.rigNumber = rigMatch[1];
+        metadata.rigSource = `"${rigMatch[0].trim()}" on the ticket`;
+      }
+    }
   }
   
   return metadata;
 }
 
-function extractBillingRows(text: string, metadata: any): BillingSheetRow[] {
-  const lines = text.split('\n');
-  const rows: BillingSheetRow[] = [];
-  
-  // Find the start of the data table
-  let dataStartIndex = -1;
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].includes('DATE') && lines[i].includes('DESCRIPTION')) {
-      dataStartIndex = i + 1;
-      break;
+function classifyHeader(label: string): TableField | undefined {
+  const key = label.toUpperCase().replace(/[^A-Z]/g, '');
+  const obm = key.startsWith('OBM');
+
+  if (key.startsWith('DATE')) return 'date';
+  if (key.includes('DESCRIPTION') || key.includes('REMARK') || key.includes('ACTIVITY')) return 'description';
+  if (key.includes('TOTAL')) return 'totalHours';
+  if (key.includes('OPERAT')) return obm ? 'obmOperatingRate' : 'operatingRate';
+  if (key.includes('SPECIAL')) return obm ? 'obmSpecialRate' : 'specialRate';
+  if (key.includes('REDUCEREPAIR') || key.includes('REDUCEDREPAIR')) return 'reduceRepairRate';
+  if (key.includes('REDUCE')) return obm ? 'obmReducedRate' : 'reducedRate';
+  if (key.includes('REPAIR') || key.includes('BREAKDOWN')) return obm ? 'obmRepairRate' : 'repairRate';
+  if (key.includes('ZERO')) return 'zeroRate';
+  if (key.includes('MOVE')) return 'rigMove';
+  return undefined;
+}
+
+function isDataLine(line: PdfTextLine): boolean {
+  const first = line.items[0]?.text.split(/\s+/)[0] || '';
+  return DATE_PATTERN.test(first);
+}
+
+// Header cells often wrap over two or three lines ("REDUCE / REPAIR / RATE"), so words are
+// grouped by horizontal position across the header band and joined top to bottom
+function detectColumns(lines: PdfTextLine[], dateLineIndex: number): TableColumn[] | null {
+  const page = lines[dateLineIndex].page;
+  const band: PdfTextLine[] = [];
+  for (let i = Math.max(0, dateLineIndex - 2); i < lines.length && lines[i].page === page; i++) {
+    if (i > dateLineIndex && isDataLine(lines[i])) break;
+    if (i > dateLineIndex + 3) break;
+    if (lines[i].text.includes(':')) continue;
+    band.push(lines[i]);
+  }
+
+  const clusters: { x: number; words: string[] }[] = [];
+  for (const item of band.flatMap(line => line.items)) {
+    const cluster = clusters.find(c => Math.abs(c.x - item.x) <= COLUMN_TOLERANCE);
+    if (cluster) {
+      cluster.words.push(item.text);
+    } else {
+      clusters.push({ x: item.x, words: [item.text] });
     }
   }
-  
-  if (dataStartIndex === -1) return rows;
-  
-  // Process each data row
-  for (let i = dataStartIndex; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line || line.includes('HOURS') || line.includes('DAYS') || line.includes('Amount')) break;
-    
-    const parsedRow = parseDataRow(line);
-    if (parsedRow) {
-      const billingRow = convertToBillingRow(parsedRow, metadata);
-      if (billingRow) rows.push(billingRow);
+
+  const columns: TableColumn[] = [];
+  for (const cluster of clusters.sort((a, b) => a.x - b.x)) {
+    const label = cluster.words.join(' ');
+    const field = classifyHeader(label);
+    if (field && !columns.some(column => column.field === field)) {
+      columns.push({ field, label, x: cluster.x });
     }
   }
-  
-  return rows;
+
+  const rateColumns = columns.filter(column => (RATE_COLUMNS as TableField[]).includes(column.field));
+  if (!columns.some(column => column.field === 'date') || rateColumns.length < 2) return null;
+  return columns;
 }
 
-function parseDataRow(line: string): ParsedBillingRow | null {
-  // Match date pattern at the beginning
-  const dateMatch = line.match(/^(\d{2}-\d{2}-\d{4})/);
-  if (!dateMatch) return null;
-  
-  const date = dateMatch[1];
-  const remainingLine = line.substring(dateMatch.index! + dateMatch[0].length).trim();
-  
-  // Extract numeric values (rates and hours)
-  const numbers = remainingLine.match(/[\d.]+/g);
-  if (!numbers || numbers.length < 7) return null;
-  
-  // Find description (text after the numbers)
-  const lastNumberIndex = remainingLine.lastIndexOf(numbers[numbers.length - 1]);
-  const description = remainingLine.substring(lastNumberIndex + numbers[numbers.length - 1].length).trim();
-  
-  // Map numbers to fields based on position
-  const parsedRow: ParsedBillingRow = {
+// The column a value belongs to is the right-most column whose header starts at or before it
+function columnAt(columns: TableColumn[], x: number): number {
+  let index = 0;
+  columns.forEach((column, i) => {
+    if (column.x - VALUE_TOLERANCE <= x) index = i;
+  });
+  return index;
+}
+
+function emptyRow(date: string, source: BillingRowSource): ParsedBillingRow {
+  return {
     date,
-    obmOperatingRate: parseFloat(numbers[0]) || 0,
-    obmReducedRate: parseFloat(numbers[1]) || 0,
-    operatingRate: parseFloat(numbers[2]) || 0,
-    reduceRepairRate: parseFloat(numbers[3]) || 0,
-    reducedRate: parseFloat(numbers[4]) || 0,
-    specialRate: parseFloat(numbers[5]) || 0,
-    totalHours: parseFloat(numbers[6]) || 0,
-    description
+    obmOperatingRate: 0,
+    obmReducedRate: 0,
+    operatingRate: 0,
+    reduceRepairRate: 0,
+    reducedRate: 0,
+    specialRate: 0,
+    description: '',
+    source,
+    flags: [],
+    flaggedFields: {},
   };
-  
-  // Handle rows with additional columns (like OBM SPECIAL RATE or RIG MOVE)
-  if (numbers.length > 7) {
-    parsedRow.obmSpecialRate = parseFloat(numbers[2]) || 0;
-    parsedRow.operatingRate = parseFloat(numbers[3]) || 0;
-    parsedRow.reduceRepairRate = parseFloat(numbers[4]) || 0;
-    parsedRow.reducedRate = parseFloat(numbers[5]) || 0;
-    if (numbers.length > 8) {
-      parsedRow.rigMove = parseFloat(numbers[6]) || 0;
-      parsedRow.specialRate = parseFloat(numbers[7]) || 0;
-      parsedRow.totalHours = parseFloat(numbers[8]) || 0;
-    } else {
-      parsedRow.specialRate = parseFloat(numbers[6]) || 0;
-      parsedRow.totalHours = parseFloat(numbers[7]) || 0;
+}
+
+function flagRow(row: ParsedBillingRow, field: ConfidenceField, message: string): void {
+  row.flags.push(message);
+  row.flaggedFields[field] = row.flaggedFields[field] || message;
+}
+
+function parseColumnRow(line: PdfTextLine, columns: TableColumn[]): ParsedBillingRow {
+  const [date, ...rest] = line.items[0].text.split(/\s+/);
+  const row = emptyRow(date, { page: line.page, line: line.line, text: line.text });
+  const description: string[] = [];
+  const filled = new Set<TableField>();
+
+  const items = rest.length > 0
+    ? [{ x: line.items[0].x + COLUMN_TOLERANCE, text: rest.join(' ') }, ...line.items.slice(1)]
+    : line.items.slice(1);
+
+  for (const item of items) {
+    const tokens = item.text.split(/\s+/);
+    let index = columnAt(columns, item.x);
+    if (tokens.length > 1 && tokens.every(token => NUMBER_PATTERN.test(token))) {
+      flagRow(row, 'hours', `Values "${item.text}" were printed together and split by column order`);
+    }
+
+    for (const token of tokens) {
+      const column = columns[index];
+      if (!NUMBER_PATTERN.test(token) || !column || column.field === 'description' || column.field === 'date') {
+        description.push(token);
+        continue;
+      }
+      const field: HoursField = column.field;
+      if (filled.has(field)) {
+        flagRow(row, 'hours', `More than one value in the ${column.label} column`);
+      } else {
+        row[field] = parseFloat(token);
+        filled.add(field);
+      }
+      index++;
     }
   }
-  
-  return parsedRow;
+
+  row.description = description.join(' ');
+  return row;
 }
 
-function convertToBillingRow(parsed: ParsedBillingRow, metadata: any): BillingSheetRow | null {
-  const [day, month, year] = parsed.date.split('-');
-  const parsedDate = new Date(`${year}-${month}-${day}`);
-  
-  // Skip Operating Rate entries - they should not generate NPT reports
-  if (parsed.operatingRate > 0 || parsed.obmOperatingRate > 0) {
-    return null;
+// Used when no header can be located: values are taken in the order the standard ticket prints them
+function parsePositionalRow(line: PdfTextLine): ParsedBillingRow | null {
+  const tokens = line.text.split(/\s+/);
+  const date = tokens[0];
+  const numbers: number[] = [];
+  let i = 1;
+  while (i < tokens.length && NUMBER_PATTERN.test(tokens[i])) {
+    numbers.push(parseFloat(tokens[i]));
+    i++;
   }
-  
-  // Determine rate type dynamically based on which column has hours
-  let rateType: BillingSheetRow['rateType'] = 'Other';
-  
-  // Dynamic rate type extraction based on which rate column has value
-  if (parsed.reduceRepairRate > 0) {
-    rateType = 'Repair Rate';
-  } else if (parsed.reducedRate > 0 || parsed.obmReducedRate > 0) {
-    rateType = 'Reduced Rate';
-  } else if (parsed.rigMove && parsed.rigMove > 0) {
-    rateType = 'Rig Move Statistical';
-  } else if (parsed.specialRate > 0 || parsed.obmSpecialRate && parsed.obmSpecialRate > 0) {
-    rateType = 'Other'; // Special rate
-  } else if (parsed.totalHours > 0) {
-    rateType = 'Zero Rate';
+  if (numbers.length < 7) return null;
+
+  const row = emptyRow(date, { page: line.page, line: line.line, text: line.text });
+  row.description = tokens.slice(i).join(' ');
+  const message = 'Rate table header not found; hours were assigned by column order';
+  flagRow(row, 'rateType', message);
+  row.flaggedFields.hours = message;
+
+  // Map numbers to fields based on position
+  const fields: RateColumn[] = numbers.length > 8
+    ? ['obmOperatingRate', 'obmReducedRate', 'obmSpecialRate', 'operatingRate', 'reduceRepairRate', 'reducedRate', 'rigMove', 'specialRate']
+    : numbers.length > 7
+      ? ['obmOperatingRate', 'obmReducedRate', 'obmSpecialRate', 'operatingRate', 'reduceRepairRate', 'reducedRate', 'specialRate']
+      : ['obmOperatingRate', 'obmReducedRate', 'operatingRate', 'reduceRepairRate', 'reducedRate', 'specialRate'];
+  fields.forEach((field, index) => {
+    row[field] = numbers[index];
+  });
+  row.totalHours = numbers[fields.length];
+  return row;
+}
+
+function normalizeDate(value: string): string | null {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return null;
+
+  const day = parseInt(match[1]);
+  const month = /^\d+$/.test(match[2]) ? parseInt(match[2]) : MONTHS.indexOf(match[2].toLowerCase()) + 1;
+  const year = parseInt(match[3]);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCDate() !== day || date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split('T')[0];
+}
+
+function validateRow(row: ParsedBillingRow, hasTotalColumn: boolean): void {
+  const normalized = normalizeDate(row.date);
+  if (!normalized) {
+    flagRow(row, 'date', `Unreadable date "${row.date}"`);
+  } else {
+    row.date = normalized;
   }
-  
+
+  const billed = RATE_COLUMNS
+    .filter(field => !OBM_RATE_COLUMNS.includes(field))
+    .reduce((sum, field) => sum + (row[field] || 0), 0);
+  const obm = OBM_RATE_COLUMNS.reduce((sum, field) => sum + (row[field] || 0), 0);
+  if (billed > 24) {
+    flagRow(row, 'hours', `Rate hours add up to ${billed}, more than a day`);
+  }
+  if (obm > billed + 0.01) {
+    flagRow(row, 'hours', `OBM hours add up to ${obm}, more than the ${billed} billed`);
+  }
+  if (hasTotalColumn && row.totalHours === undefined) {
+    flagRow(row, 'hours', 'Total hours missing');
+  } else if (row.totalHours !== undefined && Math.abs(billed - row.totalHours) > 0.01) {
+    flagRow(row, 'hours', `Rate hours add up to ${billed} but the total column shows ${row.totalHours}`);
+  }
+
+  const nptHours = NPT_RATE_COLUMNS.reduce((sum, { field }) => sum + (row[field] || 0), 0);
+  if (nptHours > 0 && !row.description.trim()) {
+    flagRow(row, 'description', 'No description for non-operating hours');
+  }
+}
+
+/**
+ * Rebuild the daily rate table from positioned PDF text. Column positions come from the
+ * header on each page (carried over to pages without one); description text that wraps
+ * onto following lines is joined back onto its day. Rows that cannot be read cleanly keep
+ * whatever was found and carry flags explaining why, rather than being filled in.
+ */
+export function parseBillingTable(lines: PdfTextLine[]): ParsedBillingRow[] {
+  const rows: ParsedBillingRow[] = [];
+  let columns: TableColumn[] | null = null;
+  let current: ParsedBillingRow | null = null;
+
+  lines.forEach((line, index) => {
+    const hasDateHeader = !isDataLine(line) && line.items.some(item => /^date$/i.test(item.text.trim()));
+    if (hasDateHeader) {
+      columns = detectColumns(lines, index) || columns;
+      current = null;
+      return;
+    }
+
+    if (isDataLine(line)) {
+      current = columns ? parseColumnRow(line, columns) : parsePositionalRow(line);
+      if (current) rows.push(current);
+      return;
+    }
+
+    // Wrapped description: a dateless line on the same page whose text sits in the description column
+    const descriptionColumn: TableColumn | undefined = (columns as TableColumn[] | null)?.find(column => column.field === 'description');
+    const row = current as ParsedBillingRow | null;
+    if (
+      row && descriptionColumn && line.page === row.source.page &&
+      line.items.every(item => item.x >= descriptionColumn.x - COLUMN_TOLERANCE)
+    ) {
+      row.description = `${row.description} ${line.text}`.trim();
+      row.source.lineEnd = line.line;
+      row.source.text = `${row.source.text}\n${line.text}`;
+      return;
+    }
+
+    current = null;
+  });
+
+  for (const row of rows) {
+    const tableColumns = columns as TableColumn[] | null;
+    validateRow(row, !!tableColumns?.some(column => column.field === 'totalHours'));
+  }
+
+  return rows;
+}
+
+// Each non-operating rate column with hours becomes its own row, as the ticket bills them separately
+export function convertToBillingRows(
+  parsed: ParsedBillingRow,
+  metadata: { rigNumber?: string; rigSource?: string; ticketNumber?: string; well?: string },
+  dictionary: RecognitionDictionary
+): BillingSheetRow[] {
+  // validateRow has already turned readable dates into yyyy-mm-dd
+  const validDate = /^\d{4}-\d{2}-\d{2}$/.test(parsed.date) ? new Date(`${parsed.date}T00:00:00.000Z`) : undefined;
+  const flags = metadata.rigNumber ? parsed.flags : [...parsed.flags, 'Rig number not found in ticket'];
+
   // Check if description matches any Contractual category
   const contractualCategory = matchContractualCategory(parsed.description);
-  const nbtType: 'Contractual' | 'Abroad' = contractualCategory ? 'Contractual' : 'Abroad';
   
-  // Extract equipment and system from description
-  const extraction = extractEquipmentAndSystem(parsed.description);
-  
-  // For Contractual NBT, the system should be the contractual category
-  const system = contractualCategory || extraction.system;
-  
-  // Create NPT report data
-  const nptReportData = contractualCategory ? {
-    rigId: metadata.rigNumber || '',
-    date: parsedDate.toISOString().split('T')[0],
-    hours: parsed.totalHours,
-    nptType: 'Contractual' as const,
-    contractualProcess: parsed.description, // Full description goes to contractual column
-    system: contractualCategory, // Category name goes to system column
-    status: 'Draft' as const
-  } : undefined;
-  
-  return {
-    rigNumber: metadata.rigNumber || '',
-    date: parsedDate,
-    year: parsedDate.getFullYear(),
-    month: parsedDate.toLocaleDateString('en-US', { month: 'short' }),
-    hours: parsed.totalHours,
-    nbtType,
-    rateType,
-    description: parsed.description,
-    extractedSystem: system,
-    extractedEquipment: extraction.equipment,
-    extractedFailure: extraction.failure,
-    nptReportData
+  // Extract equipment, system and failure from description
+  const extraction = dictionary.matchEquipment(parsed.description);
+  const { failure, match: failureMatch } = dictionary.matchFailure(parsed.description);
+  const descriptionMatches = [...extraction.matches, ...(failureMatch ? [failureMatch] : [])];
+
+  // Values read from their own column score high unless the row was flagged for that field
+  const where = `page ${parsed.source.page}, line ${parsed.source.line}`;
+  const fromTable = (field: ConfidenceField, detail: string) => {
+    const flag = parsed.flaggedFields[field];
+    return flag
+      ? fieldScore(field === 'date' ? 0 : 0.4, { kind: 'flag', detail: flag })
+      : fieldScore(0.95, { kind: 'column', detail });
   };
+  const rowConfidence: FieldConfidenceMap = {
+    rigNumber: metadata.rigNumber
+      ? fieldScore(0.9, { kind: 'inferred', detail: `Rig ${metadata.rigNumber} from ${metadata.rigSource || 'the ticket'}` })
+      : fieldScore(0, { kind: 'missing', detail: 'Rig number not found in ticket' }),
+    date: fromTable('date', `Date column, ${where}`),
+    description: parsed.description
+      ? fromTable('description', `Description column, ${where}`)
+      : fieldScore(0.1, { kind: 'missing', detail: parsed.flaggedFields.description || 'No description on the ticket line' }),
+  };
+
+  return NPT_RATE_COLUMNS
+    .filter(({ field }) => (parsed[field] || 0) > 0)
+    .map(({ field, rateType, nbtType }) => {
+      const fieldConfidence: FieldConfidenceMap = {
+        ...rowConfidence,
+        hours: fromTable('hours', `${rateType} column, ${where}`),
+        rateType: fromTable('rateType', `Hours are in the ${rateType} column`),
+        ...describeRecognition(parsed.description, descriptionMatches, nbtType, nbtType === 'Contractual' ? contractualCategory : undefined),
+      };
+      return {
+        rigNumber: metadata.rigNumber || '',
+        date: validDate,
+        year: validDate?.getUTCFullYear(),
+        month: validDate?.toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' }),
+        hours: parsed[field] || 0,
+        nbtType,
+        rateType,
+        description: parsed.description,
+        ticketNumber: metadata.ticketNumber,
+        wellName: metadata.well,
+        // For Contractual NBT, the system should be the contractual category
+        extractedSystem: nbtType === 'Contractual' ? contractualCategory || extraction.system : extraction.system,
+        extractedEquipment: extraction.equipment,
+        extractedFailure: failure,
+        recognitionMatches: descriptionMatches,
+        fieldConfidence,
+        confidence: overallConfidence(fieldConfidence),
+        source: parsed.source,
+        flags: flags.length > 0 ? flags : undefined,
+      };
+    });
 }
 
 // Check if description matches any Contractual category
@@ -550,86 +649,6 @@ function matchContractualCategory(description: string): string | undefined {
   return undefined;
 }
 
-function extractEquipmentAndSystem(description: string): {
-  system: string | undefined;
-  equipment: string | undefined;
-  failure: string | undefined;
-} {
-  const desc = description.toLowerCase();
-  
-  // System patterns
-  const systemPatterns = {
-    'Mud Pumps': /mud pump|pump|circulation/i,
-    'Mast': /mast|derrick/i,
-    'TDS': /tds|top drive/i,
-    'BOP': /bop|blow.*out|preventer/i,
-    'Rotary System': /rotary|rotary table/i,
-    'Electrical': /electrical|power|generator/i,
-    'Hydraulic': /hydraulic|hydraulics/i,
-    'Drilling Line': /drilling line|wire.*line/i,
-    'Cementing': /cement|cmt/i,
-    'Casing': /casing|csg/i,
-    'Logging': /logging|wireline|slickline/i
-  };
-  
-  // Equipment patterns  
-  const equipmentPatterns = {
-    'Pump': /pump \d+|pump #\d+|pump/i,
-    'Motor': /motor|engine/i,
-    'Valve': /valve|float valve/i,
-    'BOP Stack': /bop stack/i,
-    'Handling Tools': /handling tool/i,
-    'Rotary Table': /rotary table/i,
-    'Power Pack': /power pack/i,
-    'Control Panel': /control panel/i
-  };
-  
-  // Failure patterns
-  const failurePatterns = {
-    'failure': /fail|failure/i,
-    'leak': /leak/i,
-    'breakdown': /breakdown|broke down/i,
-    'malfunction': /malfunction/i,
-    'issue': /issue|problem/i,
-    'repair': /repair|fix/i,
-    'replace': /replace|change/i
-  };
-  
-  let system: string | undefined;
-  let equipment: string | undefined;
-  let failure: string | undefined;
-  
-  // Match patterns
-  for (const [name, pattern] of Object.entries(systemPatterns)) {
-    if (pattern.test(desc)) {
-      system = name;
-      break;
-    }
-  }
-  
-  for (const [name, pattern] of Object.entries(equipmentPatterns)) {
-    if (pattern.test(desc)) {
-      equipment = name;
-      break;
-    }
-  }
-  
-  for (const [name, pattern] of Object.entries(failurePatterns)) {
-    if (pattern.test(desc)) {
-      failure = desc.match(pattern)?.[0] || name;
-      break;
-    }
-  }
-  
-  // Special case for rig move
-  if (desc.includes('rig move') || desc.includes('rig down') || desc.includes('rig up')) {
-    system = 'Rig Move';
-    equipment = 'Rig Move';
-  }
-  
-  return { system, equipment, failure };
-}
-
 export function enhanceBillingRowWithNPTData(row: BillingSheetRow, metadata?: { well?: string }): BillingSheetRow {
   // Generate complete NPT report data from billing row
   const nptReportData: any = {
@@ -648,31 +667,16 @@ export function enhanceBillingRowWithNPTData(row: BillingSheetRow, metadata?: {
     nptReportData.partEquipment = row.extractedFailure || 'Equipment failure';
     nptReportData.department = 'Drilling'; // Default department
     nptReportData.immediateCause = row.description;
-    nptReportData.rootCause = `${row.rateType} rate issue - ${row.extractedFailure || 'operational issue'}`;
-    nptReportData.correctiveAction = `Addressed ${row.extractedEquipment || 'equipment'} issue`;
-    nptReportData.futureAction = 'Implement preventive maintenance program';
+    // Causes and actions are left for the reviewer unless an approved report suggests them
+    // (applyHistorySuggestions); generic filler would only be accepted unread
+    nptReportData.rootCause = null;
+    nptReportData.correctiveAction = null;
+    nptReportData.futureAction = null;
     nptReportData.actionParty = 'E.Maintenance'; // Default action party
   }
   
   return {
     ...row,
-    nptReportData,
-    confidence: calculateConfidence(row)
+    nptReportData
   };
 }
-
-function calculateConfidence(row: BillingSheetRow): number {
-  let confidence = 0.5; // Base confidence
-  
-  // Increase confidence based on extracted data
-  if (row.extractedSystem) confidence += 0.2;
-  if (row.extractedEquipment) confidence += 0.15;
-  if (row.extractedFailure) confidence += 0.15;
-  
-  // Adjust based on rate type clarity
-  if (row.rateType === 'Repair Rate' || row.rateType === 'Reduce Repair Rate') {
-    confidence += 0.1;
-  }
-  
-  return Math.min(confidence, 1.0);
-}
\ No newline at end of file
@@ -10,15 +10,22 @@ const isQuarter = (v: any) => {
 };
 import { BillingProcessor } from "./billingProcessor";
 import { processPDFBilling, enhanceBillingRowWithNPTData } from "./pdfProcessor";
-import { workflowService } from "./workflowService";
 import { lifecycleService } from "./lifecycleService";
-import { approvalService } from "./approvalService";
-import { serverNptReportSchema, insertNptReportSchema, insertRigSchema, insertSystemSchema, insertEquipmentSchema, insertDepartmentSchema, insertActionPartySchema, insertReportDeliverySchema, insertAlertRuleSchema, insertDelegationSchema, insertRoleAssignmentSchema } from "@shared/schema";
+import { ApprovalError, assertNoStatusEdit, escalateStalledApprovals, getApprovalHistory, getChangeRequestDiff, getPendingApprovalsForUser, recordApproval, recordEdit, routeFirstApprover, submitReport } from "./lib/approvals";
+import { serverNptReportSchema, insertNptReportSchema, insertRigSchema, insertSystemSchema, insertEquipmentSchema, insertDepartmentSchema, insertActionPartySchema, insertReportDeliverySchema, insertAlertRuleSchema, insertRoleAssignmentSchema, insertBillingColumnProfileSchema, insertRecognitionKeywordSchema, insertBillingReconciliationNoteSchema, insertRigAliasSchema, type NptReport, type Rig } from "@shared/schema";
 import workflowRouter from "./routes/workflows";
-import { NPT_STATUS } from "@shared/status";
-import type { BillingSheetRow } from "@shared/billingTypes";
+import { getJobStatuses, isScheduledJob, runJobNow } from "./lib/scheduler";
+import { ALERT_CODES, isAlertCode } from "./lib/alerts";
+import { checkBillingDuplicates } from "./services/billingDuplicates";
+import { invalidateRecognitionDictionary, validateRecognitionEntry } from "./services/recognitionDictionary";
+import { reconcileRigMonth } from "./services/billingReconciliation";
+import { formatRigLabel, groupRowsByRig, normalizeRigAlias, resolveRig } from "./services/rigResolver";
+import { applyHistorySuggestions, recordSuggestionFeedback, refreshSuggestionFeedback, getSuggestionAcceptanceReport } from "./services/suggestionHistory";
+import { NPT_STATUS, NPT_ACTIONS, normalizeNptStatus } from "@shared/status";
+import type { BillingSheetRow, BillingColumnMap, DuplicateResolution } from "@shared/billingTypes";
 import { z } from "zod";
 import multer from "multer";
+import { createHash } from "crypto";
 
 // Configure multer for file uploads
 const upload = multer({ 
@@ -409,9 +416,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const report = await storage.createNptReport(validatedData);
+      await lifecycleService.assertPeriodOpen(validatedData.rigId, validatedData.date);
+
+      // Reports start as drafts; asking for review is a submission through the approval machine
+      const report = await storage.createNptReport({ ...validatedData, status: NPT_STATUS.DRAFT });
+      await lifecycleService.syncNptReportDay(report.rigId, report.date, userId);
+      if (normalizeNptStatus(validatedData.status) === NPT_STATUS.PENDING_REVIEW) {
+        const { report: submitted } = await submitReport(report.id, userId);
+        return res.status(201).json(submitted);
+      }
       res.status(201).json(report);
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         console.log("Zod validation error:", JSON.stringify(error.errors, null, 2));
         return res.status(400).json({ message: "Validation failed", errors: error.errors });
@@ -450,6 +468,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const validatedData = insertNptReportSchema.partial().parse(req.body);
+      assertNoStatusEdit(existingReport, validatedData.status);
+      delete validatedData.status;
       
       // Business rule validations
       const fullData = { ...existingReport, ...validatedData };
@@ -457,6 +477,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (errors.length > 0) {
         return res.status(400).json({ message: "Validation failed", errors });
       }
+
+      // Neither the month the report is in nor the one it moves to may be closed
+      await lifecycleService.assertPeriodOpen(existingReport.rigId, existingReport.date);
+      await lifecycleService.assertPeriodOpen(fullData.rigId, fullData.date);
       
       // Convert hours to string for database storage
       const dataToUpdate: any = { ...validatedData };
@@ -464,8 +488,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         dataToUpdate.hours = dataToUpdate.hours.toString();
       }
       const report = await storage.updateNptReport(id, dataToUpdate);
+      await recordEdit(existingReport, report, userId);
+      // A report moved to another rig or day leaves its old slice as well as joining the new one
+      await lifecycleService.syncNptReports([existingReport, report], userId);
+
+      // Reviewer edits to values prefilled from billing are what the suggestions learn from
+      await refreshSuggestionFeedback(report);
+
       res.json(report);
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation failed", errors: error.errors });
       }
@@ -484,9 +518,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only admins can delete reports" });
       }
       
+      const existingReport = await storage.getNptReport(id);
+      if (existingReport) {
+        await lifecycleService.assertPeriodOpen(existingReport.rigId, existingReport.date);
+      }
       await storage.deleteNptReport(id);
+      if (existingReport) {
+        await lifecycleService.syncNptReportDay(existingReport.rigId, existingReport.date, userId);
+      }
       res.status(204).send();
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error deleting NPT report:", error);
       res.status(500).json({ message: "Failed to delete NPT report" });
     }
@@ -503,9 +547,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only supervisors and admins can approve reports" });
       }
       
-      const report = await storage.updateNptReport(id, { status: 'Approved' });
+      const { report } = await recordApproval(id, userId, NPT_ACTIONS.APPROVE, req.body?.comment, { override: true });
       res.json(report);
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error approving NPT report:", error);
       res.status(500).json({ message: "Failed to approve NPT report" });
     }
@@ -526,12 +573,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Rejection reason is required" });
       }
       
-      const report = await storage.updateNptReport(id, { 
-        status: 'Rejected',
-        rejectionReason: reason
-      });
+      const { report } = await recordApproval(id, userId, NPT_ACTIONS.REJECT, reason, { override: true });
       res.json(report);
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error rejecting NPT report:", error);
       res.status(500).json({ message: "Failed to reject NPT report" });
     }
@@ -757,6 +804,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rig aliases - other spellings that resolve to the rig ("Hoist 1", "RABA_12", ...)
+  app.get('/api/rig-aliases', isAuthenticated, async (req: any, res) => {
+    try {
+      const rigId = req.query.rigId ? parseInt(req.query.rigId) : undefined;
+      const aliases = await storage.getRigAliases(rigId);
+      res.json(aliases);
+    } catch (error) {
+      console.error("Error fetching rig aliases:", error);
+      res.status(500).json({ message: "Failed to fetch rig aliases" });
+    }
+  });
+
+  app.post('/api/rigs/:id/aliases', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage rig aliases" });
+      }
+
+      const rigId = parseInt(req.params.id);
+      const rig = await storage.getRig(rigId);
+      if (!rig) {
+        return res.status(404).json({ message: "Rig not found" });
+      }
+
+      const validatedData = insertRigAliasSchema.parse({ ...req.body, rigId });
+      const normalizedAlias = normalizeRigAlias(validatedData.alias);
+      if (!normalizedAlias) {
+        return res.status(400).json({ message: "Alias must contain letters or digits" });
+      }
+
+      // An alias can only ever point at one rig, and must not hide another rig's number
+      const existing = await resolveRig(validatedData.alias);
+      if (existing && existing.id !== rigId) {
+        return res.status(409).json({ message: `"${validatedData.alias}" already resolves to rig ${existing.rigNumber}` });
+      }
+      if (existing && (await storage.getRigByAlias(normalizedAlias))) {
+        return res.status(409).json({ message: `"${validatedData.alias}" is already an alias of this rig` });
+      }
+
+      const alias = await storage.createRigAlias({ ...validatedData, normalizedAlias, createdBy: userId });
+      res.status(201).json(alias);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error creating rig alias:", error);
+      res.status(500).json({ message: "Failed to create rig alias" });
+    }
+  });
+
+  app.delete('/api/rig-aliases/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can manage rig aliases" });
+      }
+
+      const alias = await storage.getRigAlias(parseInt(req.params.id));
+      if (!alias) {
+        return res.status(404).json({ message: "Alias not found" });
+      }
+
+      await storage.deleteRigAlias(alias.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting rig alias:", error);
+      res.status(500).json({ message: "Failed to delete rig alias" });
+    }
+  });
+
   // POST /api/rigs/import - Import rigs from Excel file
   app.post("/api/rigs/import", isAuthenticated, upload.single('file'), async (req: any, res) => {
     if (req.user?.claims?.sub) {
@@ -818,8 +940,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let result;
       
       if (fileExtension === 'pdf') {
-        // Process PDF file
-        const { rows, metadata } = await processPDFBilling(req.file.buffer);
+        // Process PDF file; rows the table extractor was unsure about come back flagged with their page and line
+        const { rows, errors, metadata } = await processPDFBilling(req.file.buffer);
         
         // Enhance rows with NPT data
         const enhancedRows = rows.map(row => enhanceBillingRowWithNPTData(row, metadata));
@@ -828,7 +950,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           fileName,
           totalRows: rows.length,
           processedRows: enhancedRows.length,
-          errors: [],
+          errors,
           extractedData: enhancedRows,
           recognitionSummary: {
             repairRateRows: enhancedRows.filter(r => r.rateType === 'Repair Rate').length,
@@ -838,31 +960,249 @@ export async function registerRoutes(app: Express): Promise<Server> {
             abroadRows: enhancedRows.filter(r => r.nbtType === 'Abroad').length,
           }
         };
+      } else if (fileExtension === 'xlsx' || fileExtension === 'xls') {
+        // Process Excel workbook, using the chosen sheet, header row and column profile
+        const profileId = req.body.profileId ? parseInt(req.body.profileId) : NaN;
+        const profile = !isNaN(profileId) ? await storage.getBillingColumnProfile(profileId) : undefined;
+        const headerRow = req.body.headerRow ? parseInt(req.body.headerRow) : undefined;
+
+        const billingProcessor = new BillingProcessor();
+        result = await billingProcessor.processWorkbook(fileName, req.file.buffer, {
+          sheetName: req.body.sheetName || profile?.sheetName || undefined,
+          headerRow: headerRow && headerRow > 0 ? headerRow : profile?.headerRow ?? undefined,
+          columnMap: (profile?.columnMap as BillingColumnMap | undefined) ?? undefined,
+        });
       } else {
-        // Process Excel/CSV file
+        // Process CSV/text file
         const fileContent = req.file.buffer.toString('utf-8');
         const billingProcessor = new BillingProcessor();
         result = await billingProcessor.processBillingSheet(fileName, fileContent);
       }
 
-      // Store upload record
-      await storage.saveBillingUpload({
+      // Prefer values from approved reports with similar descriptions over keyword placeholders
+      result.extractedData = await applyHistorySuggestions(result.extractedData);
+
+      // Split consolidated sheets by rig and flag rows for unknown or inactive rigs
+      const { rows: groupedRows, groups, warnings } = await groupRowsByRig(result.extractedData, fileName);
+      result = { ...result, extractedData: groupedRows, rigGroups: groups, warnings };
+
+      // The upload belongs to a rig only when every extracted row points at the same one
+      const uploadGroup = groups.length === 1 ? groups[0] : undefined;
+
+      // Store upload record together with its extracted rows
+      const savedUpload = await storage.saveBillingUpload({
         fileName,
+        fileHash: createHash('sha256').update(req.file.buffer).digest('hex'),
+        fileSize: req.file.size,
         uploadedBy: userId,
+        rigId: uploadGroup?.rigId ?? null,
+        rigNumber: uploadGroup?.rigNumber ?? null,
         status: result.errors.length === 0 ? 'Completed' : 'Failed',
         result
       });
 
-      res.json(result);
+      res.json({ ...result, uploadId: savedUpload.id });
     } catch (error) {
       console.error("Error processing billing upload:", error);
       res.status(500).json({ message: "Error processing file upload" });
     }
   });
 
+  // List workbook sheets with a preview so the user can choose the sheet and header row
+  app.post('/api/billing-upload/inspect', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const fileExtension = req.file.originalname.toLowerCase().split('.').pop();
+      if (fileExtension !== 'xlsx' && fileExtension !== 'xls') {
+        return res.status(400).json({ message: "Only Excel workbooks can be inspected" });
+      }
+
+      const billingProcessor = new BillingProcessor();
+      const sheets = await billingProcessor.inspectWorkbook(req.file.buffer);
+      res.json({ sheets });
+    } catch (error) {
+      console.error("Error inspecting workbook:", error);
+      res.status(500).json({ message: "Failed to read workbook" });
+    }
+  });
+
+  // Billing column mapping profiles
+  app.get('/api/billing-column-profiles', isAuthenticated, async (req: any, res) => {
+    try {
+      const profiles = await storage.getBillingColumnProfiles();
+      res.json(profiles);
+    } catch (error) {
+      console.error("Error fetching column profiles:", error);
+      res.status(500).json({ message: "Failed to fetch column profiles" });
+    }
+  });
+
+  app.post('/api/billing-column-profiles', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can create column profiles" });
+      }
+
+      const validatedData = insertBillingColumnProfileSchema.parse(req.body);
+      const profile = await storage.createBillingColumnProfile({ ...validatedData, createdBy: userId });
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error creating column profile:", error);
+      res.status(500).json({ message: "Failed to create column profile" });
+    }
+  });
+
+  app.put('/api/billing-column-profiles/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can update column profiles" });
+      }
+
+      const validatedData = insertBillingColumnProfileSchema.partial().parse(req.body);
+      const profile = await storage.updateBillingColumnProfile(parseInt(req.params.id), validatedData);
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating column profile:", error);
+      res.status(500).json({ message: "Failed to update column profile" });
+    }
+  });
+
+  app.delete('/api/billing-column-profiles/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can delete column profiles" });
+      }
+
+      await storage.deleteBillingColumnProfile(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting column profile:", error);
+      res.status(500).json({ message: "Failed to delete column profile" });
+    }
+  });
+
+  // Recognition dictionary used by the billing importers
+  app.get('/api/recognition-keywords', isAuthenticated, async (req: any, res) => {
+    try {
+      const keywords = await storage.getRecognitionKeywords();
+      res.json(keywords);
+    } catch (error) {
+      console.error("Error fetching recognition keywords:", error);
+      res.status(500).json({ message: "Failed to fetch recognition keywords" });
+    }
+  });
+
+  app.post('/api/recognition-keywords', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can add recognition keywords" });
+      }
+
+      const validatedData = insertRecognitionKeywordSchema.parse(req.body);
+      const problem = validateRecognitionEntry(validatedData);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const existing = await storage.getRecognitionKeywords();
+      if (existing.some(entry => entry.category === validatedData.category && entry.keyword === validatedData.keyword)) {
+        return res.status(409).json({ message: `"${validatedData.keyword}" is already in the dictionary` });
+      }
+
+      const entry = await storage.createRecognitionKeyword({ ...validatedData, createdBy: userId });
+      invalidateRecognitionDictionary();
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error creating recognition keyword:", error);
+      res.status(500).json({ message: "Failed to create recognition keyword" });
+    }
+  });
+
+  app.put('/api/recognition-keywords/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can update recognition keywords" });
+      }
+
+      const id = parseInt(req.params.id);
+      const existing = (await storage.getRecognitionKeywords()).find(entry => entry.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Recognition keyword not found" });
+      }
+
+      // Validate the entry as it will be stored, not just the fields sent
+      const validatedData = insertRecognitionKeywordSchema.partial().parse(req.body);
+      const problem = validateRecognitionEntry({ ...existing, ...validatedData });
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const entry = await storage.updateRecognitionKeyword(id, validatedData);
+      invalidateRecognitionDictionary();
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating recognition keyword:", error);
+      res.status(500).json({ message: "Failed to update recognition keyword" });
+    }
+  });
+
+  app.delete('/api/recognition-keywords/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can delete recognition keywords" });
+      }
+
+      await storage.deleteRecognitionKeyword(parseInt(req.params.id));
+      invalidateRecognitionDictionary();
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting recognition keyword:", error);
+      res.status(500).json({ message: "Failed to delete recognition keyword" });
+    }
+  });
+
   app.get('/api/billing-uploads', isAuthenticated, async (req: any, res) => {
     try {
-      const uploads = await storage.getBillingUploads();
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      // Drilling managers only see their own uploads, like their NPT reports
+      const uploads = await storage.getBillingUploads(
+        user?.role === 'drilling_manager' ? { uploadedBy: userId } : undefined
+      );
       res.json(uploads);
     } catch (error) {
       console.error("Error fetching billing uploads:", error);
@@ -870,6 +1210,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/billing-uploads/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid upload ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const stored = await storage.getBillingUpload(id);
+      if (!stored) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      if (user?.role === 'drilling_manager' && stored.upload.uploadedBy !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Rig registrations may have changed since the upload, so group again
+      const { upload, ...result } = stored;
+      const { rows, groups, warnings } = await groupRowsByRig(result.extractedData, result.fileName);
+      res.json({ ...result, extractedData: rows, rigGroups: groups, warnings });
+    } catch (error) {
+      console.error("Error fetching billing upload:", error);
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  // How often values prefilled from billing rows were kept by reviewers
+  app.get('/api/billing-suggestions/acceptance', isAuthenticated, async (req: any, res) => {
+    try {
+      const report = await getSuggestionAcceptanceReport();
+      res.json(report);
+    } catch (error) {
+      console.error("Error building suggestion acceptance report:", error);
+      res.status(500).json({ message: "Failed to fetch suggestion acceptance" });
+    }
+  });
+
+  // Check billing rows against existing NPT reports before converting them
+  app.post('/api/npt-reports/from-billing/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const { rows } = req.body;
+      if (!Array.isArray(rows)) {
+        return res.status(400).json({ message: "rows must be an array" });
+      }
+
+      const checks = await checkBillingDuplicates(rows);
+      res.json({
+        rows: checks,
+        summary: {
+          new: checks.filter(c => c.status === 'new').length,
+          exactDuplicates: checks.filter(c => c.status === 'exact_duplicate').length,
+          probableDuplicates: checks.filter(c => c.status === 'probable_duplicate').length,
+        }
+      });
+    } catch (error) {
+      console.error("Error checking billing duplicates:", error);
+      res.status(500).json({ message: "Failed to check for duplicate NPT reports" });
+    }
+  });
+
   app.post('/api/npt-reports/from-billing', isAuthenticated, async (req: any, res) => {
     try {
       const mode = req.query.mode === 'draft' ? 'draft' : 'review';
@@ -881,27 +1282,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Import and use the schema builder
-      const { buildBulkNptSchema } = await import('./schemas/nptBulkSchema.js');
+      const { buildBulkNptSchema, duplicateResolutionsSchema } = await import('./schemas/nptBulkSchema.js');
       const schema = buildBulkNptSchema(mode);
       
       // Validate input based on mode
-      const validationResult = schema.safeParse(req.body);
+      const validationResult = await schema.safeParseAsync(req.body);
       if (!validationResult.success && mode === 'review') {
         return res.status(400).json({ 
           message: "Validation failed",
           errors: validationResult.error.flatten()
         });
       }
-      
+
+      // Drafts may carry incomplete rows, but never unchecked duplicate resolutions
+      const resolutionsResult = duplicateResolutionsSchema.safeParse(req.body.resolutions);
+      if (!resolutionsResult.success) {
+        return res.status(400).json({
+          message: "Invalid duplicate resolutions",
+          errors: resolutionsResult.error.flatten()
+        });
+      }
+      const resolutions: Record<string, DuplicateResolution> = resolutionsResult.data ?? {};
       const { rows } = validationResult.success ? validationResult.data : req.body;
       const createdReports = [];
+      const overwrittenReports = [];
+      const replacedReports: NptReport[] = [];
+      const skippedRows: number[] = [];
       const errors = [];
 
-      for (const row of rows) {
+      // Rows matching existing reports need an explicit skip / overwrite / keep-both choice
+      const duplicateChecks = await checkBillingDuplicates(rows);
+      const unresolved = duplicateChecks.filter(check => check.status !== 'new' && !resolutions[check.rowIndex]);
+      if (unresolved.length > 0) {
+        return res.status(409).json({
+          message: `${unresolved.length} row(s) match existing NPT reports and need a resolution`,
+          duplicates: duplicateChecks
+        });
+      }
+
+      for (let index = 0; index < rows.length; index++) {
+        const row = rows[index];
+        const duplicateCheck = duplicateChecks[index];
+        const resolution = duplicateCheck.status === 'new' ? 'keep_both' : resolutions[index];
+
+        if (resolution === 'skip') {
+          skippedRows.push(index + 1);
+          continue;
+        }
+
         try {
-          // Find rig by number
-          const rigNumber = typeof row.rigNumber === 'string' ? parseInt(row.rigNumber) : row.rigNumber;
-          const rig = await storage.getRigByNumber(rigNumber);
+          // Find rig by number or any registered alias
+          const rig = await resolveRig(row.rigNumber);
           if (!rig) {
             errors.push(`Rig ${row.rigNumber} not found`);
             continue;
@@ -917,7 +1348,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               year: row.year,
               month: row.month,
               userId: user.id,
-              status: mode === 'draft' ? 'Draft' : (row.nptReportData.status || 'Pending')
+              status: NPT_STATUS.DRAFT
             };
           } else {
             // Fallback to basic extraction
@@ -942,25 +1373,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
               notificationNumber: row.notificationNumber || null,
               investigationWellName: row.investigationWellName || null,
               userId: user.id,
-              status: mode === 'draft' ? 'Draft' : 'Pending'
+              status: NPT_STATUS.DRAFT
             };
           }
 
-          const newReport = await storage.createNptReport(reportData);
+          if (resolution === 'overwrite') {
+            const target = duplicateCheck.matches[0];
+            if (!target) {
+              errors.push(`Row ${index + 1}: repeats row ${(duplicateCheck.duplicateOfRow ?? 0) + 1} of this upload, so there is no existing report to overwrite`);
+              continue;
+            }
+            const previousReport = await storage.getNptReport(target.reportId);
+            if (!previousReport) {
+              errors.push(`Row ${index + 1}: NPT report #${target.reportId} no longer exists`);
+              continue;
+            }
+            // Only the owner or an admin may overwrite, and never while approvers are deciding on it
+            if (previousReport.userId !== user.id && user.role !== 'admin') {
+              errors.push(`Row ${index + 1}: NPT report #${target.reportId} belongs to another user and cannot be overwritten`);
+              continue;
+            }
+            const previousStatus = normalizeNptStatus(previousReport.status);
+            if (previousStatus === NPT_STATUS.PENDING_REVIEW) {
+              errors.push(`Row ${index + 1}: NPT report #${target.reportId} is under review and cannot be overwritten`);
+              continue;
+            }
+            if (previousStatus === NPT_STATUS.APPROVED && user.role !== 'admin') {
+              errors.push(`Row ${index + 1}: NPT report #${target.reportId} is approved and cannot be overwritten`);
+              continue;
+            }
+
+            // Replace the report's content but keep its owner and workflow state
+            const { userId: _userId, status: _status, ...content } = reportData;
+            await lifecycleService.assertPeriodOpen(previousReport.rigId, previousReport.date);
+            await lifecycleService.assertPeriodOpen(reportData.rigId, reportData.date);
+            const updatedReport = await storage.updateNptReport(target.reportId, {
+              ...content,
+              billingFingerprint: duplicateCheck.fingerprint,
+            });
+            await recordEdit(previousReport, updatedReport, user.id);
+            replacedReports.push(previousReport);
+            if (row.suggestion) await recordSuggestionFeedback(updatedReport, row.suggestion);
+            overwrittenReports.push(updatedReport);
+            continue;
+          }
+
+          // Created as drafts; in review mode each one is then submitted for approval
+          await lifecycleService.assertPeriodOpen(reportData.rigId, reportData.date);
+          let newReport = await storage.createNptReport({
+            ...reportData,
+            billingFingerprint: duplicateCheck.fingerprint,
+          });
+          if (mode === 'review') {
+            newReport = (await submitReport(newReport.id, user.id)).report;
+          }
+          if (row.suggestion) await recordSuggestionFeedback(newReport, row.suggestion);
           createdReports.push(newReport);
           
         } catch (error) {
-          errors.push(`Row ${rows.indexOf(row) + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          errors.push(`Row ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
       }
 
+      // One pass over the affected rig-days rather than a monthly recalculation per row
+      await lifecycleService.syncNptReports([...replacedReports, ...overwrittenReports, ...createdReports], user.id);
+
+      const duplicateNote = [
+        overwrittenReports.length > 0 ? `${overwrittenReports.length} overwritten` : '',
+        skippedRows.length > 0 ? `${skippedRows.length} skipped as duplicates` : '',
+      ].filter(Boolean).join(', ');
+
       res.json({ 
         ok: true,
-        saved: createdReports.length,
-        message: mode === 'draft' 
+        saved: createdReports.length + overwrittenReports.length,
+        message: (mode === 'draft' 
           ? `Draft saved: ${createdReports.length} NPT report(s)` 
-          : `Successfully created ${createdReports.length} NPT reports${errors.length > 0 ? ` with ${errors.length} errors` : ''}`,
+          : `Successfully created ${createdReports.length} NPT reports${errors.length > 0 ? ` with ${errors.length} errors` : ''}`)
+          + (duplicateNote ? ` (${duplicateNote})` : ''),
         createdReports,
+        overwrittenReports,
+        skippedRows,
         errors
       });
     } catch (error) {
@@ -995,11 +1487,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const csvRows = [headers.join(',')];
       
+      const rigsById = new Map<number, Rig | undefined>();
       for (const report of filteredReports) {
-        const rig = await storage.getRig(report.rigId);
+        if (!rigsById.has(report.rigId)) rigsById.set(report.rigId, await storage.getRig(report.rigId));
         const row = [
           new Date(report.date).toLocaleDateString(),
-          rig?.rigNumber || '',
+          formatRigLabel(rigsById.get(report.rigId)),
           report.year,
           report.month,
           report.hours,
@@ -1039,8 +1532,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const stats = {
         totalReports: reports.length,
-        pendingReports: reports.filter(r => r.status === 'pending').length,
-        approvedReports: reports.filter(r => r.status === 'approved').length,
+        pendingReports: reports.filter(r => normalizeNptStatus(r.status) === NPT_STATUS.PENDING_REVIEW).length,
+        approvedReports: reports.filter(r => normalizeNptStatus(r.status) === NPT_STATUS.APPROVED).length,
         totalHours: reports.reduce((sum, r) => sum + parseFloat(r.hours), 0),
         avgHoursPerReport: reports.length > 0 ? 
           reports.reduce((sum, r) => sum + parseFloat(r.hours), 0) / reports.length : 0,
@@ -1093,23 +1586,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Only Tool Pushers can initiate workflow
-      if (user.role !== 'tool_pusher') {
+      if (user.role !== 'tool_pusher' && user.role !== 'admin') {
         return res.status(403).json({ message: "Only Tool Pushers can initiate workflow" });
       }
 
-      // Initialize workflow through lifecycle service
-      await lifecycleService.initializeWorkflow(reportId);
-      res.json({ message: "Workflow initiated successfully" });
+      const result = await submitReport(reportId, userId, req.body?.comments);
+      res.json({ message: "Workflow initiated successfully", ...result });
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error initiating workflow:", error);
       res.status(500).json({ message: "Failed to initiate workflow" });
     }
   });
 
+  // Older workflow screens send lower-case verbs; "edit" sends the report back to the author
+  const WORKFLOW_ACTIONS: Record<string, typeof NPT_ACTIONS.APPROVE | typeof NPT_ACTIONS.REJECT | typeof NPT_ACTIONS.REQUEST_CHANGES> = {
+    approve: NPT_ACTIONS.APPROVE,
+    reject: NPT_ACTIONS.REJECT,
+    edit: NPT_ACTIONS.REQUEST_CHANGES,
+    request_changes: NPT_ACTIONS.REQUEST_CHANGES,
+  };
+
   app.post('/api/npt-reports/:id/workflow-action', isAuthenticated, async (req: any, res) => {
     try {
       const reportId = parseInt(req.params.id);
-      const { action, comments, editedData } = req.body;
+      const { action, comments, fieldComments } = req.body;
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
       
@@ -1117,29 +1620,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "User not found" });
       }
 
-      const report = await storage.getNptReport(reportId);
-      if (!report) {
-        return res.status(404).json({ message: "Report not found" });
-      }
-
-      // Check if user can perform action based on report status and user role
-      const canPerform = ['tool_pusher', 'drilling_superintendent', 'operations_superintendent'].includes(user.role || '');
-      if (!canPerform) {
-        return res.status(403).json({ message: "You cannot perform actions on this report at this stage" });
+      const approvalAction = WORKFLOW_ACTIONS[String(action).toLowerCase()];
+      if (!approvalAction) {
+        return res.status(400).json({ message: `Unknown workflow action: ${action}` });
       }
 
-      // Process workflow action through lifecycle service
-      await lifecycleService.processWorkflowAction(
-        reportId,
-        userId,
-        user.role || '',
-        action,
-        comments,
-        editedData
-      );
-
-      res.json({ message: `Report ${action}ed successfully` });
+      const result = await recordApproval(reportId, userId, approvalAction, comments, { override: user.role === 'admin', fieldComments });
+      res.json({ message: `Report ${result.status.toLowerCase()}`, ...result });
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error processing workflow action:", error);
       res.status(500).json({ message: "Failed to process workflow action" });
     }
@@ -1148,25 +1639,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/npt-reports/pending-approval', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(403).json({ message: "User not found" });
-      }
-
-      // Map user role to workflow role
-      const roleMapping: Record<string, string> = {
-        'Tool Pusher': 'tool_pusher',
-        'Drilling Supervisor': 'ds',
-        'DS': 'ds',
-        'PME': 'pme',
-        'E-Maintenance Engineer': 'pme',
-        'OSE': 'ose',
-        'Operation Support Engineer': 'ose',
-      };
-      
-      const workflowRole = roleMapping[user.role || ''] || user.role?.toLowerCase() || '';
-      const reports = await storage.getReportsByApprover(workflowRole);
+      const reports = await getPendingApprovalsForUser(userId);
       res.json(reports);
     } catch (error) {
       console.error("Error fetching pending reports:", error);
@@ -1177,14 +1650,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/npt-reports/:id/workflow-history', isAuthenticated, async (req: any, res) => {
     try {
       const reportId = parseInt(req.params.id);
-      const approvals = await storage.getWorkflowApprovals(reportId);
-      res.json(approvals);
+      const history = await getApprovalHistory(reportId);
+      res.json(history);
     } catch (error) {
       console.error("Error fetching workflow history:", error);
       res.status(500).json({ message: "Failed to fetch workflow history" });
     }
   });
 
+  // The latest change request and a field-by-field diff of the report since; null if never sent back
+  app.get('/api/npt-reports/:id/change-request', isAuthenticated, async (req: any, res) => {
+    try {
+      const reportId = parseInt(req.params.id);
+      const diff = await getChangeRequestDiff(reportId);
+      res.json(diff);
+    } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error fetching change request:", error);
+      res.status(500).json({ message: "Failed to fetch change request" });
+    }
+  });
+
   app.post('/api/npt-reports/:id/submit', isAuthenticated, async (req: any, res) => {
     try {
       const reportId = parseInt(req.params.id);
@@ -1199,16 +1687,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only submit your own reports" });
       }
 
-      if (report.status !== NPT_STATUS.DRAFT) {
-        return res.status(400).json({ message: "Only draft reports can be submitted for approval" });
-      }
-
-      await storage.updateNptReport(reportId, {
-        status: NPT_STATUS.PENDING_REVIEW
-      });
-
-      res.json({ message: "Report submitted for approval successfully" });
+      const result = await submitReport(reportId, userId, req.body?.comment);
+      res.json({ message: "Report submitted for approval successfully", ...result });
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error submitting report for approval:", error);
       res.status(500).json({ message: "Failed to submit report for approval" });
     }
@@ -1218,23 +1702,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ENHANCED APPROVAL WORKFLOW WITH DELEGATIONS
   // =============================================================================
 
-  // Route report to next approver after submission
+  // Route a pending report that has no approver yet (e.g. one created before its rig had a workflow)
   app.post('/api/npt-reports/:id/route', isAuthenticated, async (req: any, res) => {
     try {
       const reportId = parseInt(req.params.id);
-      const result = await approvalService.computeNextApprover(reportId);
-      
-      if (result) {
+      const routed = await routeFirstApprover(reportId);
+
+      if (routed) {
+        const report = await storage.getNptReport(reportId);
         res.json({ 
           success: true, 
           routed: true, 
-          nextApprover: result.approver,
-          stepOrder: result.stepOrder
+          nextApprover: report?.currentApproverUserId,
+          stepOrder: report?.currentStepOrder
         });
       } else {
-        res.json({ success: true, routed: false, message: "No workflow defined or all steps completed" });
+        res.json({ success: true, routed: false, message: "Report is not pending review or no approver could be resolved" });
       }
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error routing report:", error);
       res.status(500).json({ message: "Failed to route report" });
     }
@@ -1263,13 +1751,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           let waitingOnRole = "";
           let waitingOnEmail = "";
 
-          if (report.currentApproverUserId) {
-            const approver = await storage.getUser(report.currentApproverUserId);
-            if (approver) {
-              waitingOn = approver.firstName || approver.email || "Unknown User";
-              waitingOnEmail = approver.email || "";
-              waitingOnRole = approver.role || "";
-            }
+          // A parallel step group can be waiting on several approvers at once
+          const approverIds = report.currentApproverUserIds ?? (report.currentApproverUserId ? [report.currentApproverUserId] : []);
+          const approvers = (await Promise.all(approverIds.map(id => storage.getUser(id)))).filter(Boolean);
+          if (approvers.length > 0) {
+            waitingOn = approvers.map(approver => approver!.firstName || approver!.email || "Unknown User").join(", ");
+            waitingOnEmail = approvers.map(approver => approver!.email || "").filter(Boolean).join(", ");
+            waitingOnRole = Array.from(new Set(approvers.map(approver => approver!.role || ""))).join(", ");
           }
 
           return {
@@ -1290,31 +1778,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Process approval (approve/reject)
+  // Process approval (approve/reject/request changes)
   app.post('/api/approvals/:reportId/approve', isAuthenticated, async (req: any, res) => {
     try {
       const reportId = parseInt(req.params.reportId);
       const userId = req.user.claims.sub;
-      const { action, comment } = req.body;
-
-      const result = await approvalService.processApproval({
-        reportId,
-        userId,
-        action: action || "APPROVE",
-        comment
-      });
+      const user = await storage.getUser(userId);
+      const { action = NPT_ACTIONS.APPROVE, comment, fieldComments } = req.body;
 
-      if (!result.success) {
-        return res.status(403).json({ message: "Not authorized to approve this report" });
+      if (![NPT_ACTIONS.APPROVE, NPT_ACTIONS.REJECT, NPT_ACTIONS.REQUEST_CHANGES].includes(action)) {
+        return res.status(400).json({ message: `Unknown approval action: ${action}` });
       }
 
+      const result = await recordApproval(reportId, userId, action, comment, { override: user?.role === 'admin', fieldComments });
+
       res.json({
         success: true,
-        finalStatus: result.finalStatus,
-        nextApprover: result.nextApprover,
-        message: result.finalStatus ? `Report ${result.finalStatus.toLowerCase()}` : "Approval processed"
+        status: result.status,
+        nextApprover: result.nextApproverUserId,
+        message: `Report ${result.status.toLowerCase()}`
       });
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error processing approval:", error);
       res.status(500).json({ message: "Failed to process approval" });
     }
@@ -1324,7 +1811,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/npt-reports/:id/approval-history', isAuthenticated, async (req: any, res) => {
     try {
       const reportId = parseInt(req.params.id);
-      const history = await approvalService.getApprovalHistory(reportId);
+      const history = await getApprovalHistory(reportId);
       res.json(history);
     } catch (error) {
       console.error("Error fetching approval history:", error);
@@ -1332,64 +1819,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // DELEGATION MANAGEMENT ROUTES
-
-  // Get delegations
-  app.get('/api/delegations', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user.claims.sub;
-      const { rigId } = req.query;
-      
-      // Get delegations where user is delegator or delegate
-      const delegations = await storage.getDelegations({
-        userId,
-        rigId: rigId ? parseInt(rigId) : undefined
-      });
-      
-      res.json(delegations);
-    } catch (error) {
-      console.error("Error fetching delegations:", error);
-      res.status(500).json({ message: "Failed to fetch delegations" });
-    }
-  });
-
-  // Create delegation
-  app.post('/api/delegations', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user.claims.sub;
-      const delegationData = insertDelegationSchema.parse({
-        ...req.body,
-        delegatorUserId: userId
-      });
-      
-      const delegation = await storage.createDelegation(delegationData);
-      res.json(delegation);
-    } catch (error) {
-      console.error("Error creating delegation:", error);
-      res.status(500).json({ message: "Failed to create delegation" });
-    }
-  });
-
-  // Delete delegation
-  app.delete('/api/delegations/:id', isAuthenticated, async (req: any, res) => {
-    try {
-      const delegationId = parseInt(req.params.id);
-      const userId = req.user.claims.sub;
-      
-      // Verify ownership before deletion
-      const delegation = await storage.getDelegation(delegationId);
-      if (!delegation || delegation.delegatorUserId !== userId) {
-        return res.status(403).json({ message: "Cannot delete delegation" });
-      }
-      
-      await storage.deleteDelegation(delegationId);
-      res.json({ success: true, message: "Delegation deleted" });
-    } catch (error) {
-      console.error("Error deleting delegation:", error);
-      res.status(500).json({ message: "Failed to delete delegation" });
-    }
-  });
-
   // =============================================================================
   // LIFECYCLE TRACKING ROUTES (Monthly NPT Reports with daily granularity)
   // =============================================================================
@@ -1522,6 +1951,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reopen an approved (closed) month so its NPT reports can be corrected
+  app.post('/api/monthly-reports/:id/reopen', isAuthenticated, async (req: any, res) => {
+    try {
+      const reportId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+
+      if (!reason) {
+        return res.status(400).json({ message: "A reason for reopening is required" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (user?.role?.toLowerCase() !== 'admin') {
+        return res.status(403).json({ message: "Only admins can reopen a closed month" });
+      }
+
+      const report = await lifecycleService.reopenReport(reportId, userId, reason);
+      res.json(report);
+    } catch (error) {
+      console.error("Error reopening monthly report:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reopen monthly report" });
+    }
+  });
+
   // Get timeline data for a monthly report (day slices + stage events)
   app.get('/api/monthly-reports/:id/timeline', isAuthenticated, async (req: any, res) => {
     try {
@@ -1534,6 +1987,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Billing sheet vs NPT reports for one rig-month, day by day
+  app.get('/api/billing-reconciliation', isAuthenticated, async (req: any, res) => {
+    try {
+      const rigId = parseInt(req.query.rigId);
+      const month = String(req.query.month || '');
+      if (isNaN(rigId) || !/^\d{4}-\d{2}$/.test(month)) {
+        return res.status(400).json({ message: "rigId and month (YYYY-MM) are required" });
+      }
+
+      const reconciliation = await reconcileRigMonth(rigId, month);
+      res.json(reconciliation);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Rig not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error reconciling billing:", error);
+      res.status(500).json({ message: "Failed to reconcile billing with NPT reports" });
+    }
+  });
+
+  // Explain a day's variance so the monthly report can be approved
+  app.post('/api/billing-reconciliation/notes', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const data = insertBillingReconciliationNoteSchema.parse(req.body);
+      if (!data.date.startsWith(data.month)) {
+        return res.status(400).json({ message: "Date must fall within the month" });
+      }
+      // Explanations clear variances for approval, so only people answerable for the rig may add them
+      const user = await storage.getUser(userId);
+      if (!['admin', 'supervisor'].includes(user?.role?.toLowerCase() || '')) {
+        const assignments = await storage.getRoleAssignments(data.rigId);
+        if (!assignments.some(a => a.userId === userId && a.isActive)) {
+          return res.status(403).json({ message: "Only admins, supervisors and the rig's assigned approvers can explain a variance" });
+        }
+      }
+      await lifecycleService.assertPeriodOpen(data.rigId, data.date);
+
+      const note = await storage.createReconciliationNote({ ...data, createdBy: userId });
+      res.status(201).json(note);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error creating reconciliation note:", error);
+      res.status(500).json({ message: "Failed to save explanation" });
+    }
+  });
+
+  app.delete('/api/billing-reconciliation/notes/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const note = await storage.getReconciliationNote(parseInt(req.params.id));
+      if (!note) {
+        return res.status(404).json({ message: "Explanation not found" });
+      }
+      if (note.createdBy !== userId && user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only the author or an admin can remove an explanation" });
+      }
+
+      await storage.deleteReconciliationNote(note.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting reconciliation note:", error);
+      res.status(500).json({ message: "Failed to delete explanation" });
+    }
+  });
+
   // Update day slice
   app.put('/api/monthly-reports/:id/days/:date', isAuthenticated, async (req: any, res) => {
     try {
@@ -1545,6 +2070,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const daySlice = await lifecycleService.updateDaySlice(reportId, date, dayData, userId);
       res.json(daySlice);
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error updating day slice:", error);
       res.status(500).json({ message: "Failed to update day slice" });
     }
@@ -1561,11 +2089,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const daySlice = await lifecycleService.linkNptReportToDay(reportId, date, nptReportIds, userId);
       res.json(daySlice);
     } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error linking NPT reports to day:", error);
       res.status(500).json({ message: "Failed to link NPT reports to day" });
     }
   });
 
+  // Rigs a user answers for on missing entries: all active rigs for admins and supervisors, otherwise those they are toolpusher on
+  const missingEntryRigIds = async (userId: string): Promise<number[]> => {
+    const user = await storage.getUser(userId);
+    const rigs = await storage.getRigs();
+    if (['admin', 'supervisor'].includes(user?.role?.toLowerCase() || '')) {
+      return rigs.map(rig => rig.id);
+    }
+    const assignments = await storage.getRoleAssignments();
+    return rigs
+      .filter(rig => assignments.some(a => a.rigId === rig.id && a.userId === userId && a.roleKey === 'toolpusher' && a.isActive))
+      .map(rig => rig.id);
+  };
+
+  // Recent days with no NPT entry on the user's rigs, newest first
+  app.get('/api/missing-entries', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const dayCount = Math.min(Math.max(parseInt(req.query.days) || 7, 1), 31);
+
+      const today = new Date(new Date().toISOString().split('T')[0] + 'T00:00:00.000Z');
+      const days = Array.from({ length: dayCount }, (_, i) => new Date(today.getTime() - (i + 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
+
+      const rigs = await storage.getRigs();
+      const items = [];
+      for (const rigId of await missingEntryRigIds(userId)) {
+        const rig = rigs.find(r => r.id === rigId);
+        for (const date of await lifecycleService.getMissingDays(rigId, days)) {
+          items.push({ rigId, rigNumber: rig?.rigNumber ?? null, date });
+        }
+      }
+      items.sort((a, b) => b.date.localeCompare(a.date) || (a.rigNumber ?? 0) - (b.rigNumber ?? 0));
+
+      res.json({ items });
+    } catch (error) {
+      console.error("Error fetching missing entries:", error);
+      res.status(500).json({ message: "Failed to fetch missing entries" });
+    }
+  });
+
+  // One click from a toolpusher: the rig had no NPT on this day
+  app.post('/api/rigs/:rigId/days/:date/zero-npt', isAuthenticated, async (req: any, res) => {
+    try {
+      const rigId = parseInt(req.params.rigId);
+      const userId = req.user.claims.sub;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(req.params.date)) {
+        return res.status(400).json({ message: "Date must be YYYY-MM-DD" });
+      }
+
+      if (!(await missingEntryRigIds(userId)).includes(rigId)) {
+        return res.status(403).json({ message: "Only the rig's toolpusher, supervisors and admins can confirm zero NPT" });
+      }
+
+      const daySlice = await lifecycleService.confirmZeroNpt(rigId, req.params.date, userId);
+      res.json(daySlice);
+    } catch (error) {
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error confirming zero NPT:", error);
+      res.status(500).json({ message: "Failed to confirm zero NPT" });
+    }
+  });
+
   // Get KPIs and analytics
   app.get('/api/lifecycle/kpis', isAuthenticated, async (req: any, res) => {
     try {
@@ -1693,6 +2287,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const validatedData = insertAlertRuleSchema.parse(req.body);
+      if (!isAlertCode(validatedData.code)) {
+        return res.status(400).json({ message: `Unknown alert code; expected one of ${ALERT_CODES.join(', ')}` });
+      }
       const rule = await storage.createAlertRule(validatedData);
       res.status(201).json(rule);
     } catch (error) {
@@ -1714,6 +2311,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only admins can update alert rules" });
       }
       
+      if (req.body.code !== undefined && !isAlertCode(req.body.code)) {
+        return res.status(400).json({ message: `Unknown alert code; expected one of ${ALERT_CODES.join(', ')}` });
+      }
       const updatedRule = await storage.updateAlertRule(parseInt(id), req.body);
       res.json(updatedRule);
     } catch (error) {
@@ -1790,6 +2390,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Load the built-in billing keywords into the recognition dictionary
+  app.post('/api/admin/seed-recognition-dictionary', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const currentUser = await storage.getUser(userId);
+      
+      if (currentUser?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can seed data" });
+      }
+      
+      const { seedRecognitionDictionary } = await import('./scripts/seedRecognitionDictionary.js');
+      const result = await seedRecognitionDictionary(userId);
+      invalidateRecognitionDictionary();
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error('Error seeding recognition dictionary:', error);
+      res.status(500).json({ error: 'Failed to seed recognition dictionary' });
+    }
+  });
+
   // Backfill routing endpoint (for admin testing)
   app.post('/api/admin/backfill-routing', isAuthenticated, async (req: any, res) => {
     try {
@@ -1809,6 +2429,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Merge the legacy workflow_approvals trail into npt_approvals (run once after upgrading)
+  app.post('/api/admin/merge-approval-trails', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const currentUser = await storage.getUser(userId);
+      
+      if (currentUser?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can migrate data" });
+      }
+      
+      const { mergeApprovalTrails } = await import('./scripts/mergeApprovalTrails.js');
+      const result = await mergeApprovalTrails();
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error('Error merging approval trails:', error);
+      res.status(500).json({ error: 'Failed to merge approval trails' });
+    }
+  });
+
+  // Remind and escalate NPT approval steps past their SLA now, instead of waiting for the next check
+  app.post('/api/admin/escalate-stalled-approvals', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const currentUser = await storage.getUser(userId);
+
+      if (currentUser?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can run approval escalations" });
+      }
+
+      const result = await escalateStalledApprovals();
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error('Error escalating stalled approvals:', error);
+      res.status(500).json({ message: 'Failed to escalate stalled approvals' });
+    }
+  });
+
+  // Background jobs: last run and outcome of each scheduled check
+  app.get('/api/admin/jobs', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (currentUser?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can view background jobs" });
+      }
+
+      res.json(await getJobStatuses());
+    } catch (error) {
+      console.error('Error fetching background jobs:', error);
+      res.status(500).json({ message: 'Failed to fetch background jobs' });
+    }
+  });
+
+  // Run a scheduled job now instead of waiting for its next turn
+  app.post('/api/admin/jobs/:name/run', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (currentUser?.role !== 'admin') {
+        return res.status(403).json({ message: "Only admins can run background jobs" });
+      }
+      if (!isScheduledJob(req.params.name)) {
+        return res.status(404).json({ message: "Unknown job" });
+      }
+
+      const job = await runJobNow(req.params.name);
+      if (!job) {
+        return res.status(409).json({ message: "This job is already running" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error('Error running background job:', error);
+      res.status(500).json({ message: 'Failed to run background job' });
+    }
+  });
+
   // Seed approvals endpoint (for testing)
   app.post('/api/admin/seed-approvals', isAuthenticated, async (req: any, res) => {
     try {
@@ -1819,7 +2513,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only admins can seed data" });
       }
       
-      // Create test NPT reports and route them manually for now
+      // Create test NPT reports as drafts and submit them so they are routed like real ones
       const rigId = 2; // Rig 104
       
       const testReports = [
@@ -1838,13 +2532,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           department: 'E-Maintenance',
           actionParty: 'E.Maintenance',
           wellName: 'Well A-101',
-          status: 'PENDING_REVIEW',
-          currentStepOrder: 1,
-          currentApproverUserId: 'toolpusher-001', // John's ID from workflow assignments
+          status: NPT_STATUS.DRAFT,
         }
       ];
 
       const createdReports = await storage.createNptReports(testReports);
+      for (const report of createdReports) {
+        await submitReport(report.id, report.userId);
+      }
       
       res.json({ 
         success: true, 
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { nptReports, nptApprovals, users } from '@shared/schema';
-import { eq, and, desc } from 'drizzle-orm';
+import { nptReports, nptApprovals, users, rigs } from '@shared/schema';
+import { eq, desc } from 'drizzle-orm';
 // Use the auth middleware from the main routes file
 const isAuthenticated = (req: any, res: any, next: any) => {
   if (!req.user?.claims?.sub) {
@@ -9,7 +9,8 @@ const isAuthenticated = (req: any, res: any, next: any) => {
   }
   next();
 };
-import { recordApproval } from '../lib/approvals';
+import { ApprovalError, awaitingApprover, recordApproval, recordBulkApprovals, recordTokenApproval } from '../lib/approvals';
+import { checkApprovalToken } from '../lib/approvalLinks';
 
 const router = Router();
 
@@ -22,10 +23,7 @@ router.get('/api/my-approvals/pending', isAuthenticated, async (req: any, res) =
     }
 
     const items = await db.query.nptReports.findMany({
-      where: and(
-        eq(nptReports.status, 'PENDING_REVIEW'),
-        eq(nptReports.currentApproverUserId, userId)
-      ),
+      where: awaitingApprover(userId),
       orderBy: [desc(nptReports.date)],
       with: {
         rig: {
@@ -52,10 +50,11 @@ router.get('/api/my-approvals/pending', isAuthenticated, async (req: any, res) =
         hours: item.hours,
         nptType: item.nptType,
         status: item.status,
+        editedAt: item.editedAt,
         currentStepOrder: item.currentStepOrder,
         rigName: `Rig ${item.rig?.rigNumber}`,
         submittedBy: submitter ? `${submitter.firstName} ${submitter.lastName}` : 'Unknown',
-        isDelegated: item.currentNominalUserId !== userId,
+        isDelegated: item.currentApproverUserId === userId && item.currentNominalUserId !== userId,
         delegatedFrom: nominal ? `${nominal.firstName} ${nominal.lastName}` : null,
         problem: item.immediateCause || item.rootCause,
         system: item.system,
@@ -125,14 +124,12 @@ router.post('/api/approvals/:id/approve', isAuthenticated, async (req: any, res)
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const success = await recordApproval(reportId, userId, 'APPROVE', comment);
-    
-    if (success) {
-      res.json({ success: true });
-    } else {
-      res.status(400).json({ error: 'Failed to approve report' });
-    }
+    const result = await recordApproval(reportId, userId, 'APPROVE', comment);
+    res.json({ success: true, status: result.status, nextApprover: result.nextApproverUserId });
   } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Error approving report:', error);
     res.status(500).json({ error: 'Failed to approve report' });
   }
@@ -149,14 +146,12 @@ router.post('/api/approvals/:id/reject', isAuthenticated, async (req: any, res)
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const success = await recordApproval(reportId, userId, 'REJECT', comment);
-    
-    if (success) {
-      res.json({ success: true });
-    } else {
-      res.status(400).json({ error: 'Failed to reject report' });
-    }
+    const result = await recordApproval(reportId, userId, 'REJECT', comment);
+    res.json({ success: true, status: result.status, nextApprover: result.nextApproverUserId });
   } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Error rejecting report:', error);
     res.status(500).json({ error: 'Failed to reject report' });
   }
@@ -167,23 +162,126 @@ router.post('/api/approvals/:id/request-changes', isAuthenticated, async (req: a
   try {
     const userId = req.user?.claims?.sub;
     const reportId = parseInt(req.params.id);
-    const { comment } = req.body;
+    const { comment, fieldComments } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const success = await recordApproval(reportId, userId, 'REQUEST_CHANGES', comment);
-    
-    if (success) {
-      res.json({ success: true });
-    } else {
-      res.status(400).json({ error: 'Failed to request changes' });
-    }
+    const result = await recordApproval(reportId, userId, 'REQUEST_CHANGES', comment, { fieldComments });
+    res.json({ success: true, status: result.status, nextApprover: result.nextApproverUserId });
   } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Error requesting changes:', error);
     res.status(500).json({ error: 'Failed to request changes' });
   }
 });
 
+// Decisions as the bulk and emailed-link endpoints name them
+const DECISIONS = {
+  approve: 'APPROVE',
+  reject: 'REJECT',
+  'request-changes': 'REQUEST_CHANGES',
+} as const;
+const MAX_BULK_ITEMS = 200;
+
+// POST: one decision and comment for many reports, with a result per report
+router.post('/api/approvals/bulk', isAuthenticated, async (req: any, res) => {
+  try {
+    const userId = req.user?.claims?.sub;
+    const { action, comment, items } = req.body;
+
+    const approvalAction = DECISIONS[action as keyof typeof DECISIONS];
+    if (!approvalAction) {
+      return res.status(400).json({ error: `Unknown bulk action: ${action}` });
+    }
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_BULK_ITEMS) {
+      return res.status(400).json({ error: `Select between 1 and ${MAX_BULK_ITEMS} reports` });
+    }
+    if (approvalAction !== 'APPROVE' && !comment?.trim()) {
+      return res.status(400).json({ error: approvalAction === 'REJECT' ? 'A rejection reason is required' : 'A comment is required when requesting changes' });
+    }
+    // Every report is checked against the edit it was listed with, so each item must carry it
+    if (items.some((item: any) => typeof item?.editedAt !== 'string' || isNaN(Date.parse(item.editedAt)))) {
+      return res.status(400).json({ error: 'Each report needs the editedAt it was listed with' });
+    }
+
+    const results = await recordBulkApprovals(
+      userId,
+      approvalAction,
+      items.map((item: any) => ({ reportId: Number(item.reportId), editedAt: item.editedAt })),
+      comment
+    );
+    const succeeded = results.filter(result => result.success).length;
+    res.json({ succeeded, failed: results.length - succeeded, results });
+  } catch (error) {
+    console.error('Error processing bulk approvals:', error);
+    res.status(500).json({ error: 'Failed to process bulk approvals' });
+  }
+});
+
+// GET: what an emailed approval link is for. No session: the link itself is the credential
+router.get('/api/approval-links/:token', async (req, res) => {
+  try {
+    const check = await checkApprovalToken(req.params.token);
+    if (!check.valid) {
+      return res.status(check.statusCode).json({ error: check.reason });
+    }
+
+    const { token, report } = check;
+    const [approver, submitter, rig] = await Promise.all([
+      db.query.users.findFirst({ where: eq(users.id, token.approverUserId), columns: { firstName: true, lastName: true } }),
+      db.query.users.findFirst({ where: eq(users.id, report.userId), columns: { firstName: true, lastName: true } }),
+      db.query.rigs.findFirst({ where: eq(rigs.id, report.rigId), columns: { rigNumber: true } }),
+    ]);
+
+    res.json({
+      stepOrder: token.stepOrder,
+      expiresAt: token.expiresAt,
+      approverName: [approver?.firstName, approver?.lastName].filter(Boolean).join(' '),
+      report: {
+        id: report.id,
+        date: report.date,
+        hours: report.hours,
+        nptType: report.nptType,
+        rigNumber: rig?.rigNumber ?? null,
+        department: report.department,
+        system: report.system,
+        parentEquipment: report.parentEquipment,
+        partEquipment: report.partEquipment,
+        immediateCause: report.immediateCause,
+        rootCause: report.rootCause,
+        correctiveAction: report.correctiveAction,
+        wellName: report.wellName,
+        submittedBy: [submitter?.firstName, submitter?.lastName].filter(Boolean).join(' '),
+      },
+    });
+  } catch (error) {
+    console.error('Error checking approval link:', error);
+    res.status(500).json({ error: 'Failed to check approval link' });
+  }
+});
+
+// POST: approve, reject or request changes through an emailed link; the link is then spent
+router.post('/api/approval-links/:token', async (req, res) => {
+  try {
+    const { action, comment, fieldComments } = req.body;
+    const decision = DECISIONS[action as keyof typeof DECISIONS];
+    if (!decision) {
+      return res.status(400).json({ error: `Unknown action: ${action}` });
+    }
+
+    const result = await recordTokenApproval(req.params.token, decision, comment, fieldComments);
+    res.json({ success: true, status: result.status });
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error acting on approval link:', error);
+    res.status(500).json({ error: 'Failed to record decision' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -3,13 +3,19 @@ import { db } from "../db";
 import { 
   workflowDefinitions, 
   workflowSteps, 
+  workflowStepGroups,
+  workflowVersions,
+  nptReports,
   roleAssignments, 
   delegations,
   users
 } from "@shared/schema";
-import { ROLE_KEYS, ROLE_LABELS } from "@shared/workflow";
-import { eq, and, isNull } from "drizzle-orm";
+import { ESCALATION_MODES, ROLE_KEYS, ROLE_LABELS, STEP_GROUP_MODES } from "@shared/workflow";
+import { eq, and, isNull, desc } from "drizzle-orm";
 import { isAuthenticated } from "../replitAuth";
+import { ApprovalError, getReportsOnOlderVersions, migrateReportVersion, publishWorkflowVersion } from "../lib/approvals";
+import { simulateApproval, validateWorkflow } from "../lib/workflowCheck";
+import { assertDelegationAllowed, cancelDelegation, getDelegatedApprovals, notifyDelegationChanges } from "../lib/delegations";
 
 const router = Router();
 
@@ -25,6 +31,12 @@ router.get("/api/workflows", isAuthenticated, async (req, res) => {
         with: {
           steps: {
             orderBy: (steps, { asc }) => [asc(steps.stepOrder)]
+          },
+          groups: true,
+          versions: {
+            columns: { id: true, version: true, publishedAt: true },
+            orderBy: (versions, { desc }) => [desc(versions.version)],
+            limit: 1
           }
         }
       });
@@ -34,6 +46,12 @@ router.get("/api/workflows", isAuthenticated, async (req, res) => {
         with: {
           steps: {
             orderBy: (steps, { asc }) => [asc(steps.stepOrder)]
+          },
+          groups: true,
+          versions: {
+            columns: { id: true, version: true, publishedAt: true },
+            orderBy: (versions, { desc }) => [desc(versions.version)],
+            limit: 1
           }
         }
       });
@@ -46,14 +64,47 @@ router.get("/api/workflows", isAuthenticated, async (req, res) => {
   }
 });
 
+const CONDITION_FIELDS = ['nptType', 'department', 'system', 'rigSection', 'minHours', 'maxHours'] as const;
+
+// Match conditions from a request body; blank fields match any report
+function workflowConditions(body: any) {
+  const text = (value: any) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  const hours = (value: any) => (value === undefined || value === null || value === '' ? null : String(Number(value)));
+
+  const conditions = {
+    nptType: text(body.nptType),
+    department: text(body.department),
+    system: text(body.system),
+    rigSection: text(body.rigSection),
+    minHours: hours(body.minHours),
+    maxHours: hours(body.maxHours),
+  };
+
+  if ([conditions.minHours, conditions.maxHours].some(value => value !== null && !(Number(value) >= 0))) {
+    throw new Error("Hours thresholds must be non-negative numbers");
+  }
+  if (conditions.minHours !== null && conditions.maxHours !== null && Number(conditions.minHours) > Number(conditions.maxHours)) {
+    throw new Error("Minimum hours cannot exceed maximum hours");
+  }
+  return conditions;
+}
+
 router.post("/api/workflows", isAuthenticated, async (req, res) => {
   try {
     const { name, rigId } = req.body;
+
+    let conditions;
+    try {
+      conditions = workflowConditions(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
     
     const workflow = await db.insert(workflowDefinitions)
       .values({
         name,
         rigId: rigId || null,
+        ...conditions,
         isActive: true
       })
       .returning();
@@ -65,15 +116,82 @@ router.post("/api/workflows", isAuthenticated, async (req, res) => {
   }
 });
 
-router.post("/api/workflows/:id/steps/bulk", isAuthenticated, async (req, res) => {
+router.patch("/api/workflows/:id", isAuthenticated, async (req, res) => {
+  try {
+    const workflowId = Number(req.params.id);
+    const existing = await db.query.workflowDefinitions.findFirst({
+      where: eq(workflowDefinitions.id, workflowId)
+    });
+    if (!existing) {
+      return res.status(404).json({ error: "Workflow not found" });
+    }
+
+    // Only the conditions in the body change; the others keep their stored values, which
+    // still take part in checking the hours range
+    const sent = CONDITION_FIELDS.filter(field => field in req.body);
+    let conditions;
+    try {
+      const merged = workflowConditions({ ...existing, ...req.body });
+      conditions = Object.fromEntries(sent.map(field => [field, merged[field]]));
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const [workflow] = await db.update(workflowDefinitions)
+      .set({
+        ...(req.body.name && { name: req.body.name }),
+        ...(typeof req.body.isActive === 'boolean' && { isActive: req.body.isActive }),
+        ...conditions
+      })
+      .where(eq(workflowDefinitions.id, workflowId))
+      .returning();
+
+    if (!workflow) {
+      return res.status(404).json({ error: "Workflow not found" });
+    }
+
+    res.json(workflow);
+  } catch (error) {
+    console.error("Error updating workflow:", error);
+    res.status(500).json({ error: "Failed to update workflow" });
+  }
+});
+
+router.post("/api/workflows/:id/steps/bulk", isAuthenticated, async (req: any, res) => {
   try {
     const workflowId = Number(req.params.id);
-    const { steps } = req.body;
+    const { steps, groups = [] } = req.body;
 
-    await db.transaction(async (tx) => {
+    // Steps sharing a stepOrder form a group; check each group's mode against its steps
+    for (const group of groups) {
+      const size = (steps || []).filter((step: any) => step.stepOrder === group.stepOrder).length;
+      if (!STEP_GROUP_MODES.includes(group.mode)) {
+        return res.status(400).json({ error: `Unknown group mode "${group.mode}" for step ${group.stepOrder}` });
+      }
+      if (group.mode === 'quorum' && !(group.requiredApprovals >= 1 && group.requiredApprovals <= size)) {
+        return res.status(400).json({ error: `Step ${group.stepOrder} needs between 1 and ${size} approvals` });
+      }
+      if ([group.reminderHours, group.escalationHours].some(hours => hours != null && !(Number.isInteger(hours) && hours > 0))) {
+        return res.status(400).json({ error: `Step ${group.stepOrder} SLA hours must be whole numbers above zero` });
+      }
+      if (group.reminderHours != null && group.escalationHours != null && group.escalationHours < group.reminderHours) {
+        return res.status(400).json({ error: `Step ${group.stepOrder} cannot escalate before its reminder` });
+      }
+      if (group.escalationHours != null && !group.escalationRoleKey && !group.escalationUserId) {
+        return res.status(400).json({ error: `Step ${group.stepOrder} needs an escalation role or user` });
+      }
+      if (group.escalationMode && !ESCALATION_MODES.includes(group.escalationMode)) {
+        return res.status(400).json({ error: `Unknown escalation mode "${group.escalationMode}" for step ${group.stepOrder}` });
+      }
+    }
+
+    // Saving steps publishes them as a new version; reports already submitted keep theirs
+    const version = await db.transaction(async (tx) => {
       // Delete existing steps
       await tx.delete(workflowSteps)
         .where(eq(workflowSteps.workflowId, workflowId));
+      await tx.delete(workflowStepGroups)
+        .where(eq(workflowStepGroups.workflowId, workflowId));
 
       // Insert new steps
       if (steps && steps.length > 0) {
@@ -87,15 +205,150 @@ router.post("/api/workflows/:id/steps/bulk", isAuthenticated, async (req, res) =
             isRequired: step.isRequired ?? true
           })));
       }
+
+      // Only groups that differ from the default (all of the steps, no SLA of their own) need a row
+      const groupSettings = groups.filter((group: any) =>
+        group.mode !== 'all' || group.reminderHours != null || group.escalationHours != null
+      );
+      if (groupSettings.length > 0) {
+        await tx.insert(workflowStepGroups)
+          .values(groupSettings.map((group: any) => ({
+            workflowId,
+            stepOrder: group.stepOrder,
+            mode: group.mode,
+            requiredApprovals: group.mode === 'quorum' ? group.requiredApprovals : null,
+            reminderHours: group.reminderHours ?? null,
+            escalationHours: group.escalationHours ?? null,
+            escalationRoleKey: group.escalationHours != null ? group.escalationRoleKey || null : null,
+            escalationUserId: group.escalationHours != null ? group.escalationUserId || null : null,
+            escalationMode: group.escalationHours != null ? group.escalationMode || 'add' : null
+          })));
+      }
+
+      return publishWorkflowVersion(workflowId, req.user?.claims?.sub ?? null, tx);
     });
 
-    res.json({ success: true });
+    res.json({ success: true, version: version.version });
   } catch (error) {
     console.error("Error updating workflow steps:", error);
     res.status(500).json({ error: "Failed to update workflow steps" });
   }
 });
 
+// Published versions, newest first, without their step snapshots
+router.get("/api/workflows/:id/versions", isAuthenticated, async (req, res) => {
+  try {
+    const versions = await db.query.workflowVersions.findMany({
+      where: eq(workflowVersions.workflowId, Number(req.params.id)),
+      columns: { steps: false, groups: false },
+      with: { publisher: { columns: { firstName: true, lastName: true, email: true } } },
+      orderBy: [desc(workflowVersions.version)]
+    });
+
+    res.json({ items: versions });
+  } catch (error) {
+    console.error("Error fetching workflow versions:", error);
+    res.status(500).json({ error: "Failed to fetch workflow versions" });
+  }
+});
+
+// Pending reports still running on an older version of the workflow
+router.get("/api/workflows/:id/outdated-reports", isAuthenticated, async (req, res) => {
+  try {
+    const { latestVersion, reports } = await getReportsOnOlderVersions(Number(req.params.id));
+    res.json({ latestVersion, items: reports });
+  } catch (error) {
+    console.error("Error fetching outdated reports:", error);
+    res.status(500).json({ error: "Failed to fetch outdated reports" });
+  }
+});
+
+// Move chosen pending reports onto the latest version; each report succeeds or fails on its own
+router.post("/api/workflows/:id/migrate", isAuthenticated, async (req: any, res) => {
+  try {
+    const userId = req.user.claims.sub;
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+    if (user?.role !== 'admin') {
+      return res.status(403).json({ error: "Only admins can migrate reports between workflow versions" });
+    }
+
+    const { reportIds, mode = 'keep' } = req.body;
+    if (!Array.isArray(reportIds) || reportIds.length === 0) {
+      return res.status(400).json({ error: "reportIds must be a non-empty array" });
+    }
+    if (mode !== 'keep' && mode !== 'restart') {
+      return res.status(400).json({ error: 'mode must be "keep" or "restart"' });
+    }
+
+    const workflowId = Number(req.params.id);
+    const results = [];
+    for (const reportId of reportIds.map(Number)) {
+      try {
+        const report = await db.query.nptReports.findFirst({ where: eq(nptReports.id, reportId) });
+        if (report?.workflowId !== workflowId) {
+          results.push({ reportId, success: false, error: "Report is not on this workflow" });
+          continue;
+        }
+        const result = await migrateReportVersion(reportId, userId, mode);
+        results.push({ reportId, success: true, stepOrder: result.stepOrder, nextApproverUserId: result.nextApproverUserId });
+      } catch (error) {
+        if (!(error instanceof ApprovalError)) throw error;
+        results.push({ reportId, success: false, error: error.message });
+      }
+    }
+
+    res.json({ results, migrated: results.filter(result => result.success).length });
+  } catch (error) {
+    console.error("Error migrating reports:", error);
+    res.status(500).json({ error: "Failed to migrate reports" });
+  }
+});
+
+// Check a workflow's steps and resolve them on every rig it applies to, without routing anything
+router.get("/api/workflows/:id/validate", isAuthenticated, async (req, res) => {
+  try {
+    res.json(await validateWorkflow(Number(req.params.id)));
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error("Error validating workflow:", error);
+    res.status(500).json({ error: "Failed to validate workflow" });
+  }
+});
+
+// Dry-run a sample report: which workflow it would select and who each step would reach
+router.post("/api/workflows/simulate", isAuthenticated, async (req, res) => {
+  try {
+    const { rigId, date, hours, nptType, department, system } = req.body;
+    if (!rigId || Number.isNaN(Number(rigId))) {
+      return res.status(400).json({ error: "rigId is required" });
+    }
+    const at = date ? new Date(date) : new Date();
+    if (Number.isNaN(at.getTime())) {
+      return res.status(400).json({ error: "date is not a valid date" });
+    }
+    if (hours != null && hours !== '' && Number.isNaN(Number(hours))) {
+      return res.status(400).json({ error: "hours must be a number" });
+    }
+
+    res.json(await simulateApproval({
+      rigId: Number(rigId),
+      date: at,
+      hours: hours === '' || hours == null ? 0 : hours,
+      nptType: nptType || null,
+      department: department || null,
+      system: system || null,
+    }));
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error("Error simulating workflow:", error);
+    res.status(500).json({ error: "Failed to simulate workflow" });
+  }
+});
+
 // Role assignments (Role → User per rig)
 router.get("/api/role-assignments", isAuthenticated, async (req, res) => {
   try {
@@ -181,37 +434,77 @@ router.post("/api/delegations", isAuthenticated, async (req, res) => {
       isActive 
     } = req.body;
 
+    const values = {
+      delegatorUserId,
+      delegateUserId,
+      startsAt: new Date(startsAt),
+      endsAt: new Date(endsAt),
+      rigId: rigId || null,
+      roleKey: roleKey || null,
+      isActive: isActive ?? true
+    };
+    if (!delegatorUserId || !delegateUserId || Number.isNaN(values.startsAt.getTime()) || Number.isNaN(values.endsAt.getTime())) {
+      return res.status(400).json({ error: "delegatorUserId, delegateUserId, startsAt and endsAt are required" });
+    }
+    if (values.isActive) {
+      await assertDelegationAllowed(values);
+    }
+
     const delegation = await db.insert(delegations)
-      .values({
-        delegatorUserId,
-        delegateUserId,
-        startsAt: new Date(startsAt),
-        endsAt: new Date(endsAt),
-        rigId: rigId || null,
-        roleKey: roleKey || null,
-        isActive: isActive ?? true
-      })
+      .values(values)
       .returning();
 
+    // A delegation that starts straight away is announced now rather than on the next SLA run
+    await notifyDelegationChanges();
+
     res.status(201).json(delegation[0]);
   } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error("Error creating delegation:", error);
     res.status(500).json({ error: "Failed to create delegation" });
   }
 });
 
-router.delete("/api/delegations/:id", isAuthenticated, async (req, res) => {
+router.delete("/api/delegations/:id", isAuthenticated, async (req: any, res) => {
   try {
-    const id = Number(req.params.id);
-    
-    await db.delete(delegations)
-      .where(eq(delegations.id, id));
+    const delegationId = Number(req.params.id);
+    const userId = req.user.claims.sub;
+
+    // Only the delegator or an admin may cancel a delegation
+    const delegation = await db.query.delegations.findFirst({ where: eq(delegations.id, delegationId) });
+    if (delegation && delegation.delegatorUserId !== userId) {
+      const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ error: "Cannot cancel delegation" });
+      }
+    }
+
+    await cancelDelegation(delegationId);
 
     res.json({ success: true });
   } catch (error) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error("Error deleting delegation:", error);
     res.status(500).json({ error: "Failed to delete delegation" });
   }
 });
 
+// Approvals given on someone else's behalf; non-admins see only those they gave or were covered for
+router.get("/api/delegations/history", isAuthenticated, async (req: any, res) => {
+  try {
+    const userId = req.user.claims.sub;
+    const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+    const forUser = user?.role === 'admin' ? (req.query.userId as string | undefined) : userId;
+
+    res.json({ items: await getDelegatedApprovals(forUser) });
+  } catch (error) {
+    console.error("Error fetching delegation history:", error);
+    res.status(500).json({ error: "Failed to fetch delegation history" });
+  }
+});
+
 export default router;
\ No newline at end of file
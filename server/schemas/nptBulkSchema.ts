@@ -1,11 +1,27 @@
 import { z } from "zod";
 import { needsN2, needsInvestigationReport, isContractual, isAbraj } from "@shared/nptRules";
+import { resolveRig } from "../services/rigResolver";
+
+// Replace a rig reference ("Hoist 1", "RABA_12", "203") with the registered rig number.
+// Review mode rejects references that resolve to no rig; drafts keep them as typed.
+// The transform is async, so these schemas must be parsed with parseAsync / safeParseAsync.
+function rigReferenceSchema(mode: "draft" | "review") {
+  const reference = mode === "review" ? z.union([z.string().min(1), z.number()]) : z.union([z.string(), z.number()]);
+  return reference.transform(async (value, ctx) => {
+    const rig = await resolveRig(value);
+    if (rig) return rig.rigNumber;
+    if (mode === "review") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Rig "${value}" is not registered` });
+    }
+    return value;
+  });
+}
 
 // Build NPT schema based on mode
 export function buildNptBulkSchema(mode: "draft" | "review") {
   // Base schema with all fields optional
   const baseSchema = z.object({
-    rigNumber: z.union([z.string(), z.number()]).optional(),
+    rigNumber: rigReferenceSchema(mode).optional(),
     year: z.union([z.string(), z.number()]).optional(), 
     month: z.union([z.string(), z.number()]).optional(),
     date: z.string().optional(),
@@ -28,6 +44,11 @@ export function buildNptBulkSchema(mode: "draft" | "review") {
     investigationAiText: z.string().optional(),
     status: z.string().optional(),
     nptReportData: z.any().optional(), // For billing sheet data
+    suggestion: z.any().optional(), // Prefilled values, recorded against the reviewer's final ones
+    // Billing identity used for duplicate detection
+    description: z.string().optional(),
+    rateType: z.string().optional(),
+    ticketNumber: z.string().optional(),
   });
 
   if (mode === "draft") {
@@ -46,7 +67,7 @@ export function buildNptBulkSchema(mode: "draft" | "review") {
 
   // Review mode: strict validation with business rules
   const reviewSchema = z.object({
-    rigNumber: z.union([z.string().min(1), z.number()]),
+    rigNumber: rigReferenceSchema(mode),
     year: z.union([z.string().min(1), z.number()]),
     month: z.union([z.string().min(1), z.number()]),
     date: z.string().min(1, "Date is required"),
@@ -73,6 +94,10 @@ export function buildNptBulkSchema(mode: "draft" | "review") {
     investigationAiText: z.string().optional(),
     status: z.string().optional(),
     nptReportData: z.any().optional(),
+    suggestion: z.any().optional(),
+    description: z.string().optional(),
+    rateType: z.string().optional(),
+    ticketNumber: z.string().optional(),
   }).superRefine((data, ctx) => {
     // Business rule validations only for review mode
     const hours = typeof data.hours === 'string' ? parseFloat(data.hours) : data.hours;
@@ -137,10 +162,15 @@ export function buildNptBulkSchema(mode: "draft" | "review") {
   return reviewSchema;
 }
 
+// Per-row choice for rows flagged as duplicates, keyed by row index. Checked in both modes,
+// since it decides which existing reports are overwritten
+export const duplicateResolutionsSchema = z.record(z.string().regex(/^\d+$/), z.enum(["skip", "overwrite", "keep_both"])).optional();
+
 // Schema for bulk operation with multiple rows
 export function buildBulkNptSchema(mode: "draft" | "review") {
   const rowSchema = buildNptBulkSchema(mode);
   return z.object({
-    rows: z.array(rowSchema)
+    rows: z.array(rowSchema),
+    resolutions: duplicateResolutionsSchema,
   });
 }
\ No newline at end of file
@@ -2,9 +2,10 @@ import { db } from "../db";
 import { nptReports } from "@shared/schema";
 import { eq, and, isNull } from "drizzle-orm";
 import { routeFirstApprover } from "../lib/approvals";
+import { NPT_STATUS } from "@shared/status";
 
 /**
- * Backfill script to set routing pointers for existing PENDING_REVIEW reports
+ * Backfill script to set routing pointers for existing Pending Review reports
  * Run once after deploying the workflow system
  */
 
@@ -12,10 +13,10 @@ export async function backfillRouting() {
   try {
     console.log("🔄 Starting backfill routing for existing reports...");
 
-    // Find all PENDING_REVIEW reports without routing pointers
+    // Find all Pending Review reports without routing pointers
     const pendingReports = await db.query.nptReports.findMany({
       where: and(
-        eq(nptReports.status, 'PENDING_REVIEW'),
+        eq(nptReports.status, NPT_STATUS.PENDING_REVIEW),
         isNull(nptReports.currentApproverUserId)
       )
     });
@@ -0,0 +1,99 @@
+import { db } from "../db";
+import { nptReports, nptApprovals, workflowApprovals } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { routeFirstApprover } from "../lib/approvals";
+import { NPT_ACTIONS, NPT_STATUS, normalizeNptStatus } from "@shared/status";
+
+/**
+ * Migration onto the single approval state machine. Rewrites NPT report statuses left in
+ * older spellings ("PENDING_REVIEW", "Pending", ...) as NPT_STATUS values, and copies the
+ * role-based workflow_approvals trail into npt_approvals so each report has one history.
+ * Safe to run more than once: copied rows are keyed by legacy_workflow_approval_id.
+ */
+
+// workflow_approvals used lower-case verbs
+const LEGACY_ACTIONS: Record<string, string> = {
+  initiate: NPT_ACTIONS.SUBMIT,
+  approve: NPT_ACTIONS.APPROVE,
+  reject: NPT_ACTIONS.REJECT,
+  edit: 'EDIT',
+};
+
+export async function mergeApprovalTrails() {
+  try {
+    console.log("🔄 Merging approval trails...");
+
+    // The role-based engine tracked progress in workflow_status and left status at Draft
+    const reports = await db.select().from(nptReports);
+    let statusesUpdated = 0;
+    const newlyPending: number[] = [];
+
+    for (const report of reports) {
+      let status = normalizeNptStatus(report.status);
+      if (status === NPT_STATUS.DRAFT && report.workflowStatus?.startsWith('pending_')) {
+        status = NPT_STATUS.PENDING_REVIEW;
+        newlyPending.push(report.id);
+      }
+
+      if (status !== report.status) {
+        await db.update(nptReports).set({ status }).where(eq(nptReports.id, report.id));
+        statusesUpdated++;
+      }
+    }
+
+    console.log(`✅ Normalized ${statusesUpdated} report statuses`);
+
+    let routedCount = 0;
+    for (const reportId of newlyPending) {
+      if (await routeFirstApprover(reportId)) {
+        routedCount++;
+      }
+    }
+
+    console.log(`✅ Routed ${routedCount}/${newlyPending.length} reports moved into review`);
+
+    const legacyRows = await db.select().from(workflowApprovals);
+    const copied = legacyRows.length === 0 ? [] : await db.insert(nptApprovals)
+      .values(legacyRows.map(row => ({
+        reportId: row.reportId,
+        stepOrder: 0,
+        approverUserId: row.approverId,
+        approverRole: row.approverRole,
+        action: LEGACY_ACTIONS[row.action.toLowerCase()] ?? row.action.toUpperCase(),
+        comment: row.comments,
+        editedFields: row.editedFields,
+        previousValues: row.previousValues,
+        legacyWorkflowApprovalId: row.id,
+        createdAt: row.createdAt,
+      })))
+      .onConflictDoNothing()
+      .returning();
+
+    console.log(`✅ Copied ${copied.length}/${legacyRows.length} workflow approvals into npt_approvals`);
+    console.log("🎉 Approval trails merged");
+
+    return {
+      statusesUpdated,
+      reportsRouted: routedCount,
+      legacyApprovals: legacyRows.length,
+      approvalsCopied: copied.length
+    };
+
+  } catch (error) {
+    console.error("❌ Error merging approval trails:", error);
+    throw error;
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  mergeApprovalTrails()
+    .then((result) => {
+      console.log("Merge completed:", result);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Merge failed:", error);
+      process.exit(1);
+    });
+}
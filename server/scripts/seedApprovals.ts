@@ -1,11 +1,11 @@
 import { db } from "../db";
 import { nptReports } from "@shared/schema";
-import { eq } from "drizzle-orm";
-import { routeFirstApprover } from "../lib/approvals";
+import { submitReport } from "../lib/approvals";
+import { NPT_STATUS } from "@shared/status";
 
 /**
  * Seed script to create test NPT reports for approval workflow testing
- * Creates reports in PENDING_REVIEW status and routes them to first approvers
+ * Creates draft reports and submits them, which routes them to their first approvers
  */
 
 export async function seedApprovals() {
@@ -15,7 +15,7 @@ export async function seedApprovals() {
     // Get Rig 104 (rigId = 2)
     const rigId = 2;
 
-    // Create test NPT reports in DRAFT status first
+    // Create test NPT reports as drafts first
     const testReports = [
       {
         rigId,
@@ -34,7 +34,7 @@ export async function seedApprovals() {
         department: 'E-Maintenance',
         actionParty: 'E.Maintenance',
         wellName: 'Well A-101',
-        status: 'DRAFT'
+        status: NPT_STATUS.DRAFT
       },
       {
         rigId,
@@ -53,7 +53,7 @@ export async function seedApprovals() {
         department: 'Drilling',
         actionParty: 'Tool Pusher',
         wellName: 'Well A-101',
-        status: 'DRAFT'
+        status: NPT_STATUS.DRAFT
       }
     ];
 
@@ -64,22 +64,16 @@ export async function seedApprovals() {
 
     console.log(`✅ Created ${createdReports.length} test NPT reports`);
 
-    // Submit each report (change status to PENDING_REVIEW and route to first approver)
+    // Submit each report, which routes it to its first approver
     let routedCount = 0;
     for (const report of createdReports) {
       try {
-        // Update status to PENDING_REVIEW
-        await db.update(nptReports)
-          .set({ status: 'PENDING_REVIEW' })
-          .where(eq(nptReports.id, report.id));
-
-        // Route to first approver
-        const success = await routeFirstApprover(report.id);
-        if (success) {
+        const { nextApproverUserId } = await submitReport(report.id, report.userId);
+        if (nextApproverUserId) {
           routedCount++;
           console.log(`✅ Routed report ${report.id} to first approver`);
         } else {
-          console.log(`❌ Failed to route report ${report.id}`);
+          console.log(`❌ No approver could be resolved for report ${report.id}`);
         }
       } catch (error) {
         console.error(`❌ Error routing report ${report.id}:`, error);
@@ -0,0 +1,69 @@
+import { db } from "../db";
+import { recognitionKeywords, systems, equipment } from "@shared/schema";
+import { DEFAULT_RECOGNITION_ENTRIES } from "../services/recognitionDictionary";
+
+/**
+ * Load the built-in billing keywords into the recognition dictionary, linking them to
+ * existing systems and equipment by name. Keywords already in the dictionary are left alone,
+ * so admins' edits survive a re-run.
+ */
+export async function seedRecognitionDictionary(createdBy?: string) {
+  try {
+    console.log("🌱 Seeding recognition dictionary...");
+
+    const systemRows = await db.select().from(systems);
+    const equipmentRows = await db.select().from(equipment);
+    const systemIds = new Map(systemRows.map(system => [system.name.toLowerCase(), system.id]));
+    const equipmentIds = new Map(equipmentRows.map(item => [item.name.toLowerCase(), item.id]));
+
+    let inserted = 0;
+    let linked = 0;
+
+    for (const entry of DEFAULT_RECOGNITION_ENTRIES) {
+      const systemId = entry.system ? systemIds.get(entry.system.toLowerCase()) ?? null : null;
+      const equipmentId = entry.equipment ? equipmentIds.get(entry.equipment.toLowerCase()) ?? null : null;
+
+      const [created] = await db.insert(recognitionKeywords)
+        .values({
+          category: entry.category,
+          keyword: entry.keyword,
+          rateType: entry.rateType ?? null,
+          nbtType: entry.nbtType ?? null,
+          systemId,
+          equipmentId,
+          // Keep the name so unlinked entries still resolve to something
+          label: entry.category === 'equipment' ? entry.equipment : entry.category === 'system' ? entry.system : entry.label ?? null,
+          priority: entry.priority,
+          createdBy: createdBy ?? null,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (created) {
+        inserted++;
+        if (systemId || equipmentId) linked++;
+      }
+    }
+
+    const skipped = DEFAULT_RECOGNITION_ENTRIES.length - inserted;
+    console.log(`✅ Added ${inserted} keywords (${linked} linked to systems/equipment), ${skipped} already present`);
+
+    return { inserted, linked, skipped };
+  } catch (error) {
+    console.error("❌ Error seeding recognition dictionary:", error);
+    throw error;
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  seedRecognitionDictionary()
+    .then((result) => {
+      console.log("Seeding completed:", result);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Seeding failed:", error);
+      process.exit(1);
+    });
+}
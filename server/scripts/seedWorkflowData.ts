@@ -1,12 +1,21 @@
 import { db } from "../db";
 import { workflowDefinitions, workflowSteps, roleAssignments, delegations, users } from "@shared/schema";
+import { eq } from "drizzle-orm";
 import { ROLE_KEYS } from "@shared/workflow";
+import { DEPARTMENTS } from "@shared/nptRules";
 
 /**
  * Seed script for quick start workflow configuration
  * Creates global workflow and role assignments for Rig 104
  */
 
+const E_MAINTENANCE_STEPS = [
+  { stepOrder: 1, approverType: 'role', roleKey: 'toolpusher', isRequired: true },
+  { stepOrder: 2, approverType: 'role', roleKey: 'e_maintenance', isRequired: true },
+  { stepOrder: 3, approverType: 'role', roleKey: 'ds', isRequired: true },
+  { stepOrder: 4, approverType: 'role', roleKey: 'osc', isRequired: true },
+] as const;
+
 export async function seedWorkflowData() {
   try {
     console.log("🌱 Seeding workflow data...");
@@ -42,6 +51,32 @@ export async function seedWorkflowData() {
       console.log("✅ Created 4 workflow steps");
     }
 
+    // Maintenance (M/E) NPTs match this one over the global workflow on department. Workflow
+    // names aren't unique, so a re-run finds the one it created by name instead of adding another
+    const maintenanceWorkflowName = "E-Maintenance NPT Approval Workflow";
+    const existingMaintenance = await db.query.workflowDefinitions.findFirst({
+      where: eq(workflowDefinitions.name, maintenanceWorkflowName)
+    });
+    const [maintenanceWorkflow] = existingMaintenance ? [] : await db.insert(workflowDefinitions)
+      .values({
+        name: maintenanceWorkflowName,
+        rigId: null,
+        department: DEPARTMENTS.MAINTENANCE_ME,
+        isActive: true
+      })
+      .returning();
+
+    if (maintenanceWorkflow) {
+      await db.insert(workflowSteps)
+        .values(E_MAINTENANCE_STEPS.map(step => ({
+          workflowId: maintenanceWorkflow.id,
+          ...step
+        })))
+        .onConflictDoNothing();
+
+      console.log("✅ Created E-Maintenance workflow:", maintenanceWorkflow.name);
+    }
+
     // 2. Get or create demo users for Rig 104
     const demoUsers = [
       { id: 'john-toolpusher', email: 'john@drilling.com', firstName: 'John', lastName: 'Tool Pusher', role: 'supervisor' },
@@ -107,6 +142,7 @@ export async function seedWorkflowData() {
     
     return {
       globalWorkflowCreated: !!globalWorkflow,
+      maintenanceWorkflowCreated: !!maintenanceWorkflow,
       usersCreated: demoUsers.length,
       roleAssignmentsCreated: roleAssignmentData.length,
       delegationCreated: 1
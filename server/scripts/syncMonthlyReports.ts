@@ -0,0 +1,42 @@
+import { db } from "../db";
+import { lifecycleService } from "../lifecycleService";
+
+/**
+ * Backfill script to build day slices and monthly totals from the NPT reports already on file
+ * Run once after deploying the automatic monthly report sync; safe to run again
+ */
+
+export async function syncMonthlyReports() {
+  try {
+    console.log("🔄 Syncing monthly reports from existing NPT reports...");
+
+    const reports = await db.query.nptReports.findMany({
+      columns: { rigId: true, date: true, userId: true }
+    });
+
+    console.log(`📋 Found ${reports.length} NPT reports`);
+
+    await lifecycleService.syncNptReports(reports);
+
+    console.log("🎉 Monthly report sync completed");
+
+    return { totalReports: reports.length };
+
+  } catch (error) {
+    console.error("❌ Error syncing monthly reports:", error);
+    throw error;
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  syncMonthlyReports()
+    .then((result) => {
+      console.log("Sync completed:", result);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Sync failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,79 @@
+import type {
+  ConfidenceEvidence,
+  FieldConfidence,
+  FieldConfidenceMap,
+  RecognitionMatch,
+} from "@shared/billingTypes";
+
+export function fieldScore(score: number, ...evidence: ConfidenceEvidence[]): FieldConfidence {
+  return { score: Math.round(Math.max(0, Math.min(score, 1)) * 100) / 100, evidence };
+}
+
+// Whole-word position of a keyword in the description, so the UI can point at it
+function keywordRange(description: string, keyword: string): { start?: number; end?: number } {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const found = new RegExp(`(^|[^a-z0-9])(${escaped})(?=$|[^a-z0-9])`, 'i').exec(description);
+  if (!found) return {};
+  const start = found.index + found[1].length;
+  return { start, end: start + found[2].length };
+}
+
+export function keywordEvidence(description: string, match: RecognitionMatch, note?: string): ConfidenceEvidence {
+  const source = match.entryId !== null ? `dictionary entry #${match.entryId}` : 'built-in keyword';
+  return {
+    kind: 'keyword',
+    detail: `"${match.keyword}" (${source})${note ? `, ${note}` : ''}`,
+    ...keywordRange(description, match.keyword),
+  };
+}
+
+/**
+ * Score the fields recognised from the description. Contractual rows only need a system
+ * (the contractual category); Abraj rows also need equipment and a failure.
+ */
+export function describeRecognition(
+  description: string,
+  matches: RecognitionMatch[],
+  nbtType: string | undefined,
+  contractualCategory?: string
+): FieldConfidenceMap {
+  const fields: FieldConfidenceMap = {};
+  const equipmentMatch = matches.find(match => match.category === 'equipment');
+  const systemMatch = matches.find(match => match.category === 'system');
+  const failureMatch = matches.find(match => match.category === 'failure');
+  // Entries an admin linked to reference data are trusted a little more than built-in keywords
+  const linkedBonus = (match: RecognitionMatch) => (match.entryId !== null ? 0.1 : 0);
+
+  if (contractualCategory) {
+    fields.system = fieldScore(0.9, {
+      kind: 'keyword',
+      detail: `contractual category "${contractualCategory}"`,
+      ...keywordRange(description, contractualCategory),
+    });
+  } else if (equipmentMatch) {
+    fields.system = fieldScore(0.75 + linkedBonus(equipmentMatch), keywordEvidence(description, equipmentMatch, 'system of the matched equipment'));
+  } else if (systemMatch) {
+    fields.system = fieldScore(0.6 + linkedBonus(systemMatch), keywordEvidence(description, systemMatch));
+  } else {
+    fields.system = fieldScore(0, { kind: 'missing', detail: 'No system keyword in the description' });
+  }
+
+  if (nbtType === 'Contractual') return fields;
+
+  fields.equipment = equipmentMatch
+    ? fieldScore(0.8 + linkedBonus(equipmentMatch), keywordEvidence(description, equipmentMatch))
+    : fieldScore(0, { kind: 'missing', detail: 'No equipment keyword in the description' });
+
+  fields.failure = failureMatch
+    ? fieldScore(0.7 + linkedBonus(failureMatch), keywordEvidence(description, failureMatch))
+    : fieldScore(0.2, { kind: 'missing', detail: 'No failure keyword in the description' });
+
+  return fields;
+}
+
+// Row-level confidence is the mean of the field scores, so it can always be traced back
+export function overallConfidence(fields: FieldConfidenceMap | undefined): number {
+  const scores = Object.values(fields || {}).map(field => field.score);
+  if (scores.length === 0) return 0;
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100;
+}
@@ -0,0 +1,135 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { resolveRig } from "./rigResolver";
+import type { NptReport } from "@shared/schema";
+import type { BillingRowDuplicateCheck, DuplicateMatch, DuplicateStatus } from "@shared/billingTypes";
+
+// Description similarity at or above this counts as a probable duplicate
+const PROBABLE_SIMILARITY = 0.6;
+
+export function normalizeDescription(description?: string | null): string {
+  return (description || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toDateKey(value: unknown): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString().split("T")[0];
+}
+
+function toHours(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const hours = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(hours) ? Math.round(hours * 4) / 4 : null;
+}
+
+// Pull the comparable fields out of a billing row, whether it came straight from an upload
+// or from the bulk grid (where the details live under nptReportData)
+function rowKey(row: any) {
+  const data = row.nptReportData || {};
+  return {
+    rigNumber: row.rigNumber !== undefined && row.rigNumber !== null ? String(row.rigNumber).trim() : "",
+    date: toDateKey(row.date || data.date),
+    hours: toHours(row.hours ?? data.hours),
+    rateType: (row.rateType || "").trim().toLowerCase(),
+    description: normalizeDescription(
+      row.description || data.contractualProcess || data.immediateCause || row.contractualProcess || row.immediateCause
+    ),
+    ticketNumber: (row.ticketNumber || "").trim().toLowerCase(),
+  };
+}
+
+export function computeBillingFingerprint(row: any): string | null {
+  const key = rowKey(row);
+  if (!key.rigNumber || !key.date || key.hours === null) return null;
+
+  const parts = [key.rigNumber, key.date, key.rateType, key.hours.toFixed(2), key.description, key.ticketNumber];
+  return createHash("sha256").update(parts.join("|")).digest("hex");
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (!a && !b) return 1;
+  const tokensA = new Set(a.split(" ").filter(Boolean));
+  const tokensB = new Set(b.split(" ").filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+function reportDescription(report: NptReport): string {
+  return report.contractualProcess || report.immediateCause || "";
+}
+
+/**
+ * Compare billing rows against existing NPT reports for the same rig and day, and against
+ * each other. A stored fingerprint match, identical hours and description, or a row
+ * repeating an earlier row of the batch is an exact duplicate; the same hours or a similar
+ * description on that day is a probable duplicate.
+ */
+export async function checkBillingDuplicates(rows: any[]): Promise<BillingRowDuplicateCheck[]> {
+  const keys = rows.map(rowKey);
+
+  // Load candidate reports once per rig, covering the date span of that rig's rows
+  const candidatesByRig = new Map<string, NptReport[]>();
+  for (const rigNumber of Array.from(new Set(keys.map(k => k.rigNumber).filter(Boolean)))) {
+    const rig = await resolveRig(rigNumber);
+    const dates = keys.filter(k => k.rigNumber === rigNumber && k.date).map(k => k.date as string).sort();
+    if (!rig || dates.length === 0) {
+      candidatesByRig.set(rigNumber, []);
+      continue;
+    }
+
+    const from = new Date(`${dates[0]}T00:00:00.000Z`);
+    const to = new Date(`${dates[dates.length - 1]}T23:59:59.999Z`);
+    candidatesByRig.set(rigNumber, await storage.getNptReportsForRigInRange(rig.id, from, to));
+  }
+
+  const firstRowByFingerprint = new Map<string, number>();
+
+  return rows.map((row, rowIndex) => {
+    const key = keys[rowIndex];
+    const fingerprint = computeBillingFingerprint(row);
+    const duplicateOfRow = fingerprint !== null ? firstRowByFingerprint.get(fingerprint) : undefined;
+    if (fingerprint !== null && duplicateOfRow === undefined) {
+      firstRowByFingerprint.set(fingerprint, rowIndex);
+    }
+    const sameDay = (candidatesByRig.get(key.rigNumber) || []).filter(r => toDateKey(r.date) === key.date);
+
+    let status: DuplicateStatus = duplicateOfRow !== undefined ? "exact_duplicate" : "new";
+    const matches: DuplicateMatch[] = [];
+
+    for (const report of sameDay) {
+      const description = normalizeDescription(reportDescription(report));
+      const similarity = tokenSimilarity(key.description, description);
+      const hoursMatch = key.hours !== null && toHours(report.hours) === key.hours;
+
+      const isExact = (fingerprint !== null && report.billingFingerprint === fingerprint)
+        || (hoursMatch && description === key.description);
+      const isProbable = hoursMatch || similarity >= PROBABLE_SIMILARITY;
+      if (!isExact && !isProbable) continue;
+
+      if (isExact) status = "exact_duplicate";
+      else if (status === "new") status = "probable_duplicate";
+
+      matches.push({
+        reportId: report.id,
+        date: key.date as string,
+        hours: toHours(report.hours) ?? 0,
+        status: report.status,
+        description: reportDescription(report),
+        similarity: isExact ? 1 : Math.round(similarity * 100) / 100,
+      });
+    }
+
+    matches.sort((a, b) => b.similarity - a.similarity);
+    return { rowIndex, fingerprint, status, matches, ...(duplicateOfRow !== undefined && { duplicateOfRow }) };
+  });
+}
@@ -0,0 +1,220 @@
+import { storage } from "../storage";
+import { computeBillingFingerprint } from "./billingDuplicates";
+import { NPT_STATUS } from "@shared/status";
+import {
+  RECONCILED_RATE_TYPES,
+  UNLINKED_RATE_TYPE,
+  type BillingReconciliation,
+  type BillingSheetRow,
+  type ReconciliationDay,
+  type ReconciliationNote,
+  type UnmatchedBillingRow,
+  type UnmatchedNptReport,
+} from "@shared/billingTypes";
+import type { NptReport } from "@shared/schema";
+
+// Differences smaller than this are rounding, not variances
+const HOURS_TOLERANCE = 0.01;
+
+interface BillingEntry {
+  uploadId: number;
+  rowIndex: number;
+  fileName: string;
+  date: string;
+  hours: number;
+  rateType: string;
+  description: string;
+  fingerprint: string | null;
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+function dateKey(value: Date | string): string {
+  return (value instanceof Date ? value : new Date(value)).toISOString().split('T')[0];
+}
+
+function monthRange(month: string): { from: string; to: string } {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` };
+}
+
+function reportDescription(report: NptReport): string {
+  return report.immediateCause || report.contractualProcess || '';
+}
+
+/**
+ * Line up the repair, reduce-repair and zero-rate hours billed for a rig-month against its
+ * Abraj NPT reports. Reports created from a billing row are matched by fingerprint; the rest
+ * are paired with a billing row on the same day with the same hours. Reports left over count
+ * under "Unlinked" so their hours still show in the day's variance.
+ */
+export async function reconcileRigMonth(rigId: number, month: string): Promise<BillingReconciliation> {
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    throw new Error('Month must be YYYY-MM');
+  }
+
+  const rig = await storage.getRig(rigId);
+  if (!rig) {
+    throw new Error('Rig not found');
+  }
+
+  const { from, to } = monthRange(month);
+  const [storedRows, reports, notes] = await Promise.all([
+    storage.getBillingRowsForRigInRange(String(rig.rigNumber), from, to),
+    storage.getNptReportsForRigInRange(rigId, new Date(`${from}T00:00:00.000Z`), new Date(`${to}T23:59:59.999Z`)),
+    storage.getReconciliationNotes(rigId, month),
+  ]);
+
+  // The same sheet is often uploaded more than once; keep each billing row once, from the latest upload
+  const seen = new Set<string>();
+  const billing: BillingEntry[] = [];
+  for (const { row, fileName } of storedRows) {
+    if (!row.date || !RECONCILED_RATE_TYPES.includes(row.rateType as typeof RECONCILED_RATE_TYPES[number])) continue;
+    const fingerprint = computeBillingFingerprint(row.data as BillingSheetRow);
+    const identity = fingerprint ?? `${row.uploadId}:${row.rowIndex}`;
+    if (seen.has(identity)) continue;
+    seen.add(identity);
+
+    billing.push({
+      uploadId: row.uploadId,
+      rowIndex: row.rowIndex,
+      fileName,
+      date: row.date,
+      hours: parseFloat(row.hours || '0'),
+      rateType: row.rateType as string,
+      description: row.description || '',
+      fingerprint,
+    });
+  }
+
+  const nptReports = reports.filter(report =>
+    report.nptType === 'Abraj' && (report.status || '').toLowerCase() !== NPT_STATUS.REJECTED.toLowerCase()
+  );
+
+  // Match by fingerprint first, then by day and hours
+  const rateTypeByReport = new Map<number, string>();
+  const matchedBilling = new Set<BillingEntry>();
+  for (const report of nptReports) {
+    const entry = billing.find(candidate =>
+      !matchedBilling.has(candidate) && candidate.fingerprint !== null && candidate.fingerprint === report.billingFingerprint
+    );
+    if (entry) {
+      matchedBilling.add(entry);
+      rateTypeByReport.set(report.id, entry.rateType);
+    }
+  }
+  for (const report of nptReports) {
+    if (rateTypeByReport.has(report.id)) continue;
+    const hours = parseFloat(report.hours);
+    const entry = billing.find(candidate =>
+      !matchedBilling.has(candidate) &&
+      candidate.date === dateKey(report.date) &&
+      Math.abs(candidate.hours - hours) < HOURS_TOLERANCE
+    );
+    if (entry) {
+      matchedBilling.add(entry);
+      rateTypeByReport.set(report.id, entry.rateType);
+    }
+  }
+
+  // Hours per day and rate type on each side
+  const dayTotals = new Map<string, Map<string, { billingHours: number; nptHours: number }>>();
+  const bucket = (date: string, rateType: string) => {
+    const day = dayTotals.get(date) ?? new Map();
+    dayTotals.set(date, day);
+    const totals = day.get(rateType) ?? { billingHours: 0, nptHours: 0 };
+    day.set(rateType, totals);
+    return totals;
+  };
+  for (const entry of billing) {
+    bucket(entry.date, entry.rateType).billingHours += entry.hours;
+  }
+  for (const report of nptReports) {
+    bucket(dateKey(report.date), rateTypeByReport.get(report.id) ?? UNLINKED_RATE_TYPE).nptHours += parseFloat(report.hours);
+  }
+
+  const notesByDate = new Map<string, ReconciliationNote[]>();
+  for (const note of notes) {
+    notesByDate.set(note.date, [...(notesByDate.get(note.date) || []), {
+      id: note.id,
+      date: note.date,
+      rateType: note.rateType,
+      explanation: note.explanation,
+      createdBy: note.createdBy,
+      createdAt: note.createdAt,
+    }]);
+  }
+
+  const days: ReconciliationDay[] = Array.from(dayTotals.keys()).sort().map(date => {
+    const byRateType = Array.from(dayTotals.get(date)!.entries()).map(([rateType, totals]) => ({
+      rateType,
+      billingHours: round(totals.billingHours),
+      nptHours: round(totals.nptHours),
+      variance: round(totals.nptHours - totals.billingHours),
+    }));
+    const billingHours = round(byRateType.reduce((sum, item) => sum + item.billingHours, 0));
+    const nptHours = round(byRateType.reduce((sum, item) => sum + item.nptHours, 0));
+    const variance = round(nptHours - billingHours);
+    const dayNotes = notesByDate.get(date) || [];
+
+    return {
+      date,
+      billingHours,
+      nptHours,
+      variance,
+      byRateType,
+      explained: Math.abs(variance) < HOURS_TOLERANCE || dayNotes.length > 0,
+      notes: dayNotes,
+    };
+  });
+
+  const totalsByRateType = new Map<string, { billingHours: number; nptHours: number }>();
+  for (const day of days) {
+    for (const item of day.byRateType) {
+      const totals = totalsByRateType.get(item.rateType) ?? { billingHours: 0, nptHours: 0 };
+      totals.billingHours += item.billingHours;
+      totals.nptHours += item.nptHours;
+      totalsByRateType.set(item.rateType, totals);
+    }
+  }
+
+  const unmatchedBilling: UnmatchedBillingRow[] = billing
+    .filter(entry => !matchedBilling.has(entry))
+    .map(({ fingerprint: _fingerprint, ...entry }) => entry);
+
+  const unmatchedReports: UnmatchedNptReport[] = nptReports
+    .filter(report => !rateTypeByReport.has(report.id))
+    .map(report => ({
+      reportId: report.id,
+      date: dateKey(report.date),
+      hours: parseFloat(report.hours),
+      status: report.status,
+      description: reportDescription(report),
+    }));
+
+  return {
+    rigId,
+    rigNumber: rig.rigNumber,
+    month,
+    billingRowCount: billing.length,
+    nptReportCount: nptReports.length,
+    totals: [...RECONCILED_RATE_TYPES, UNLINKED_RATE_TYPE]
+      .filter(rateType => totalsByRateType.has(rateType))
+      .map(rateType => {
+        const totals = totalsByRateType.get(rateType)!;
+        return {
+          rateType,
+          billingHours: round(totals.billingHours),
+          nptHours: round(totals.nptHours),
+          variance: round(totals.nptHours - totals.billingHours),
+        };
+      }),
+    days,
+    unmatchedBilling,
+    unmatchedReports,
+    unexplainedDays: days.filter(day => !day.explained).length,
+  };
+}
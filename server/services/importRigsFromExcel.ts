@@ -1,5 +1,6 @@
 import { db } from "../db.js";
-import { rigs } from "@shared/schema";
+import { rigs, rigAliases } from "@shared/schema";
+import { normalizeRigAlias, parseRigReference } from "./rigResolver";
 
 export async function importRigsFromExcel(filePath: string) {
   try {
@@ -21,10 +22,9 @@ export async function importRigsFromExcel(filePath: string) {
       let rigNumber: number;
       let rigName: string | undefined;
       
-      // Handle special rig names like "Hoist 1", "Hoist 2", etc.
+      // Handle special rig names like "Hoist 1", "Hoist 2", etc. (Hoist 1 -> 9001)
       if (rawRigNumber.toLowerCase().startsWith('hoist')) {
-        const hoistNum = rawRigNumber.match(/\d+/)?.[0];
-        rigNumber = hoistNum ? 9000 + parseInt(hoistNum) : 0; // Map Hoist 1->9001, Hoist 2->9002, etc.
+        rigNumber = parseInt(parseRigReference(rawRigNumber) || '0');
         rigName = rawRigNumber; // Store original name
       } else {
         rigNumber = parseInt(rawRigNumber) || 0;
@@ -47,7 +47,7 @@ export async function importRigsFromExcel(filePath: string) {
     
     // Upsert rigs - update if exists, insert if new
     for (const rig of rigsData) {
-      await db.insert(rigs)
+      const [saved] = await db.insert(rigs)
         .values(rig)
         .onConflictDoUpdate({
           target: rigs.rigNumber,
@@ -59,7 +59,15 @@ export async function importRigsFromExcel(filePath: string) {
             isActive: rig.isActive,
             updatedAt: new Date(),
           },
-        });
+        })
+        .returning();
+
+      // Keep the sheet's name as an alias so "Hoist 1" resolves to rig 9001 everywhere
+      if (rig.rigName) {
+        await db.insert(rigAliases)
+          .values({ rigId: saved.id, alias: rig.rigName, normalizedAlias: normalizeRigAlias(rig.rigName) })
+          .onConflictDoNothing();
+      }
     }
     
     return {
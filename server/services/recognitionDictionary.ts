@@ -0,0 +1,236 @@
+import { storage } from "../storage";
+import type { RecognitionCategory, RecognitionMatch } from "@shared/billingTypes";
+import type { InsertRecognitionKeyword, RecognitionKeyword } from "@shared/schema";
+
+export interface DictionaryEntry {
+  id: number | null;
+  category: RecognitionCategory;
+  keyword: string;
+  rateType?: string;
+  nbtType?: string;
+  system?: string;
+  equipment?: string;
+  label?: string;
+  priority: number;
+}
+
+// Built-in keywords, used to seed the dictionary and whenever it has no active entries
+const DEFAULT_RATE_TYPES: { rateType: string; nbtType: string; keywords: string[] }[] = [
+  {
+    rateType: 'Repair Rate',
+    nbtType: 'Abroad',
+    keywords: ['repair rate', 'repair_rate', 'repair', 'rpr rate', 'rpr_rate', 'maintenance rate', 'maint rate', 'breakdown rate'],
+  },
+  {
+    rateType: 'Reduce Repair Rate',
+    nbtType: 'Abroad',
+    keywords: ['reduce repair rate', 'reduced rate', 'reduce_rate', 'reduced', 'reduced_rate', 'partial rate', 'reduced repair', 'rdcd rate', 'rdcd_rate', 'standby rate'],
+  },
+  {
+    rateType: 'Zero Rate',
+    nbtType: 'Abroad',
+    keywords: ['zero rate', 'zero_rate', 'zero', '0 rate', 'no charge', 'non-billable', 'npt rate', 'idle rate', 'waiting rate', 'breakdown'],
+  },
+  {
+    rateType: 'Operation Rate',
+    nbtType: 'Contractual',
+    keywords: ['operation rate', 'operation_rate', 'operation', 'drilling rate', 'drilling_rate', 'productive rate', 'normal rate', 'standard rate', 'full rate', 'working rate'],
+  },
+];
+
+// System -> equipment named in descriptions
+const DEFAULT_EQUIPMENT: Record<string, string[]> = {
+  'Mud Pumps': ['mud pump', 'triplex pump', 'duplex pump', 'slush pump', 'circulation pump', 'pump liner', 'pump piston', 'pump valve', 'suction valve', 'discharge valve'],
+  'BOP': ['bop', 'bop stack', 'blowout preventer', 'ram preventer', 'annular preventer', 'blind ram', 'pipe ram', 'shear ram', 'accumulator', 'choke line', 'kill line'],
+  'Hoisting': ['mast', 'derrick', 'crown block', 'traveling block', 'hook', 'swivel', 'drawworks', 'deadline anchor', 'fast line', 'drilling line'],
+  'Top Drive': ['top drive', 'tds'],
+  'Rotary': ['rotary table', 'kelly', 'kelly bushing', 'rotary drive', 'rotary hose', 'rotary slip', 'master bushing'],
+  'Power System': ['engine', 'generator', 'diesel engine', 'electric motor', 'motor', 'scr house', 'distribution panel', 'control panel', 'transformer', 'electrical system'],
+  'Hydraulic': ['power pack', 'hydraulic pump', 'hydraulic hose'],
+  'Circulation': ['circulation system', 'standpipe', 'mud manifold', 'choke manifold', 'mud tank', 'trip tank', 'degasser', 'desander', 'desilter', 'shale shaker'],
+  'Safety': ['safety system', 'gas detector', 'fire system', 'diverter', 'emergency shutdown', 'h2s detector', 'escape capsule', 'lifeboat'],
+  'Wellhead': ['wellhead', 'casing head', 'tubing head', 'christmas tree', 'surface safety valve', 'wing valve', 'master valve'],
+  'ESP': ['esp', 'electric submersible pump', 'downhole pump', 'esp motor', 'esp cable', 'esp controller', 'variable speed drive'],
+};
+
+// Words that point at a system when no specific equipment is named
+const DEFAULT_SYSTEM_SYNONYMS: Record<string, string[]> = {
+  'Mud Pumps': ['pump', 'circulation'],
+  'Hoisting': ['wire line'],
+  'Power System': ['electrical', 'power'],
+  'Hydraulic': ['hydraulic', 'hydraulics'],
+  'Cementing': ['cement', 'cmt'],
+  'Casing': ['casing', 'csg'],
+  'Logging': ['logging', 'wireline', 'slickline'],
+};
+
+const DEFAULT_FAILURES = [
+  'failure', 'failed', 'break', 'broken', 'breakdown', 'malfunction', 'issue', 'problem',
+  'fault', 'error', 'damage', 'damaged', 'leak', 'stuck', 'seized', 'worn',
+  'cracked', 'torn', 'ruptured', 'blocked', 'clogged', 'overheated', 'tripped',
+];
+
+export const DEFAULT_RECOGNITION_ENTRIES: DictionaryEntry[] = [
+  ...DEFAULT_RATE_TYPES.flatMap(({ rateType, nbtType, keywords }) =>
+    keywords.map(keyword => ({ id: null, category: 'rate_type' as const, keyword, rateType, nbtType, priority: 0 }))
+  ),
+  ...Object.entries(DEFAULT_EQUIPMENT).flatMap(([system, keywords]) =>
+    keywords.map(keyword => ({
+      id: null,
+      category: 'equipment' as const,
+      keyword,
+      system,
+      equipment: keyword.charAt(0).toUpperCase() + keyword.slice(1),
+      priority: 0,
+    }))
+  ),
+  ...Object.entries(DEFAULT_SYSTEM_SYNONYMS).flatMap(([system, keywords]) =>
+    keywords.map(keyword => ({ id: null, category: 'system' as const, keyword, system, priority: 0 }))
+  ),
+  ...DEFAULT_FAILURES.map(keyword => ({ id: null, category: 'failure' as const, keyword, label: keyword, priority: 0 })),
+];
+
+function keywordPattern(keyword: string): RegExp {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}(?=$|[^a-z0-9])`, 'i');
+}
+
+// Priority first, then the longer (more specific) keyword
+function compareEntries(a: DictionaryEntry, b: DictionaryEntry): number {
+  return b.priority - a.priority || b.keyword.length - a.keyword.length;
+}
+
+function toMatch(entry: DictionaryEntry, value: string): RecognitionMatch {
+  return { entryId: entry.id, category: entry.category, keyword: entry.keyword, value };
+}
+
+export class RecognitionDictionary {
+  private readonly entries: { entry: DictionaryEntry; pattern: RegExp }[];
+
+  constructor(entries: DictionaryEntry[]) {
+    this.entries = [...entries]
+      .sort(compareEntries)
+      .map(entry => ({ entry, pattern: keywordPattern(entry.keyword) }));
+  }
+
+  private matching(category: RecognitionCategory, text: string): DictionaryEntry[] {
+    return this.entries
+      .filter(({ entry, pattern }) => entry.category === category && pattern.test(text))
+      .map(({ entry }) => entry);
+  }
+
+  /**
+   * Pick the rate type whose keywords cover most of the text. Each rate type scores the
+   * share of the text its matched keywords cover, multiplied by how many of them matched.
+   */
+  matchRateType(text: string): { rateType: string; nbtType: string; confidence: number; match: RecognitionMatch } | undefined {
+    const byRateType = new Map<string, DictionaryEntry[]>();
+    for (const entry of this.matching('rate_type', text)) {
+      if (!entry.rateType) continue;
+      byRateType.set(entry.rateType, [...(byRateType.get(entry.rateType) || []), entry]);
+    }
+
+    let best: { rateType: string; nbtType: string; confidence: number; match: RecognitionMatch } | undefined;
+    byRateType.forEach((entries, rateType) => {
+      const coverage = entries.reduce((sum, entry) => sum + entry.keyword.length / Math.max(text.length, 1), 0);
+      const confidence = Math.min(coverage * entries.length, 1.0);
+      if (!best || confidence > best.confidence) {
+        best = {
+          rateType,
+          nbtType: entries[0].nbtType || 'Contractual',
+          confidence,
+          match: toMatch(entries[0], rateType),
+        };
+      }
+    });
+    return best;
+  }
+
+  // Named equipment wins, and brings its system; otherwise fall back to a system synonym
+  matchEquipment(description: string): { system?: string; equipment?: string; matches: RecognitionMatch[] } {
+    const equipmentEntry = this.matching('equipment', description).find(entry => entry.equipment);
+    if (equipmentEntry) {
+      const matches = [toMatch(equipmentEntry, equipmentEntry.equipment as string)];
+      return { system: equipmentEntry.system, equipment: equipmentEntry.equipment, matches };
+    }
+
+    const systemEntry = this.matching('system', description).find(entry => entry.system);
+    if (systemEntry) {
+      return { system: systemEntry.system, matches: [toMatch(systemEntry, systemEntry.system as string)] };
+    }
+    return { matches: [] };
+  }
+
+  matchFailure(description: string): { failure?: string; match?: RecognitionMatch } {
+    const entry = this.matching('failure', description)[0];
+    if (!entry) return {};
+    const failure = entry.label || entry.keyword;
+    return { failure, match: toMatch(entry, failure) };
+  }
+}
+
+// Each category needs something to resolve to; returns the problem, if any
+export function validateRecognitionEntry(entry: Partial<InsertRecognitionKeyword> | RecognitionKeyword): string | undefined {
+  if (entry.category === 'rate_type' && !entry.rateType) {
+    return 'Rate type keywords need a rate type';
+  }
+  if (entry.category === 'system' && !entry.systemId && !entry.label) {
+    return 'System keywords need a linked system or a label';
+  }
+  if (entry.category === 'equipment' && !entry.equipmentId && !entry.label) {
+    return 'Equipment keywords need linked equipment or a label';
+  }
+  return undefined;
+}
+
+let cached: Promise<RecognitionDictionary> | null = null;
+
+/**
+ * Load the active dictionary, resolving linked systems and equipment to their names.
+ * The result is cached until an entry is changed through the API.
+ */
+export function loadRecognitionDictionary(): Promise<RecognitionDictionary> {
+  if (!cached) {
+    cached = buildDictionary().catch(error => {
+      cached = null;
+      throw error;
+    });
+  }
+  return cached;
+}
+
+export function invalidateRecognitionDictionary(): void {
+  cached = null;
+}
+
+async function buildDictionary(): Promise<RecognitionDictionary> {
+  const [keywords, systems, equipment] = await Promise.all([
+    storage.getRecognitionKeywords(),
+    storage.getSystems(),
+    storage.getEquipment(),
+  ]);
+
+  const active = keywords.filter(keyword => keyword.isActive !== false);
+  if (active.length === 0) {
+    return new RecognitionDictionary(DEFAULT_RECOGNITION_ENTRIES);
+  }
+
+  const systemNames = new Map(systems.map(system => [system.id, system.name]));
+  const equipmentById = new Map(equipment.map(item => [item.id, item]));
+
+  return new RecognitionDictionary(active.map(keyword => {
+    const linkedEquipment = keyword.equipmentId ? equipmentById.get(keyword.equipmentId) : undefined;
+    const systemId = keyword.systemId ?? linkedEquipment?.systemId ?? undefined;
+    return {
+      id: keyword.id,
+      category: keyword.category as RecognitionCategory,
+      keyword: keyword.keyword,
+      rateType: keyword.rateType || undefined,
+      nbtType: keyword.nbtType || undefined,
+      system: (systemId ? systemNames.get(systemId) : undefined) || (keyword.category === 'system' ? keyword.label || undefined : undefined),
+      equipment: linkedEquipment?.name || (keyword.category === 'equipment' ? keyword.label || undefined : undefined),
+      label: keyword.label || undefined,
+      priority: keyword.priority ?? 0,
+    };
+  }));
+}
@@ -0,0 +1,149 @@
+import { storage } from "../storage";
+import type { BillingRigGroup, BillingRigStatus, BillingSheetRow } from "@shared/billingTypes";
+import type { Rig } from "@shared/schema";
+
+// Hoist units are stored as rigs 9001, 9002, ... (Hoist 1 -> 9001)
+export const HOIST_RIG_NUMBER_BASE = 9000;
+
+export const UNKNOWN_RIG = 'Unknown';
+
+// Rig references as they appear in file names, sheet headers and rig cells
+const RIG_REFERENCE_PATTERNS: { pattern: RegExp; hoist?: boolean }[] = [
+  { pattern: /\bhoist[\s_#-]*(\d+)/i, hoist: true },
+  { pattern: /\bRABA[\s_-]*(?:East|West)?[\s_-]*(\d+)/i },
+  { pattern: /\bRig[\s_]*(?:number|no\.?|#)?[\s_:#-]*(\d+)/i },
+  { pattern: /\bUnit[\s_]*(?:number|no\.?|#)?[\s_:#-]*(\d+)/i },
+  { pattern: /\bPlatform[\s_]*(?:number|no\.?|#)?[\s_:#-]*(\d+)/i },
+];
+
+/**
+ * Find a rig reference such as "Raba East 12", "Rig 203" or "Hoist 1" in free text and
+ * return the rig number it stands for, or undefined when there is none.
+ */
+export function parseRigReference(text: string): string | undefined {
+  for (const { pattern, hoist } of RIG_REFERENCE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      return hoist ? String(HOIST_RIG_NUMBER_BASE + parseInt(match[1])) : match[1];
+    }
+  }
+  return undefined;
+}
+
+// A rig column holds either a reference or just the number
+export function parseRigCell(text: string): string | undefined {
+  return parseRigReference(text) ?? text.match(/\d+/)?.[0];
+}
+
+// "RABA_12", "Raba-12" and " raba 12 " are all stored and looked up as "raba 12"
+export function normalizeRigAlias(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Find the registered rig a reference points at, however it is written. A stored alias
+ * wins over the number read from the text, so an alias can re-point a misleading name;
+ * otherwise "Hoist 1", "Unit 12" or a bare "12" resolve through their rig number.
+ */
+export async function resolveRig(reference: string | number | null | undefined): Promise<Rig | undefined> {
+  const text = reference === null || reference === undefined ? '' : String(reference).trim();
+  if (!text || text === UNKNOWN_RIG) return undefined;
+
+  const normalized = normalizeRigAlias(text);
+  const aliased = normalized ? await storage.getRigByAlias(normalized) : undefined;
+  if (aliased) return aliased;
+
+  const rigNumber = parseRigCell(text);
+  return rigNumber ? storage.getRigByNumber(parseInt(rigNumber)) : undefined;
+}
+
+// The registered rig whose stored alias appears in free text such as a file name; longest alias wins
+export async function findRigByAliasInText(text: string): Promise<Rig | undefined> {
+  const haystack = ` ${normalizeRigAlias(text)} `;
+  const aliases = (await storage.getRigAliases())
+    .filter(alias => haystack.includes(` ${alias.normalizedAlias} `))
+    .sort((a, b) => b.normalizedAlias.length - a.normalizedAlias.length);
+  return aliases.length > 0 ? storage.getRig(aliases[0].rigId) : undefined;
+}
+
+// How a resolved rig is shown in exports: its display name for rigs like "Hoist 1", else the number
+export function formatRigLabel(rig: Rig | undefined): string {
+  if (!rig) return '';
+  return rig.rigName || String(rig.rigNumber);
+}
+
+/**
+ * Group extracted rows by rig and look each rig up. Each row's rig reference is resolved
+ * through the alias registry and replaced with the registered rig number; rows with no rig
+ * fall back to an alias named in `fileName`. Rows for a rig that is not registered or is
+ * inactive are flagged, and the upload gets one warning per such rig.
+ */
+export async function groupRowsByRig(rows: BillingSheetRow[], fileName?: string): Promise<{
+  rows: BillingSheetRow[];
+  groups: BillingRigGroup[];
+  warnings: string[];
+}> {
+  // Resolve each distinct reference once
+  const rigByReference = new Map<string, Rig | undefined>();
+  const fileRig = fileName ? await findRigByAliasInText(fileName) : undefined;
+  for (const row of rows) {
+    const reference = row.rigNumber ? String(row.rigNumber).trim() : UNKNOWN_RIG;
+    if (!rigByReference.has(reference)) {
+      rigByReference.set(reference, reference === UNKNOWN_RIG ? fileRig : await resolveRig(reference));
+    }
+  }
+
+  const canonicalRows = rows.map(row => {
+    const reference = row.rigNumber ? String(row.rigNumber).trim() : UNKNOWN_RIG;
+    const rig = rigByReference.get(reference);
+    const rigNumber = rig ? String(rig.rigNumber) : reference === UNKNOWN_RIG ? UNKNOWN_RIG : parseRigCell(reference) ?? reference;
+    return rigNumber === row.rigNumber ? row : { ...row, rigNumber };
+  });
+
+  const rowsByRig = new Map<string, BillingSheetRow[]>();
+  for (const row of canonicalRows) {
+    const rigNumber = row.rigNumber ? String(row.rigNumber) : UNKNOWN_RIG;
+    rowsByRig.set(rigNumber, [...(rowsByRig.get(rigNumber) || []), row]);
+  }
+
+  const groups: BillingRigGroup[] = [];
+  const warnings: string[] = [];
+  const flagByRig = new Map<string, string>();
+
+  for (const [rigNumber, rigRows] of Array.from(rowsByRig.entries())) {
+    const rig = /^\d+$/.test(rigNumber) ? await storage.getRigByNumber(parseInt(rigNumber)) : undefined;
+    const status: BillingRigStatus = !rig ? 'unknown' : rig.isActive === false ? 'inactive' : 'active';
+
+    groups.push({
+      rigNumber,
+      rigId: rig?.id ?? null,
+      rigName: rig?.rigName ?? null,
+      status,
+      rowCount: rigRows.length,
+      totalHours: Math.round(rigRows.reduce((sum, row) => sum + (Number(row.hours) || 0), 0) * 100) / 100,
+    });
+
+    if (rigNumber === UNKNOWN_RIG) {
+      flagByRig.set(rigNumber, 'No rig number found for this row');
+      warnings.push(`${rigRows.length} row(s) have no rig number`);
+    } else if (status === 'unknown') {
+      flagByRig.set(rigNumber, `Rig ${rigNumber} is not registered`);
+      warnings.push(`Rig ${rigNumber} is not registered (${rigRows.length} row(s))`);
+    } else if (status === 'inactive') {
+      flagByRig.set(rigNumber, `Rig ${rigNumber} is inactive`);
+      warnings.push(`Rig ${rigNumber} is inactive (${rigRows.length} row(s))`);
+    }
+  }
+
+  groups.sort((a, b) => a.rigNumber.localeCompare(b.rigNumber, undefined, { numeric: true }));
+
+  return {
+    rows: canonicalRows.map(row => {
+      const flag = flagByRig.get(row.rigNumber ? String(row.rigNumber) : UNKNOWN_RIG);
+      if (!flag || row.flags?.includes(flag)) return row;
+      return { ...row, flags: [...(row.flags || []), flag] };
+    }),
+    groups,
+    warnings,
+  };
+}
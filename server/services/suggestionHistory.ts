@@ -0,0 +1,214 @@
+import { storage } from "../storage";
+import { fieldScore, overallConfidence } from "./billingConfidence";
+import {
+  SUGGESTION_FIELDS,
+  type BillingSheetRow,
+  type FieldConfidenceMap,
+  type NptSuggestion,
+  type NptSuggestionFields,
+  type SuggestionAcceptanceReport,
+  type SuggestionAcceptanceStats,
+  type SuggestionCorrection,
+  type SuggestionSource,
+} from "@shared/billingTypes";
+import type { NptReport } from "@shared/schema";
+
+// Below this a past report is too different to reuse its values
+const MIN_SIMILARITY = 0.5;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'due', 'was', 'were', 'has', 'had', 'while', 'after', 'before',
+  'rate', 'hrs', 'hours', 'npt',
+]);
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 2 && !/^\d+$/.test(token) && !STOP_WORDS.has(token))
+  );
+}
+
+// Jaccard overlap of the two descriptions' words
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function normalizeValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return (normalizeValue(a) ?? '').toLowerCase() === (normalizeValue(b) ?? '').toLowerCase();
+}
+
+export function suggestionFieldsFrom(source: Record<string, any> | undefined | null): NptSuggestionFields {
+  const fields: NptSuggestionFields = {};
+  for (const field of SUGGESTION_FIELDS) {
+    fields[field] = normalizeValue(source?.[field]);
+  }
+  return fields;
+}
+
+/**
+ * Prefill Abraj rows from the approved report whose description is closest, falling back to
+ * the extractor's keyword-based values. Either way the row carries what was suggested, so
+ * the reviewer's changes can be recorded when the report is created.
+ */
+export async function applyHistorySuggestions(rows: BillingSheetRow[]): Promise<BillingSheetRow[]> {
+  const candidates = rows.filter(row => row.nbtType === 'Abroad' && row.nptReportData);
+  if (candidates.length === 0) return rows;
+
+  const history = (await storage.getApprovedCorrectionPairs())
+    .map(({ report, description }) => ({
+      report,
+      tokens: tokenize(description || report.immediateCause || ''),
+    }))
+    .filter(entry => entry.tokens.size > 0);
+
+  return rows.map(row => {
+    if (row.nbtType !== 'Abroad' || !row.nptReportData) return row;
+
+    const description = row.description || '';
+    const tokens = tokenize(description);
+    let best: { report: NptReport; score: number } | undefined;
+    for (const entry of history) {
+      const score = similarity(tokens, entry.tokens);
+      // History is newest first, so ties keep the most recent report
+      if (score >= MIN_SIMILARITY && (!best || score > best.score)) {
+        best = { report: entry.report, score };
+      }
+    }
+
+    const rules = suggestionFieldsFrom(row.nptReportData);
+    if (!best) {
+      return { ...row, suggestion: { source: 'rules', description, fields: rules } };
+    }
+
+    const learned = suggestionFieldsFrom(best.report);
+    const fields: NptSuggestionFields = {};
+    for (const field of SUGGESTION_FIELDS) {
+      fields[field] = learned[field] ?? rules[field] ?? null;
+    }
+
+    const similarityScore = Math.round(best.score * 1000) / 1000;
+    const suggestion: NptSuggestion = {
+      source: 'history',
+      description,
+      matchedReportId: best.report.id,
+      similarity: similarityScore,
+      fields,
+    };
+
+    // The match explains the system and equipment as well as any keyword did
+    const evidence = {
+      kind: 'inferred' as const,
+      detail: `approved NPT report #${best.report.id} has a ${Math.round(best.score * 100)}% similar description`,
+    };
+    const fieldConfidence: FieldConfidenceMap = { ...row.fieldConfidence };
+    for (const key of ['system', 'equipment'] as const) {
+      const current = fieldConfidence[key];
+      fieldConfidence[key] = fieldScore(Math.max(current?.score ?? 0, similarityScore), ...(current?.evidence || []), evidence);
+    }
+
+    return {
+      ...row,
+      nptReportData: { ...row.nptReportData, ...fields },
+      fieldConfidence,
+      confidence: overallConfidence(fieldConfidence),
+      suggestion,
+    };
+  });
+}
+
+// Store what was suggested next to what the report was saved with
+export async function recordSuggestionFeedback(report: NptReport, suggestion: NptSuggestion): Promise<void> {
+  await storage.saveSuggestionFeedback({
+    reportId: report.id,
+    description: suggestion.description,
+    source: suggestion.source,
+    matchedReportId: suggestion.matchedReportId ?? null,
+    similarity: suggestion.similarity !== undefined ? String(suggestion.similarity) : null,
+    suggested: suggestionFieldsFrom(suggestion.fields),
+    final: suggestionFieldsFrom(report),
+  });
+}
+
+// Keep the final values current when a reviewer edits a report created from a billing row
+export async function refreshSuggestionFeedback(report: NptReport): Promise<void> {
+  await storage.updateSuggestionFeedbackFinal(report.id, suggestionFieldsFrom(report));
+}
+
+function stats(suggested: number, accepted: number): SuggestionAcceptanceStats {
+  return {
+    suggested,
+    accepted,
+    acceptanceRate: suggested > 0 ? Math.round((accepted / suggested) * 1000) / 1000 : 0,
+  };
+}
+
+/**
+ * How often prefilled values survived review. Only fields that were actually suggested
+ * count; a suggestion is accepted when the saved value matches it, ignoring case.
+ */
+export async function getSuggestionAcceptanceReport(limit = 20): Promise<SuggestionAcceptanceReport> {
+  const feedback = await storage.getSuggestionFeedback();
+
+  const fieldCounts = new Map(SUGGESTION_FIELDS.map(field => [field, { suggested: 0, accepted: 0 }]));
+  const sourceCounts: Record<SuggestionSource, { reports: number; suggested: number; accepted: number }> = {
+    rules: { reports: 0, suggested: 0, accepted: 0 },
+    history: { reports: 0, suggested: 0, accepted: 0 },
+  };
+  const corrections: SuggestionCorrection[] = [];
+
+  for (const entry of feedback) {
+    const source: SuggestionSource = entry.source === 'history' ? 'history' : 'rules';
+    const suggested = (entry.suggested || {}) as NptSuggestionFields;
+    const final = (entry.final || {}) as NptSuggestionFields;
+    sourceCounts[source].reports++;
+
+    for (const field of SUGGESTION_FIELDS) {
+      if (!normalizeValue(suggested[field])) continue;
+      const accepted = sameValue(suggested[field], final[field]);
+      const counts = fieldCounts.get(field)!;
+      counts.suggested++;
+      sourceCounts[source].suggested++;
+      if (accepted) {
+        counts.accepted++;
+        sourceCounts[source].accepted++;
+      } else if (corrections.length < limit) {
+        corrections.push({
+          reportId: entry.reportId,
+          description: entry.description,
+          field,
+          suggested: normalizeValue(suggested[field]),
+          final: normalizeValue(final[field]),
+          source,
+          updatedAt: entry.updatedAt,
+        });
+      }
+    }
+  }
+
+  const totalSuggested = sourceCounts.rules.suggested + sourceCounts.history.suggested;
+  const totalAccepted = sourceCounts.rules.accepted + sourceCounts.history.accepted;
+
+  return {
+    totalReports: feedback.length,
+    overall: stats(totalSuggested, totalAccepted),
+    bySource: {
+      rules: { reports: sourceCounts.rules.reports, ...stats(sourceCounts.rules.suggested, sourceCounts.rules.accepted) },
+      history: { reports: sourceCounts.history.reports, ...stats(sourceCounts.history.suggested, sourceCounts.history.accepted) },
+    },
+    byField: SUGGESTION_FIELDS.map(field => ({ field, ...stats(fieldCounts.get(field)!.suggested, fieldCounts.get(field)!.accepted) })),
+    recentCorrections: corrections,
+  };
+}
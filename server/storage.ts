@@ -7,7 +7,6 @@ import {
   equipment,
   departments,
   actionParties,
-  workflowApprovals,
   monthlyReports,
   stageEvents,
   daySlices,
@@ -29,8 +28,6 @@ import {
   type InsertDepartment,
   type ActionParty,
   type InsertActionParty,
-  type WorkflowApproval,
-  type InsertWorkflowApproval,
   type MonthlyReport,
   type InsertMonthlyReport,
   type StageEvent,
@@ -51,10 +48,29 @@ import {
   type InsertRoleAssignment,
   delegations,
   roleAssignments,
+  billingUploads,
+  billingUploadRows,
+  billingColumnProfiles,
+  type BillingUpload,
+  type BillingUploadRow,
+  type BillingColumnProfile,
+  type InsertBillingColumnProfile,
+  recognitionKeywords,
+  type RecognitionKeyword,
+  type InsertRecognitionKeyword,
+  nptSuggestionFeedback,
+  type NptSuggestionFeedback,
+  type InsertNptSuggestionFeedback,
+  billingReconciliationNotes,
+  type BillingReconciliationNote,
+  type InsertBillingReconciliationNote,
+  rigAliases,
+  type RigAlias,
+  type InsertRigAlias,
 } from "@shared/schema";
-import type { BillingSheetUpload, BillingUploadResult } from "@shared/billingTypes";
+import type { BillingSheetRow, BillingSheetUpload, BillingUploadResult, BillingUploadSummary, NptSuggestionFields } from "@shared/billingTypes";
 import { db } from "./db";
-import { eq, desc, and, or, count, inArray } from "drizzle-orm";
+import { eq, desc, and, or, count, inArray, gte, lte, isNull, sql } from "drizzle-orm";
 import { NPT_STATUS } from "@shared/status";
 
 export interface IStorage {
@@ -79,6 +95,7 @@ export interface IStorage {
   // NPT Report operations
   getNptReports(filters?: { rigId?: number; userId?: string; status?: string }): Promise<NptReport[]>;
   getNptReport(id: number): Promise<NptReport | undefined>;
+  getNptReportsForRigInRange(rigId: number, from: Date, to: Date): Promise<NptReport[]>;
   createNptReport(report: InsertNptReport): Promise<NptReport>;
   createNptReports(reports: InsertNptReport[]): Promise<NptReport[]>;
   updateNptReport(id: number, report: Partial<NptReport>): Promise<NptReport>;
@@ -109,15 +126,34 @@ export interface IStorage {
   createActionParty(actionParty: InsertActionParty): Promise<ActionParty>;
   deleteActionParty(id: number): Promise<void>;
   
-  // Workflow operations
-  createWorkflowApproval(approval: Partial<InsertWorkflowApproval>): Promise<WorkflowApproval>;
-  getWorkflowApprovals(reportId: number): Promise<WorkflowApproval[]>;
-  getReportsByApprover(approverRole: string): Promise<NptReport[]>;
-  
   // Billing upload operations
-  saveBillingUpload(upload: { fileName: string; uploadedBy: string; status: string; result: BillingUploadResult }): Promise<void>;
-  getBillingUploads(): Promise<any[]>;
+  saveBillingUpload(upload: BillingSheetUpload): Promise<BillingUpload>;
+  getBillingUploads(filters?: { uploadedBy?: string }): Promise<BillingUploadSummary[]>;
+  getBillingUpload(id: number): Promise<(BillingUploadResult & { upload: BillingUpload }) | undefined>;
+  getBillingColumnProfiles(): Promise<BillingColumnProfile[]>;
+  getBillingColumnProfile(id: number): Promise<BillingColumnProfile | undefined>;
+  createBillingColumnProfile(profile: InsertBillingColumnProfile & { createdBy?: string }): Promise<BillingColumnProfile>;
+  updateBillingColumnProfile(id: number, updates: Partial<InsertBillingColumnProfile>): Promise<BillingColumnProfile>;
+  deleteBillingColumnProfile(id: number): Promise<void>;
+  getRecognitionKeywords(): Promise<RecognitionKeyword[]>;
+  createRecognitionKeyword(entry: InsertRecognitionKeyword & { createdBy?: string }): Promise<RecognitionKeyword>;
+  updateRecognitionKeyword(id: number, updates: Partial<InsertRecognitionKeyword>): Promise<RecognitionKeyword>;
+  deleteRecognitionKeyword(id: number): Promise<void>;
+  saveSuggestionFeedback(feedback: InsertNptSuggestionFeedback): Promise<NptSuggestionFeedback>;
+  updateSuggestionFeedbackFinal(reportId: number, final: NptSuggestionFields): Promise<void>;
+  getSuggestionFeedback(): Promise<NptSuggestionFeedback[]>;
+  getApprovedCorrectionPairs(limit?: number): Promise<{ report: NptReport; description: string | null }[]>;
+  getBillingRowsForRigInRange(rigNumber: string, from: string, to: string): Promise<{ row: BillingUploadRow; fileName: string }[]>;
+  getReconciliationNotes(rigId: number, month: string): Promise<BillingReconciliationNote[]>;
+  getReconciliationNote(id: number): Promise<BillingReconciliationNote | undefined>;
+  createReconciliationNote(note: InsertBillingReconciliationNote & { createdBy: string }): Promise<BillingReconciliationNote>;
+  deleteReconciliationNote(id: number): Promise<void>;
   getRigByNumber(rigNumber: number): Promise<Rig | undefined>;
+  getRigAliases(rigId?: number): Promise<RigAlias[]>;
+  getRigAlias(id: number): Promise<RigAlias | undefined>;
+  getRigByAlias(normalizedAlias: string): Promise<Rig | undefined>;
+  createRigAlias(alias: InsertRigAlias & { normalizedAlias: string; createdBy?: string | null }): Promise<RigAlias>;
+  deleteRigAlias(id: number): Promise<void>;
   getSystemByName(name: string): Promise<System | undefined>;
   
   // Smart NPT Tracking - Report Deliveries
@@ -268,6 +304,18 @@ export class DatabaseStorage implements IStorage {
     return report;
   }
   
+  async getNptReportsForRigInRange(rigId: number, from: Date, to: Date): Promise<NptReport[]> {
+    return await db
+      .select()
+      .from(nptReports)
+      .where(and(
+        eq(nptReports.rigId, rigId),
+        gte(nptReports.date, from),
+        lte(nptReports.date, to)
+      ))
+      .orderBy(nptReports.date);
+  }
+
   async createNptReport(report: InsertNptReport): Promise<NptReport> {
     // Calculate year and month from date
     const date = new Date(report.date);
@@ -304,7 +352,8 @@ export class DatabaseStorage implements IStorage {
   }
   
   async updateNptReport(id: number, report: Partial<NptReport>): Promise<NptReport> {
-    let updateData: any = { ...report, updatedAt: new Date() };
+    const now = new Date();
+    let updateData: any = { ...report, updatedAt: now, editedAt: now };
     
     // Convert hours to string if provided and it's a number
     if (updateData.hours !== undefined && typeof updateData.hours === 'number') {
@@ -461,20 +510,6 @@ export class DatabaseStorage implements IStorage {
     await db.update(actionParties).set({ isActive: false }).where(eq(actionParties.id, id));
   }
   
-  // Workflow operations
-  async createWorkflowApproval(approval: Partial<InsertWorkflowApproval>): Promise<WorkflowApproval> {
-    const [newApproval] = await db.insert(workflowApprovals).values(approval as InsertWorkflowApproval).returning();
-    return newApproval;
-  }
-  
-  async getWorkflowApprovals(reportId: number): Promise<WorkflowApproval[]> {
-    return await db
-      .select()
-      .from(workflowApprovals)
-      .where(eq(workflowApprovals.reportId, reportId))
-      .orderBy(workflowApprovals.createdAt);
-  }
-
   // Monthly Reports (Lifecycle tracking)
   async getMonthlyReports(filters?: { rigId?: number; month?: string; status?: string }): Promise<MonthlyReport[]> {
     const conditions = [];
@@ -594,6 +629,22 @@ export class DatabaseStorage implements IStorage {
     return newNotification;
   }
 
+  // dedupeKey narrows the match to notifications whose metadata carries the same key
+  async hasRecentNotification(reportId: number | null, rule: string, recipient: string, since: Date, dedupeKey?: string): Promise<boolean> {
+    const [recent] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(
+        reportId === null ? isNull(notifications.reportId) : eq(notifications.reportId, reportId),
+        eq(notifications.rule, rule),
+        eq(notifications.recipient, recipient),
+        gte(notifications.sentAt, since),
+        dedupeKey === undefined ? undefined : sql`${notifications.metadata}->>'dedupeKey' = ${dedupeKey}`
+      ))
+      .limit(1);
+    return !!recent;
+  }
+
   async getNotifications(userId: string, unreadOnly?: boolean): Promise<Notification[]> {
     const conditions = [eq(notifications.recipient, userId)];
     if (unreadOnly) {
@@ -640,22 +691,216 @@ export class DatabaseStorage implements IStorage {
     return updatedRule;
   }
   
-  async getReportsByApprover(approverRole: string): Promise<NptReport[]> {
-    return await db
+  // Billing upload operations
+  async saveBillingUpload(upload: BillingSheetUpload): Promise<BillingUpload> {
+    const { result } = upload;
+
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx
+        .insert(billingUploads)
+        .values({
+          fileName: upload.fileName,
+          fileHash: upload.fileHash,
+          fileSize: upload.fileSize,
+          uploadedBy: upload.uploadedBy,
+          rigId: upload.rigId ?? null,
+          rigNumber: upload.rigNumber ?? null,
+          status: upload.status,
+          totalRows: result.totalRows,
+          processedRows: result.processedRows,
+          errors: result.errors,
+          recognitionSummary: result.recognitionSummary,
+        })
+        .returning();
+
+      if (result.extractedData.length > 0) {
+        await tx.insert(billingUploadRows).values(
+          result.extractedData.map((row, rowIndex) => {
+            const rowDate = row.date ? new Date(row.date) : null;
+            const hours = row.hours !== undefined && row.hours !== '' ? Number(row.hours) : NaN;
+            return {
+              uploadId: saved.id,
+              rowIndex,
+              rigNumber: row.rigNumber ?? null,
+              date: rowDate && !isNaN(rowDate.getTime()) ? rowDate.toISOString().split('T')[0] : null,
+              hours: Number.isFinite(hours) ? hours.toString() : null,
+              rateType: row.rateType ?? null,
+              nbtType: row.nbtType ?? null,
+              description: row.description ?? null,
+              data: row,
+            };
+          })
+        );
+      }
+
+      return saved;
+    });
+  }
+
+  async getBillingUploads(filters?: { uploadedBy?: string }): Promise<BillingUploadSummary[]> {
+    const uploads = await db
+      .select()
+      .from(billingUploads)
+      .where(filters?.uploadedBy ? eq(billingUploads.uploadedBy, filters.uploadedBy) : undefined)
+      .orderBy(desc(billingUploads.createdAt));
+
+    return uploads.map(upload => ({
+      id: upload.id,
+      fileName: upload.fileName,
+      fileHash: upload.fileHash,
+      uploadedBy: upload.uploadedBy,
+      rigId: upload.rigId,
+      rigNumber: upload.rigNumber,
+      status: upload.status,
+      totalRows: upload.totalRows ?? 0,
+      processedRows: upload.processedRows ?? 0,
+      errorCount: Array.isArray(upload.errors) ? upload.errors.length : 0,
+      createdAt: upload.createdAt,
+    }));
+  }
+
+  async getBillingUpload(id: number): Promise<(BillingUploadResult & { upload: BillingUpload }) | undefined> {
+    const [upload] = await db.select().from(billingUploads).where(eq(billingUploads.id, id));
+    if (!upload) return undefined;
+
+    const rows = await db
       .select()
+      .from(billingUploadRows)
+      .where(eq(billingUploadRows.uploadId, id))
+      .orderBy(billingUploadRows.rowIndex);
+
+    return {
+      upload,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      totalRows: upload.totalRows ?? 0,
+      processedRows: upload.processedRows ?? 0,
+      errors: (upload.errors as string[] | null) ?? [],
+      extractedData: rows.map(row => row.data as BillingSheetRow),
+      recognitionSummary: upload.recognitionSummary as BillingUploadResult['recognitionSummary'],
+    };
+  }
+
+  async getBillingColumnProfiles(): Promise<BillingColumnProfile[]> {
+    return await db.select().from(billingColumnProfiles).orderBy(billingColumnProfiles.client, billingColumnProfiles.name);
+  }
+
+  async getBillingColumnProfile(id: number): Promise<BillingColumnProfile | undefined> {
+    const [profile] = await db.select().from(billingColumnProfiles).where(eq(billingColumnProfiles.id, id));
+    return profile;
+  }
+
+  async createBillingColumnProfile(profile: InsertBillingColumnProfile & { createdBy?: string }): Promise<BillingColumnProfile> {
+    const [newProfile] = await db.insert(billingColumnProfiles).values(profile).returning();
+    return newProfile;
+  }
+
+  async updateBillingColumnProfile(id: number, updates: Partial<InsertBillingColumnProfile>): Promise<BillingColumnProfile> {
+    const [updated] = await db
+      .update(billingColumnProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(billingColumnProfiles.id, id))
+      .returning();
+    if (!updated) throw new Error('Column profile not found');
+    return updated;
+  }
+
+  async deleteBillingColumnProfile(id: number): Promise<void> {
+    await db.delete(billingColumnProfiles).where(eq(billingColumnProfiles.id, id));
+  }
+
+  async getRecognitionKeywords(): Promise<RecognitionKeyword[]> {
+    return await db.select().from(recognitionKeywords).orderBy(recognitionKeywords.category, recognitionKeywords.keyword);
+  }
+
+  async createRecognitionKeyword(entry: InsertRecognitionKeyword & { createdBy?: string }): Promise<RecognitionKeyword> {
+    const [newEntry] = await db.insert(recognitionKeywords).values(entry).returning();
+    return newEntry;
+  }
+
+  async updateRecognitionKeyword(id: number, updates: Partial<InsertRecognitionKeyword>): Promise<RecognitionKeyword> {
+    const [updated] = await db
+      .update(recognitionKeywords)
+      .set(updates)
+      .where(eq(recognitionKeywords.id, id))
+      .returning();
+    if (!updated) throw new Error('Recognition keyword not found');
+    return updated;
+  }
+
+  async deleteRecognitionKeyword(id: number): Promise<void> {
+    await db.delete(recognitionKeywords).where(eq(recognitionKeywords.id, id));
+  }
+
+  // One feedback row per report; re-converting a billing row replaces it
+  async saveSuggestionFeedback(feedback: InsertNptSuggestionFeedback): Promise<NptSuggestionFeedback> {
+    const [saved] = await db
+      .insert(nptSuggestionFeedback)
+      .values(feedback)
+      .onConflictDoUpdate({
+        target: nptSuggestionFeedback.reportId,
+        set: { ...feedback, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateSuggestionFeedbackFinal(reportId: number, final: NptSuggestionFields): Promise<void> {
+    await db
+      .update(nptSuggestionFeedback)
+      .set({ final, updatedAt: new Date() })
+      .where(eq(nptSuggestionFeedback.reportId, reportId));
+  }
+
+  async getSuggestionFeedback(): Promise<NptSuggestionFeedback[]> {
+    return await db.select().from(nptSuggestionFeedback).orderBy(desc(nptSuggestionFeedback.updatedAt));
+  }
+
+  // Approved Abraj reports with the billing description they were created from, newest first
+  async getApprovedCorrectionPairs(limit = 2000): Promise<{ report: NptReport; description: string | null }[]> {
+    return await db
+      .select({ report: nptReports, description: nptSuggestionFeedback.description })
       .from(nptReports)
-      .where(eq(nptReports.currentApprover, approverRole));
+      .leftJoin(nptSuggestionFeedback, eq(nptSuggestionFeedback.reportId, nptReports.id))
+      .where(and(eq(nptReports.status, NPT_STATUS.APPROVED), eq(nptReports.nptType, 'Abraj')))
+      .orderBy(desc(nptReports.date))
+      .limit(limit);
   }
 
-  // Billing upload operations
-  async saveBillingUpload(upload: { fileName: string; uploadedBy: string; status: string; result: BillingUploadResult }): Promise<void> {
-    // For now, store in memory - in production, this would be a database table
-    console.log('Billing upload saved:', upload.fileName, upload.status);
+  // Stored billing rows for a rig between two YYYY-MM-DD dates, latest upload first
+  async getBillingRowsForRigInRange(rigNumber: string, from: string, to: string): Promise<{ row: BillingUploadRow; fileName: string }[]> {
+    return await db
+      .select({ row: billingUploadRows, fileName: billingUploads.fileName })
+      .from(billingUploadRows)
+      .innerJoin(billingUploads, eq(billingUploadRows.uploadId, billingUploads.id))
+      .where(and(
+        eq(billingUploadRows.rigNumber, rigNumber),
+        gte(billingUploadRows.date, from),
+        lte(billingUploadRows.date, to)
+      ))
+      .orderBy(desc(billingUploads.createdAt), billingUploadRows.rowIndex);
+  }
+
+  async getReconciliationNotes(rigId: number, month: string): Promise<BillingReconciliationNote[]> {
+    return await db
+      .select()
+      .from(billingReconciliationNotes)
+      .where(and(eq(billingReconciliationNotes.rigId, rigId), eq(billingReconciliationNotes.month, month)))
+      .orderBy(billingReconciliationNotes.date, billingReconciliationNotes.createdAt);
   }
 
-  async getBillingUploads(): Promise<any[]> {
-    // For now, return empty array - in production, this would query the database
-    return [];
+  async getReconciliationNote(id: number): Promise<BillingReconciliationNote | undefined> {
+    const [note] = await db.select().from(billingReconciliationNotes).where(eq(billingReconciliationNotes.id, id));
+    return note;
+  }
+
+  async createReconciliationNote(note: InsertBillingReconciliationNote & { createdBy: string }): Promise<BillingReconciliationNote> {
+    const [newNote] = await db.insert(billingReconciliationNotes).values(note).returning();
+    return newNote;
+  }
+
+  async deleteReconciliationNote(id: number): Promise<void> {
+    await db.delete(billingReconciliationNotes).where(eq(billingReconciliationNotes.id, id));
   }
 
   async getRigByNumber(rigNumber: number): Promise<Rig | undefined> {
@@ -663,6 +908,37 @@ export class DatabaseStorage implements IStorage {
     return rig;
   }
 
+  async getRigAliases(rigId?: number): Promise<RigAlias[]> {
+    return await db
+      .select()
+      .from(rigAliases)
+      .where(rigId !== undefined ? eq(rigAliases.rigId, rigId) : undefined)
+      .orderBy(rigAliases.alias);
+  }
+
+  async getRigAlias(id: number): Promise<RigAlias | undefined> {
+    const [alias] = await db.select().from(rigAliases).where(eq(rigAliases.id, id));
+    return alias;
+  }
+
+  async getRigByAlias(normalizedAlias: string): Promise<Rig | undefined> {
+    const [row] = await db
+      .select({ rig: rigs })
+      .from(rigAliases)
+      .innerJoin(rigs, eq(rigAliases.rigId, rigs.id))
+      .where(eq(rigAliases.normalizedAlias, normalizedAlias));
+    return row?.rig;
+  }
+
+  async createRigAlias(alias: InsertRigAlias & { normalizedAlias: string; createdBy?: string | null }): Promise<RigAlias> {
+    const [newAlias] = await db.insert(rigAliases).values(alias).returning();
+    return newAlias;
+  }
+
+  async deleteRigAlias(id: number): Promise<void> {
+    await db.delete(rigAliases).where(eq(rigAliases.id, id));
+  }
+
   async getSystemByName(name: string): Promise<System | undefined> {
     const [system] = await db.select().from(systems).where(eq(systems.name, name));
     return system;
@@ -3,7 +3,7 @@
 export interface BillingSheetRow {
   rigNumber?: string;
   date?: string | Date;
-  year?: string;
+  year?: string | number;
   month?: string;
   hours?: number | string;
   rateType?: string;
@@ -14,6 +14,18 @@ export interface BillingSheetRow {
   extractedSystem?: string;
   extractedEquipment?: string;
   extractedFailure?: string;
+  wellName?: string;
+  confidence?: number;
+  nptReportData?: Record<string, any>;
+  source?: BillingRowSource;
+  // Dictionary entries that set the rate type, system, equipment and failure
+  recognitionMatches?: RecognitionMatch[];
+  // Why each extracted field got its value, and how sure the extractor is about it
+  fieldConfidence?: FieldConfidenceMap;
+  // Reasons the row could not be read cleanly; flagged rows need checking before reports are created
+  flags?: string[];
+  // Values prefilled on the NPT draft, kept so reviewer corrections can be learned from
+  suggestion?: NptSuggestion;
   extractedData?: {
     description?: string;
     system?: string;
@@ -21,35 +33,267 @@ export interface BillingSheetRow {
   };
 }
 
-export interface ProcessedBillingData {
-  fileName: string;
-  uploadedAt: Date;
-  extractedRows: BillingSheetRow[];
-  processingStatus: 'completed' | 'processing' | 'failed';
-  errorMessage?: string;
+export type RecognitionCategory = 'rate_type' | 'system' | 'equipment' | 'failure';
+
+export interface RecognitionMatch {
+  entryId: number | null; // null when the built-in keywords were used because the dictionary is empty
+  category: RecognitionCategory;
+  keyword: string;
+  value: string;
 }
 
-export interface BillingUpload {
-  id: number;
+// Per-field confidence on extracted rows
+export type ConfidenceField =
+  | 'rigNumber'
+  | 'date'
+  | 'hours'
+  | 'rateType'
+  | 'system'
+  | 'equipment'
+  | 'failure'
+  | 'description';
+
+export interface ConfidenceEvidence {
+  kind: 'column' | 'keyword' | 'position' | 'inferred' | 'flag' | 'missing';
+  detail: string;
+  // Character range of a keyword within the row description
+  start?: number;
+  end?: number;
+}
+
+export interface FieldConfidence {
+  score: number; // 0..1
+  evidence: ConfidenceEvidence[];
+}
+
+export type FieldConfidenceMap = Partial<Record<ConfidenceField, FieldConfidence>>;
+
+// Fields scoring below this are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// NPT fields prefilled from billing rows; reviewer changes to these are recorded as corrections
+export const SUGGESTION_FIELDS = [
+  'system',
+  'parentEquipment',
+  'partEquipment',
+  'rootCause',
+  'correctiveAction',
+  'futureAction',
+] as const;
+
+export type SuggestionField = typeof SUGGESTION_FIELDS[number];
+export type NptSuggestionFields = Partial<Record<SuggestionField, string | null>>;
+export type SuggestionSource = 'rules' | 'history';
+
+export interface NptSuggestion {
+  // 'history' when the values came from the closest approved report, 'rules' when from keyword extraction
+  source: SuggestionSource;
+  description: string;
+  matchedReportId?: number;
+  similarity?: number;
+  fields: NptSuggestionFields;
+}
+
+export interface SuggestionAcceptanceStats {
+  suggested: number;
+  accepted: number;
+  acceptanceRate: number; // 0..1
+}
+
+export interface SuggestionCorrection {
+  reportId: number;
+  description: string;
+  field: SuggestionField;
+  suggested: string | null;
+  final: string | null;
+  source: SuggestionSource;
+  updatedAt: string | Date | null;
+}
+
+export interface SuggestionAcceptanceReport {
+  totalReports: number;
+  overall: SuggestionAcceptanceStats;
+  bySource: Record<SuggestionSource, SuggestionAcceptanceStats & { reports: number }>;
+  byField: (SuggestionAcceptanceStats & { field: SuggestionField })[];
+  recentCorrections: SuggestionCorrection[];
+}
+
+// Where a row was read from in an uploaded PDF ticket
+export interface BillingRowSource {
+  page: number;
+  line: number;
+  lineEnd?: number;
+  text: string;
+}
+
+export interface ProcessedBillingData {
   fileName: string;
-  originalName: string;
   uploadedAt: Date;
   extractedRows: BillingSheetRow[];
-  processingStatus: string;
+  processingStatus: 'completed' | 'processing' | 'failed';
   errorMessage?: string;
 }
 
 export interface BillingSheetUpload {
   fileName: string;
+  fileHash: string;
+  fileSize: number; // Bytes
   uploadedBy: string;
+  rigId?: number | null;
+  rigNumber?: string | null;
   status: string;
   result: BillingUploadResult;
 }
 
+export interface BillingRecognitionSummary {
+  repairRateRows: number;
+  reducedRateRows: number;
+  zeroRateRows: number;
+  contractualRows: number;
+  abroadRows: number;
+}
+
 export interface BillingUploadResult {
-  extractedRows: BillingSheetRow[];
-  processingStatus: 'completed' | 'processing' | 'failed';
-  errorMessage?: string;
-  importedCount?: number;
-  skippedCount?: number;
-}
\ No newline at end of file
+  uploadId?: number;
+  fileName: string;
+  totalRows: number;
+  processedRows: number;
+  errors: string[];
+  extractedData: BillingSheetRow[];
+  recognitionSummary: BillingRecognitionSummary;
+  // Extracted rows grouped by the rig each one names; consolidated sheets cover several rigs
+  rigGroups?: BillingRigGroup[];
+  // Problems that don't stop processing, such as rows for unknown or inactive rigs
+  warnings?: string[];
+}
+
+export type BillingRigStatus = 'active' | 'inactive' | 'unknown';
+
+export interface BillingRigGroup {
+  rigNumber: string; // As read from the sheet; 'Unknown' when no rig was found
+  rigId: number | null;
+  rigName: string | null;
+  status: BillingRigStatus;
+  rowCount: number;
+  totalHours: number;
+}
+
+// Upload history entry as listed by /api/billing-uploads (rows are fetched on reopen)
+export interface BillingUploadSummary {
+  id: number;
+  fileName: string;
+  fileHash: string;
+  uploadedBy: string;
+  rigId: number | null;
+  rigNumber: string | null;
+  status: string;
+  totalRows: number;
+  processedRows: number;
+  errorCount: number;
+  createdAt: string | Date | null;
+}
+
+// Duplicate detection when converting billing rows into NPT reports
+export type DuplicateStatus = 'new' | 'exact_duplicate' | 'probable_duplicate';
+export type DuplicateResolution = 'skip' | 'overwrite' | 'keep_both';
+
+export interface DuplicateMatch {
+  reportId: number;
+  date: string;
+  hours: number;
+  status: string | null;
+  description: string;
+  similarity: number;
+}
+
+export interface BillingRowDuplicateCheck {
+  rowIndex: number;
+  fingerprint: string | null;
+  status: DuplicateStatus;
+  matches: DuplicateMatch[];
+  duplicateOfRow?: number; // Index of an earlier row in the same batch with the same fingerprint
+}
+
+// Excel workbook parsing - canonical billing fields and per-client column mapping
+export type BillingColumnField = 'date' | 'hours' | 'rateType' | 'description' | 'rigNumber' | 'ticketNumber';
+
+// Maps each canonical field to the header text used in a client's sheet
+export type BillingColumnMap = Partial<Record<BillingColumnField, string>>;
+
+export const BILLING_COLUMN_FIELDS: { field: BillingColumnField; label: string; required: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'hours', label: 'Hours', required: true },
+  { field: 'rateType', label: 'Rate Type', required: false },
+  { field: 'description', label: 'Description', required: false },
+  { field: 'rigNumber', label: 'Rig Number', required: false },
+  { field: 'ticketNumber', label: 'Ticket Number', required: false },
+];
+
+export interface WorkbookSheetPreview {
+  name: string;
+  rowCount: number;
+  detectedHeaderRow: number | null; // 1-based
+  preview: string[][];
+}
+
+export interface WorkbookParseOptions {
+  sheetName?: string;
+  headerRow?: number; // 1-based
+  columnMap?: BillingColumnMap;
+}
+
+// Billing sheet vs NPT report reconciliation for one rig and month
+export const RECONCILED_RATE_TYPES = ['Repair Rate', 'Reduce Repair Rate', 'Zero Rate'] as const;
+
+// NPT reports that could not be tied to a billing row have no rate type of their own
+export const UNLINKED_RATE_TYPE = 'Unlinked';
+
+export interface ReconciliationNote {
+  id: number;
+  date: string;
+  rateType: string | null;
+  explanation: string;
+  createdBy: string;
+  createdAt: string | Date | null;
+}
+
+export interface ReconciliationDay {
+  date: string; // YYYY-MM-DD
+  billingHours: number;
+  nptHours: number;
+  variance: number; // NPT minus billing
+  byRateType: { rateType: string; billingHours: number; nptHours: number; variance: number }[];
+  explained: boolean;
+  notes: ReconciliationNote[];
+}
+
+export interface UnmatchedBillingRow {
+  uploadId: number;
+  rowIndex: number;
+  fileName: string;
+  date: string;
+  hours: number;
+  rateType: string;
+  description: string;
+}
+
+export interface UnmatchedNptReport {
+  reportId: number;
+  date: string;
+  hours: number;
+  status: string | null;
+  description: string;
+}
+
+export interface BillingReconciliation {
+  rigId: number;
+  rigNumber: number;
+  month: string;
+  billingRowCount: number;
+  nptReportCount: number;
+  totals: { rateType: string; billingHours: number; nptHours: number; variance: number }[];
+  days: ReconciliationDay[];
+  unmatchedBilling: UnmatchedBillingRow[];
+  unmatchedReports: UnmatchedNptReport[];
+  unexplainedDays: number;
+}
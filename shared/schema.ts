@@ -9,6 +9,7 @@ import {
   boolean,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   date,
 } from "drizzle-orm/pg-core";
@@ -90,22 +91,33 @@ export const nptReports = pgTable("npt_reports", {
   investigationFileId: varchar("investigation_file_id"),
   investigationAiText: text("investigation_ai_text"),
   wellName: varchar("well_name"),
-  status: varchar("status").default('DRAFT'), // DRAFT, PENDING_REVIEW, APPROVED, REJECTED
+  billingFingerprint: varchar("billing_fingerprint", { length: 64 }), // Set when created from a billing sheet row
+  status: varchar("status").default('Draft'), // NPT_STATUS in shared/status.ts; changed only through server/lib/approvals.ts
   rejectionReason: text("rejection_reason"),
   // Enhanced workflow fields for delegation system
   currentStepOrder: integer("current_step_order"),
   currentNominalUserId: varchar("current_nominal_user_id").references(() => users.id),
-  currentApproverUserId: varchar("current_approver_user_id").references(() => users.id),
-  workflowStatus: varchar("workflow_status").default('initiated'), // initiated, pending_ds, pending_pme, pending_ose, approved, rejected
-  currentApprover: varchar("current_approver"), // Current role waiting for approval (legacy)
+  currentApproverUserId: varchar("current_approver_user_id").references(() => users.id), // First of currentApproverUserIds
+  currentApproverUserIds: text("current_approver_user_ids").array(), // Everyone the current step group still waits on
+  workflowId: integer("workflow_id").references(() => workflowDefinitions.id), // Chosen on submission
+  workflowVersionId: integer("workflow_version_id").references(() => workflowVersions.id), // The published steps it runs on
+  workflowReason: text("workflow_reason"), // Why that workflow matched, e.g. "department Maintenance (M/E), 7h ≥ 6h"
+  currentStepStartedAt: timestamp("current_step_started_at"), // When the current step group was routed; SLAs count from here
+  escalatedToUserId: varchar("escalated_to_user_id").references(() => users.id), // Escalation approver of the current step, if any
+  workflowStatus: varchar("workflow_status").default('initiated'), // Legacy, no longer written; see status
+  currentApprover: varchar("current_approver"), // Legacy role pointer, no longer written; see currentApproverUserId
   workflowPath: varchar("workflow_path"), // drilling or e-maintenance
   initiatedBy: varchar("initiated_by").references(() => users.id),
   initiatedAt: timestamp("initiated_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+  editedAt: timestamp("edited_at").defaultNow(), // Last change to the content; approval moves leave it alone
+}, (table) => [
+  index("idx_npt_reports_rig_date").on(table.rigId, table.date),
+  index("idx_npt_reports_billing_fingerprint").on(table.billingFingerprint),
+]);
 
-// Workflow Approvals table
+// Legacy approval trail, merged into npt_approvals by scripts/mergeApprovalTrails.ts
 export const workflowApprovals = pgTable("workflow_approvals", {
   id: serial("id").primaryKey(),
   reportId: integer("report_id").references(() => nptReports.id).notNull(),
@@ -126,6 +138,13 @@ export const workflowDefinitions = pgTable("workflow_definitions", {
   id: serial("id").primaryKey(),
   name: varchar("name").notNull(),
   rigId: integer("rig_id").references(() => rigs.id), // null = global default
+  // Match conditions (WorkflowConditions in shared/workflow.ts); null matches any report
+  nptType: varchar("npt_type"),
+  department: varchar("department"),
+  system: varchar("system"),
+  rigSection: varchar("rig_section"), // drilling/hoist
+  minHours: decimal("min_hours", { precision: 10, scale: 2 }),
+  maxHours: decimal("max_hours", { precision: 10, scale: 2 }),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -143,19 +162,76 @@ export const workflowSteps = pgTable("workflow_steps", {
   index("idx_workflow_steps_workflow").on(table.workflowId),
 ]);
 
+// How the steps sharing a step_order are decided; a step_order without a row needs all of its steps
+export const workflowStepGroups = pgTable("workflow_step_groups", {
+  id: serial("id").primaryKey(),
+  workflowId: integer("workflow_id").references(() => workflowDefinitions.id).notNull(),
+  stepOrder: integer("step_order").notNull(),
+  mode: varchar("mode").notNull().default('all'), // STEP_GROUP_MODES in shared/workflow.ts
+  requiredApprovals: integer("required_approvals"), // N for 'quorum' (N of M)
+  // Step SLA; when unset the active pending_approval / over_sla rules in sla_rules apply
+  reminderHours: integer("reminder_hours"), // Remind the approvers once the step has waited this long
+  escalationHours: integer("escalation_hours"), // Then escalate once it has waited this long
+  escalationRoleKey: varchar("escalation_role_key"),
+  escalationUserId: varchar("escalation_user_id").references(() => users.id),
+  escalationMode: varchar("escalation_mode"), // ESCALATION_MODES in shared/workflow.ts; 'add' when unset
+}, (table) => [
+  uniqueIndex("uq_workflow_step_groups_workflow_step").on(table.workflowId, table.stepOrder),
+]);
+
+// Published snapshot of a workflow's steps and groups. Never edited: publishing a change adds
+// the next version, and reports keep the version they were submitted into
+export const workflowVersions = pgTable("workflow_versions", {
+  id: serial("id").primaryKey(),
+  workflowId: integer("workflow_id").references(() => workflowDefinitions.id).notNull(),
+  version: integer("version").notNull(),
+  steps: jsonb("steps").notNull(), // workflow_steps rows as published
+  groups: jsonb("groups").notNull(), // workflow_step_groups rows as published
+  publishedBy: varchar("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_workflow_versions_workflow_version").on(table.workflowId, table.version),
+]);
+
 // Per-report approval trail with enhanced tracking
 export const nptApprovals = pgTable("npt_approvals", {
   id: serial("id").primaryKey(),
   reportId: integer("report_id").references(() => nptReports.id, { onDelete: "cascade" }).notNull(),
-  stepOrder: integer("step_order").notNull(),
+  stepOrder: integer("step_order").notNull(), // 0 for submissions and edits outside a step
   approverUserId: varchar("approver_user_id").references(() => users.id).notNull(),
   delegatedFromUserId: varchar("delegated_from_user_id").references(() => users.id),
-  action: varchar("action").notNull(), // 'APPROVE' | 'REJECT' | 'REQUEST_CHANGES'
+  approverRole: varchar("approver_role"), // Role the step asked for, when there was one
+  action: varchar("action").notNull(), // NPT_ACTIONS in shared/status.ts, or EDIT, MIGRATE, REMIND, ESCALATE
+  fromStatus: varchar("from_status"),
+  toStatus: varchar("to_status"),
   comment: text("comment"),
+  editedFields: jsonb("edited_fields"), // Field names changed by an EDIT
+  previousValues: jsonb("previous_values"), // Their values before the edit
+  fieldComments: jsonb("field_comments"), // REQUEST_CHANGES: NptReviewField -> what to fix
+  legacyWorkflowApprovalId: integer("legacy_workflow_approval_id"), // Set on rows copied from workflow_approvals
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_npt_approvals_report").on(table.reportId),
   index("idx_npt_approvals_approver").on(table.approverUserId),
+  uniqueIndex("uq_npt_approvals_legacy_workflow_approval").on(table.legacyWorkflowApprovalId),
+]);
+
+// Emailed one-click approval links, each tied to a report, step and approver. Invalidated
+// when the report leaves that step or is edited
+export const approvalTokens = pgTable("approval_tokens", {
+  id: serial("id").primaryKey(),
+  tokenHash: varchar("token_hash").notNull(), // sha256 of the link's secret part
+  reportId: integer("report_id").references(() => nptReports.id).notNull(),
+  stepOrder: integer("step_order").notNull(),
+  approverUserId: varchar("approver_user_id").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedAction: varchar("used_action"),
+  invalidatedAt: timestamp("invalidated_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_approval_tokens_hash").on(table.tokenHash),
+  index("idx_approval_tokens_report").on(table.reportId),
 ]);
 
 // Delegations for out-of-office approvals
@@ -168,6 +244,9 @@ export const delegations = pgTable("delegations", {
   rigId: integer("rig_id").references(() => rigs.id), // null = all rigs
   roleKey: varchar("role_key"), // null = all roles
   isActive: boolean("is_active").notNull().default(true),
+  // When both users were told the delegation took effect, and that it ended
+  startNotifiedAt: timestamp("start_notified_at"),
+  endNotifiedAt: timestamp("end_notified_at"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_delegations_delegator").on(table.delegatorUserId),
@@ -216,7 +295,7 @@ export const monthlyReports = pgTable("monthly_reports", {
 export const stageEvents = pgTable("stage_events", {
   id: serial("id").primaryKey(),
   reportId: integer("report_id").references(() => monthlyReports.id).notNull(),
-  stage: varchar("stage").notNull(), // Created, Submitted, Reviewed, Approved, Rejected, Resubmitted
+  stage: varchar("stage").notNull(), // Created, Submitted, Reviewed, Approved, Rejected, Resubmitted, Reopened
   byUser: varchar("by_user").references(() => users.id).notNull(),
   comments: text("comments"),
   previousStage: varchar("previous_stage"),
@@ -238,6 +317,8 @@ export const daySlices = pgTable("day_slices", {
   nptType: varchar("npt_type"), // Contractual, Operational, Abraj
   notes: text("notes"),
   nptReportIds: jsonb("npt_report_ids"), // Array of NPT report IDs for this day
+  zeroNptConfirmedBy: varchar("zero_npt_confirmed_by").references(() => users.id), // Toolpusher who confirmed the day had no NPT
+  zeroNptConfirmedAt: timestamp("zero_npt_confirmed_at"),
   lastUpdated: timestamp("last_updated").defaultNow(),
   updatedBy: varchar("updated_by").references(() => users.id),
 }, (table) => [
@@ -249,7 +330,7 @@ export const daySlices = pgTable("day_slices", {
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
   reportId: integer("report_id").references(() => monthlyReports.id),
-  rule: varchar("rule").notNull(), // pending_approval, over_sla, missing_entry, stalled
+  rule: varchar("rule").notNull(), // pending_approval, over_sla, missing_entry, stalled, delegation
   recipient: varchar("recipient").references(() => users.id).notNull(),
   message: text("message").notNull(),
   channel: varchar("channel").default('email'), // email, in_app, sms
@@ -283,14 +364,29 @@ export const alertRules = pgTable("alert_rules", {
   description: text("description").notNull(),
   thresholdHours: integer("threshold_hours").notNull(),
   enabled: boolean("enabled").default(true),
-  recipients: jsonb("recipients"), // Array of user IDs or roles
-  emailTemplate: text("email_template"),
+  recipients: jsonb("recipients"), // Array of user IDs, role keys (via role assignments), app roles or 'creator'
+  emailTemplate: text("email_template"), // Message with {{month}}, {{rig}}, {{hours}}, {{days}}, {{date}}... placeholders
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_alert_rules_enabled").on(table.enabled),
 ]);
 
+// Scheduled Jobs - one row per background job: the run lock and the outcome of the last run
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: varchar("name").primaryKey(), // sla_alerts, stall_alerts, missing_entries
+  lockedBy: varchar("locked_by"), // Process holding the lock while a run is in progress
+  lockedUntil: timestamp("locked_until"), // Lock lease; an expired lease may be taken over
+  nextRunAt: timestamp("next_run_at"),
+  lastStartedAt: timestamp("last_started_at"),
+  lastFinishedAt: timestamp("last_finished_at"),
+  lastStatus: varchar("last_status"), // success, failed
+  lastError: text("last_error"),
+  lastResult: jsonb("last_result"), // What the run did, e.g. notifications sent
+  runCount: integer("run_count").default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 
 
 // SLA Configuration (keeping existing for compatibility)
@@ -306,6 +402,60 @@ export const slaRules = pgTable("sla_rules", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Billing sheet uploads - original file fingerprint plus the processing summary
+export const billingUploads = pgTable("billing_uploads", {
+  id: serial("id").primaryKey(),
+  fileName: varchar("file_name").notNull(),
+  fileHash: varchar("file_hash", { length: 64 }).notNull(), // SHA-256 of the uploaded file
+  fileSize: integer("file_size"),
+  uploadedBy: varchar("uploaded_by").references(() => users.id).notNull(),
+  rigId: integer("rig_id").references(() => rigs.id),
+  rigNumber: varchar("rig_number"), // As detected in the sheet, even if no rig matches
+  status: varchar("status").notNull().default('Completed'), // Completed, Failed
+  totalRows: integer("total_rows").default(0),
+  processedRows: integer("processed_rows").default(0),
+  errors: jsonb("errors"), // Array of row-level processing errors
+  recognitionSummary: jsonb("recognition_summary"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_billing_uploads_hash").on(table.fileHash),
+  index("idx_billing_uploads_uploaded_by").on(table.uploadedBy),
+  index("idx_billing_uploads_created").on(table.createdAt),
+]);
+
+// Extracted billing rows - one per BillingSheetRow, kept for re-review and later conversion
+export const billingUploadRows = pgTable("billing_upload_rows", {
+  id: serial("id").primaryKey(),
+  uploadId: integer("upload_id").references(() => billingUploads.id, { onDelete: 'cascade' }).notNull(),
+  rowIndex: integer("row_index").notNull(),
+  rigNumber: varchar("rig_number"),
+  date: date("date"),
+  hours: decimal("hours", { precision: 5, scale: 2 }),
+  rateType: varchar("rate_type"),
+  nbtType: varchar("nbt_type"),
+  description: text("description"),
+  data: jsonb("data").notNull(), // Full BillingSheetRow as extracted
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_billing_upload_rows_upload").on(table.uploadId, table.rowIndex),
+]);
+
+// Column mapping profiles for client Excel billing sheets
+export const billingColumnProfiles = pgTable("billing_column_profiles", {
+  id: serial("id").primaryKey(),
+  name: varchar("name").notNull(),
+  client: varchar("client"), // Matches rigs.client
+  sheetName: varchar("sheet_name"), // Null uses the first sheet
+  headerRow: integer("header_row"), // 1-based; null auto-detects
+  columnMap: jsonb("column_map").notNull(), // BillingColumnMap: field -> header text
+  isActive: boolean("is_active").default(true),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_billing_column_profiles_client").on(table.client),
+]);
+
 // Reference data tables
 export const systems = pgTable("systems", {
   id: serial("id").primaryKey(),
@@ -332,6 +482,68 @@ export const actionParties = pgTable("action_parties", {
   isActive: boolean("is_active").default(true),
 });
 
+// Billing recognition dictionary: keywords found in billing descriptions and what they identify
+export const recognitionKeywords = pgTable("recognition_keywords", {
+  id: serial("id").primaryKey(),
+  category: varchar("category").notNull(), // 'rate_type' | 'system' | 'equipment' | 'failure'
+  keyword: varchar("keyword").notNull(), // Lower case; matched as whole words
+  rateType: varchar("rate_type"), // rate_type entries: 'Repair Rate', 'Reduce Repair Rate', 'Zero Rate', 'Operation Rate'
+  nbtType: varchar("nbt_type"), // rate_type entries: 'Abroad' | 'Contractual'
+  systemId: integer("system_id").references(() => systems.id),
+  equipmentId: integer("equipment_id").references(() => equipment.id),
+  label: varchar("label"), // Name used when no system/equipment is linked; failure entries' wording
+  priority: integer("priority").default(0), // Higher wins when several entries match
+  isActive: boolean("is_active").default(true),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_recognition_keywords_category").on(table.category),
+  uniqueIndex("uq_recognition_keywords_category_keyword").on(table.category, table.keyword),
+]);
+
+// Other ways a rig is written in billing sheets, tickets and imports ("Hoist 1", "RABA_12", ...)
+export const rigAliases = pgTable("rig_aliases", {
+  id: serial("id").primaryKey(),
+  rigId: integer("rig_id").references(() => rigs.id, { onDelete: 'cascade' }).notNull(),
+  alias: varchar("alias").notNull(), // As entered
+  normalizedAlias: varchar("normalized_alias").notNull(), // Lower case, punctuation collapsed to single spaces
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_rig_aliases_normalized_alias").on(table.normalizedAlias),
+  index("idx_rig_aliases_rig").on(table.rigId),
+]);
+
+// Reviewer explanations for days where billed NPT hours and NPT reports disagree
+export const billingReconciliationNotes = pgTable("billing_reconciliation_notes", {
+  id: serial("id").primaryKey(),
+  rigId: integer("rig_id").references(() => rigs.id).notNull(),
+  month: varchar("month", { length: 7 }).notNull(), // YYYY-MM
+  date: date("date").notNull(), // Day the variance is on
+  rateType: varchar("rate_type"), // Null explains the whole day
+  explanation: text("explanation").notNull(),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_billing_reconciliation_notes_rig_month").on(table.rigId, table.month),
+]);
+
+// NPT field values suggested for a report created from a billing row, next to what the reviewer kept
+export const nptSuggestionFeedback = pgTable("npt_suggestion_feedback", {
+  id: serial("id").primaryKey(),
+  reportId: integer("report_id").references(() => nptReports.id, { onDelete: 'cascade' }).notNull(),
+  description: text("description").notNull(), // Billing description the suggestion was made from
+  source: varchar("source").notNull(), // 'rules' | 'history'
+  matchedReportId: integer("matched_report_id").references(() => nptReports.id, { onDelete: 'set null' }),
+  similarity: decimal("similarity", { precision: 4, scale: 3 }),
+  suggested: jsonb("suggested").notNull(), // NptSuggestionFields as prefilled
+  final: jsonb("final").notNull(), // NptSuggestionFields as last saved on the report
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_npt_suggestion_feedback_report").on(table.reportId),
+]);
+
 // Relations
 export const userRelations = relations(users, ({ one, many }) => ({
   rig: one(rigs, {
@@ -357,6 +569,59 @@ export const nptReportRelations = relations(nptReports, ({ one }) => ({
   }),
 }));
 
+export const workflowDefinitionRelations = relations(workflowDefinitions, ({ many }) => ({
+  steps: many(workflowSteps),
+  groups: many(workflowStepGroups),
+  versions: many(workflowVersions),
+}));
+
+export const workflowStepRelations = relations(workflowSteps, ({ one }) => ({
+  workflow: one(workflowDefinitions, {
+    fields: [workflowSteps.workflowId],
+    references: [workflowDefinitions.id],
+  }),
+}));
+
+export const workflowStepGroupRelations = relations(workflowStepGroups, ({ one }) => ({
+  workflow: one(workflowDefinitions, {
+    fields: [workflowStepGroups.workflowId],
+    references: [workflowDefinitions.id],
+  }),
+}));
+
+export const workflowVersionRelations = relations(workflowVersions, ({ one }) => ({
+  workflow: one(workflowDefinitions, {
+    fields: [workflowVersions.workflowId],
+    references: [workflowDefinitions.id],
+  }),
+  publisher: one(users, {
+    fields: [workflowVersions.publishedBy],
+    references: [users.id],
+  }),
+}));
+
+export const nptApprovalRelations = relations(nptApprovals, ({ one }) => ({
+  report: one(nptReports, {
+    fields: [nptApprovals.reportId],
+    references: [nptReports.id],
+  }),
+}));
+
+export const delegationRelations = relations(delegations, ({ one }) => ({
+  delegator: one(users, {
+    fields: [delegations.delegatorUserId],
+    references: [users.id],
+  }),
+  delegate: one(users, {
+    fields: [delegations.delegateUserId],
+    references: [users.id],
+  }),
+  rig: one(rigs, {
+    fields: [delegations.rigId],
+    references: [rigs.id],
+  }),
+}));
+
 export const systemRelations = relations(systems, ({ many }) => ({
   equipment: many(equipment),
 }));
@@ -431,6 +696,25 @@ export const reportDeliveryRelations = relations(reportDeliveries, ({ one }) =>
   }),
 }));
 
+export const billingUploadRelations = relations(billingUploads, ({ one, many }) => ({
+  uploader: one(users, {
+    fields: [billingUploads.uploadedBy],
+    references: [users.id],
+  }),
+  rig: one(rigs, {
+    fields: [billingUploads.rigId],
+    references: [rigs.id],
+  }),
+  rows: many(billingUploadRows),
+}));
+
+export const billingUploadRowRelations = relations(billingUploadRows, ({ one }) => ({
+  upload: one(billingUploads, {
+    fields: [billingUploadRows.uploadId],
+    references: [billingUploads.id],
+  }),
+}));
+
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -442,6 +726,7 @@ export const insertNptReportSchema = createInsertSchema(nptReports).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  editedAt: true,
   year: true,  // Remove from required fields - will be derived server-side
   month: true, // Remove from required fields - will be derived server-side
 }).extend({
@@ -503,6 +788,40 @@ export const insertActionPartySchema = createInsertSchema(actionParties).omit({
   id: true,
 });
 
+export const insertRecognitionKeywordSchema = createInsertSchema(recognitionKeywords).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  category: z.enum(["rate_type", "system", "equipment", "failure"]),
+  keyword: z.string().trim().min(1, "Keyword is required").transform(keyword => keyword.toLowerCase()),
+});
+
+export const insertRigAliasSchema = createInsertSchema(rigAliases).omit({
+  id: true,
+  normalizedAlias: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  alias: z.string().trim().min(1, "Alias is required"),
+});
+
+export const insertBillingReconciliationNoteSchema = createInsertSchema(billingReconciliationNotes).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Month must be YYYY-MM"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  explanation: z.string().trim().min(1, "Explanation is required"),
+});
+
+export const insertNptSuggestionFeedbackSchema = createInsertSchema(nptSuggestionFeedback).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertMonthlyReportSchema = createInsertSchema(monthlyReports).omit({
   id: true,
   createdAt: true,
@@ -550,6 +869,10 @@ export const insertWorkflowStepSchema = createInsertSchema(workflowSteps).omit({
   id: true,
 });
 
+export const insertWorkflowStepGroupSchema = createInsertSchema(workflowStepGroups).omit({
+  id: true,
+});
+
 export const insertNptApprovalSchema = createInsertSchema(nptApprovals).omit({
   id: true,
   createdAt: true,
@@ -565,6 +888,27 @@ export const insertRoleAssignmentSchema = createInsertSchema(roleAssignments).om
   createdAt: true,
 });
 
+export const insertBillingUploadSchema = createInsertSchema(billingUploads).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBillingUploadRowSchema = createInsertSchema(billingUploadRows).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBillingColumnProfileSchema = createInsertSchema(billingColumnProfiles).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Profile name is required"),
+  headerRow: z.number().int().min(1).nullable().optional(),
+  columnMap: z.record(z.string(), z.string()),
+});
+
 
 
 // Types
@@ -585,6 +929,14 @@ export type Department = typeof departments.$inferSelect;
 export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
 export type ActionParty = typeof actionParties.$inferSelect;
 export type InsertActionParty = z.infer<typeof insertActionPartySchema>;
+export type RecognitionKeyword = typeof recognitionKeywords.$inferSelect;
+export type InsertRecognitionKeyword = z.infer<typeof insertRecognitionKeywordSchema>;
+export type RigAlias = typeof rigAliases.$inferSelect;
+export type InsertRigAlias = z.infer<typeof insertRigAliasSchema>;
+export type BillingReconciliationNote = typeof billingReconciliationNotes.$inferSelect;
+export type InsertBillingReconciliationNote = z.infer<typeof insertBillingReconciliationNoteSchema>;
+export type NptSuggestionFeedback = typeof nptSuggestionFeedback.$inferSelect;
+export type InsertNptSuggestionFeedback = z.infer<typeof insertNptSuggestionFeedbackSchema>;
 
 // Lifecycle tracking types
 export type MonthlyReport = typeof monthlyReports.$inferSelect;
@@ -601,15 +953,29 @@ export type ReportDelivery = typeof reportDeliveries.$inferSelect;
 export type InsertReportDelivery = z.infer<typeof insertReportDeliverySchema>;
 export type AlertRule = typeof alertRules.$inferSelect;
 export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
 
 // Enhanced workflow types for delegation system
 export type WorkflowDefinition = typeof workflowDefinitions.$inferSelect;
 export type InsertWorkflowDefinition = typeof workflowDefinitions.$inferInsert;
 export type WorkflowStep = typeof workflowSteps.$inferSelect;
 export type InsertWorkflowStep = typeof workflowSteps.$inferInsert;
+export type WorkflowStepGroup = typeof workflowStepGroups.$inferSelect;
+export type InsertWorkflowStepGroup = typeof workflowStepGroups.$inferInsert;
+export type WorkflowVersion = typeof workflowVersions.$inferSelect;
+export type InsertWorkflowVersion = typeof workflowVersions.$inferInsert;
 export type NptApproval = typeof nptApprovals.$inferSelect;
 export type InsertNptApproval = typeof nptApprovals.$inferInsert;
+export type ApprovalToken = typeof approvalTokens.$inferSelect;
 export type Delegation = typeof delegations.$inferSelect;
 export type InsertDelegation = typeof delegations.$inferInsert;
 export type RoleAssignment = typeof roleAssignments.$inferSelect;
 export type InsertRoleAssignment = typeof roleAssignments.$inferInsert;
+
+// Billing upload types
+export type BillingUpload = typeof billingUploads.$inferSelect;
+export type InsertBillingUpload = z.infer<typeof insertBillingUploadSchema>;
+export type BillingUploadRow = typeof billingUploadRows.$inferSelect;
+export type InsertBillingUploadRow = z.infer<typeof insertBillingUploadRowSchema>;
+export type BillingColumnProfile = typeof billingColumnProfiles.$inferSelect;
+export type InsertBillingColumnProfile = z.infer<typeof insertBillingColumnProfileSchema>;
@@ -1,8 +1,94 @@
 export const NPT_STATUS = {
   DRAFT: "Draft",
   PENDING_REVIEW: "Pending Review",
-  APPROVED: "Approved", 
+  APPROVED: "Approved",
   REJECTED: "Rejected",
 } as const;
 
-export type NptStatus = typeof NPT_STATUS[keyof typeof NPT_STATUS];
\ No newline at end of file
+export type NptStatus = typeof NPT_STATUS[keyof typeof NPT_STATUS];
+
+// Actions that move an NPT report through approval
+export const NPT_ACTIONS = {
+  SUBMIT: "SUBMIT",
+  APPROVE: "APPROVE",
+  REJECT: "REJECT",
+  REQUEST_CHANGES: "REQUEST_CHANGES",
+} as const;
+
+export type NptAction = typeof NPT_ACTIONS[keyof typeof NPT_ACTIONS];
+
+// Every status change an NPT report can make. APPROVE reaches Approved only on the last
+// workflow step; approving an earlier step keeps the report in Pending Review.
+export const NPT_TRANSITIONS: Record<NptStatus, Partial<Record<NptAction, NptStatus>>> = {
+  [NPT_STATUS.DRAFT]: { SUBMIT: NPT_STATUS.PENDING_REVIEW },
+  [NPT_STATUS.PENDING_REVIEW]: {
+    APPROVE: NPT_STATUS.APPROVED,
+    REJECT: NPT_STATUS.REJECTED,
+    REQUEST_CHANGES: NPT_STATUS.DRAFT,
+  },
+  [NPT_STATUS.APPROVED]: {},
+  [NPT_STATUS.REJECTED]: {},
+};
+
+// Spellings written by older approval code ("PENDING_REVIEW", "Pending", "approved", ...)
+const LEGACY_STATUSES: Record<string, NptStatus> = {
+  draft: NPT_STATUS.DRAFT,
+  pending: NPT_STATUS.PENDING_REVIEW,
+  pendingreview: NPT_STATUS.PENDING_REVIEW,
+  pendingapproval: NPT_STATUS.PENDING_REVIEW,
+  submitted: NPT_STATUS.PENDING_REVIEW,
+  approved: NPT_STATUS.APPROVED,
+  rejected: NPT_STATUS.REJECTED,
+};
+
+export function normalizeNptStatus(status: string | null | undefined): NptStatus {
+  const key = (status || "").toLowerCase().replace(/[^a-z]/g, "");
+  return LEGACY_STATUSES[key] ?? NPT_STATUS.DRAFT;
+}
+
+export function nextNptStatus(status: string | null | undefined, action: NptAction): NptStatus | undefined {
+  return NPT_TRANSITIONS[normalizeNptStatus(status)][action];
+}
+
+// Report fields an approver can comment on when requesting changes
+export const NPT_REVIEW_FIELDS = {
+  date: "Date",
+  hours: "Hours",
+  nptType: "NPT Type",
+  system: "System",
+  parentEquipment: "Equipment",
+  partEquipment: "Part",
+  contractualProcess: "Contractual Process",
+  department: "Department",
+  immediateCause: "Immediate Cause",
+  rootCause: "Root Cause",
+  correctiveAction: "Corrective Action",
+  futureAction: "Future Action",
+  actionParty: "Action Party",
+  notificationNumber: "Notification Number",
+  investigationReport: "Investigation Report",
+  n2Number: "N2 Number",
+  wellName: "Well Name",
+} as const;
+
+export type NptReviewField = keyof typeof NPT_REVIEW_FIELDS;
+
+// One field of a report sent back for changes: what the approver saw, what it holds now
+export interface NptFieldChange {
+  field: NptReviewField;
+  label: string;
+  reviewed: unknown;
+  current: unknown;
+  changed: boolean;
+  comment: string | null;
+}
+
+// The latest change request on a report and how the report has changed since
+export interface NptChangeRequestDiff {
+  requestedAt: string | Date | null;
+  requestedBy: string;
+  requestedByName: string | null;
+  comment: string | null;
+  resubmitted: boolean;
+  fields: NptFieldChange[];
+}
@@ -1,6 +1,6 @@
 // Workflow management constants and types
 
-export const NPT_STATUS = { DRAFT:"DRAFT", PENDING_REVIEW:"PENDING_REVIEW", APPROVED:"APPROVED", REJECTED:"REJECTED" } as const;
+export { NPT_STATUS, type NptStatus } from "./status";
 export const ROLE_KEYS = ["toolpusher","e_maintenance","ds","osc"] as const;
 export type RoleKey = typeof ROLE_KEYS[number];
 
@@ -11,7 +11,24 @@ export const ROLE_LABELS: Record<RoleKey, string> = {
   osc: 'Operations Support Coordinator'
 };
 
-export type NptStatus = typeof NPT_STATUS[keyof typeof NPT_STATUS];
+// Steps sharing a stepOrder are reviewed in parallel; the group's mode says how many must approve
+export const STEP_GROUP_MODES = ["all", "any", "quorum"] as const;
+export type StepGroupMode = typeof STEP_GROUP_MODES[number];
+
+export const STEP_GROUP_MODE_LABELS: Record<StepGroupMode, string> = {
+  all: 'All must approve',
+  any: 'Any one approves',
+  quorum: 'N of M approve'
+};
+
+// What escalating a stalled step does with the escalation approver
+export const ESCALATION_MODES = ["add", "reassign"] as const;
+export type EscalationMode = typeof ESCALATION_MODES[number];
+
+export const ESCALATION_MODE_LABELS: Record<EscalationMode, string> = {
+  add: 'Add as approver',
+  reassign: 'Reassign step'
+};
 
 // Workflow step configuration
 export interface WorkflowStepConfig {
@@ -39,7 +56,7 @@ export const DEFAULT_APPROVAL_WORKFLOW: WorkflowStepConfig[] = [
   {
     stepOrder: 3,
     approverType: 'role', 
-    roleKey: 'ose',
+    roleKey: 'osc',
     isRequired: true
   }
 ];
@@ -67,7 +84,107 @@ export const E_MAINTENANCE_WORKFLOW: WorkflowStepConfig[] = [
   {
     stepOrder: 4,
     approverType: 'role',
-    roleKey: 'ose',
+    roleKey: 'osc',
     isRequired: true
   }
-];
\ No newline at end of file
+];
+
+// Conditions a workflow definition can carry; unset conditions match any report
+export interface WorkflowConditions {
+  rigId?: number | null;
+  nptType?: string | null;
+  department?: string | null;
+  system?: string | null;
+  rigSection?: string | null;
+  minHours?: string | number | null;
+  maxHours?: string | number | null;
+}
+
+// What a report offers for matching; rigSection comes from its rig
+export interface WorkflowSubject {
+  rigId: number;
+  nptType?: string | null;
+  department?: string | null;
+  system?: string | null;
+  rigSection?: string | null;
+  hours: string | number;
+}
+
+const sameText = (a?: string | null, b?: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Check a report against a workflow's conditions. Returns one reason per condition that
+ * applied, so the count doubles as the match's specificity, or null when any condition fails.
+ */
+export function matchWorkflowConditions(conditions: WorkflowConditions, subject: WorkflowSubject): string[] | null {
+  const reasons: string[] = [];
+  const hours = Number(subject.hours);
+
+  if (conditions.rigId != null) {
+    if (conditions.rigId !== subject.rigId) return null;
+    reasons.push('rig-specific');
+  }
+  if (conditions.nptType) {
+    if (!sameText(conditions.nptType, subject.nptType)) return null;
+    reasons.push(`NPT type ${conditions.nptType}`);
+  }
+  if (conditions.department) {
+    if (!sameText(conditions.department, subject.department)) return null;
+    reasons.push(`department ${conditions.department}`);
+  }
+  if (conditions.system) {
+    if (!sameText(conditions.system, subject.system)) return null;
+    reasons.push(`system ${conditions.system}`);
+  }
+  if (conditions.rigSection) {
+    if (!sameText(conditions.rigSection, subject.rigSection)) return null;
+    reasons.push(`${conditions.rigSection} rig`);
+  }
+  if (conditions.minHours != null && conditions.minHours !== '') {
+    if (!(hours >= Number(conditions.minHours))) return null;
+    reasons.push(`${hours}h ≥ ${Number(conditions.minHours)}h`);
+  }
+  if (conditions.maxHours != null && conditions.maxHours !== '') {
+    if (!(hours <= Number(conditions.maxHours))) return null;
+    reasons.push(`${hours}h ≤ ${Number(conditions.maxHours)}h`);
+  }
+
+  return reasons;
+}
+
+// A problem found by validating or simulating a workflow
+export interface WorkflowIssue {
+  level: 'error' | 'warning';
+  message: string;
+  stepOrder?: number;
+  rigId?: number;
+}
+
+// One approver slot of a simulated step and who it resolved to
+export interface SimulatedApprover {
+  approverType: 'role' | 'user';
+  roleKey?: string | null;
+  userId?: string | null;
+  isRequired: boolean;
+  nominalUserId: string | null;
+  effectiveUserId: string | null;
+  delegationChain: string[]; // Nominal approver first, then each delegate in turn
+}
+
+export interface SimulatedStep {
+  stepOrder: number;
+  mode: StepGroupMode;
+  approvalsNeeded: number;
+  approvers: SimulatedApprover[];
+  issues: WorkflowIssue[];
+}
+
+// The route a sample report would take: which workflow it selects and who each step reaches
+export interface WorkflowSimulation {
+  workflowId: number | null;
+  workflowName: string | null;
+  reason: string;
+  steps: SimulatedStep[];
+  issues: WorkflowIssue[];
+}